@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { LandingPage } from './components/LandingPage';
 import { Header } from './components/Header';
 import { Canvas } from './components/Canvas';
@@ -6,26 +6,51 @@ import { ToolPanel } from './components/ToolPanel';
 import { LayerPanel } from './components/LayerPanel';
 import { DropZone } from './components/DropZone';
 import { ExportModal, ExportOptions } from './components/ExportModal';
+import { CanvasSizeDialog } from './components/CanvasSizeDialog';
+import { ImageSizeDialog } from './components/ImageSizeDialog';
 import { BeforeAfterCompare } from './components/BeforeAfterCompare';
 import { Histogram } from './components/Histogram';
 import { CurvesPanel } from './components/CurvesPanel';
 import { PerformanceStats } from './components/PerformanceStats';
+import { HistoryPanel } from './components/HistoryPanel';
 import { KeyboardShortcuts } from './components/KeyboardShortcuts';
 import { ManualCrop } from './components/ManualCrop';
+import { RefineMaskDialog } from './components/RefineMaskDialog';
+import { ReplaceBackgroundDialog } from './components/ReplaceBackgroundDialog';
 import { StyleTransfer } from './components/StyleTransfer';
 import { BatchProcessor } from './components/BatchProcessor';
 import { TextManager } from './components/TextManager';
+import { EditorToolbar } from './components/EditorToolbar';
 import { useImageEditor } from './hooks/useImageEditor';
 import { exportAdvanced } from './services/advancedExport';
+import { CompositionOptions, ExportScope, getCompositionSize, renderComposition, renderLayerFrames } from './services/compositor';
+import { createDefaultCurves } from './services/curves';
+import { PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { CropRequest } from './services/crop';
+import { CanvasAnchor } from './services/documentSize';
+import { getRecipeWatermark, RecipeSource, RecipeWatermark } from './services/batchRecipe';
+import { AppliedStyle } from './services/stylePresets';
+import { hasActiveMask } from './services/layerMask';
+import { CurvesState, DocumentBackground } from './types/editor';
+
+const defaultCurves = createDefaultCurves();
 
 function App() {
   const {
     image,
     layers,
     activeLayerId,
+    documentSize,
+    documentBackground,
+    documentOperations,
     imageState,
     canUndo,
     canRedo,
+    historySteps,
+    historyIndex,
+    historyMemory,
+    historyMemoryLimit,
+    jumpToStep,
     zoom,
     pan,
     isLoading,
@@ -39,13 +64,21 @@ function App() {
     undo,
     redo,
     resetImage,
-    exportImage,
+    saveProject,
     setZoom,
     setPan,
     handleRemoveBackground,
+    backgroundRefine,
+    applyBackgroundRefine,
+    cancelBackgroundRefine,
+    handleReplaceBackground,
+    backgroundReplace,
+    applyBackgroundReplace,
+    cancelBackgroundReplace,
     handleAutoEnhance,
     handleSharpenImage,
     handleAutoCrop,
+    applyCrop,
     handleColorPalette,
     colorPalette,
     paletteStats,
@@ -54,7 +87,24 @@ function App() {
     vignetteRadius,
     updateVignette,
     processingTimes,
-    textElements
+    textElements,
+    activeTool,
+    setActiveTool,
+    selection,
+    setSelection,
+    selectionMode,
+    setSelectionMode,
+    wandOptions,
+    setWandOptions,
+    selectionOperations,
+    maskBrushOptions,
+    setMaskBrushOptions,
+    maskOperations,
+    brushOptions,
+    setBrushOptions,
+    paintLayer,
+    copyToClipboard,
+    pasteFromClipboard
   } = useImageEditor();
 
   const [showLanding, setShowLanding] = useState(true);
@@ -65,8 +115,12 @@ function App() {
   const [showHistogram, setShowHistogram] = useState(false);
   const [showCurves, setShowCurves] = useState(false);
   const [showPerformanceStats, setShowPerformanceStats] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [appliedStyle, setAppliedStyle] = useState<AppliedStyle | null>(null);
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
   const [showManualCrop, setShowManualCrop] = useState(false);
+  const [showCanvasSize, setShowCanvasSize] = useState(false);
+  const [showImageSize, setShowImageSize] = useState(false);
   const [showStyleTransfer, setShowStyleTransfer] = useState(false);
   const [showBatchProcessor, setShowBatchProcessor] = useState(false);
   const [showTextManager, setShowTextManager] = useState(false);
@@ -104,17 +158,32 @@ function App() {
     setShowExportModal(true);
   }, []);
 
+  // Exports render offscreen at native resolution, not from the on-screen canvas
+  const getCompositionOptions = useCallback((scope: ExportScope): CompositionOptions => ({
+    documentSize: documentSize ?? { width: 0, height: 0 },
+    scope,
+    activeLayerId,
+    selection,
+    background: documentBackground,
+    vignette: { intensity: vignetteIntensity, radius: vignetteRadius }
+  }), [documentSize, activeLayerId, selection, documentBackground, vignetteIntensity, vignetteRadius]);
+
+  const getExportSize = useCallback((scope: ExportScope) => {
+    return getCompositionSize(layers, getCompositionOptions(scope));
+  }, [layers, getCompositionOptions]);
+
   const handleAdvancedExport = useCallback(async (options: ExportOptions) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvasRef.current) return;
 
     try {
-      await exportAdvanced(canvas, options);
+      const compositionOptions = getCompositionOptions(options.scope);
+      const composition = renderComposition(layers, compositionOptions);
+      await exportAdvanced(composition, options, layers, () => renderLayerFrames(layers, compositionOptions));
     } catch (error) {
       console.error('Export failed:', error);
-      alert('Export failed. Please try again.');
+      alert(error instanceof Error ? error.message : 'Export failed. Please try again.');
     }
-  }, [canvasRef]);
+  }, [canvasRef, layers, getCompositionOptions]);
 
   const handleZoomIn = useCallback(() => {
     setZoom(prev => Math.min(5, prev * 1.2));
@@ -136,7 +205,7 @@ function App() {
   const handleOpenFile = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'image/*';
+    input.accept = `image/*,${PROJECT_FILE_EXTENSION}`;
     input.multiple = true;
     input.onchange = (e) => {
       const files = Array.from((e.target as HTMLInputElement).files || []);
@@ -148,14 +217,12 @@ function App() {
   }, [handleFileSelect]);
 
   const handleCopy = useCallback(() => {
-    // Implement copy functionality
-    console.log('Copy functionality to be implemented');
-  }, []);
+    copyToClipboard();
+  }, [copyToClipboard]);
 
   const handlePaste = useCallback(() => {
-    // Implement paste functionality
-    console.log('Paste functionality to be implemented');
-  }, []);
+    pasteFromClipboard();
+  }, [pasteFromClipboard]);
 
   const handleDelete = useCallback(() => {
     if (activeLayerId) {
@@ -164,26 +231,42 @@ function App() {
   }, [activeLayerId, layerOperations]);
 
   const handleSelectAll = useCallback(() => {
-    // Implement select all functionality
-    console.log('Select all functionality to be implemented');
-  }, []);
+    selectionOperations.selectAll();
+  }, [selectionOperations]);
 
   const handleSave = useCallback(() => {
-    exportImage();
-  }, [exportImage]);
+    saveProject();
+  }, [saveProject]);
 
-  const handleCurvesChange = useCallback((curves: any) => {
-    // Implement curves functionality
-    console.log('Curves change:', curves);
-  }, []);
+  const handleCurvesChange = useCallback((curves: CurvesState) => {
+    // Each point drag sends many updates; they merge into one history step
+    updateImageState({ curves }, undefined, 'curves');
+  }, [updateImageState]);
 
-  const handleCropApply = useCallback((bounds: any) => {
-    console.log('Crop applied:', bounds);
+  const handleCropApply = useCallback((request: CropRequest) => {
+    applyCrop(request);
     setShowManualCrop(false);
-  }, []);
+  }, [applyCrop]);
+
+  // The background is its own step, ahead of the resize, so the resize fills by the new choice
+  const handleCanvasSizeApply = useCallback((
+    width: number,
+    height: number,
+    anchor: CanvasAnchor,
+    extensionColor: string,
+    background: DocumentBackground
+  ) => {
+    if (JSON.stringify(background) !== JSON.stringify(documentBackground)) {
+      documentOperations.setBackground(background);
+    }
+    if (documentSize && (width !== documentSize.width || height !== documentSize.height)) {
+      documentOperations.resizeCanvas(width, height, anchor, extensionColor);
+    }
+  }, [documentBackground, documentSize, documentOperations]);
 
-  const handleStyleTransferApply = useCallback((styledImageData: ImageData) => {
+  const handleStyleTransferApply = useCallback((styledImageData: ImageData, style: AppliedStyle) => {
     if (!activeLayerId) return;
+    setAppliedStyle(style);
     
     // Create new image from styled data
     const canvas = document.createElement('canvas');
@@ -194,11 +277,34 @@ function App() {
     
     const styledImage = new Image();
     styledImage.onload = () => {
-      layerOperations.updateLayerImage(activeLayerId, styledImage);
+      layerOperations.updateLayerImage(activeLayerId, styledImage, 'Style Transfer');
     };
     styledImage.src = canvas.toDataURL();
   }, [activeLayerId, layerOperations]);
 
+  // Replacing the background needs the cutout mask that Remove Background leaves
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
+  const canReplaceBackground = !!activeLayer && hasActiveMask(activeLayer);
+
+  // The open document's look, offered to the batch processor for saving as a recipe.
+  // Text layers are the watermark candidates.
+  const recipeSource = useMemo((): RecipeSource | undefined => {
+    if (!showBatchProcessor || !documentSize) return undefined;
+
+    const documentLayout = { layers, ...documentSize };
+    return {
+      imageState: layers[0].imageState,
+      vignetteIntensity,
+      vignetteRadius,
+      style: appliedStyle,
+      watermarks: layers.slice(1)
+        .map(layer => {
+          const textData = textElements.get(layer.id);
+          return textData ? getRecipeWatermark(documentLayout, layer, textData) : null;
+        })
+        .filter((watermark): watermark is RecipeWatermark => !!watermark)
+    };
+  }, [showBatchProcessor, documentSize, layers, textElements, vignetteIntensity, vignetteRadius, appliedStyle]);
 
   const handleKeyboardShortcut = useCallback((key: string) => {
     if (key === 't') {
@@ -246,10 +352,16 @@ function App() {
                   imageState={imageState}
                   onUpdateState={updateImageState}
                   onRemoveBackground={handleRemoveBackground}
+                  onReplaceBackground={handleReplaceBackground}
+                  canReplaceBackground={canReplaceBackground}
                   isProcessingBackground={isProcessingBackground}
                   onAutoEnhance={handleAutoEnhance}
                   onSharpenImage={handleSharpenImage}
                   onAutoCrop={handleAutoCrop}
+                  onManualCrop={() => setShowManualCrop(true)}
+                  onCanvasSize={() => setShowCanvasSize(true)}
+                  onImageSize={() => setShowImageSize(true)}
+                  onTrim={documentOperations.trimTransparent}
                   onColorPalette={handleColorPalette}
                   isMobile={true}
                   isOpen={isMobileMenuOpen}
@@ -257,6 +369,8 @@ function App() {
                   vignetteIntensity={vignetteIntensity}
                   vignetteRadius={vignetteRadius}
                   onVignetteChange={updateVignette}
+                  hasSelection={!!selection}
+                  onLimitToSelectionChange={selectionOperations.setLimitToSelection}
                 />
               </div>
             </div>
@@ -268,10 +382,16 @@ function App() {
               imageState={imageState}
               onUpdateState={updateImageState}
               onRemoveBackground={handleRemoveBackground}
+              onReplaceBackground={handleReplaceBackground}
+              canReplaceBackground={canReplaceBackground}
               isProcessingBackground={isProcessingBackground}
               onAutoEnhance={handleAutoEnhance}
               onSharpenImage={handleSharpenImage}
               onAutoCrop={handleAutoCrop}
+              onManualCrop={() => setShowManualCrop(true)}
+              onCanvasSize={() => setShowCanvasSize(true)}
+              onImageSize={() => setShowImageSize(true)}
+              onTrim={documentOperations.trimTransparent}
               onColorPalette={handleColorPalette}
               isMobile={false}
               isOpen={false}
@@ -279,11 +399,29 @@ function App() {
               vignetteIntensity={vignetteIntensity}
               vignetteRadius={vignetteRadius}
               onVignetteChange={updateVignette}
+              hasSelection={!!selection}
+              onLimitToSelectionChange={selectionOperations.setLimitToSelection}
             />
           )}
 
           {/* Center - Canvas Area */}
           {image ? (
+            <div className="flex-1 flex flex-col min-w-0">
+            <EditorToolbar
+              activeTool={activeTool}
+              onToolChange={setActiveTool}
+              selectionMode={selectionMode}
+              onSelectionModeChange={setSelectionMode}
+              wandOptions={wandOptions}
+              onWandOptionsChange={setWandOptions}
+              hasSelection={!!selection}
+              onSelectAll={selectionOperations.selectAll}
+              onDeselect={selectionOperations.deselect}
+              onInvert={selectionOperations.invert}
+              brushOptions={brushOptions}
+              onBrushOptionsChange={setBrushOptions}
+              isLayerLocked={!!layers.find(layer => layer.id === activeLayerId)?.locked}
+            />
             <Canvas
               image={image}
               layers={layers}
@@ -292,7 +430,7 @@ function App() {
               pan={pan}
               canvasRef={canvasRef}
               activeLayerId={activeLayerId}
-              onLayerPositionChange={layerOperations.updateLayerPosition}
+              onLayerTransformChange={layerOperations.updateLayerTransform}
               onZoomChange={setZoom}
               onPanChange={setPan}
               colorPalette={colorPalette}
@@ -300,7 +438,20 @@ function App() {
               onClearColorPalette={clearColorPalette}
               vignetteIntensity={vignetteIntensity}
               vignetteRadius={vignetteRadius}
+              activeTool={activeTool}
+              selection={selection}
+              selectionMode={selectionMode}
+              wandOptions={wandOptions}
+              onSelectionChange={setSelection}
+              maskBrushOptions={maskBrushOptions}
+              onLayerMaskChange={maskOperations.updateMask}
+              brushOptions={brushOptions}
+              onBrushOptionsChange={setBrushOptions}
+              onLayerPaint={paintLayer}
+              documentSize={documentSize}
+              background={documentBackground}
             />
+            </div>
           ) : (
             <DropZone onFileSelect={handleFileSelect} />
           )}
@@ -321,6 +472,18 @@ function App() {
               onAddLayer={addLayer}
               onLayerRename={layerOperations.renameLayer}
               onLayerPositionChange={layerOperations.updateLayerPosition}
+              onLayerTransformChange={layerOperations.updateLayerTransform}
+              onApplyLayerScale={layerOperations.applyScale}
+              onAddMask={maskOperations.addMask}
+              onDeleteMask={maskOperations.deleteMask}
+              onToggleMask={maskOperations.toggleMask}
+              onInvertMask={maskOperations.invertMask}
+              onMaskFromSubject={handleRemoveBackground}
+              isProcessingMask={isProcessingBackground}
+              isMaskBrushActive={activeTool === 'mask-brush'}
+              onMaskBrushToggle={(active) => setActiveTool(active ? 'mask-brush' : 'move')}
+              maskBrushOptions={maskBrushOptions}
+              onMaskBrushOptionsChange={setMaskBrushOptions}
             />
           )}
         </div>
@@ -344,6 +507,7 @@ function App() {
         <CurvesPanel
           isVisible={showCurves}
           onToggle={() => setShowCurves(!showCurves)}
+          curves={imageState.curves ?? defaultCurves}
           onCurvesChange={handleCurvesChange}
         />
 
@@ -353,13 +517,25 @@ function App() {
           processingTimes={processingTimes}
         />
 
+        <HistoryPanel
+          isVisible={showHistory}
+          onToggle={() => setShowHistory(!showHistory)}
+          steps={historySteps}
+          currentIndex={historyIndex}
+          memoryUsage={historyMemory}
+          memoryLimit={historyMemoryLimit}
+          onJumpToStep={jumpToStep}
+        />
+
         {/* Modals */}
         {showExportModal && (
           <ExportModal
             isOpen={showExportModal}
             onClose={() => setShowExportModal(false)}
             onExport={handleAdvancedExport}
-            canvasRef={canvasRef}
+            getExportSize={getExportSize}
+            layerCount={layers.filter(layer => layer.visible).length}
+            sourceMetadata={layers[0]?.metadata}
           />
         )}
 
@@ -372,6 +548,45 @@ function App() {
           />
         )}
 
+        {backgroundRefine && (
+          <RefineMaskDialog
+            image={backgroundRefine.image}
+            mask={backgroundRefine.mask}
+            onApply={applyBackgroundRefine}
+            onCancel={cancelBackgroundRefine}
+            isApplying={isProcessingBackground}
+          />
+        )}
+
+        {backgroundReplace && (
+          <ReplaceBackgroundDialog
+            subject={backgroundReplace.subject}
+            original={backgroundReplace.original}
+            onApply={applyBackgroundReplace}
+            onCancel={cancelBackgroundReplace}
+            isApplying={isProcessingBackground}
+          />
+        )}
+
+        {showCanvasSize && documentSize && (
+          <CanvasSizeDialog
+            isOpen={showCanvasSize}
+            onClose={() => setShowCanvasSize(false)}
+            documentSize={documentSize}
+            background={documentBackground}
+            onApply={handleCanvasSizeApply}
+          />
+        )}
+
+        {showImageSize && documentSize && (
+          <ImageSizeDialog
+            isOpen={showImageSize}
+            onClose={() => setShowImageSize(false)}
+            documentSize={documentSize}
+            onApply={documentOperations.resizeImage}
+          />
+        )}
+
         {showStyleTransfer && image && (
           <StyleTransfer
             sourceImage={image}
@@ -385,6 +600,7 @@ function App() {
           <BatchProcessor
             isVisible={showBatchProcessor}
             onClose={() => setShowBatchProcessor(false)}
+            recipeSource={recipeSource}
           />
         )}
 
@@ -399,6 +615,7 @@ function App() {
             activeLayerId={activeLayerId}
             layerOperations={layerOperations}
             textElements={textElements}
+            documentSize={documentSize}
           />
 
         {/* Keyboard Shortcuts */}
@@ -418,6 +635,9 @@ function App() {
           onPaste={handlePaste}
           onDelete={handleDelete}
           onSelectAll={handleSelectAll}
+          onDeselect={selectionOperations.deselect}
+          onInvertSelection={selectionOperations.invert}
+          onSelectTool={setActiveTool}
         />
 
         {/* Loading Overlay */}
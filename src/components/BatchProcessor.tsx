@@ -1,9 +1,32 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, Play, Download, X, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Upload, Play, Download, X, CheckCircle, AlertCircle, Loader2, Save, Trash2 } from 'lucide-react';
+import {
+  applyRecipe,
+  BatchRecipe,
+  createRecipe,
+  exportRecipeFile,
+  loadSavedRecipes,
+  readRecipeFile,
+  RecipeSource,
+  saveRecipes
+} from '../services/batchRecipe';
+import { stylePresets } from '../services/stylePresets';
+import {
+  createBatchArchive,
+  DEFAULT_NAME_TEMPLATE,
+  downloadBatchArchive,
+  getImageExtension,
+  NAME_TEMPLATE_TOKENS
+} from '../services/batchArchive';
+import { ZipCompression } from '../services/zipWriter';
+import { BatchRenderOptions } from '../services/batchRender';
+import { defaultResampleOptions, RESAMPLE_METHODS, ResampleMethod } from '../services/resample';
+import { isCancelledError, PIXEL_POOL_SIZE, runPixelTaskInPool } from '../services/workerPool';
 
 interface BatchProcessorProps {
   isVisible: boolean;
   onClose: () => void;
+  recipeSource?: RecipeSource; // The open document, for saving its look as a recipe
 }
 
 interface BatchFile {
@@ -11,41 +34,50 @@ interface BatchFile {
   file: File;
   image: HTMLImageElement;
   status: 'pending' | 'processing' | 'completed' | 'error';
+  progress?: number; // 0-1 while processing
   result?: string; // Base64 result
+  format?: string; // Extension of the result, as encoded
+  width?: number; // Output size, once processed
+  height?: number;
   error?: string;
 }
 
-interface ProcessingOptions {
-  autoEnhance: boolean;
+interface ProcessingOptions extends BatchRenderOptions {
   removeBackground: boolean;
-  sharpen: boolean;
-  format: 'png' | 'jpeg' | 'webp';
-  quality: number;
-  resize: {
-    enabled: boolean;
-    width: number;
-    height: number;
-    maintainAspectRatio: boolean;
-  };
+  nameTemplate: string;
+  compression: ZipCompression;
 }
 
 export const BatchProcessor: React.FC<BatchProcessorProps> = ({
   isVisible,
-  onClose
+  onClose,
+  recipeSource
 }) => {
   const [files, setFiles] = useState<BatchFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [recipes, setRecipes] = useState<BatchRecipe[]>(loadSavedRecipes);
+  const [selectedRecipeId, setSelectedRecipeId] = useState('');
+  const [isSavingRecipe, setIsSavingRecipe] = useState(false);
+  const [recipeName, setRecipeName] = useState('');
+  const [recipeStyleId, setRecipeStyleId] = useState('');
+  const [recipeWatermarkIndex, setRecipeWatermarkIndex] = useState(-1);
   const [options, setOptions] = useState<ProcessingOptions>({
     autoEnhance: true,
     removeBackground: false,
     sharpen: false,
     format: 'png',
     quality: 90,
+    nameTemplate: DEFAULT_NAME_TEMPLATE,
+    compression: 'deflate',
     resize: {
       enabled: false,
       width: 1920,
       height: 1080,
-      maintainAspectRatio: true
+      maintainAspectRatio: true,
+      smartCrop: false,
+      resample: defaultResampleOptions
     }
   });
 
@@ -73,119 +105,198 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
     });
   }, []);
 
-  const processImage = async (batchFile: BatchFile): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d')!;
-      
-      let { width, height } = batchFile.image;
-      
-      // Apply resize if enabled
-      if (options.resize.enabled) {
-        if (options.resize.maintainAspectRatio) {
-          const aspectRatio = width / height;
-          if (options.resize.width / options.resize.height > aspectRatio) {
-            width = options.resize.height * aspectRatio;
-            height = options.resize.height;
-          } else {
-            width = options.resize.width;
-            height = options.resize.width / aspectRatio;
-          }
-        } else {
-          width = options.resize.width;
-          height = options.resize.height;
+  const selectedRecipe = recipes.find(recipe => recipe.id === selectedRecipeId) ?? null;
+
+  const updateRecipes = (next: BatchRecipe[]) => {
+    setRecipes(next);
+    try {
+      saveRecipes(next);
+    } catch (error) {
+      console.error('Failed to save recipes:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save recipes.');
+    }
+  };
+
+  const startSavingRecipe = () => {
+    setRecipeName(`Recipe ${recipes.length + 1}`);
+    setRecipeStyleId(recipeSource?.style?.id ?? '');
+    setRecipeWatermarkIndex(recipeSource && recipeSource.watermarks.length > 0 ? 0 : -1);
+    setIsSavingRecipe(true);
+  };
+
+  const saveCurrentAsRecipe = () => {
+    if (!recipeSource || !recipeName.trim()) return;
+
+    const style = recipeStyleId
+      ? { id: recipeStyleId, intensity: recipeSource.style?.id === recipeStyleId ? recipeSource.style.intensity : 0.8 }
+      : null;
+    const recipe = createRecipe(recipeName.trim(), recipeSource, {
+      style,
+      watermark: recipeSource.watermarks[recipeWatermarkIndex] ?? null
+    });
+
+    updateRecipes([...recipes, recipe]);
+    setSelectedRecipeId(recipe.id);
+    setIsSavingRecipe(false);
+  };
+
+  const deleteSelectedRecipe = () => {
+    if (!selectedRecipe) return;
+    updateRecipes(recipes.filter(recipe => recipe.id !== selectedRecipe.id));
+    setSelectedRecipeId('');
+  };
+
+  // Export the selected recipe, or every saved recipe when none is selected
+  const exportRecipes = () => {
+    if (selectedRecipe) {
+      exportRecipeFile([selectedRecipe], selectedRecipe.name.replace(/[^\w-]+/g, '_') || 'recipe');
+    } else if (recipes.length > 0) {
+      exportRecipeFile(recipes);
+    }
+  };
+
+  const importRecipes = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const imported = await readRecipeFile(file);
+        updateRecipes([...recipes, ...imported]);
+        if (imported.length > 0) {
+          setSelectedRecipeId(imported[0].id);
         }
+      } catch (error) {
+        console.error('Failed to import recipes:', error);
+        alert(error instanceof Error ? error.message : 'Failed to import recipes.');
       }
-      
-      canvas.width = width;
-      canvas.height = height;
-      
-      // Draw base image
-      ctx.drawImage(batchFile.image, 0, 0, width, height);
-      
-      // Apply filters based on options
-      let filters = [];
-      
-      if (options.autoEnhance) {
-        filters.push('contrast(1.1)', 'brightness(1.05)', 'saturate(1.1)');
-      }
-      
-      if (options.sharpen) {
-        // Simple sharpening using CSS filter
-        filters.push('contrast(1.2)');
-      }
-      
-      if (filters.length > 0) {
-        ctx.filter = filters.join(' ');
-        ctx.drawImage(canvas, 0, 0);
-        ctx.filter = 'none';
-      }
-      
-      // Export in specified format
-      const quality = options.quality / 100;
-      let mimeType = `image/${options.format}`;
-      
-      if (options.format === 'jpeg') {
-        // Fill background for JPEG (no transparency)
-        const imageData = ctx.getImageData(0, 0, width, height);
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, width, height);
-        ctx.putImageData(imageData, 0, 0);
-      }
-      
-      const result = canvas.toDataURL(mimeType, quality);
-      resolve(result);
+    };
+    input.click();
+  };
+
+  const describeRecipe = (recipe: BatchRecipe): string => {
+    const { adjustments } = recipe;
+    const parts = [];
+    if (adjustments.brightness || adjustments.contrast || adjustments.saturation || adjustments.blur) parts.push('adjustments');
+    if (adjustments.curves) parts.push('curves');
+    if (adjustments.filter !== 'none') parts.push(`${adjustments.filter} filter`);
+    if (adjustments.rotation || adjustments.flipX || adjustments.flipY) parts.push('rotate/flip');
+    if (recipe.style) parts.push(`${stylePresets.find(preset => preset.id === recipe.style!.id)?.name ?? recipe.style.id} style`);
+    if (recipe.vignette.intensity > 0) parts.push('vignette');
+    if (recipe.watermark) parts.push('watermark');
+    return parts.length > 0 ? parts.join(', ') : 'no changes';
+  };
+
+  // Stop in-flight work when the processor goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateFile = (id: string, updates: Partial<BatchFile>) => {
+    setFiles(prev => prev.map(f => (f.id === id ? { ...f, ...updates } : f)));
+  };
+
+  const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Failed to read the processed image'));
+      reader.readAsDataURL(blob);
     });
   };
 
+  const processImage = async (
+    batchFile: BatchFile,
+    signal: AbortSignal,
+    onProgress: (progress: number) => void
+  ): Promise<{ result: string; format: string; width: number; height: number }> => {
+    // Run the recipe first so resizing and export work on the finished look. Recipes draw
+    // through DOM canvases, so they stay on the main thread; the rest goes to a worker.
+    const source = selectedRecipe
+      ? await createImageBitmap(await applyRecipe(batchFile.image, selectedRecipe))
+      : batchFile.file;
+
+    const { autoEnhance, sharpen, format, quality, resize } = options;
+    const output = await runPixelTaskInPool(
+      'batch',
+      { source, options: { autoEnhance, sharpen, format, quality, resize } },
+      { signal, onProgress, transfer: source instanceof ImageBitmap ? [source] : [] }
+    );
+
+    return {
+      result: await blobToDataUrl(output.blob),
+      format: getImageExtension(output.blob.type),
+      width: output.width,
+      height: output.height
+    };
+  };
+
   const startBatchProcessing = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
     
     const pendingFiles = files.filter(f => f.status === 'pending');
-    
-    for (let i = 0; i < pendingFiles.length; i++) {
-      const file = pendingFiles[i];
-      
-      setFiles(prev => prev.map(f => 
-        f.id === file.id ? { ...f, status: 'processing' } : f
-      ));
-      
-      try {
-        const result = await processImage(file);
-        
-        setFiles(prev => prev.map(f => 
-          f.id === file.id ? { ...f, status: 'completed', result } : f
-        ));
-        
-        // Small delay to show progress
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-      } catch (error) {
-        setFiles(prev => prev.map(f => 
-          f.id === file.id ? { 
-            ...f, 
-            status: 'error', 
-            error: error instanceof Error ? error.message : 'Processing failed'
-          } : f
-        ));
+    let next = 0;
+
+    // Each runner takes the next pending file, so at most one file per worker is in flight
+    const runNext = async () => {
+      while (next < pendingFiles.length && !controller.signal.aborted) {
+        const file = pendingFiles[next++];
+        updateFile(file.id, { status: 'processing', progress: 0 });
+
+        try {
+          const output = await processImage(file, controller.signal, progress => updateFile(file.id, { progress }));
+          updateFile(file.id, { status: 'completed', progress: 1, ...output });
+        } catch (error) {
+          if (isCancelledError(error)) {
+            updateFile(file.id, { status: 'pending', progress: undefined });
+          } else {
+            updateFile(file.id, {
+              status: 'error',
+              progress: undefined,
+              error: error instanceof Error ? error.message : 'Processing failed'
+            });
+          }
+        }
       }
-    }
-    
+    };
+
+    const started = performance.now();
+    await Promise.all(Array.from({ length: Math.min(PIXEL_POOL_SIZE, pendingFiles.length) }, runNext));
+    console.log(`⚡ Batch finished in ${((performance.now() - started) / 1000).toFixed(1)}s on ${PIXEL_POOL_SIZE} worker(s)`);
+
+    abortRef.current = null;
     setIsProcessing(false);
   };
 
-  const downloadAll = () => {
-    const completedFiles = files.filter(f => f.status === 'completed' && f.result);
-    
-    completedFiles.forEach((file, index) => {
-      const link = document.createElement('a');
-      link.download = `${file.file.name.split('.')[0]}_processed.${options.format}`;
-      link.href = file.result!;
-      link.click();
-      
-      // Small delay between downloads
-      setTimeout(() => {}, index * 100);
-    });
+  const cancelBatchProcessing = () => {
+    abortRef.current?.abort();
+  };
+
+  const downloadZip = async () => {
+    setIsArchiving(true);
+    try {
+      const archive = await createBatchArchive(
+        files.map(f => ({
+          fileName: f.file.name,
+          status: f.status,
+          result: f.result,
+          format: f.format,
+          width: f.width,
+          height: f.height,
+          error: f.error
+        })),
+        { template: options.nameTemplate, compression: options.compression }
+      );
+      downloadBatchArchive(archive);
+      console.log('📦 Batch archive downloaded');
+    } catch (error) {
+      console.error('Failed to create batch archive:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create the ZIP archive.');
+    } finally {
+      setIsArchiving(false);
+    }
   };
 
   const removeFile = (id: string) => {
@@ -269,6 +380,118 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
                 </div>
               </div>
 
+              {/* Recipe */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">Recipe</label>
+                <div className="space-y-2">
+                  <select
+                    value={selectedRecipeId}
+                    onChange={(e) => setSelectedRecipeId(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">No recipe</option>
+                    {recipes.map(recipe => (
+                      <option key={recipe.id} value={recipe.id}>{recipe.name}</option>
+                    ))}
+                  </select>
+                  {selectedRecipe && (
+                    <p className="text-xs text-gray-500">Applies {describeRecipe(selectedRecipe)}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {recipeSource && (
+                      <button
+                        onClick={startSavingRecipe}
+                        className="px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors flex items-center space-x-1"
+                      >
+                        <Save className="w-3 h-3" />
+                        <span>Save Current</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={importRecipes}
+                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-1"
+                    >
+                      <Upload className="w-3 h-3" />
+                      <span>Import</span>
+                    </button>
+                    <button
+                      onClick={exportRecipes}
+                      disabled={recipes.length === 0}
+                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <Download className="w-3 h-3" />
+                      <span>{selectedRecipe ? 'Export' : 'Export All'}</span>
+                    </button>
+                    {selectedRecipe && (
+                      <button
+                        onClick={deleteSelectedRecipe}
+                        className="px-2 py-1 text-xs text-red-600 rounded-lg hover:bg-red-50 transition-colors flex items-center space-x-1"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        <span>Delete</span>
+                      </button>
+                    )}
+                  </div>
+
+                  {isSavingRecipe && recipeSource && (
+                    <div className="p-3 bg-gray-50 rounded-lg space-y-2">
+                      <input
+                        type="text"
+                        value={recipeName}
+                        onChange={(e) => setRecipeName(e.target.value)}
+                        placeholder="Recipe name"
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Style preset</label>
+                        <select
+                          value={recipeStyleId}
+                          onChange={(e) => setRecipeStyleId(e.target.value)}
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value="">None</option>
+                          {stylePresets.map(preset => (
+                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Watermark</label>
+                        <select
+                          value={recipeWatermarkIndex}
+                          onChange={(e) => setRecipeWatermarkIndex(parseInt(e.target.value))}
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value={-1}>None</option>
+                          {recipeSource.watermarks.map((watermark, index) => (
+                            <option key={index} value={index}>{watermark.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Adjustments, curves, filter and vignette are taken from the open image.
+                      </p>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setIsSavingRecipe(false)}
+                          className="flex-1 p-2 text-xs rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={saveCurrentAsRecipe}
+                          disabled={!recipeName.trim()}
+                          className="flex-1 p-2 text-xs rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          Save Recipe
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
               {/* Processing Options */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">Processing Options</label>
@@ -335,6 +558,32 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
                       />
                     </div>
                   )}
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">File Names</label>
+                    <input
+                      type="text"
+                      value={options.nameTemplate}
+                      onChange={(e) => setOptions(prev => ({ ...prev, nameTemplate: e.target.value }))}
+                      placeholder={DEFAULT_NAME_TEMPLATE}
+                      className="w-full p-2 border border-gray-300 rounded-lg text-sm font-mono"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Tokens: {NAME_TEMPLATE_TOKENS.join(' ')} — e.g. {'{name}_{width}x{height}'}
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">ZIP Compression</label>
+                    <select
+                      value={options.compression}
+                      onChange={(e) => setOptions(prev => ({ ...prev, compression: e.target.value as ZipCompression }))}
+                      className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="deflate">Deflate (smaller)</option>
+                      <option value="store">Store (faster)</option>
+                    </select>
+                  </div>
                 </div>
               </div>
 
@@ -394,6 +643,51 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
                       />
                       <span className="text-xs text-gray-700">Maintain Aspect Ratio</span>
                     </label>
+
+                    {!options.resize.maintainAspectRatio && (
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={options.resize.smartCrop}
+                          onChange={(e) => setOptions(prev => ({ 
+                            ...prev, 
+                            resize: { ...prev.resize, smartCrop: e.target.checked }
+                          }))}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="text-xs text-gray-700">Smart crop to fill (keeps the salient part instead of stretching)</span>
+                      </label>
+                    )}
+
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Resampling</label>
+                      <select
+                        value={options.resize.resample.method}
+                        onChange={(e) => setOptions(prev => ({
+                          ...prev,
+                          resize: { ...prev.resize, resample: { ...prev.resize.resample, method: e.target.value as ResampleMethod } }
+                        }))}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        {RESAMPLE_METHODS.map(method => (
+                          <option key={method.value} value={method.value}>{method.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={options.resize.resample.linearLight}
+                        disabled={options.resize.resample.method === 'nearest'}
+                        onChange={(e) => setOptions(prev => ({
+                          ...prev,
+                          resize: { ...prev.resize, resample: { ...prev.resize.resample, linearLight: e.target.checked } }
+                        }))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-xs text-gray-700">Gamma-aware scaling</span>
+                    </label>
                   </div>
                 )}
               </div>
@@ -416,11 +710,12 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
                   )}
                   {completedCount > 0 && (
                     <button
-                      onClick={downloadAll}
-                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm flex items-center space-x-2"
+                      onClick={downloadZip}
+                      disabled={isArchiving || isProcessing}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center space-x-2"
                     >
-                      <Download className="w-4 h-4" />
-                      <span>Download All</span>
+                      {isArchiving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      <span>{isArchiving ? 'Creating ZIP...' : 'Download ZIP'}</span>
                     </button>
                   )}
                 </div>
@@ -454,6 +749,17 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
                         <p className="text-xs text-gray-500">
                           {file.image.width}×{file.image.height} • {(file.file.size / 1024 / 1024).toFixed(1)}MB
                         </p>
+                        {file.status === 'processing' && (
+                          <div className="w-full bg-gray-200 rounded-full h-1 mt-1">
+                            <div
+                              className="bg-blue-600 h-1 rounded-full transition-all duration-300"
+                              style={{ width: `${(file.progress ?? 0) * 100}%` }}
+                            ></div>
+                          </div>
+                        )}
+                        {file.status === 'error' && file.error && (
+                          <p className="text-xs text-red-600 truncate">{file.error}</p>
+                        )}
                       </div>
                       
                       <div className="flex items-center space-x-2">
@@ -496,11 +802,11 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
 
               {/* Process Button */}
               {files.length > 0 && (
-                <div className="mt-6">
+                <div className="mt-6 flex space-x-2">
                   <button
                     onClick={startBatchProcessing}
                     disabled={isProcessing || files.filter(f => f.status === 'pending').length === 0}
-                    className="w-full p-4 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                    className="flex-1 p-4 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                   >
                     {isProcessing ? (
                       <>
@@ -514,6 +820,14 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
                       </>
                     )}
                   </button>
+                  {isProcessing && (
+                    <button
+                      onClick={cancelBatchProcessing}
+                      className="px-6 p-4 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  )}
                 </div>
               )}
             </div>
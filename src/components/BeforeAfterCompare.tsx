@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Eye, Split, RotateCcw } from 'lucide-react';
 import { ImageState } from '../types/editor';
+import { getAdjustedSource } from '../services/layerRender';
 
 interface BeforeAfterCompareProps {
   originalImage: HTMLImageElement;
@@ -26,46 +27,6 @@ export const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
     }
   }, [isVisible, originalImage, currentState, compareMode, splitPosition, overlayOpacity]);
 
-  const applyFilters = (ctx: CanvasRenderingContext2D) => {
-    const filters = [];
-
-    if (currentState.brightness !== 0) {
-      filters.push(`brightness(${100 + currentState.brightness}%)`);
-    }
-    if (currentState.contrast !== 0) {
-      filters.push(`contrast(${100 + currentState.contrast}%)`);
-    }
-    if (currentState.saturation !== 0) {
-      filters.push(`saturate(${100 + currentState.saturation}%)`);
-    }
-    if (currentState.blur > 0) {
-      filters.push(`blur(${currentState.blur}px)`);
-    }
-
-    switch (currentState.filter) {
-      case 'grayscale':
-        filters.push('grayscale(100%)');
-        break;
-      case 'sepia':
-        filters.push('sepia(100%)');
-        break;
-      case 'vintage':
-        filters.push('sepia(60%) contrast(1.2) brightness(0.9)');
-        break;
-      case 'vibrant':
-        filters.push('saturate(1.5) contrast(1.1)');
-        break;
-      case 'cool':
-        filters.push('hue-rotate(180deg) saturate(1.2)');
-        break;
-      case 'warm':
-        filters.push('hue-rotate(30deg) saturate(1.1) brightness(1.1)');
-        break;
-    }
-
-    ctx.filter = filters.length > 0 ? filters.join(' ') : 'none';
-  };
-
   const drawComparison = () => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
@@ -88,6 +49,9 @@ export const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
     const offsetX = (width - drawWidth) / 2;
     const offsetY = (height - drawHeight) / 2;
 
+    // Processed view uses the same adjustments (curves, filters, selection region) as the editor canvas
+    const processedSource = getAdjustedSource(originalImage, currentState);
+
     // Clear canvas
     ctx.clearRect(0, 0, width, height);
 
@@ -95,7 +59,6 @@ export const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
       case 'side-by-side':
         // Draw original (left half)
         ctx.save();
-        ctx.filter = 'none';
         ctx.drawImage(
           originalImage,
           offsetX,
@@ -111,9 +74,8 @@ export const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
 
         // Draw processed (right half)
         ctx.save();
-        applyFilters(ctx);
         ctx.drawImage(
-          originalImage,
+          processedSource,
           offsetX + drawWidth / 2,
           offsetY,
           drawWidth / 2,
@@ -139,7 +101,6 @@ export const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
 
         // Draw original (left side)
         ctx.save();
-        ctx.filter = 'none';
         ctx.drawImage(originalImage, offsetX, offsetY, drawWidth, drawHeight);
         ctx.restore();
 
@@ -148,8 +109,7 @@ export const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
         ctx.beginPath();
         ctx.rect(splitX, 0, width - splitX, height);
         ctx.clip();
-        applyFilters(ctx);
-        ctx.drawImage(originalImage, offsetX, offsetY, drawWidth, drawHeight);
+        ctx.drawImage(processedSource, offsetX, offsetY, drawWidth, drawHeight);
         ctx.restore();
 
         // Draw split line
@@ -164,15 +124,13 @@ export const BeforeAfterCompare: React.FC<BeforeAfterCompareProps> = ({
       case 'overlay':
         // Draw original
         ctx.save();
-        ctx.filter = 'none';
         ctx.drawImage(originalImage, offsetX, offsetY, drawWidth, drawHeight);
         ctx.restore();
 
         // Draw processed with opacity
         ctx.save();
         ctx.globalAlpha = overlayOpacity / 100;
-        applyFilters(ctx);
-        ctx.drawImage(originalImage, offsetX, offsetY, drawWidth, drawHeight);
+        ctx.drawImage(processedSource, offsetX, offsetY, drawWidth, drawHeight);
         ctx.restore();
         break;
     }
@@ -1,6 +1,49 @@
-import React, { useEffect, useRef, useCallback } from 'react';
-import { ImageState, FilterType, Layer } from '../types/editor';
+import React, { useEffect, useRef } from 'react';
+import { ImageState, FilterType, Layer, EditorTool, SelectionMask, SelectionMode, DocumentBackground } from '../types/editor';
 import { ColorPalette } from './ColorPalette';
+import { getAdjustedSource, getLayerSource, renderAdjustments } from '../services/layerRender';
+import { applyMaskCanvas, canvasToMask, getMaskCanvas, hasActiveMask, MaskBrushOptions, paintMaskStroke } from '../services/layerMask';
+import { BrushOptions, BrushPoint, defaultBrushOptions, getPointerPressure, stampStroke } from '../services/brush';
+import { drawVignette } from '../services/vignette';
+import { getVisibleLayers } from '../services/compositor';
+import {
+  canvasToFrame,
+  frameToCanvas,
+  getHandleFramePoint,
+  getLayerBounds,
+  getLayerCorners,
+  getSnapTargets,
+  isInsideLayer,
+  LayerTransform,
+  moveLayer,
+  Point,
+  rotateLayer,
+  scaleLayer,
+  skewLayer,
+  snapMoveDelta,
+  snapPoint,
+  SnapGuide,
+  TRANSFORM_HANDLES,
+  TransformHandle
+} from '../services/layerTransform';
+import {
+  combineMasks,
+  createEllipseMask,
+  createFullMask,
+  createMagicWandMask,
+  createPolygonMask,
+  createRectMask,
+  getMaskOutline,
+  MagicWandOptions
+} from '../services/selection';
+import {
+  clientToCanvasPoint,
+  getDocumentMatrix,
+  getEditorCanvasSize,
+  getLayerFrameMatrix,
+  getLayerMatrix,
+  ViewState
+} from '../services/viewTransform';
 
 interface CanvasProps {
   image: HTMLImageElement | null;
@@ -12,14 +55,90 @@ interface CanvasProps {
   onZoomChange: (zoom: number) => void;
   onPanChange: (pan: { x: number; y: number }) => void;
   activeLayerId?: string | null;
-  onLayerPositionChange?: (layerId: string, position: { x: number; y: number }) => void;
+  onLayerTransformChange?: (layerId: string, transform: LayerTransform) => void;
   colorPalette?: {r: number, g: number, b: number}[];
   paletteStats?: {processingTime: number, totalPixelsAnalyzed: number, samplingRate: number} | null;
   onClearColorPalette?: () => void;
   vignetteIntensity?: number;
   vignetteRadius?: number;
+  activeTool?: EditorTool;
+  selection?: SelectionMask | null;
+  selectionMode?: SelectionMode;
+  wandOptions?: MagicWandOptions;
+  onSelectionChange?: (selection: SelectionMask | null) => void;
+  maskBrushOptions?: MaskBrushOptions;
+  onLayerMaskChange?: (layerId: string, mask: SelectionMask) => void;
+  brushOptions?: BrushOptions;
+  onBrushOptionsChange?: (options: BrushOptions) => void;
+  onLayerPaint?: (layerId: string, pixels: HTMLCanvasElement, stepName: string) => void;
+  documentSize?: { width: number; height: number } | null;
+  background?: DocumentBackground;
 }
 
+interface SelectionDrag {
+  tool: EditorTool;
+  mode: SelectionMode;
+  start: { x: number; y: number };
+  current: { x: number; y: number };
+  points: { x: number; y: number }[];
+}
+
+interface MaskStroke {
+  layerId: string;
+  canvas: HTMLCanvasElement; // Working copy of the mask being painted, in layer pixels
+  options: MaskBrushOptions;
+  last: { x: number; y: number };
+}
+
+interface PaintStroke {
+  layerId: string;
+  tool: 'brush' | 'eraser';
+  options: BrushOptions;
+  sourceImage: HTMLImageElement;
+  original: HTMLCanvasElement; // Layer pixels before the stroke
+  buffer: HTMLCanvasElement; // Dabs so far, applied at the stroke opacity
+  result: HTMLCanvasElement; // Original with the buffer applied
+  last: BrushPoint;
+  carry: number;
+  finished: boolean; // Waiting for the layer to pick up the painted pixels
+}
+
+const PAINT_TOOLS: EditorTool[] = ['brush', 'eraser'];
+
+interface TransformDrag {
+  kind: 'move' | 'scale' | 'rotate' | 'skew' | 'pivot';
+  start: Layer; // The layer as it was when the drag began
+  startPoint: Point;
+  handle?: TransformHandle;
+}
+
+// Canvas pixels
+const HANDLE_SIZE = 8;
+const HANDLE_HIT_RADIUS = 8;
+const ROTATE_HIT_RADIUS = 24;
+const SNAP_THRESHOLD = 6;
+
+const HANDLE_CURSORS = ['nwse-resize', 'ns-resize', 'nesw-resize', 'ew-resize'];
+
+// Resize cursor for a handle, following the layer's rotation on screen
+const getHandleCursor = (handle: TransformHandle, rotation: number): string => {
+  const baseAngle = (Math.atan2(handle.y, handle.x) * 180) / Math.PI;
+  const angle = ((baseAngle + rotation) % 180 + 180) % 180;
+  // 0° is horizontal (ew), 45° nwse, 90° ns, 135° nesw
+  const index = Math.round(angle / 45) % 4;
+  return HANDLE_CURSORS[[3, 0, 1, 2][index]];
+};
+
+const SELECTION_TOOLS: EditorTool[] = ['marquee-rect', 'marquee-ellipse', 'lasso', 'magic-wand'];
+
+// Shift adds, Alt subtracts, both intersect; otherwise use the toolbar mode
+const getModifierMode = (e: React.MouseEvent, fallback: SelectionMode): SelectionMode => {
+  if (e.shiftKey && e.altKey) return 'intersect';
+  if (e.shiftKey) return 'add';
+  if (e.altKey) return 'subtract';
+  return fallback;
+};
+
 export const Canvas: React.FC<CanvasProps> = ({
   image,
   layers = [],
@@ -30,20 +149,46 @@ export const Canvas: React.FC<CanvasProps> = ({
   onZoomChange,
   onPanChange,
   activeLayerId,
-  onLayerPositionChange,
+  onLayerTransformChange,
   colorPalette = [],
   paletteStats,
   onClearColorPalette,
   vignetteIntensity = 0,
-  vignetteRadius = 50
+  vignetteRadius = 50,
+  activeTool = 'move',
+  selection = null,
+  selectionMode = 'replace',
+  wandOptions = { tolerance: 32, contiguous: true },
+  onSelectionChange,
+  maskBrushOptions = { size: 40, hardness: 50, mode: 'hide' },
+  onLayerMaskChange,
+  brushOptions = defaultBrushOptions,
+  onBrushOptionsChange,
+  onLayerPaint,
+  documentSize = null,
+  background = { type: 'layer' }
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const selectionDrag = useRef<SelectionDrag | null>(null);
+  const maskStroke = useRef<MaskStroke | null>(null);
+  const paintStroke = useRef<PaintStroke | null>(null);
+  const paintPreview = useRef<HTMLCanvasElement | null>(null);
+  const brushCursor = useRef<{ x: number; y: number } | null>(null);
+  const outlineCache = useRef<{ selection: SelectionMask; segments: number[] } | null>(null);
+  const overlayDirty = useRef(true);
   const isDragging = useRef(false);
-  const isDraggingLayer = useRef(false);
-  const dragStartPos = useRef({ x: 0, y: 0 });
-  const originalLayerPos = useRef({ x: 0, y: 0 });
+  const transformDrag = useRef<TransformDrag | null>(null);
+  const pivot = useRef<{ layerId: string; point: Point } | null>(null);
+  const snapGuides = useRef<SnapGuide[]>([]);
   const lastMousePos = useRef({ x: 0, y: 0 });
 
+  // Without layers, a lone image is the document
+  const documentBounds = documentSize ?? (image
+    ? { width: image.naturalWidth || image.width, height: image.naturalHeight || image.height }
+    : null);
+  const documentLayout = { layers, width: documentBounds?.width ?? 0, height: documentBounds?.height ?? 0 };
+
   const drawCheckerboard = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
     const squareSize = 20;
     const lightColor = '#f8f9fa';
@@ -58,70 +203,8 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
   };
 
-  const applyImageAdjustments = (ctx: CanvasRenderingContext2D, layerImageState: ImageState) => {
-    const filters = [];
-
-    if (layerImageState.brightness !== 0) {
-      filters.push(`brightness(${100 + layerImageState.brightness}%)`);
-    }
-    if (layerImageState.contrast !== 0) {
-      filters.push(`contrast(${100 + layerImageState.contrast}%)`);
-    }
-    if (layerImageState.saturation !== 0) {
-      filters.push(`saturate(${100 + layerImageState.saturation}%)`);
-    }
-    if (layerImageState.blur > 0) {
-      filters.push(`blur(${layerImageState.blur}px)`);
-    }
-
-    switch (layerImageState.filter) {
-      case 'grayscale':
-        filters.push('grayscale(100%)');
-        break;
-      case 'sepia':
-        filters.push('sepia(100%)');
-        break;
-      case 'vintage':
-        filters.push('sepia(60%) contrast(1.2) brightness(0.9)');
-        break;
-      case 'vibrant':
-        filters.push('saturate(1.5) contrast(1.1)');
-        break;
-      case 'cool':
-        filters.push('hue-rotate(180deg) saturate(1.2)');
-        break;
-      case 'warm':
-        filters.push('hue-rotate(30deg) saturate(1.1) brightness(1.1)');
-        break;
-    }
-
-    ctx.filter = filters.length > 0 ? filters.join(' ') : 'none';
-  };
-
-  const applyVignette = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    if (vignetteIntensity === 0) return;
-
-    ctx.save();
-    
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const maxRadius = Math.sqrt(centerX * centerX + centerY * centerY);
-    const vignetteRadiusPixels = (vignetteRadius / 100) * maxRadius;
-
-    const gradient = ctx.createRadialGradient(
-      centerX, centerY, vignetteRadiusPixels,
-      centerX, centerY, maxRadius
-    );
-    
-    const vignetteAlpha = vignetteIntensity / 100;
-    gradient.addColorStop(0, `rgba(0, 0, 0, 0)`);
-    gradient.addColorStop(1, `rgba(0, 0, 0, ${vignetteAlpha})`);
-
-    ctx.globalCompositeOperation = 'multiply';
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, width, height);
-    
-    ctx.restore();
+  const applyVignette = (canvas: HTMLCanvasElement) => {
+    drawVignette(canvas, vignetteIntensity, vignetteRadius);
   };
 
   const applyBlendMode = (ctx: CanvasRenderingContext2D, blendMode: string) => {
@@ -164,137 +247,74 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
   };
 
-  const calculateOptimalCanvasSize = (img: HTMLImageElement) => {
+  const calculateOptimalCanvasSize = (size: { width: number; height: number }, current?: { width: number; height: number }) => {
     const container = containerRef.current;
     if (!container) return { width: 800, height: 600 };
-
-    const containerRect = container.getBoundingClientRect();
-    const maxWidth = Math.min(1400, containerRect.width - 40);
-    const maxHeight = Math.min(900, containerRect.height - 40);
-    
-    const aspectRatio = img.width / img.height;
-    
-    let canvasWidth, canvasHeight;
-    
-    if (aspectRatio > maxWidth / maxHeight) {
-      canvasWidth = maxWidth;
-      canvasHeight = maxWidth / aspectRatio;
-    } else {
-      canvasHeight = maxHeight;
-      canvasWidth = maxHeight * aspectRatio;
-    }
-    
-    // Ensure minimum size for small images
-    const minSize = 400;
-    if (canvasWidth < minSize && canvasHeight < minSize) {
-      if (aspectRatio > 1) {
-        canvasWidth = minSize;
-        canvasHeight = minSize / aspectRatio;
-      } else {
-        canvasHeight = minSize;
-        canvasWidth = minSize * aspectRatio;
-      }
-    }
-    
-    return {
-      width: Math.round(canvasWidth),
-      height: Math.round(canvasHeight)
-    };
+    return getEditorCanvasSize(size.width, size.height, container.getBoundingClientRect(), current);
   };
 
-  const drawImageWithAdjustments = (
+  // Renamed function for drawing the base/primary image that covers the canvas
+  const drawBaseImage = (
     ctx: CanvasRenderingContext2D, 
     img: HTMLImageElement, 
     adjustments: ImageState, 
     canvasWidth: number, 
-    canvasHeight: number
+    canvasHeight: number,
+    layer?: Layer
   ) => {
     ctx.save();
 
-    // Calculate image size to fill canvas optimally
-    const imgAspect = img.width / img.height;
-    const canvasAspect = canvasWidth / canvasHeight;
-    
-    let drawWidth, drawHeight;
-    
-    // Cover canvas completely while maintaining aspect ratio
-    if (imgAspect > canvasAspect) {
-      drawWidth = canvasWidth;
-      drawHeight = canvasWidth / imgAspect;
-    } else {
-      drawHeight = canvasHeight;
-      drawWidth = canvasHeight * imgAspect;
+    // Cover the canvas with the document, then apply zoom/pan, rotation and flips (shared with
+    // selection mapping). The base layer sits at its offset, clipped to the document.
+    const view: ViewState = { canvasWidth, canvasHeight, zoom, pan };
+    ctx.setTransform(getDocumentMatrix(documentLayout, adjustments, view));
+    ctx.beginPath();
+    ctx.rect(0, 0, documentLayout.width, documentLayout.height);
+    ctx.clip();
+    if (layer) {
+      ctx.setTransform(getLayerMatrix(documentLayout, layer, view));
     }
 
-    // Apply transformations
-    ctx.translate(canvasWidth / 2 + pan.x, canvasHeight / 2 + pan.y);
-    ctx.scale(zoom, zoom);
-
-    // Apply rotation
-    ctx.rotate((adjustments.rotation * Math.PI) / 180);
-
-    // Apply flips
-    ctx.scale(adjustments.flipX ? -1 : 1, adjustments.flipY ? -1 : 1);
-
-    // Apply filters with high quality rendering
-    applyImageAdjustments(ctx, adjustments);
+    // Adjustments come baked in by the render graph, along with the layer mask
+    const source = layer ? getLiveLayerSource(layer) : getAdjustedSource(img, adjustments);
     
     // Enable high quality image rendering
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = 'high';
 
-    ctx.drawImage(img, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.drawImage(source, 0, 0, img.naturalWidth || img.width, img.naturalHeight || img.height);
 
     ctx.restore();
   };
 
-  // Renamed function for drawing the base/primary image that covers the canvas
-  const drawBaseImage = (
-    ctx: CanvasRenderingContext2D, 
-    img: HTMLImageElement, 
-    adjustments: ImageState, 
-    canvasWidth: number, 
+  const drawDocumentBackground = (
+    ctx: CanvasRenderingContext2D,
+    baseLayer: Layer,
+    color: string,
+    canvasWidth: number,
     canvasHeight: number
   ) => {
     ctx.save();
+    ctx.setTransform(getDocumentMatrix(documentLayout, baseLayer.imageState, { canvasWidth, canvasHeight, zoom, pan }));
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, documentLayout.width, documentLayout.height);
+    ctx.restore();
+  };
 
-    // Calculate image size to cover canvas completely
-    const imgAspect = img.width / img.height;
-    const canvasAspect = canvasWidth / canvasHeight;
-    
-    let drawWidth, drawHeight;
-    
-    // Cover mode: fill entire canvas, crop if necessary
-    if (imgAspect > canvasAspect) {
-      // Image is wider than canvas - fit to height and crop width
-      drawHeight = canvasHeight;
-      drawWidth = canvasHeight * imgAspect;
-    } else {
-      // Image is taller than canvas - fit to width and crop height
-      drawWidth = canvasWidth;
-      drawHeight = canvasWidth / imgAspect;
+  // While a mask is being painted, show the working copy instead of the stored mask
+  // (live paint strokes skip selection-limited adjustments until committed)
+  const getLiveLayerSource = (layer: Layer) => {
+    const paint = paintStroke.current;
+    if (paint?.layerId === layer.id) {
+      if (!paintPreview.current) paintPreview.current = document.createElement('canvas');
+      const adjusted = renderAdjustments(paint.result, layer.imageState, paintPreview.current);
+      return hasActiveMask(layer)
+        ? applyMaskCanvas(adjusted, getMaskCanvas(layer.mask!, paint.result.width, paint.result.height))
+        : adjusted;
     }
 
-    // Apply transformations
-    ctx.translate(canvasWidth / 2 + pan.x, canvasHeight / 2 + pan.y);
-    ctx.scale(zoom, zoom);
-
-    // Apply rotation
-    ctx.rotate((adjustments.rotation * Math.PI) / 180);
-
-    // Apply flips
-    ctx.scale(adjustments.flipX ? -1 : 1, adjustments.flipY ? -1 : 1);
-
-    // Apply filters with high quality rendering
-    applyImageAdjustments(ctx, adjustments);
-    
-    // Enable high quality image rendering
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(img, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
-
-    ctx.restore();
+    const stroke = maskStroke.current;
+    return getLayerSource(layer, stroke?.layerId === layer.id ? stroke.canvas : undefined);
   };
 
   const drawLayer = (ctx: CanvasRenderingContext2D, layer: Layer, canvasWidth: number, canvasHeight: number) => {
@@ -302,85 +322,368 @@ export const Canvas: React.FC<CanvasProps> = ({
 
     ctx.save();
 
-    // Get layer dimensions
-    const layerWidth = layer.image.width;
-    const layerHeight = layer.image.height;
-    
-
-    // Apply layer transforms (position is absolute, not relative to pan)
-    ctx.translate(layer.position.x + pan.x, layer.position.y + pan.y);
-    ctx.scale(zoom * layer.scale.x, zoom * layer.scale.y);
-    ctx.rotate((layer.rotation * Math.PI) / 180);
-
-    // Apply image state transforms
-    ctx.rotate((layer.imageState.rotation * Math.PI) / 180);
-    ctx.scale(layer.imageState.flipX ? -1 : 1, layer.imageState.flipY ? -1 : 1);
+    // Apply layer transforms (position is in document pixels, which zoom and pan with the document)
+    ctx.setTransform(getLayerMatrix(documentLayout, layer, { canvasWidth, canvasHeight, zoom, pan }));
 
     // Apply opacity and blend mode
     ctx.globalAlpha = layer.opacity;
     applyBlendMode(ctx, layer.blendMode);
 
-    // Apply image adjustments
-    applyImageAdjustments(ctx, layer.imageState);
+    // Image adjustments and the layer mask, baked in by the render graph
+    const source = getLiveLayerSource(layer);
 
     // High quality rendering
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = 'high';
 
     // Draw the layer image at its natural size, centered on the position
-    ctx.drawImage(layer.image, -layerWidth / 2, -layerHeight / 2, layerWidth, layerHeight);
+    ctx.drawImage(source, 0, 0, layer.image.naturalWidth || layer.image.width, layer.image.naturalHeight || layer.image.height);
 
     ctx.restore();
   };
 
-  // Get mouse position relative to canvas
-  const getCanvasMousePos = useCallback((e: React.MouseEvent) => {
+  // Maps document pixels to view canvas pixels
+  const getDocumentToCanvas = (): DOMMatrix | null => {
     const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / zoom - pan.x;
-    const y = (e.clientY - rect.top) / zoom - pan.y;
-    
-    return { x, y };
-  }, [zoom, pan]);
+    if (!canvas || !documentBounds) return null;
 
-  // Check if mouse is over a layer
-  const getLayerUnderMouse = useCallback((mouseX: number, mouseY: number): string | null => {
-    if (!activeLayerId) return null;
-    
-    const activeLayer = layers.find(l => l.id === activeLayerId);
-    if (!activeLayer || !activeLayer.visible) return null;
-    
-    // Simple bounds check for the active layer
-    const layerBounds = {
-      x: activeLayer.position.x - activeLayer.image.width / 2,
-      y: activeLayer.position.y - activeLayer.image.height / 2,
-      width: activeLayer.image.width,
-      height: activeLayer.image.height
-    };
-    
-    if (mouseX >= layerBounds.x && mouseX <= layerBounds.x + layerBounds.width &&
-        mouseY >= layerBounds.y && mouseY <= layerBounds.y + layerBounds.height) {
-      return activeLayer.id;
+    const baseState = layers.length > 0 ? layers[0].imageState : imageState;
+    const view: ViewState = { canvasWidth: canvas.width, canvasHeight: canvas.height, zoom, pan };
+    return getDocumentMatrix(documentBounds, baseState, view);
+  };
+
+  const getDocumentPoint = (e: React.MouseEvent): { x: number; y: number } | null => {
+    const canvas = canvasRef.current;
+    const matrix = getDocumentToCanvas();
+    if (!canvas || !matrix) return null;
+
+    const point = clientToCanvasPoint(canvas, e.clientX, e.clientY);
+    const documentPoint = matrix.inverse().transformPoint(new DOMPoint(point.x, point.y));
+    return { x: documentPoint.x, y: documentPoint.y };
+  };
+
+  // Mouse position in a layer's own pixels (where its mask lives)
+  const getLayerPoint = (e: { clientX: number; clientY: number }, layer: Layer): { x: number; y: number } | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+
+    const view: ViewState = { canvasWidth: canvas.width, canvasHeight: canvas.height, zoom, pan };
+    const point = clientToCanvasPoint(canvas, e.clientX, e.clientY);
+    const layerPoint = getLayerMatrix(documentLayout, layer, view).inverse().transformPoint(new DOMPoint(point.x, point.y));
+    return { x: layerPoint.x, y: layerPoint.y };
+  };
+
+  const getView = (): ViewState | null => {
+    const canvas = canvasRef.current;
+    return canvas ? { canvasWidth: canvas.width, canvasHeight: canvas.height, zoom, pan } : null;
+  };
+
+  const getPivotPoint = (layer: Layer): Point => {
+    return pivot.current?.layerId === layer.id ? pivot.current.point : { x: 0, y: 0 };
+  };
+
+  // What a pointer at `point` would grab on the transform box, if anything.
+  // Ctrl/Cmd on an edge handle skews instead of scaling.
+  const getTransformHit = (
+    layer: Layer,
+    toCanvas: DOMMatrix,
+    point: Point,
+    skewModifier: boolean
+  ): { kind: TransformDrag['kind']; handle?: TransformHandle } | null => {
+    const distance = (target: Point) => Math.hypot(target.x - point.x, target.y - point.y);
+
+    if (distance(frameToCanvas(layer, toCanvas, getPivotPoint(layer))) <= HANDLE_HIT_RADIUS) {
+      return { kind: 'pivot' };
     }
-    
+
+    for (const handle of TRANSFORM_HANDLES) {
+      const handlePoint = frameToCanvas(layer, toCanvas, getHandleFramePoint(layer, handle));
+      if (distance(handlePoint) <= HANDLE_HIT_RADIUS) {
+        const isEdge = handle.x === 0 || handle.y === 0;
+        return { kind: skewModifier && isEdge ? 'skew' : 'scale', handle };
+      }
+    }
+
+    if (isInsideLayer(layer, toCanvas, point)) {
+      return { kind: 'move' };
+    }
+
+    if (getLayerCorners(layer, toCanvas).some(corner => distance(corner) <= ROTATE_HIT_RADIUS)) {
+      return { kind: 'rotate' };
+    }
+
     return null;
-  }, [activeLayerId, layers]);
+  };
+
+  const drawTransformOverlay = (ctx: CanvasRenderingContext2D, layer: Layer, view: ViewState, toCanvas: DOMMatrix) => {
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.lineWidth = 1;
+
+    snapGuides.current.forEach(guide => {
+      ctx.strokeStyle = '#ec4899';
+      ctx.beginPath();
+      if (guide.axis === 'x') {
+        ctx.moveTo(guide.position, 0);
+        ctx.lineTo(guide.position, view.canvasHeight);
+      } else {
+        ctx.moveTo(0, guide.position);
+        ctx.lineTo(view.canvasWidth, guide.position);
+      }
+      ctx.stroke();
+    });
+
+    const corners = getLayerCorners(layer, toCanvas);
+    ctx.strokeStyle = layer.locked ? '#9ca3af' : '#2563eb';
+    ctx.beginPath();
+    corners.forEach((corner, index) => {
+      if (index === 0) {
+        ctx.moveTo(corner.x, corner.y);
+      } else {
+        ctx.lineTo(corner.x, corner.y);
+      }
+    });
+    ctx.closePath();
+    ctx.stroke();
+
+    if (!layer.locked) {
+      ctx.fillStyle = '#ffffff';
+      ctx.strokeStyle = '#2563eb';
+      TRANSFORM_HANDLES.forEach(handle => {
+        const { x, y } = frameToCanvas(layer, toCanvas, getHandleFramePoint(layer, handle));
+        ctx.fillRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+        ctx.strokeRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+      });
+
+      // Pivot
+      const { x, y } = frameToCanvas(layer, toCanvas, getPivotPoint(layer));
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.moveTo(x - 7, y);
+      ctx.lineTo(x + 7, y);
+      ctx.moveTo(x, y - 7);
+      ctx.lineTo(x, y + 7);
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  };
+
+  const updateTransformDrag = (e: React.PointerEvent) => {
+    const drag = transformDrag.current;
+    const canvas = canvasRef.current;
+    const view = getView();
+    const toCanvas = getDocumentToCanvas();
+    if (!drag || !canvas || !view || !toCanvas || !onLayerTransformChange) return;
+
+    const point = clientToCanvasPoint(canvas, e.clientX, e.clientY);
+    const { start } = drag;
+    // Alt turns snapping off
+    const targets = e.altKey ? { x: [], y: [] } : getSnapTargets(layers, start.id, view, toCanvas);
+    snapGuides.current = [];
+
+    switch (drag.kind) {
+      case 'move': {
+        const snapped = snapMoveDelta(
+          getLayerBounds(start, toCanvas),
+          { x: point.x - drag.startPoint.x, y: point.y - drag.startPoint.y },
+          targets,
+          SNAP_THRESHOLD
+        );
+        snapGuides.current = snapped.guides;
+        onLayerTransformChange(start.id, moveLayer(start, toCanvas, snapped.delta));
+        break;
+      }
+      case 'scale': {
+        const snapped = snapPoint(point, targets, SNAP_THRESHOLD);
+        snapGuides.current = snapped.guides;
+        onLayerTransformChange(start.id, scaleLayer(start, toCanvas, drag.handle!, snapped.point, e.shiftKey));
+        break;
+      }
+      case 'rotate':
+        // Shift snaps to 15° steps
+        onLayerTransformChange(
+          start.id,
+          rotateLayer(start, toCanvas, getPivotPoint(start), drag.startPoint, point, e.shiftKey ? 15 : undefined)
+        );
+        break;
+      case 'skew':
+        onLayerTransformChange(start.id, skewLayer(start, toCanvas, drag.handle!, drag.startPoint, point));
+        break;
+      case 'pivot': {
+        // The pivot snaps to the centre and the handles
+        const candidates = [{ x: 0, y: 0 }, ...TRANSFORM_HANDLES.map(handle => getHandleFramePoint(start, handle))];
+        const nearest = candidates.find(candidate => {
+          const candidatePoint = frameToCanvas(start, toCanvas, candidate);
+          return Math.hypot(candidatePoint.x - point.x, candidatePoint.y - point.y) <= HANDLE_HIT_RADIUS;
+        });
+        pivot.current = { layerId: start.id, point: nearest ?? canvasToFrame(start, toCanvas, point) };
+        break;
+      }
+    }
+
+    overlayDirty.current = true;
+  };
+
+  // The current selection, if it still matches the document size
+  const getDocumentSelection = (): SelectionMask | null => {
+    if (!selection || !documentBounds) return null;
+    return selection.width === documentBounds.width && selection.height === documentBounds.height
+      ? selection
+      : null;
+  };
+
+  // Raw base layer pixels where they sit in the document, sampled by the magic wand
+  const getDocumentPixels = (): ImageData | null => {
+    const baseImage = layers.length > 0 ? layers[0].image : image;
+    if (!baseImage || !documentBounds) return null;
+
+    const tempCanvas = document.createElement('canvas');
+    const tempCtx = tempCanvas.getContext('2d');
+    if (!tempCtx) return null;
+
+    const offset = layers.length > 0 ? layers[0].position : { x: 0, y: 0 };
+    tempCanvas.width = documentBounds.width;
+    tempCanvas.height = documentBounds.height;
+    tempCtx.drawImage(baseImage, offset.x, offset.y);
+    return tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
+  };
+
+  const applySelectionShape = (mask: SelectionMask, mode: SelectionMode) => {
+    onSelectionChange?.(combineMasks(getDocumentSelection(), mask, mode));
+  };
+
+  const getDragPath = (drag: SelectionDrag): Path2D => {
+    const path = new Path2D();
+    const { start, current } = drag;
+
+    switch (drag.tool) {
+      case 'marquee-rect':
+        path.rect(start.x, start.y, current.x - start.x, current.y - start.y);
+        break;
+      case 'marquee-ellipse':
+        path.ellipse(
+          (start.x + current.x) / 2,
+          (start.y + current.y) / 2,
+          Math.abs(current.x - start.x) / 2,
+          Math.abs(current.y - start.y) / 2,
+          0,
+          0,
+          Math.PI * 2
+        );
+        break;
+      case 'lasso':
+        drag.points.forEach((point, index) => {
+          if (index === 0) {
+            path.moveTo(point.x, point.y);
+          } else {
+            path.lineTo(point.x, point.y);
+          }
+        });
+        break;
+    }
+
+    return path;
+  };
+
+  // Marching ants for the selection plus the in-progress marquee/lasso, on a separate
+  // overlay canvas so the animation doesn't re-render the image
+  const drawSelectionOverlay = (time: number) => {
+    const canvas = canvasRef.current;
+    const overlay = overlayRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!canvas || !overlay || !ctx) return;
+
+    // Keep the overlay exactly on top of the (CSS-scaled) main canvas
+    if (overlay.width !== canvas.width || overlay.height !== canvas.height) {
+      overlay.width = canvas.width;
+      overlay.height = canvas.height;
+    }
+    overlay.style.left = `${canvas.offsetLeft}px`;
+    overlay.style.top = `${canvas.offsetTop}px`;
+    overlay.style.width = `${canvas.offsetWidth}px`;
+    overlay.style.height = `${canvas.offsetHeight}px`;
+
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+
+    const matrix = getDocumentToCanvas();
+    if (!matrix) return;
+
+    const strokeAnts = (documentPath: Path2D) => {
+      const path = new Path2D();
+      path.addPath(documentPath, matrix);
+
+      ctx.lineWidth = 1;
+      ctx.setLineDash([]);
+      ctx.strokeStyle = '#ffffff';
+      ctx.stroke(path);
+
+      ctx.setLineDash([4, 4]);
+      ctx.lineDashOffset = -Math.floor(time / 80) % 8;
+      ctx.strokeStyle = '#000000';
+      ctx.stroke(path);
+    };
+
+    const documentSelection = getDocumentSelection();
+    if (documentSelection) {
+      if (outlineCache.current?.selection !== documentSelection) {
+        outlineCache.current = { selection: documentSelection, segments: getMaskOutline(documentSelection) };
+      }
+
+      const { segments } = outlineCache.current;
+      const outline = new Path2D();
+      for (let i = 0; i < segments.length; i += 4) {
+        outline.moveTo(segments[i], segments[i + 1]);
+        outline.lineTo(segments[i + 2], segments[i + 3]);
+      }
+      strokeAnts(outline);
+    }
+
+    if (selectionDrag.current) {
+      strokeAnts(getDragPath(selectionDrag.current));
+    }
+
+    const view: ViewState = { canvasWidth: canvas.width, canvasHeight: canvas.height, zoom, pan };
+    if (transformLayer) {
+      drawTransformOverlay(ctx, transformLayer, view, matrix);
+    }
+
+    // Brush outline, scaled with the active layer
+    const brushLayer = isBrushTool ? layers.find(l => l.id === activeLayerId) : undefined;
+    if (brushLayer && brushCursor.current) {
+      const layerMatrix = getLayerMatrix(documentLayout, brushLayer, view);
+      const layerScale = Math.sqrt(Math.abs(layerMatrix.a * layerMatrix.d - layerMatrix.b * layerMatrix.c));
+      const brushSize = activeTool === 'mask-brush' ? maskBrushOptions.size : brushOptions.size;
+      const radius = Math.max(1, (brushSize / 2) * layerScale);
+      const { x, y } = brushCursor.current;
+
+      ctx.setLineDash([]);
+      ctx.lineWidth = 1;
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.beginPath();
+      ctx.arc(x, y, radius + 1, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.strokeStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  };
+
+  const drawOverlayRef = useRef(drawSelectionOverlay);
+  drawOverlayRef.current = drawSelectionOverlay;
 
   const drawImage = () => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
     if (!canvas || !ctx) return;
 
-    // Determine canvas size based on image
-    const primaryImage = layers.length > 0 ? layers[0].image : image;
-    if (!primaryImage) return;
+    // Determine canvas size based on the document
+    if (!documentBounds) return;
 
-    const optimalSize = calculateOptimalCanvasSize(primaryImage);
-    
     // Only resize if significantly different to avoid constant redraws
-    if (Math.abs(canvas.width - optimalSize.width) > 10 || Math.abs(canvas.height - optimalSize.height) > 10) {
+    const optimalSize = calculateOptimalCanvasSize(documentBounds, canvas);
+    if (canvas.width !== optimalSize.width || canvas.height !== optimalSize.height) {
       canvas.width = optimalSize.width;
       canvas.height = optimalSize.height;
     }
@@ -390,13 +693,20 @@ export const Canvas: React.FC<CanvasProps> = ({
     drawCheckerboard(ctx, canvas.width, canvas.height);
 
     if (layers.length > 0) {
-      // Draw the first layer as base image (covers entire canvas)
+      // A colour background fills the document under every layer
       const baseLayer = layers[0];
-      drawBaseImage(ctx, baseLayer.image, baseLayer.imageState, canvas.width, canvas.height);
-      
-      // Draw remaining layers as overlays at their natural size
-      layers.slice(1).forEach(layer => {
-        drawLayer(ctx, layer, canvas.width, canvas.height);
+      if (background.type === 'color') {
+        drawDocumentBackground(ctx, baseLayer, background.color, canvas.width, canvas.height);
+      }
+
+      // The first layer is the base image, at its place in the document; the rest are overlays.
+      // Hidden layers are skipped, the base included, as they are in the export.
+      getVisibleLayers(layers).forEach(layer => {
+        if (layer === baseLayer) {
+          drawBaseImage(ctx, layer.image, layer.imageState, canvas.width, canvas.height, layer);
+        } else {
+          drawLayer(ctx, layer, canvas.width, canvas.height);
+        }
       });
     } else if (image) {
       // Single image mode
@@ -405,13 +715,49 @@ export const Canvas: React.FC<CanvasProps> = ({
 
     // Apply vignette effect
     if (vignetteIntensity > 0) {
-      applyVignette(ctx, canvas.width, canvas.height);
+      applyVignette(canvas);
     }
   };
 
   useEffect(() => {
+    const stroke = paintStroke.current;
+    if (stroke?.finished && layers.find(l => l.id === stroke.layerId)?.image !== stroke.sourceImage) {
+      paintStroke.current = null;
+    }
     drawImage();
-  }, [image, layers, imageState, zoom, pan, vignetteIntensity, vignetteRadius]);
+    overlayDirty.current = true;
+  }, [image, layers, documentSize, imageState, zoom, pan, vignetteIntensity, vignetteRadius, background]);
+
+  const isSelectionTool = SELECTION_TOOLS.includes(activeTool);
+  const isMaskBrush = activeTool === 'mask-brush';
+  const isPaintTool = PAINT_TOOLS.includes(activeTool);
+  const isBrushTool = isMaskBrush || isPaintTool;
+  const activeLayer = layers.find(l => l.id === activeLayerId);
+  // The move tool transforms overlay layers; the base layer always covers the canvas
+  const transformLayer = activeTool === 'move' && activeLayer && activeLayer !== layers[0] && activeLayer.visible
+    ? activeLayer
+    : undefined;
+  const hasTransformLayer = !!transformLayer;
+
+  // Animate the marching ants while there is a selection or a selection tool is in use
+  useEffect(() => {
+    drawOverlayRef.current(0);
+    if (!selection && !isSelectionTool && !isBrushTool && !hasTransformLayer) return;
+
+    let frame = 0;
+    let lastDraw = 0;
+    const tick = (time: number) => {
+      if (overlayDirty.current || time - lastDraw > 120) {
+        overlayDirty.current = false;
+        lastDraw = time;
+        drawOverlayRef.current(time);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [selection, isSelectionTool, isBrushTool, hasTransformLayer]);
 
   // Redraw on container resize
   useEffect(() => {
@@ -425,44 +771,288 @@ export const Canvas: React.FC<CanvasProps> = ({
 
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
+
+    // Ctrl+Scroll resizes the brush instead of zooming
+    if (e.ctrlKey && isPaintTool && onBrushOptionsChange) {
+      const size = Math.round(brushOptions.size * (e.deltaY > 0 ? 0.9 : 1.1));
+      onBrushOptionsChange({ ...brushOptions, size: Math.max(1, Math.min(500, size === brushOptions.size ? size + Math.sign(-e.deltaY) : size)) });
+      overlayDirty.current = true;
+      return;
+    }
+
     const delta = e.deltaY > 0 ? 0.9 : 1.1;
     const newZoom = Math.max(0.1, Math.min(5, zoom * delta));
     onZoomChange(newZoom);
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    const mousePos = getCanvasMousePos(e);
-    const layerUnderMouse = getLayerUnderMouse(mousePos.x, mousePos.y);
-    
-    if (layerUnderMouse && onLayerPositionChange) {
-      // Start dragging the layer
-      isDraggingLayer.current = true;
-      dragStartPos.current = { x: e.clientX, y: e.clientY };
-      
-      const activeLayer = layers.find(l => l.id === layerUnderMouse);
-      if (activeLayer) {
-        originalLayerPos.current = { ...activeLayer.position };
+  const handleSelectionMouseDown = (e: React.MouseEvent) => {
+    const point = getDocumentPoint(e);
+    if (!point || !documentBounds) return;
+
+    const mode = getModifierMode(e, selectionMode);
+
+    if (activeTool === 'magic-wand') {
+      const pixels = getDocumentPixels();
+      if (pixels) {
+        applySelectionShape(createMagicWandMask(pixels, point.x, point.y, wandOptions), mode);
       }
-    } else {
-      // Start panning the canvas
-      isDragging.current = true;
-      lastMousePos.current = { x: e.clientX, y: e.clientY };
+      return;
     }
+
+    selectionDrag.current = { tool: activeTool, mode, start: point, current: point, points: [point] };
+    overlayDirty.current = true;
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (isDraggingLayer.current && activeLayerId && onLayerPositionChange) {
-      // Drag the active layer
-      const deltaX = (e.clientX - dragStartPos.current.x) / zoom;
-      const deltaY = (e.clientY - dragStartPos.current.y) / zoom;
-      
-      const newPosition = {
-        x: originalLayerPos.current.x + deltaX,
-        y: originalLayerPos.current.y + deltaY
-      };
-      
-      onLayerPositionChange(activeLayerId, newPosition);
-    } else if (isDragging.current) {
+  const finishSelectionDrag = () => {
+    const drag = selectionDrag.current;
+    selectionDrag.current = null;
+    overlayDirty.current = true;
+    if (!drag || !documentBounds) return;
+
+    const rect = {
+      x: drag.start.x,
+      y: drag.start.y,
+      width: drag.current.x - drag.start.x,
+      height: drag.current.y - drag.start.y
+    };
+    const isClick = drag.tool === 'lasso'
+      ? drag.points.length < 3
+      : Math.abs(rect.width) < 1 || Math.abs(rect.height) < 1;
+
+    // A plain click without a modifier clears the selection
+    if (isClick) {
+      if (drag.mode === 'replace') onSelectionChange?.(null);
+      return;
+    }
+
+    const { width, height } = documentBounds;
+    const mask = drag.tool === 'marquee-rect'
+      ? createRectMask(width, height, rect)
+      : drag.tool === 'marquee-ellipse'
+        ? createEllipseMask(width, height, rect)
+        : createPolygonMask(width, height, drag.points);
+
+    applySelectionShape(mask, drag.mode);
+  };
+
+  // Start painting the active layer's mask (a full mask is created on first use).
+  // Alt paints with the opposite mode.
+  const handleMaskMouseDown = (e: React.MouseEvent) => {
+    const layer = layers.find(l => l.id === activeLayerId);
+    if (!layer || layer.locked) return;
+
+    const point = getLayerPoint(e, layer);
+    if (!point) return;
+
+    const width = layer.image.naturalWidth || layer.image.width;
+    const height = layer.image.naturalHeight || layer.image.height;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(getMaskCanvas(layer.mask ?? createFullMask(width, height), width, height), 0, 0);
+
+    const options: MaskBrushOptions = e.altKey
+      ? { ...maskBrushOptions, mode: maskBrushOptions.mode === 'hide' ? 'reveal' : 'hide' }
+      : maskBrushOptions;
+
+    maskStroke.current = { layerId: layer.id, canvas, options, last: point };
+    paintMaskStroke(canvas, point, point, options);
+    drawImage();
+  };
+
+  // Start a brush or eraser stroke on the active layer's pixels (blocked on locked layers)
+  const handlePaintPointerDown = (e: React.PointerEvent) => {
+    const layer = layers.find(l => l.id === activeLayerId);
+    if (!layer || layer.locked) return;
+
+    const point = getLayerPoint(e, layer);
+    if (!point) return;
+
+    const width = layer.image.naturalWidth || layer.image.width;
+    const height = layer.image.naturalHeight || layer.image.height;
+    const createLayerCanvas = () => {
+      const layerCanvas = document.createElement('canvas');
+      layerCanvas.width = width;
+      layerCanvas.height = height;
+      return layerCanvas;
+    };
+
+    const original = createLayerCanvas();
+    const originalCtx = original.getContext('2d');
+    if (!originalCtx) return;
+    originalCtx.drawImage(layer.image, 0, 0, width, height);
+
+    const brushPoint: BrushPoint = { ...point, pressure: getPointerPressure(e) };
+    const tool = activeTool === 'eraser' ? 'eraser' : 'brush';
+    const options = tool === 'eraser' ? { ...brushOptions, color: '#000000' } : brushOptions;
+
+    paintStroke.current = {
+      layerId: layer.id,
+      tool,
+      options,
+      sourceImage: layer.image,
+      original,
+      buffer: createLayerCanvas(),
+      result: createLayerCanvas(),
+      last: brushPoint,
+      carry: Infinity,
+      finished: false
+    };
+    continuePaintStroke(brushPoint);
+  };
+
+  const continuePaintStroke = (point: BrushPoint) => {
+    const stroke = paintStroke.current;
+    const bufferCtx = stroke?.buffer.getContext('2d');
+    const resultCtx = stroke?.result.getContext('2d');
+    if (!stroke || !bufferCtx || !resultCtx) return;
+
+    stroke.carry = stampStroke(bufferCtx, stroke.last, point, stroke.options, stroke.carry);
+    stroke.last = point;
+
+    // Opacity caps the whole stroke, so dabs build up in the buffer and are applied once
+    resultCtx.globalCompositeOperation = 'copy';
+    resultCtx.globalAlpha = 1;
+    resultCtx.drawImage(stroke.original, 0, 0);
+    resultCtx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    resultCtx.globalAlpha = stroke.options.opacity / 100;
+    resultCtx.drawImage(stroke.buffer, 0, 0);
+    resultCtx.globalCompositeOperation = 'source-over';
+    resultCtx.globalAlpha = 1;
+
+    drawImage();
+  };
+
+  const finishPaintStroke = () => {
+    const stroke = paintStroke.current;
+    if (!stroke) return;
+
+    // Keep showing the stroke until the layer's new image has loaded
+    stroke.finished = true;
+    onLayerPaint?.(stroke.layerId, stroke.result, stroke.tool === 'eraser' ? 'Eraser' : 'Brush Stroke');
+  };
+
+  const finishMaskStroke = () => {
+    const stroke = maskStroke.current;
+    maskStroke.current = null;
+    if (stroke) {
+      onLayerMaskChange?.(stroke.layerId, canvasToMask(stroke.canvas));
+    }
+  };
+
+  const handleMouseDown = (e: React.PointerEvent) => {
+    if (isSelectionTool && onSelectionChange) {
+      handleSelectionMouseDown(e);
+      return;
+    }
+
+    if (isMaskBrush) {
+      if (onLayerMaskChange) handleMaskMouseDown(e);
+      return;
+    }
+
+    if (isPaintTool) {
+      if (onLayerPaint) {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        handlePaintPointerDown(e);
+      }
+      return;
+    }
+
+    const toCanvas = getDocumentToCanvas();
+    if (transformLayer && !transformLayer.locked && toCanvas && canvasRef.current && onLayerTransformChange) {
+      const point = clientToCanvasPoint(canvasRef.current, e.clientX, e.clientY);
+      const hit = getTransformHit(transformLayer, toCanvas, point, e.ctrlKey || e.metaKey);
+      if (hit) {
+        // Transform the layer with the handle under the pointer
+        e.currentTarget.setPointerCapture(e.pointerId);
+        transformDrag.current = { kind: hit.kind, handle: hit.handle, start: transformLayer, startPoint: point };
+        return;
+      }
+    }
+
+    // Start panning the canvas
+    isDragging.current = true;
+    lastMousePos.current = { x: e.clientX, y: e.clientY };
+  };
+
+  // Show what dragging would do at the pointer
+  const updateTransformCursor = (e: React.PointerEvent) => {
+    const container = containerRef.current;
+    const toCanvas = getDocumentToCanvas();
+    if (!container || !toCanvas || !canvasRef.current) return;
+
+    let cursor = '';
+    if (transformLayer && !transformLayer.locked) {
+      const point = clientToCanvasPoint(canvasRef.current, e.clientX, e.clientY);
+      const hit = getTransformHit(transformLayer, toCanvas, point, e.ctrlKey || e.metaKey);
+      if (hit?.kind === 'scale') {
+        // The layer's rotation as it shows on screen, with the document's own turned in
+        const frame = getLayerFrameMatrix(toCanvas, transformLayer);
+        cursor = getHandleCursor(hit.handle!, (Math.atan2(frame.b, frame.a) * 180) / Math.PI);
+      } else if (hit?.kind === 'skew') {
+        cursor = hit.handle!.x === 0 ? 'ew-resize' : 'ns-resize';
+      } else if (hit?.kind === 'rotate') {
+        cursor = 'alias';
+      } else if (hit) {
+        cursor = 'move';
+      }
+    }
+    container.style.cursor = cursor;
+  };
+
+  const handleMouseMove = (e: React.PointerEvent) => {
+    if (isBrushTool && canvasRef.current) {
+      brushCursor.current = clientToCanvasPoint(canvasRef.current, e.clientX, e.clientY);
+      overlayDirty.current = true;
+    }
+
+    if (paintStroke.current && !paintStroke.current.finished) {
+      const layer = layers.find(l => l.id === paintStroke.current?.layerId);
+      if (!layer) return;
+
+      // Pens report intermediate samples between frames; use them for smoother pressure
+      const samples = e.nativeEvent.getCoalescedEvents?.() ?? [];
+      (samples.length > 0 ? samples : [e.nativeEvent]).forEach(sample => {
+        const point = getLayerPoint(sample, layer);
+        if (point) continuePaintStroke({ ...point, pressure: getPointerPressure(sample) });
+      });
+      return;
+    }
+
+    if (maskStroke.current) {
+      const layer = layers.find(l => l.id === maskStroke.current?.layerId);
+      const point = layer && getLayerPoint(e, layer);
+      if (!point) return;
+
+      paintMaskStroke(maskStroke.current.canvas, maskStroke.current.last, point, maskStroke.current.options);
+      maskStroke.current.last = point;
+      drawImage();
+      return;
+    }
+
+    if (selectionDrag.current) {
+      const point = getDocumentPoint(e);
+      if (!point) return;
+
+      selectionDrag.current.current = point;
+      const last = selectionDrag.current.points[selectionDrag.current.points.length - 1];
+      if (selectionDrag.current.tool === 'lasso' && (point.x !== last.x || point.y !== last.y)) {
+        selectionDrag.current.points.push(point);
+      }
+      overlayDirty.current = true;
+      return;
+    }
+
+    if (transformDrag.current) {
+      updateTransformDrag(e);
+      return;
+    }
+
+    if (isDragging.current) {
       // Pan the canvas
       const deltaX = e.clientX - lastMousePos.current.x;
       const deltaY = e.clientY - lastMousePos.current.y;
@@ -473,12 +1063,33 @@ export const Canvas: React.FC<CanvasProps> = ({
       });
 
       lastMousePos.current = { x: e.clientX, y: e.clientY };
+    } else {
+      updateTransformCursor(e);
     }
   };
 
   const handleMouseUp = () => {
+    if (selectionDrag.current) {
+      finishSelectionDrag();
+    }
+    if (maskStroke.current) {
+      finishMaskStroke();
+    }
+    if (paintStroke.current && !paintStroke.current.finished) {
+      finishPaintStroke();
+    }
+    if (transformDrag.current) {
+      transformDrag.current = null;
+      snapGuides.current = [];
+      overlayDirty.current = true;
+    }
     isDragging.current = false;
-    isDraggingLayer.current = false;
+  };
+
+  const handleMouseLeave = () => {
+    brushCursor.current = null;
+    overlayDirty.current = true;
+    handleMouseUp();
   };
 
   return (
@@ -517,19 +1128,20 @@ export const Canvas: React.FC<CanvasProps> = ({
 
       <div
         ref={containerRef}
-        className={`flex-1 flex items-center justify-center overflow-hidden p-4 sm:p-6 lg:p-8 bg-white ${
-          isDraggingLayer.current ? 'cursor-move' : isDragging.current ? 'cursor-grabbing' : 'cursor-grab'
+        className={`relative flex-1 flex items-center justify-center overflow-hidden p-4 sm:p-6 lg:p-8 bg-white ${
+          isSelectionTool ? 'cursor-crosshair' : isBrushTool ? 'cursor-none' : isDragging.current ? 'cursor-grabbing' : 'cursor-grab'
         }`}
+        style={{ touchAction: isBrushTool ? 'none' : undefined }}
         onWheel={handleWheel}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onPointerDown={handleMouseDown}
+        onPointerMove={handleMouseMove}
+        onPointerUp={handleMouseUp}
+        onPointerLeave={handleMouseLeave}
       >
         <canvas
           ref={canvasRef}
           className={`border border-gray-300 rounded-lg shadow-lg max-w-full max-h-full transition-all duration-300 hover:shadow-xl ${
-            activeLayerId ? 'cursor-pointer' : ''
+            activeLayerId && !isSelectionTool && !isBrushTool ? 'cursor-pointer' : ''
           }`}
           style={{ 
             imageRendering: 'high-quality',
@@ -537,12 +1149,30 @@ export const Canvas: React.FC<CanvasProps> = ({
             maxHeight: '100%'
           }}
         />
+
+        {/* Selection overlay (marching ants), positioned over the canvas while drawing */}
+        <canvas
+          ref={overlayRef}
+          className="absolute pointer-events-none"
+        />
         
         {/* Layer Selection Indicator */}
         {activeLayerId && (
           <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
             Selected Layer: {layers.find(l => l.id === activeLayerId)?.name || 'Unknown'}
-            <div className="text-blue-300 text-xs">Click and drag to move</div>
+            <div className="text-blue-300 text-xs">
+              {isSelectionTool
+                ? 'Shift adds, Alt subtracts, Shift+Alt intersects'
+                : isMaskBrush
+                  ? `Paint to ${maskBrushOptions.mode} the layer, Alt to ${maskBrushOptions.mode === 'hide' ? 'reveal' : 'hide'}`
+                  : isPaintTool
+                    ? activeLayer?.locked ? 'Layer is locked' : 'Ctrl+Scroll changes the brush size'
+                    : transformLayer
+                      ? transformLayer.locked
+                        ? 'Layer is locked'
+                        : 'Drag to move, handles to scale (Shift keeps ratio), outside corners to rotate, Ctrl+edge to skew, Alt disables snapping'
+                      : 'Drag to pan'}
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Frame, X } from 'lucide-react';
+import { DocumentBackground } from '../types/editor';
+import { CANVAS_ANCHORS, CanvasAnchor, MAX_DOCUMENT_SIZE } from '../services/documentSize';
+
+interface CanvasSizeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentSize: { width: number; height: number };
+  background: DocumentBackground;
+  onApply: (width: number, height: number, anchor: CanvasAnchor, extensionColor: string, background: DocumentBackground) => void;
+}
+
+const backgroundTypes: { value: DocumentBackground['type']; label: string; description: string }[] = [
+  { value: 'layer', label: 'Bottom Layer', description: 'New canvas is filled on the bottom layer' },
+  { value: 'transparent', label: 'Transparent', description: 'Nothing behind the layers' },
+  { value: 'color', label: 'Colour', description: 'A solid colour behind the layers' }
+];
+
+export const CanvasSizeDialog: React.FC<CanvasSizeDialogProps> = ({
+  isOpen,
+  onClose,
+  documentSize,
+  background,
+  onApply
+}) => {
+  const [width, setWidth] = useState(documentSize.width);
+  const [height, setHeight] = useState(documentSize.height);
+  const [anchor, setAnchor] = useState<CanvasAnchor>({ x: 0.5, y: 0.5 });
+  const [backgroundType, setBackgroundType] = useState(background.type);
+  const [backgroundColor, setBackgroundColor] = useState(background.type === 'color' ? background.color : '#ffffff');
+  const [extensionColor, setExtensionColor] = useState('#ffffff');
+
+  const isValid = width >= 1 && height >= 1 && width <= MAX_DOCUMENT_SIZE && height <= MAX_DOCUMENT_SIZE;
+
+  const handleApply = () => {
+    const nextBackground: DocumentBackground = backgroundType === 'color'
+      ? { type: 'color', color: backgroundColor }
+      : { type: backgroundType };
+    onApply(width, height, anchor, extensionColor, nextBackground);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full mx-4 overflow-hidden max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-purple-50">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+                <Frame className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900">Canvas Size</h3>
+                <p className="text-sm text-gray-600">Currently {documentSize.width} × {documentSize.height} px</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-600" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Width (px)</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_DOCUMENT_SIZE}
+                value={width}
+                onChange={(e) => setWidth(parseInt(e.target.value) || 0)}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Height (px)</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_DOCUMENT_SIZE}
+                value={height}
+                onChange={(e) => setHeight(parseInt(e.target.value) || 0)}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Anchor */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Anchor</label>
+            <div className="grid grid-cols-3 gap-1 w-24">
+              {CANVAS_ANCHORS.map(option => {
+                const isSelected = option.x === anchor.x && option.y === anchor.y;
+                return (
+                  <button
+                    key={`${option.x}-${option.y}`}
+                    onClick={() => setAnchor(option)}
+                    className={`w-7 h-7 rounded border flex items-center justify-center transition-colors ${
+                      isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                    title={`Anchor ${['left', 'centre', 'right'][option.x * 2]} ${['top', 'middle', 'bottom'][option.y * 2]}`}
+                  >
+                    <span className={`block rounded-sm ${isSelected ? 'w-3 h-3 bg-blue-600' : 'w-1.5 h-1.5 bg-gray-400'}`} />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Background */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Background</label>
+            <div className="space-y-2">
+              {backgroundTypes.map(option => (
+                <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="canvas-background"
+                    checked={backgroundType === option.value}
+                    onChange={() => setBackgroundType(option.value)}
+                    className="mt-1 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div>
+                    <span className="text-sm font-medium text-gray-700">{option.label}</span>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {backgroundType === 'color' && (
+              <div className="mt-3">
+                <label className="block text-xs text-gray-600 mb-1">Background colour</label>
+                <input
+                  type="color"
+                  value={backgroundColor}
+                  onChange={(e) => setBackgroundColor(e.target.value)}
+                  className="w-full h-10 border border-gray-300 rounded-lg cursor-pointer"
+                />
+              </div>
+            )}
+            {backgroundType === 'layer' && (
+              <div className="mt-3">
+                <label className="block text-xs text-gray-600 mb-1">Canvas extension colour</label>
+                <input
+                  type="color"
+                  value={extensionColor}
+                  onChange={(e) => setExtensionColor(e.target.value)}
+                  className="w-full h-10 border border-gray-300 rounded-lg cursor-pointer"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 pt-0">
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="flex-1 p-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!isValid}
+              className="flex-1 p-3 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
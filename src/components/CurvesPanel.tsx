@@ -1,30 +1,23 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { TrendingUp, RotateCcw, Eye, EyeOff } from 'lucide-react';
-
-interface CurvePoint {
-  x: number;
-  y: number;
-}
+import { CurvePoint, CurvesState } from '../types/editor';
+import { createDefaultCurves, interpolateCurve } from '../services/curves';
 
 interface CurvesPanelProps {
   isVisible: boolean;
   onToggle: () => void;
-  onCurvesChange: (curves: { rgb: CurvePoint[], red: CurvePoint[], green: CurvePoint[], blue: CurvePoint[] }) => void;
+  curves: CurvesState;
+  onCurvesChange: (curves: CurvesState) => void;
 }
 
 export const CurvesPanel: React.FC<CurvesPanelProps> = ({
   isVisible,
   onToggle,
+  curves,
   onCurvesChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [activeChannel, setActiveChannel] = useState<'rgb' | 'red' | 'green' | 'blue'>('rgb');
-  const [curves, setCurves] = useState({
-    rgb: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }],
-    red: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }],
-    green: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }],
-    blue: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }]
-  });
   const [isDragging, setIsDragging] = useState(false);
   const [dragPointIndex, setDragPointIndex] = useState(-1);
 
@@ -122,7 +115,7 @@ export const CurvesPanel: React.FC<CurvesPanelProps> = ({
     
     for (let x = 0; x <= width; x += 2) {
       const inputValue = (x / width) * 255;
-      const outputValue = interpolateCurveSmooth(points, inputValue);
+      const outputValue = interpolateCurve(points, inputValue);
       const y = height - (outputValue / 255) * height;
       smoothPoints.push({ x, y });
     }
@@ -130,44 +123,6 @@ export const CurvesPanel: React.FC<CurvesPanelProps> = ({
     return smoothPoints;
   };
 
-  // Smooth curve interpolation using cubic splines
-  const interpolateCurveSmooth = (points: CurvePoint[], x: number): number => {
-    if (points.length < 2) return x;
-    
-    // Find the segment
-    let i = 0;
-    for (i = 0; i < points.length - 1; i++) {
-      if (x >= points[i].x && x <= points[i + 1].x) {
-        break;
-      }
-    }
-    
-    if (i >= points.length - 1) {
-      return points[points.length - 1].y;
-    }
-    
-    const p0 = points[Math.max(0, i - 1)];
-    const p1 = points[i];
-    const p2 = points[i + 1];
-    const p3 = points[Math.min(points.length - 1, i + 2)];
-    
-    // Normalize t to [0, 1] within the segment
-    const t = (x - p1.x) / (p2.x - p1.x);
-    
-    // Catmull-Rom spline interpolation
-    const t2 = t * t;
-    const t3 = t2 * t;
-    
-    const y = 0.5 * (
-      (2 * p1.y) +
-      (-p0.y + p2.y) * t +
-      (2 * p0.y - 5 * p1.y + 4 * p2.y - p3.y) * t2 +
-      (-p0.y + 3 * p1.y - 3 * p2.y + p3.y) * t3
-    );
-    
-    return Math.max(0, Math.min(255, y));
-  };
-
   const handleMouseDown = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -203,7 +158,6 @@ export const CurvesPanel: React.FC<CurvesPanelProps> = ({
       const newPoint = { x: inputValue, y: outputValue };
       const newChannelCurves = [...channelCurves, newPoint].sort((a, b) => a.x - b.x);
       newCurves[activeChannel] = newChannelCurves;
-      setCurves(newCurves);
       onCurvesChange(newCurves);
       
       // Start dragging the new point
@@ -243,7 +197,6 @@ export const CurvesPanel: React.FC<CurvesPanelProps> = ({
     }
     
     newCurves[activeChannel] = channelCurves;
-    setCurves(newCurves);
     onCurvesChange(newCurves);
   };
 
@@ -271,7 +224,6 @@ export const CurvesPanel: React.FC<CurvesPanelProps> = ({
         // Remove the point
         const newCurves = { ...curves };
         newCurves[activeChannel] = channelCurves.filter((_, index) => index !== i);
-        setCurves(newCurves);
         onCurvesChange(newCurves);
         break;
       }
@@ -279,14 +231,7 @@ export const CurvesPanel: React.FC<CurvesPanelProps> = ({
   };
 
   const resetCurves = () => {
-    const defaultCurves = {
-      rgb: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }],
-      red: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }],
-      green: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }],
-      blue: [{ x: 0, y: 0 }, { x: 128, y: 128 }, { x: 255, y: 255 }]
-    };
-    setCurves(defaultCurves);
-    onCurvesChange(defaultCurves);
+    onCurvesChange(createDefaultCurves());
   };
 
   useEffect(() => {
@@ -1,5 +1,6 @@
 import React, { useCallback } from 'react';
 import { Upload, Image } from 'lucide-react';
+import { isProjectFile, PROJECT_FILE_EXTENSION } from '../services/projectFile';
 
 interface DropZoneProps {
   onFileSelect: (file: File | File[]) => void;
@@ -10,7 +11,7 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFileSelect }) => {
     (e: React.DragEvent) => {
       e.preventDefault();
       const files = Array.from(e.dataTransfer.files);
-      const imageFiles = files.filter(file => file.type.startsWith('image/'));
+      const imageFiles = files.filter(file => file.type.startsWith('image/') || isProjectFile(file));
       if (imageFiles.length > 0) {
         onFileSelect(imageFiles.length === 1 ? imageFiles[0] : imageFiles);
       }
@@ -52,7 +53,7 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFileSelect }) => {
             </p>
             <input
               type="file"
-              accept="image/*"
+              accept={`image/*,${PROJECT_FILE_EXTENSION}`}
               multiple
               onChange={handleFileInput}
               className="hidden"
@@ -67,7 +68,7 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFileSelect }) => {
             </label>
           </div>
           <p className="text-xs sm:text-sm text-gray-500">
-            Supports JPG, PNG, GIF, and WebP • Multiple files supported
+            Supports JPG, PNG, GIF, WebP and {PROJECT_FILE_EXTENSION} projects • Multiple files supported
           </p>
         </div>
       </div>
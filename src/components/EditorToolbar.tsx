@@ -0,0 +1,193 @@
+import React from 'react';
+import { MousePointer2, Square, Circle, Lasso, Wand2, BoxSelect, XSquare, FlipHorizontal2, SlidersHorizontal, Paintbrush, Eraser } from 'lucide-react';
+import { EditorTool, SelectionMode } from '../types/editor';
+import { MagicWandOptions } from '../services/selection';
+import { BrushOptions } from '../services/brush';
+
+interface EditorToolbarProps {
+  activeTool: EditorTool;
+  onToolChange: (tool: EditorTool) => void;
+  selectionMode: SelectionMode;
+  onSelectionModeChange: (mode: SelectionMode) => void;
+  wandOptions: MagicWandOptions;
+  onWandOptionsChange: (options: MagicWandOptions) => void;
+  hasSelection: boolean;
+  onSelectAll: () => void;
+  onDeselect: () => void;
+  onInvert: () => void;
+  brushOptions: BrushOptions;
+  onBrushOptionsChange: (options: BrushOptions) => void;
+  isLayerLocked?: boolean;
+}
+
+const tools: { value: EditorTool; label: string; shortcut: string; icon: React.ReactNode }[] = [
+  { value: 'move', label: 'Move', shortcut: 'M', icon: <MousePointer2 className="w-4 h-4" /> },
+  { value: 'marquee-rect', label: 'Rectangle Select', shortcut: 'S', icon: <Square className="w-4 h-4" /> },
+  { value: 'marquee-ellipse', label: 'Ellipse Select', shortcut: 'O', icon: <Circle className="w-4 h-4" /> },
+  { value: 'lasso', label: 'Lasso', shortcut: 'Q', icon: <Lasso className="w-4 h-4" /> },
+  { value: 'magic-wand', label: 'Magic Wand', shortcut: 'W', icon: <Wand2 className="w-4 h-4" /> },
+  { value: 'brush', label: 'Brush', shortcut: 'B', icon: <Paintbrush className="w-4 h-4" /> },
+  { value: 'eraser', label: 'Eraser', shortcut: 'E', icon: <Eraser className="w-4 h-4" /> }
+];
+
+const selectionTools: EditorTool[] = ['marquee-rect', 'marquee-ellipse', 'lasso', 'magic-wand'];
+
+const brushSliders: { key: keyof Omit<BrushOptions, 'color'>; label: string; min: number; max: number; unit: string }[] = [
+  { key: 'size', label: 'Size', min: 1, max: 500, unit: 'px' },
+  { key: 'hardness', label: 'Hardness', min: 0, max: 100, unit: '%' },
+  { key: 'opacity', label: 'Opacity', min: 1, max: 100, unit: '%' },
+  { key: 'flow', label: 'Flow', min: 1, max: 100, unit: '%' },
+  { key: 'spacing', label: 'Spacing', min: 1, max: 200, unit: '%' }
+];
+
+const modes: { value: SelectionMode; label: string; hint: string }[] = [
+  { value: 'replace', label: 'New', hint: 'Replace the selection' },
+  { value: 'add', label: 'Add', hint: 'Add to the selection (Shift)' },
+  { value: 'subtract', label: 'Subtract', hint: 'Subtract from the selection (Alt)' },
+  { value: 'intersect', label: 'Intersect', hint: 'Intersect with the selection (Shift+Alt)' }
+];
+
+export const EditorToolbar: React.FC<EditorToolbarProps> = ({
+  activeTool,
+  onToolChange,
+  selectionMode,
+  onSelectionModeChange,
+  wandOptions,
+  onWandOptionsChange,
+  hasSelection,
+  onSelectAll,
+  onDeselect,
+  onInvert,
+  brushOptions,
+  onBrushOptionsChange,
+  isLayerLocked = false
+}) => {
+  const isSelectionTool = selectionTools.includes(activeTool);
+  const isPaintTool = activeTool === 'brush' || activeTool === 'eraser';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 sm:gap-4 px-3 sm:px-4 py-2 bg-white border-b border-gray-200 text-xs sm:text-sm">
+      {/* Tools */}
+      <div className="flex items-center space-x-1">
+        {tools.map((tool) => (
+          <button
+            key={tool.value}
+            onClick={() => onToolChange(tool.value)}
+            title={`${tool.label} (${tool.shortcut})`}
+            className={`p-2 rounded-lg transition-colors ${
+              activeTool === tool.value
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {tool.icon}
+          </button>
+        ))}
+      </div>
+
+      {/* Combine mode */}
+      {isSelectionTool && (
+        <div className="flex items-center space-x-1">
+          {modes.map((mode) => (
+            <button
+              key={mode.value}
+              onClick={() => onSelectionModeChange(mode.value)}
+              title={mode.hint}
+              className={`px-2 py-1 rounded transition-colors ${
+                selectionMode === mode.value
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Magic wand options */}
+      {activeTool === 'magic-wand' && (
+        <div className="flex items-center space-x-3 text-gray-600">
+          <SlidersHorizontal className="w-4 h-4" />
+          <label className="flex items-center space-x-2">
+            <span>Tolerance ({wandOptions.tolerance})</span>
+            <input
+              type="range"
+              min="0"
+              max="255"
+              value={wandOptions.tolerance}
+              onChange={(e) => onWandOptionsChange({ ...wandOptions, tolerance: parseInt(e.target.value) })}
+              className="w-24 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+          </label>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={wandOptions.contiguous}
+              onChange={(e) => onWandOptionsChange({ ...wandOptions, contiguous: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Contiguous</span>
+          </label>
+        </div>
+      )}
+
+      {/* Brush options */}
+      {isPaintTool && (
+        <div className="flex flex-wrap items-center gap-3 text-gray-600">
+          {activeTool === 'brush' && (
+            <input
+              type="color"
+              value={brushOptions.color}
+              onChange={(e) => onBrushOptionsChange({ ...brushOptions, color: e.target.value })}
+              className="w-7 h-7 rounded border border-gray-300 cursor-pointer"
+              title="Brush color"
+            />
+          )}
+          {brushSliders.map((slider) => (
+            <label key={slider.key} className="flex items-center space-x-2">
+              <span>{slider.label} ({brushOptions[slider.key]}{slider.unit})</span>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                value={brushOptions[slider.key]}
+                onChange={(e) => onBrushOptionsChange({ ...brushOptions, [slider.key]: parseInt(e.target.value) })}
+                className="w-20 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </label>
+          ))}
+          {isLayerLocked && (
+            <span className="text-red-500">Layer is locked</span>
+          )}
+        </div>
+      )}
+
+      {/* Selection commands */}
+      <div className="flex items-center space-x-1 ml-auto">
+        <button
+          onClick={onSelectAll}
+          title="Select All (Ctrl+A)"
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          <BoxSelect className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onInvert}
+          title="Invert Selection (Ctrl+Shift+I)"
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          <FlipHorizontal2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onDeselect}
+          disabled={!hasSelection}
+          title="Deselect (Ctrl+D)"
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <XSquare className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,38 @@
 import React, { useState } from 'react';
 import { Download, X, FileImage, Settings, Zap, Image, FileText, Layers } from 'lucide-react';
+import { defaultGifOptions, GifOptions } from '../services/gifEncoder';
+import { defaultPdfOptions, PdfOptions } from '../services/pdfWriter';
+import { ICNS_SIZES, ICO_SIZES } from '../services/iconEncoder';
+import { ExportScope } from '../services/compositor';
+import { defaultResampleOptions, RESAMPLE_METHODS, ResampleOptions } from '../services/resample';
+import { METADATA_POLICIES, MetadataExportOptions, MetadataPolicy, summarizeMetadata } from '../services/imageMetadata';
+import { COVER_FOCUSES, CoverFocus, EXPORT_FITS, ExportFit, ExportSetFormat, ExportSetItem } from '../services/exportSet';
+import { ImageMetadata } from '../types/editor';
 
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   onExport: (options: ExportOptions) => void;
-  canvasRef: React.RefObject<HTMLCanvasElement>;
+  getExportSize: (scope: ExportScope) => { width: number; height: number } | null; // Null when the scope is empty
+  layerCount?: number;
+  sourceMetadata?: ImageMetadata | null; // The bottom layer's, which exports carry
 }
 
 export interface ExportOptions {
-  format: 'png' | 'jpeg' | 'webp' | 'avif' | 'bmp' | 'gif' | 'pdf' | 'ico';
+  format: 'png' | 'jpeg' | 'webp' | 'avif' | 'bmp' | 'gif' | 'pdf' | 'ico' | 'icns';
   quality: number;
   width?: number;
   height?: number;
   maintainAspectRatio: boolean;
+  resample?: ResampleOptions;
+  scope: ExportScope;
   backgroundColor?: string;
   compression?: 'none' | 'low' | 'medium' | 'high';
-  metadata?: boolean;
+  metadata?: MetadataExportOptions;
+  gif?: GifOptions;
+  pdf?: PdfOptions;
+  iconSizes?: number[];
+  set?: ExportSetItem[]; // Several preset sizes in one ZIP instead of a single file
 }
 
 const exportFormats = [
@@ -27,7 +43,8 @@ const exportFormats = [
   { value: 'bmp', label: 'BMP', icon: <FileImage className="w-4 h-4" />, description: 'Uncompressed bitmap' },
   { value: 'gif', label: 'GIF', icon: <Image className="w-4 h-4" />, description: 'Simple graphics, limited colors' },
   { value: 'pdf', label: 'PDF', icon: <FileText className="w-4 h-4" />, description: 'Document format' },
-  { value: 'ico', label: 'ICO', icon: <Image className="w-4 h-4" />, description: 'Windows icon format' }
+  { value: 'ico', label: 'ICO', icon: <Image className="w-4 h-4" />, description: 'Windows icon, multiple sizes' },
+  { value: 'icns', label: 'ICNS', icon: <Image className="w-4 h-4" />, description: 'macOS app icon, multiple sizes' }
 ];
 
 const presets = [
@@ -50,26 +67,43 @@ const presets = [
   { name: 'Print Letter (300 DPI)', width: 2550, height: 3300 },
 ];
 
+const exportScopes: { value: ExportScope; label: string; description: string }[] = [
+  { value: 'document', label: 'Document', description: 'All visible layers at full resolution' },
+  { value: 'layer', label: 'Active Layer', description: 'Only the selected layer' },
+  { value: 'selection', label: 'Selection', description: 'The document cropped to the selection' }
+];
+
 export const ExportModal: React.FC<ExportModalProps> = ({
   isOpen,
   onClose,
   onExport,
-  canvasRef
+  getExportSize,
+  layerCount = 1,
+  sourceMetadata = null
 }) => {
-  const [format, setFormat] = useState<'png' | 'jpeg' | 'webp' | 'avif' | 'bmp' | 'gif' | 'pdf' | 'ico'>('png');
+  const sourceSummary = summarizeMetadata(sourceMetadata);
+  const [format, setFormat] = useState<'png' | 'jpeg' | 'webp' | 'avif' | 'bmp' | 'gif' | 'pdf' | 'ico' | 'icns'>('png');
   const [quality, setQuality] = useState(90);
+  const [scope, setScope] = useState<ExportScope>('document');
   const [customWidth, setCustomWidth] = useState<number | undefined>();
   const [customHeight, setCustomHeight] = useState<number | undefined>();
   const [maintainAspectRatio, setMaintainAspectRatio] = useState(true);
+  const [resample, setResample] = useState<ResampleOptions>(defaultResampleOptions);
   const [backgroundColor, setBackgroundColor] = useState('#ffffff');
   const [compression, setCompression] = useState<'none' | 'low' | 'medium' | 'high'>('medium');
-  const [includeMetadata, setIncludeMetadata] = useState(false);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('keep');
+  const [author, setAuthor] = useState(sourceSummary.author ?? '');
+  const [copyright, setCopyright] = useState(sourceSummary.copyright ?? '');
   const [selectedPreset, setSelectedPreset] = useState(presets[0]);
+  const [exportSetMode, setExportSetMode] = useState(false);
+  const [setItems, setSetItems] = useState<ExportSetItem[]>([]);
+  const [gifOptions, setGifOptions] = useState<GifOptions>(defaultGifOptions);
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>(defaultPdfOptions);
+  const [icoSizes, setIcoSizes] = useState<number[]>(ICO_SIZES);
+  const [icnsSizes, setIcnsSizes] = useState<number[]>(ICNS_SIZES);
 
   const getOriginalDimensions = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { width: 800, height: 600 };
-    return { width: canvas.width, height: canvas.height };
+    return getExportSize(scope) ?? { width: 800, height: 600 };
   };
 
   const getFileSize = (dimensions: { width: number; height: number }) => {
@@ -93,13 +127,17 @@ export const ExportModal: React.FC<ExportModalProps> = ({
         sizeBytes = pixels * 3; // 24-bit BMP
         break;
       case 'gif':
-        sizeBytes = pixels * 1; // 8-bit GIF
+        sizeBytes = pixels * (Math.log2(gifOptions.maxColors) / 8); // Indexed color before LZW
+        if (gifOptions.animated && layerCount > 1) sizeBytes *= layerCount;
         break;
       case 'pdf':
-        sizeBytes = pixels * 0.5; // PDF compression
+        sizeBytes = pixels * (pdfOptions.imageEncoding === 'jpeg' ? (quality / 100) * 0.8 : 2);
+        if (pdfOptions.pagePerLayer && layerCount > 1) sizeBytes *= layerCount;
         break;
       case 'ico':
-        sizeBytes = Math.min(pixels * 4, 16384); // ICO size limit
+      case 'icns':
+        // Each embedded size is a PNG; roughly half of raw RGBA
+        sizeBytes = iconSizes.reduce((sum, size) => sum + size * size * 2, 0);
         break;
     }
 
@@ -114,6 +152,21 @@ export const ExportModal: React.FC<ExportModalProps> = ({
     setCustomHeight(preset.height || undefined);
   };
 
+  // Items stay in preset order whatever order they were picked in
+  const toggleSetPreset = (preset: typeof presets[0]) => {
+    if (!preset.width || !preset.height) return;
+    const { width, height } = preset;
+    setSetItems(prev => prev.some(item => item.name === preset.name)
+      ? prev.filter(item => item.name !== preset.name)
+      : [...prev, { name: preset.name, width, height, fit: 'cover' as ExportFit, focus: 'saliency' as CoverFocus, format: 'jpeg' as ExportSetFormat, fill: '#ffffff' }]
+        .sort((a, b) => presets.findIndex(p => p.name === a.name) - presets.findIndex(p => p.name === b.name))
+    );
+  };
+
+  const updateSetItem = (name: string, updates: Partial<ExportSetItem>) => {
+    setSetItems(prev => prev.map(item => (item.name === name ? { ...item, ...updates } : item)));
+  };
+
   const handleExport = () => {
     const exportOptions: ExportOptions = {
       format,
@@ -121,18 +174,48 @@ export const ExportModal: React.FC<ExportModalProps> = ({
       width: customWidth,
       height: customHeight,
       maintainAspectRatio,
-      backgroundColor: format === 'jpeg' || format === 'bmp' ? backgroundColor : undefined,
+      resample,
+      scope,
+      backgroundColor: formatSupportsBackground ? backgroundColor : undefined,
       compression,
-      metadata: includeMetadata
+      metadata: formatSupportsMetadata || exportSetMode ? { policy: metadataPolicy, author, copyright } : undefined,
+      gif: format === 'gif' ? gifOptions : undefined,
+      pdf: format === 'pdf' ? pdfOptions : undefined,
+      iconSizes: isIconFormat ? iconSizes : undefined,
+      set: exportSetMode ? setItems : undefined
     };
 
     onExport(exportOptions);
     onClose();
   };
 
-  const formatSupportsQuality = ['jpeg', 'webp', 'avif'].includes(format);
-  const formatSupportsBackground = ['jpeg', 'bmp', 'pdf'].includes(format);
-  const formatSupportsTransparency = ['png', 'webp', 'avif', 'gif', 'ico'].includes(format);
+  const formatSupportsQuality = ['jpeg', 'webp', 'avif'].includes(format) ||
+    (format === 'pdf' && pdfOptions.imageEncoding === 'jpeg');
+  // GIFs without a transparent index are flattened onto the background too
+  const formatSupportsBackground = ['jpeg', 'bmp', 'pdf'].includes(format) ||
+    (format === 'gif' && !gifOptions.transparent);
+  const formatSupportsMetadata = format === 'jpeg' || format === 'png';
+  const formatSupportsTransparency = ['png', 'webp', 'avif', 'gif', 'ico', 'icns'].includes(format);
+
+  const isIconFormat = format === 'ico' || format === 'icns';
+  const availableIconSizes = format === 'icns' ? ICNS_SIZES : ICO_SIZES;
+  const iconSizes = format === 'icns' ? icnsSizes : icoSizes;
+
+  const toggleIconSize = (size: number) => {
+    const setSizes = format === 'icns' ? setIcnsSizes : setIcoSizes;
+    setSizes(prev => prev.includes(size)
+      ? prev.filter(s => s !== size)
+      : [...prev, size].sort((a, b) => a - b)
+    );
+  };
+
+  const updateGifOptions = (updates: Partial<GifOptions>) => {
+    setGifOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  const updatePdfOptions = (updates: Partial<PdfOptions>) => {
+    setPdfOptions(prev => ({ ...prev, ...updates }));
+  };
 
   const currentDimensions = {
     width: customWidth || getOriginalDimensions().width,
@@ -243,6 +326,234 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                 </div>
               )}
 
+              {/* GIF Settings */}
+              {format === 'gif' && (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Colors ({gifOptions.maxColors})
+                    </label>
+                    <select
+                      value={gifOptions.maxColors}
+                      onChange={(e) => updateGifOptions({ maxColors: parseInt(e.target.value) })}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {[256, 128, 64, 32, 16, 8, 4, 2].map((colors) => (
+                        <option key={colors} value={colors}>{colors} colors</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={gifOptions.dithering}
+                      onChange={(e) => updateGifOptions({ dithering: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">Dithering</span>
+                      <p className="text-xs text-gray-500">Smoother gradients with few colors</p>
+                    </div>
+                  </label>
+
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={gifOptions.transparent}
+                      onChange={(e) => updateGifOptions({ transparent: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">Transparency</span>
+                      <p className="text-xs text-gray-500">Keep transparent pixels (uses one palette slot)</p>
+                    </div>
+                  </label>
+
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={gifOptions.animated}
+                      disabled={layerCount < 2}
+                      onChange={(e) => updateGifOptions({ animated: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-gray-700 flex items-center space-x-1">
+                        <Layers className="w-3 h-3" />
+                        <span>Animate Layers</span>
+                      </span>
+                      <p className="text-xs text-gray-500">
+                        {layerCount < 2 ? 'Needs at least two visible layers' : `Each of the ${layerCount} visible layers becomes a frame`}
+                      </p>
+                    </div>
+                  </label>
+
+                  {gifOptions.animated && layerCount > 1 && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Frame delay (ms)</label>
+                        <input
+                          type="number"
+                          min="20"
+                          step="10"
+                          value={gifOptions.frameDelay}
+                          onChange={(e) => updateGifOptions({ frameDelay: Math.max(20, parseInt(e.target.value) || 0) })}
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </div>
+                      <label className="flex items-center space-x-2 mt-5">
+                        <input
+                          type="checkbox"
+                          checked={gifOptions.loop}
+                          onChange={(e) => updateGifOptions({ loop: e.target.checked })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="text-xs text-gray-600">Loop forever</span>
+                      </label>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* PDF Settings */}
+              {format === 'pdf' && (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Page size</label>
+                      <select
+                        value={pdfOptions.pageSize}
+                        onChange={(e) => updatePdfOptions({ pageSize: e.target.value as PdfOptions['pageSize'] })}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="a4">A4 (210×297 mm)</option>
+                        <option value="letter">Letter (8.5×11 in)</option>
+                        <option value="custom">Custom</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Orientation</label>
+                      <select
+                        value={pdfOptions.orientation}
+                        onChange={(e) => updatePdfOptions({ orientation: e.target.value as PdfOptions['orientation'] })}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="auto">Match image</option>
+                        <option value="portrait">Portrait</option>
+                        <option value="landscape">Landscape</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  {pdfOptions.pageSize === 'custom' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Page width (mm)</label>
+                        <input
+                          type="number"
+                          min="10"
+                          value={pdfOptions.customWidth}
+                          onChange={(e) => updatePdfOptions({ customWidth: Math.max(10, parseFloat(e.target.value) || 0) })}
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Page height (mm)</label>
+                        <input
+                          type="number"
+                          min="10"
+                          value={pdfOptions.customHeight}
+                          onChange={(e) => updatePdfOptions({ customHeight: Math.max(10, parseFloat(e.target.value) || 0) })}
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Margins (mm)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={pdfOptions.margin}
+                        onChange={(e) => updatePdfOptions({ margin: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Resolution (DPI)</label>
+                      <select
+                        value={pdfOptions.dpi}
+                        onChange={(e) => updatePdfOptions({ dpi: parseInt(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        {[72, 150, 300, 600].map((dpi) => (
+                          <option key={dpi} value={dpi}>{dpi} DPI</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Image encoding</label>
+                    <select
+                      value={pdfOptions.imageEncoding}
+                      onChange={(e) => updatePdfOptions({ imageEncoding: e.target.value as PdfOptions['imageEncoding'] })}
+                      className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="jpeg">JPEG (smaller, uses quality setting)</option>
+                      <option value="flate">Flate (lossless, keeps transparency)</option>
+                    </select>
+                  </div>
+
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={pdfOptions.pagePerLayer}
+                      disabled={layerCount < 2}
+                      onChange={(e) => updatePdfOptions({ pagePerLayer: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-gray-700 flex items-center space-x-1">
+                        <Layers className="w-3 h-3" />
+                        <span>One Page per Layer</span>
+                      </span>
+                      <p className="text-xs text-gray-500">
+                        {layerCount < 2 ? 'Needs at least two visible layers' : `Creates ${layerCount} pages`}
+                      </p>
+                    </div>
+                  </label>
+                </div>
+              )}
+
+              {/* Icon Sizes */}
+              {isIconFormat && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Icon Sizes</label>
+                  <div className="flex flex-wrap gap-2">
+                    {availableIconSizes.map((size) => (
+                      <button
+                        key={size}
+                        onClick={() => toggleIconSize(size)}
+                        className={`px-3 py-1.5 text-xs rounded-lg border transition-colors ${
+                          iconSizes.includes(size)
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {size}×{size}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Each size is resampled separately from the full-resolution image
+                  </p>
+                </div>
+              )}
+
               {/* Compression Settings */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -262,33 +573,120 @@ export const ExportModal: React.FC<ExportModalProps> = ({
 
               {/* Metadata */}
               <div>
-                <label className="flex items-center space-x-3">
-                  <input
-                    type="checkbox"
-                    checked={includeMetadata}
-                    onChange={(e) => setIncludeMetadata(e.target.checked)}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <div>
-                    <span className="text-sm font-medium text-gray-700">Include Metadata</span>
-                    <p className="text-xs text-gray-500">Embed creation date and software info</p>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Metadata</label>
+                {formatSupportsMetadata || exportSetMode ? (
+                  <div className="space-y-3">
+                    {sourceMetadata && (
+                      <div className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+                        {sourceSummary.camera && <p>{sourceSummary.camera}{sourceSummary.lens ? ` · ${sourceSummary.lens}` : ''}</p>}
+                        {sourceSummary.exposure && <p>{sourceSummary.exposure}</p>}
+                        {sourceSummary.takenAt && <p>Taken {sourceSummary.takenAt}</p>}
+                        {sourceSummary.location && (
+                          <p className="text-amber-700">
+                            Location {sourceSummary.location.latitude.toFixed(5)}, {sourceSummary.location.longitude.toFixed(5)}
+                          </p>
+                        )}
+                        {sourceSummary.hasColorProfile && <p>Colour profile converted to sRGB</p>}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-3 gap-2">
+                      {METADATA_POLICIES.map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => setMetadataPolicy(option.value)}
+                          title={option.description}
+                          className={`p-2 rounded-lg border text-xs font-medium transition-all ${
+                            metadataPolicy === option.value
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {METADATA_POLICIES.find(option => option.value === metadataPolicy)?.description}
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Author</label>
+                        <input
+                          type="text"
+                          value={author}
+                          onChange={(e) => setAuthor(e.target.value)}
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Copyright</label>
+                        <input
+                          type="text"
+                          value={copyright}
+                          onChange={(e) => setCopyright(e.target.value)}
+                          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </div>
+                    </div>
                   </div>
-                </label>
+                ) : (
+                  <p className="text-xs text-gray-500">Only JPEG and PNG exports carry metadata</p>
+                )}
               </div>
             </div>
 
             {/* Right Column - Size & Presets */}
             <div className="space-y-6">
+              {/* Export Area */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">Export Area</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {exportScopes.map(option => {
+                    const size = getExportSize(option.value);
+                    return (
+                      <button
+                        key={option.value}
+                        onClick={() => setScope(option.value)}
+                        disabled={!size}
+                        title={option.description}
+                        className={`p-3 rounded-lg border text-left text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                          scope === option.value
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 hover:border-gray-300'
+                        }`}
+                      >
+                        <div className="font-medium">{option.label}</div>
+                        <div className="text-gray-500 text-xs mt-1">
+                          {size ? `${size.width}×${size.height}px` : 'Nothing to export'}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
               {/* Size Presets */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-3">Size Presets</label>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-medium text-gray-700">Size Presets</label>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={exportSetMode}
+                      onChange={(e) => setExportSetMode(e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-xs text-gray-600">Export several at once</span>
+                  </label>
+                </div>
                 <div className="grid grid-cols-1 gap-2 max-h-60 overflow-y-auto border border-gray-200 rounded-lg p-3">
                   {presets.map((preset) => (
                     <button
                       key={preset.name}
-                      onClick={() => handlePresetSelect(preset)}
-                      className={`p-3 text-left rounded-lg text-sm transition-all ${
-                        selectedPreset.name === preset.name
+                      onClick={() => (exportSetMode ? toggleSetPreset(preset) : handlePresetSelect(preset))}
+                      disabled={exportSetMode && !preset.width}
+                      className={`p-3 text-left rounded-lg text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                        (exportSetMode ? setItems.some(item => item.name === preset.name) : selectedPreset.name === preset.name)
                           ? 'border-blue-500 bg-blue-50 text-blue-700 border'
                           : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50 border'
                       }`}
@@ -302,6 +700,69 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                     </button>
                   ))}
                 </div>
+
+                {exportSetMode && (
+                  <div className="mt-3 space-y-2">
+                    {setItems.length === 0 && (
+                      <p className="text-xs text-gray-500">Pick the presets to export; each gets its own fit and format</p>
+                    )}
+                    {setItems.map(item => (
+                      <div key={item.name} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                        <div className="flex justify-between text-xs">
+                          <span className="font-medium text-gray-700">{item.name}</span>
+                          <span className="text-gray-500">{item.width}×{item.height}px</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <select
+                            value={item.fit}
+                            onChange={(e) => updateSetItem(item.name, { fit: e.target.value as ExportFit })}
+                            title={EXPORT_FITS.find(fit => fit.value === item.fit)?.description}
+                            className="w-full p-2 border border-gray-300 rounded-lg text-xs"
+                          >
+                            {EXPORT_FITS.map(fit => (
+                              <option key={fit.value} value={fit.value}>{fit.label}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={item.format}
+                            onChange={(e) => updateSetItem(item.name, { format: e.target.value as ExportSetFormat })}
+                            className="w-full p-2 border border-gray-300 rounded-lg text-xs"
+                          >
+                            <option value="jpeg">JPEG</option>
+                            <option value="png">PNG</option>
+                            <option value="webp">WebP</option>
+                          </select>
+                        </div>
+                        {item.fit === 'cover' && (
+                          <select
+                            value={item.focus}
+                            onChange={(e) => updateSetItem(item.name, { focus: e.target.value as CoverFocus })}
+                            className="w-full p-2 border border-gray-300 rounded-lg text-xs"
+                          >
+                            {COVER_FOCUSES.map(focus => (
+                              <option key={focus.value} value={focus.value}>
+                                Focus: {focus.label} – {focus.description}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        {(item.fit === 'letterbox' || item.format === 'jpeg') && (
+                          <label className="flex items-center space-x-2">
+                            <input
+                              type="color"
+                              value={item.fill}
+                              onChange={(e) => updateSetItem(item.name, { fill: e.target.value })}
+                              className="w-8 h-6 border border-gray-300 rounded cursor-pointer"
+                            />
+                            <span className="text-xs text-gray-600">
+                              {item.fit === 'letterbox' ? 'Letterbox fill' : 'Background'}
+                            </span>
+                          </label>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Custom Dimensions */}
@@ -338,6 +799,35 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   />
                   <span className="text-xs text-gray-600">Lock aspect ratio</span>
                 </label>
+
+                {(customWidth || customHeight || exportSetMode) && (
+                  <div className="mt-3 space-y-2">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Resampling</label>
+                      <select
+                        value={resample.method}
+                        onChange={(e) => setResample(prev => ({ ...prev, method: e.target.value as ResampleOptions['method'] }))}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        {RESAMPLE_METHODS.map(method => (
+                          <option key={method.value} value={method.value}>
+                            {method.label} – {method.description}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={resample.linearLight}
+                        disabled={resample.method === 'nearest'}
+                        onChange={(e) => setResample(prev => ({ ...prev, linearLight: e.target.checked }))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-xs text-gray-600">Gamma-aware scaling (linear light)</span>
+                    </label>
+                  </div>
+                )}
               </div>
 
               {/* Export Summary */}
@@ -349,12 +839,16 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                 <div className="space-y-2 text-xs text-gray-600">
                   <div className="flex justify-between">
                     <span>Format:</span>
-                    <span className="font-medium text-gray-900">{format.toUpperCase()}</span>
+                    <span className="font-medium text-gray-900">{exportSetMode ? 'Per preset' : format.toUpperCase()}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Dimensions:</span>
                     <span className="font-medium text-gray-900">
-                      {currentDimensions.width}×{currentDimensions.height}px
+                      {exportSetMode
+                        ? `${setItems.length} preset size${setItems.length === 1 ? '' : 's'}`
+                        : isIconFormat
+                        ? `${iconSizes.length} icon size${iconSizes.length === 1 ? '' : 's'}`
+                        : `${currentDimensions.width}×${currentDimensions.height}px`}
                     </span>
                   </div>
                   {formatSupportsQuality && (
@@ -363,10 +857,12 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                       <span className="font-medium text-gray-900">{quality}%</span>
                     </div>
                   )}
-                  <div className="flex justify-between">
-                    <span>Estimated size:</span>
-                    <span className="font-medium text-gray-900">{getFileSize(currentDimensions)}</span>
-                  </div>
+                  {!exportSetMode && (
+                    <div className="flex justify-between">
+                      <span>Estimated size:</span>
+                      <span className="font-medium text-gray-900">{getFileSize(currentDimensions)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Transparency:</span>
                     <span className="font-medium text-gray-900">
@@ -390,10 +886,11 @@ export const ExportModal: React.FC<ExportModalProps> = ({
             </button>
             <button
               onClick={handleExport}
-              className="flex-1 p-3 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700 transition-colors flex items-center justify-center space-x-2 font-medium"
+              disabled={exportSetMode ? setItems.length === 0 : isIconFormat && iconSizes.length === 0}
+              className="flex-1 p-3 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700 transition-colors flex items-center justify-center space-x-2 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Download className="w-4 h-4" />
-              <span>Export {format.toUpperCase()}</span>
+              <span>{exportSetMode ? `Export ${setItems.length} Sizes (ZIP)` : `Export ${format.toUpperCase()}`}</span>
             </button>
           </div>
         </div>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Upload, Download, RotateCcw, Undo, Redo, Image, Menu, X, Layers, Type, User, Play, Sun, Moon } from 'lucide-react';
 import { useDarkMode } from '../contexts/DarkModeContext';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
 
 interface HeaderProps {
   onFileSelect: (file: File) => void;
@@ -134,7 +135,7 @@ export const Header: React.FC<HeaderProps> = ({
             {/* Upload Button */}
             <input
               type="file"
-              accept="image/*"
+              accept={`image/*,${PROJECT_FILE_EXTENSION}`}
               multiple
               onChange={handleFileInput}
               className="hidden"
@@ -252,7 +253,7 @@ export const Header: React.FC<HeaderProps> = ({
             <>
               <input
                 type="file"
-                accept="image/*"
+                accept={`image/*,${PROJECT_FILE_EXTENSION}`}
                 multiple
                 onChange={handleFileInput}
                 className="hidden"
@@ -284,7 +285,7 @@ export const Header: React.FC<HeaderProps> = ({
             <>
               <input
                 type="file"
-                accept="image/*"
+                accept={`image/*,${PROJECT_FILE_EXTENSION}`}
                 multiple
                 onChange={handleFileInput}
                 className="hidden"
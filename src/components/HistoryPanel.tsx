@@ -0,0 +1,98 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { HistoryStep } from '../types/editor';
+
+interface HistoryPanelProps {
+  isVisible: boolean;
+  onToggle: () => void;
+  steps: HistoryStep[];
+  currentIndex: number;
+  memoryUsage: number; // Bytes held by history snapshots
+  memoryLimit: number;
+  onJumpToStep: (index: number) => void;
+}
+
+const formatMegabytes = (bytes: number): string => `${Math.round(bytes / 1024 / 1024)}MB`;
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isVisible,
+  onToggle,
+  steps,
+  currentIndex,
+  memoryUsage,
+  memoryLimit,
+  onJumpToStep
+}) => {
+  if (!isVisible) {
+    return (
+      <button
+        onClick={onToggle}
+        className="fixed bottom-20 right-20 p-3 bg-white rounded-xl shadow-lg border border-gray-200 hover:shadow-xl transition-all duration-300 z-30"
+        title="History"
+      >
+        <History className="w-5 h-5 text-gray-600" />
+      </button>
+    );
+  }
+
+  const memoryPercent = Math.min(100, (memoryUsage / memoryLimit) * 100);
+
+  return (
+    <div className="fixed bottom-20 right-20 bg-white rounded-xl shadow-xl border border-gray-200 z-30 overflow-hidden w-64">
+      {/* Header */}
+      <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <History className="w-4 h-4 text-gray-600" />
+          <span className="text-sm font-medium text-gray-900">History</span>
+        </div>
+        <button
+          onClick={onToggle}
+          className="p-1 rounded hover:bg-gray-100 transition-colors"
+        >
+          <X className="w-4 h-4 text-gray-600" />
+        </button>
+      </div>
+
+      {/* Steps, oldest first. Steps after the current one can still be redone. */}
+      <div className="max-h-72 overflow-y-auto py-1">
+        {steps.length === 0 ? (
+          <div className="px-3 py-4 text-xs text-gray-500 text-center">No history yet</div>
+        ) : (
+          steps.map((step, index) => (
+            <button
+              key={step.id}
+              onClick={() => onJumpToStep(index)}
+              className={`w-full flex items-center justify-between px-3 py-1.5 text-left text-sm transition-colors ${
+                index === currentIndex
+                  ? 'bg-blue-50 text-blue-700 font-medium'
+                  : index > currentIndex
+                    ? 'text-gray-400 hover:bg-gray-50'
+                    : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span className="truncate">{step.name}</span>
+              <span className="text-xs text-gray-400 ml-2 flex-shrink-0">
+                {new Date(step.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+
+      {/* Memory */}
+      <div className="p-3 border-t border-gray-200">
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>Snapshot memory</span>
+          <span>{formatMegabytes(memoryUsage)} / {formatMegabytes(memoryLimit)}</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div
+            className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+            style={{ width: `${memoryPercent}%` }}
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Oldest steps are dropped past the limit.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Scaling, X } from 'lucide-react';
+import { MAX_DOCUMENT_SIZE } from '../services/documentSize';
+import { defaultResampleOptions, RESAMPLE_METHODS, ResampleOptions } from '../services/resample';
+
+interface ImageSizeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentSize: { width: number; height: number };
+  onApply: (width: number, height: number, resample: ResampleOptions) => void;
+}
+
+export const ImageSizeDialog: React.FC<ImageSizeDialogProps> = ({
+  isOpen,
+  onClose,
+  documentSize,
+  onApply
+}) => {
+  const [width, setWidth] = useState(documentSize.width);
+  const [height, setHeight] = useState(documentSize.height);
+  const [constrainProportions, setConstrainProportions] = useState(true);
+  const [resample, setResample] = useState<ResampleOptions>(defaultResampleOptions);
+
+  const aspectRatio = documentSize.width / documentSize.height;
+  const isValid = width >= 1 && height >= 1 && width <= MAX_DOCUMENT_SIZE && height <= MAX_DOCUMENT_SIZE;
+
+  const handleWidthChange = (value: number) => {
+    setWidth(value);
+    if (constrainProportions) setHeight(Math.max(1, Math.round(value / aspectRatio)));
+  };
+
+  const handleHeightChange = (value: number) => {
+    setHeight(value);
+    if (constrainProportions) setWidth(Math.max(1, Math.round(value * aspectRatio)));
+  };
+
+  const handlePercentage = (percent: number) => {
+    setWidth(Math.max(1, Math.round((documentSize.width * percent) / 100)));
+    setHeight(Math.max(1, Math.round((documentSize.height * percent) / 100)));
+  };
+
+  const handleApply = () => {
+    onApply(width, height, resample);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full mx-4 overflow-hidden max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-purple-50">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+                <Scaling className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900">Image Size</h3>
+                <p className="text-sm text-gray-600">Resamples every layer with the document</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-600" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Width (px)</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_DOCUMENT_SIZE}
+                value={width}
+                onChange={(e) => handleWidthChange(parseInt(e.target.value) || 0)}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Height (px)</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_DOCUMENT_SIZE}
+                value={height}
+                onChange={(e) => handleHeightChange(parseInt(e.target.value) || 0)}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={constrainProportions}
+              onChange={(e) => setConstrainProportions(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm font-medium text-gray-700">Constrain proportions</span>
+          </label>
+
+          <div className="flex space-x-2">
+            {[25, 50, 200].map(percent => (
+              <button
+                key={percent}
+                onClick={() => handlePercentage(percent)}
+                className="flex-1 p-2 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-300 transition-colors"
+              >
+                {percent}%
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Resampling</label>
+              <select
+                value={resample.method}
+                onChange={(e) => setResample(prev => ({ ...prev, method: e.target.value as ResampleOptions['method'] }))}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {RESAMPLE_METHODS.map(method => (
+                  <option key={method.value} value={method.value}>
+                    {method.label} – {method.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={resample.linearLight}
+                disabled={resample.method === 'nearest'}
+                onChange={(e) => setResample(prev => ({ ...prev, linearLight: e.target.checked }))}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-xs text-gray-600">Gamma-aware scaling (linear light)</span>
+            </label>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {documentSize.width} × {documentSize.height} px → {width} × {height} px
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 pt-0">
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="flex-1 p-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!isValid}
+              className="flex-1 p-3 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Resample
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Keyboard, X } from 'lucide-react';
+import { EditorTool } from '../types/editor';
 
 interface KeyboardShortcutsProps {
   onUndo: () => void;
@@ -17,6 +18,9 @@ interface KeyboardShortcutsProps {
   onPaste: () => void;
   onDelete: () => void;
   onSelectAll: () => void;
+  onDeselect?: () => void;
+  onInvertSelection?: () => void;
+  onSelectTool?: (tool: EditorTool) => void;
 }
 
 interface ShortcutData {
@@ -38,6 +42,8 @@ const shortcuts: ShortcutData[] = [
   { key: 'Ctrl+V', description: 'Paste Layer', category: 'Edit' },
   { key: 'Delete', description: 'Delete Layer', category: 'Edit' },
   { key: 'Ctrl+A', description: 'Select All', category: 'Edit' },
+  { key: 'Ctrl+D', description: 'Deselect', category: 'Edit' },
+  { key: 'Ctrl+Shift+I', description: 'Invert Selection', category: 'Edit' },
   
   // View Operations
   { key: 'Ctrl++', description: 'Zoom In', category: 'View' },
@@ -51,7 +57,12 @@ const shortcuts: ShortcutData[] = [
   { key: 'C', description: 'Toggle Curves', category: 'Panels' },
   { key: 'T', description: 'Text Tool', category: 'Tools' },
   { key: 'B', description: 'Brush Tool', category: 'Tools' },
+  { key: 'E', description: 'Eraser Tool', category: 'Tools' },
   { key: 'M', description: 'Move Tool', category: 'Tools' },
+  { key: 'S', description: 'Rectangle Select', category: 'Tools' },
+  { key: 'O', description: 'Ellipse Select', category: 'Tools' },
+  { key: 'Q', description: 'Lasso', category: 'Tools' },
+  { key: 'W', description: 'Magic Wand', category: 'Tools' },
   
   // Quick Actions
   { key: 'Space', description: 'Pan Tool (hold)', category: 'Navigation' },
@@ -59,6 +70,16 @@ const shortcuts: ShortcutData[] = [
   { key: 'Ctrl+Scroll', description: 'Brush Size', category: 'Tools' },
 ];
 
+const toolShortcuts: Record<string, EditorTool> = {
+  m: 'move',
+  s: 'marquee-rect',
+  o: 'marquee-ellipse',
+  q: 'lasso',
+  w: 'magic-wand',
+  b: 'brush',
+  e: 'eraser'
+};
+
 export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
   onUndo,
   onRedo,
@@ -74,7 +95,10 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
   onCopy,
   onPaste,
   onDelete,
-  onSelectAll
+  onSelectAll,
+  onDeselect,
+  onInvertSelection,
+  onSelectTool
 }) => {
   const [showHelp, setShowHelp] = useState(false);
 
@@ -132,6 +156,20 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
             onSelectAll();
             handled = true;
             break;
+          case 'd':
+            if (onDeselect) {
+              e.preventDefault();
+              onDeselect();
+              handled = true;
+            }
+            break;
+          case 'i':
+            if (e.shiftKey && onInvertSelection) {
+              e.preventDefault();
+              onInvertSelection();
+              handled = true;
+            }
+            break;
           case '=':
           case '+':
             e.preventDefault();
@@ -180,6 +218,19 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
             onDelete();
             handled = true;
             break;
+          case 'm':
+          case 's':
+          case 'o':
+          case 'q':
+          case 'w':
+          case 'b':
+          case 'e':
+            if (onSelectTool) {
+              e.preventDefault();
+              onSelectTool(toolShortcuts[key.toLowerCase()]);
+              handled = true;
+            }
+            break;
           case 'f1':
             e.preventDefault();
             setShowHelp(true);
@@ -205,7 +256,7 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
   }, [
     onUndo, onRedo, onSave, onExport, onZoomIn, onZoomOut, onZoomFit,
     onToggleLayerPanel, onToggleHistogram, onToggleCurves, onOpenFile,
-    onCopy, onPaste, onDelete, onSelectAll
+    onCopy, onPaste, onDelete, onSelectAll, onDeselect, onInvertSelection, onSelectTool
   ]);
 
   const groupedShortcuts = shortcuts.reduce((groups, shortcut) => {
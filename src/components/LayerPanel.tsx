@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { Layers, Eye, EyeOff, Trash2, Copy, Lock, Unlock, ChevronUp, ChevronDown, Plus, Image as ImageIcon, Type } from 'lucide-react';
+import { Layers, Eye, EyeOff, Trash2, Copy, Lock, Unlock, ChevronUp, ChevronDown, Plus, Image as ImageIcon, Type, VenetianMask, Brush, Contrast, ScanFace } from 'lucide-react';
 import { Layer, BlendMode } from '../types/editor';
+import { MaskBrushOptions } from '../services/layerMask';
+import { LayerTransform } from '../services/layerTransform';
+import { defaultResampleOptions, RESAMPLE_METHODS, ResampleMethod, ResampleOptions } from '../services/resample';
 
 interface LayerPanelProps {
   layers: Layer[];
@@ -16,8 +19,37 @@ interface LayerPanelProps {
   onAddLayer: () => void;
   onLayerRename: (layerId: string, newName: string) => void;
   onLayerPositionChange?: (layerId: string, position: { x: number; y: number }) => void;
+  onLayerTransformChange?: (layerId: string, transform: Partial<LayerTransform>) => void;
+  onApplyLayerScale?: (layerId: string, resample: ResampleOptions) => void;
+  onAddMask?: (layerId: string) => void;
+  onDeleteMask?: (layerId: string) => void;
+  onToggleMask?: (layerId: string) => void;
+  onInvertMask?: (layerId: string) => void;
+  onMaskFromSubject?: () => void;
+  isProcessingMask?: boolean;
+  isMaskBrushActive?: boolean;
+  onMaskBrushToggle?: (active: boolean) => void;
+  maskBrushOptions?: MaskBrushOptions;
+  onMaskBrushOptionsChange?: (options: MaskBrushOptions) => void;
 }
 
+interface TransformField {
+  label: string;
+  unit: string;
+  get: (layer: Layer) => number;
+  set: (layer: Layer, value: number) => Partial<LayerTransform>;
+}
+
+const transformFields: TransformField[] = [
+  { label: 'X', unit: 'px', get: l => l.position.x, set: (l, x) => ({ position: { ...l.position, x } }) },
+  { label: 'Y', unit: 'px', get: l => l.position.y, set: (l, y) => ({ position: { ...l.position, y } }) },
+  { label: 'W', unit: '%', get: l => l.scale.x * 100, set: (l, x) => ({ scale: { ...l.scale, x: (x || 1) / 100 } }) },
+  { label: 'H', unit: '%', get: l => l.scale.y * 100, set: (l, y) => ({ scale: { ...l.scale, y: (y || 1) / 100 } }) },
+  { label: 'Angle', unit: '°', get: l => l.rotation, set: (_l, rotation) => ({ rotation }) },
+  { label: 'Skew X', unit: '°', get: l => l.skew?.x ?? 0, set: (l, x) => ({ skew: { y: l.skew?.y ?? 0, x: Math.max(-80, Math.min(80, x)) } }) },
+  { label: 'Skew Y', unit: '°', get: l => l.skew?.y ?? 0, set: (l, y) => ({ skew: { x: l.skew?.x ?? 0, y: Math.max(-80, Math.min(80, y)) } }) }
+];
+
 const blendModes: { value: BlendMode; label: string }[] = [
   { value: 'normal', label: 'Normal' },
   { value: 'multiply', label: 'Multiply' },
@@ -46,10 +78,23 @@ export const LayerPanel: React.FC<LayerPanelProps> = ({
   onLayerLockToggle,
   onAddLayer,
   onLayerRename,
-  onLayerPositionChange
+  onLayerPositionChange,
+  onLayerTransformChange,
+  onApplyLayerScale,
+  onAddMask,
+  onDeleteMask,
+  onToggleMask,
+  onInvertMask,
+  onMaskFromSubject,
+  isProcessingMask = false,
+  isMaskBrushActive = false,
+  onMaskBrushToggle,
+  maskBrushOptions,
+  onMaskBrushOptionsChange
 }) => {
   const [editingLayerId, setEditingLayerId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
+  const [resampleMethod, setResampleMethod] = useState<ResampleMethod>(defaultResampleOptions.method);
 
   const handleNameEdit = (layer: Layer) => {
     setEditingLayerId(layer.id);
@@ -127,6 +172,175 @@ export const LayerPanel: React.FC<LayerPanelProps> = ({
                     ))}
                   </select>
                 </div>
+
+                {/* Transform (overlay layers only; the base layer covers the canvas) */}
+                {onLayerTransformChange && activeLayer.id !== layers[0]?.id && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Transform
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {transformFields.map((field) => (
+                        <label key={field.label} className="flex items-center space-x-1 text-xs text-gray-600">
+                          <span className="w-10 flex-shrink-0">{field.label}</span>
+                          <input
+                            type="number"
+                            step="any"
+                            value={Math.round(field.get(activeLayer) * 10) / 10}
+                            disabled={activeLayer.locked}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value);
+                              if (!isNaN(value)) {
+                                onLayerTransformChange(activeLayer.id, field.set(activeLayer, value));
+                              }
+                            }}
+                            className="w-full min-w-0 p-1 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100"
+                          />
+                          <span className="w-4 text-gray-400">{field.unit}</span>
+                        </label>
+                      ))}
+                    </div>
+
+                    {/* Bake the scale into the layer's pixels */}
+                    {onApplyLayerScale && (
+                      <div className="flex items-center space-x-2 mt-2">
+                        <select
+                          value={resampleMethod}
+                          onChange={(e) => setResampleMethod(e.target.value as ResampleMethod)}
+                          className="flex-1 min-w-0 p-1 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          title="Resampling"
+                        >
+                          {RESAMPLE_METHODS.map(method => (
+                            <option key={method.value} value={method.value}>{method.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => onApplyLayerScale(activeLayer.id, { ...defaultResampleOptions, method: resampleMethod })}
+                          disabled={activeLayer.locked || (Math.abs(activeLayer.scale.x) === 1 && Math.abs(activeLayer.scale.y) === 1)}
+                          className="px-2 py-1 text-xs rounded bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Resample the layer's pixels to its current scale"
+                        >
+                          Apply Scale
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Layer Mask */}
+                {onAddMask && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Layer Mask
+                    </label>
+                    {activeLayer.mask ? (
+                      <div className="space-y-2">
+                        <div className="flex items-center space-x-1">
+                          <button
+                            onClick={() => onToggleMask?.(activeLayer.id)}
+                            className="p-2 rounded text-gray-600 hover:bg-gray-200 transition-colors"
+                            title={activeLayer.maskEnabled === false ? 'Enable mask' : 'Disable mask'}
+                          >
+                            {activeLayer.maskEnabled === false ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={() => onMaskBrushToggle?.(!isMaskBrushActive)}
+                            disabled={activeLayer.locked}
+                            className={`p-2 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                              isMaskBrushActive ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-200'
+                            }`}
+                            title="Paint mask"
+                          >
+                            <Brush className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => onInvertMask?.(activeLayer.id)}
+                            className="p-2 rounded text-gray-600 hover:bg-gray-200 transition-colors"
+                            title="Invert mask"
+                          >
+                            <Contrast className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => onDeleteMask?.(activeLayer.id)}
+                            className="p-2 rounded text-red-500 hover:bg-gray-200 transition-colors"
+                            title="Delete mask"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                          {activeLayer.maskEnabled === false && (
+                            <span className="text-xs text-gray-400">Disabled</span>
+                          )}
+                        </div>
+
+                        {isMaskBrushActive && maskBrushOptions && onMaskBrushOptionsChange && (
+                          <div className="space-y-2">
+                            <div className="grid grid-cols-2 gap-1">
+                              {(['hide', 'reveal'] as const).map((mode) => (
+                                <button
+                                  key={mode}
+                                  onClick={() => onMaskBrushOptionsChange({ ...maskBrushOptions, mode })}
+                                  className={`p-1 text-xs rounded capitalize transition-colors ${
+                                    maskBrushOptions.mode === mode
+                                      ? 'bg-indigo-100 text-indigo-700'
+                                      : 'bg-white border border-gray-300 text-gray-600 hover:bg-gray-100'
+                                  }`}
+                                >
+                                  {mode}
+                                </button>
+                              ))}
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">
+                                Size ({maskBrushOptions.size}px)
+                              </label>
+                              <input
+                                type="range"
+                                min="1"
+                                max="500"
+                                value={maskBrushOptions.size}
+                                onChange={(e) => onMaskBrushOptionsChange({ ...maskBrushOptions, size: parseInt(e.target.value) })}
+                                className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">
+                                Hardness ({maskBrushOptions.hardness}%)
+                              </label>
+                              <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={maskBrushOptions.hardness}
+                                onChange={(e) => onMaskBrushOptionsChange({ ...maskBrushOptions, hardness: parseInt(e.target.value) })}
+                                className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                              />
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => onAddMask(activeLayer.id)}
+                          className="p-2 text-xs rounded-lg bg-white border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors flex items-center justify-center space-x-1"
+                        >
+                          <VenetianMask className="w-4 h-4" />
+                          <span>Add Mask</span>
+                        </button>
+                        {onMaskFromSubject && (
+                          <button
+                            onClick={onMaskFromSubject}
+                            disabled={isProcessingMask}
+                            className="p-2 text-xs rounded-lg bg-white border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors flex items-center justify-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <ScanFace className="w-4 h-4" />
+                            <span>{isProcessingMask ? 'Detecting...' : 'From Subject'}</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })()}
@@ -209,6 +423,17 @@ export const LayerPanel: React.FC<LayerPanelProps> = ({
                           <span className="text-xs text-gray-500 capitalize">
                             {layer.blendMode}
                           </span>
+                          {layer.mask && (
+                            <>
+                              <span className="text-xs text-gray-400">•</span>
+                              <span
+                                className={`text-xs ${layer.maskEnabled === false ? 'text-gray-400 line-through' : 'text-indigo-600'}`}
+                                title={layer.maskEnabled === false ? 'Mask disabled' : 'Masked'}
+                              >
+                                Mask
+                              </span>
+                            </>
+                          )}
                         </div>
                       </div>
                       
@@ -1,20 +1,23 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Check, X, RotateCw, Square, Maximize } from 'lucide-react';
-
-interface CropBounds {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+import { Check, X, RotateCw, Square, Crop, Grid3X3 } from 'lucide-react';
+import { autoFillCrop, CropRequest, MAX_STRAIGHTEN_ANGLE, Point } from '../services/crop';
+import { SelectionRect } from '../services/selection';
+import { clientToCanvasPoint } from '../services/viewTransform';
 
 interface ManualCropProps {
   image: HTMLImageElement;
-  onCrop: (bounds: CropBounds) => void;
+  onCrop: (request: CropRequest) => void;
   onCancel: () => void;
   isActive: boolean;
 }
 
+type CropMode = 'crop' | 'perspective';
+
+type CropDrag =
+  | { kind: 'move'; start: Point; startBounds: SelectionRect }
+  | { kind: 'resize'; corner: number; startBounds: SelectionRect }
+  | { kind: 'corner'; corner: number };
+
 const aspectRatios = [
   { name: 'Free', ratio: null },
   { name: '1:1', ratio: 1 },
@@ -24,6 +27,34 @@ const aspectRatios = [
   { name: '2:3', ratio: 2/3 },
 ];
 
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+const CANVAS_PADDING = 40;
+const HANDLE_RADIUS = 12; // Canvas pixels
+const MIN_CROP_SIZE = 10; // Image pixels
+
+const getInsetBounds = (width: number, height: number): SelectionRect => ({
+  x: width * 0.1,
+  y: height * 0.1,
+  width: width * 0.8,
+  height: height * 0.8
+});
+
+const getInsetCorners = (width: number, height: number): Point[] => [
+  { x: width * 0.1, y: height * 0.1 },
+  { x: width * 0.9, y: height * 0.1 },
+  { x: width * 0.9, y: height * 0.9 },
+  { x: width * 0.1, y: height * 0.9 }
+];
+
+// Corners of a rect, clockwise from top-left
+const getRectCorners = (rect: SelectionRect): Point[] => [
+  { x: rect.x, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y + rect.height },
+  { x: rect.x, y: rect.y + rect.height }
+];
+
 export const ManualCrop: React.FC<ManualCropProps> = ({
   image,
   onCrop,
@@ -31,170 +62,231 @@ export const ManualCrop: React.FC<ManualCropProps> = ({
   isActive
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [cropBounds, setCropBounds] = useState<CropBounds>({
-    x: 50,
-    y: 50,
-    width: 200,
-    height: 200
-  });
+  const imageWidth = image.naturalWidth || image.width;
+  const imageHeight = image.naturalHeight || image.height;
+
+  const [mode, setMode] = useState<CropMode>('crop');
+  const [cropBounds, setCropBounds] = useState<SelectionRect>(() => getInsetBounds(imageWidth, imageHeight));
+  const [corners, setCorners] = useState<Point[]>(() => getInsetCorners(imageWidth, imageHeight));
+  const [angle, setAngle] = useState(0);
+  const [autoFill, setAutoFill] = useState(true);
   const [selectedRatio, setSelectedRatio] = useState(aspectRatios[0]);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [showGrid, setShowGrid] = useState(true);
+  const dragRef = useRef<CropDrag | null>(null);
+
+  // Image pixels <-> canvas pixels. The straightened frame shares the image's pixel grid.
+  const scale = Math.min(
+    (CANVAS_WIDTH - CANVAS_PADDING * 2) / imageWidth,
+    (CANVAS_HEIGHT - CANVAS_PADDING * 2) / imageHeight
+  );
+  const offsetX = (CANVAS_WIDTH - imageWidth * scale) / 2;
+  const offsetY = (CANVAS_HEIGHT - imageHeight * scale) / 2;
+  const toCanvas = (point: Point): Point => ({ x: offsetX + point.x * scale, y: offsetY + point.y * scale });
+  const toImage = (point: Point): Point => ({ x: (point.x - offsetX) / scale, y: (point.y - offsetY) / scale });
+
+  // With auto-fill on, the crop shrinks to stay inside the straightened image
+  const effectiveBounds = autoFill ? autoFillCrop(cropBounds, imageWidth, imageHeight, angle) : cropBounds;
 
   useEffect(() => {
     if (isActive && image) {
       drawCropInterface();
     }
-  }, [isActive, image, cropBounds, showGrid]);
+  }, [isActive, image, mode, cropBounds, corners, angle, autoFill, showGrid]);
 
   const drawCropInterface = () => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
     if (!canvas || !ctx || !image) return;
 
-    canvas.width = 800;
-    canvas.height = 600;
-
-    // Clear canvas
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Draw image
-    const aspectRatio = image.width / image.height;
-    let drawWidth = Math.min(400, image.width);
-    let drawHeight = drawWidth / aspectRatio;
-
-    if (drawHeight > 300) {
-      drawHeight = 300;
-      drawWidth = drawHeight * aspectRatio;
+    // Draw the image, straightened about its centre in crop mode
+    ctx.save();
+    ctx.translate(offsetX + (imageWidth * scale) / 2, offsetY + (imageHeight * scale) / 2);
+    if (mode === 'crop') {
+      ctx.rotate((angle * Math.PI) / 180);
     }
+    ctx.drawImage(image, (-imageWidth * scale) / 2, (-imageHeight * scale) / 2, imageWidth * scale, imageHeight * scale);
+    ctx.restore();
 
-    const imageX = (canvas.width - drawWidth) / 2;
-    const imageY = (canvas.height - drawHeight) / 2;
-
-    ctx.drawImage(image, imageX, imageY, drawWidth, drawHeight);
-
-    // Draw crop overlay
-    const cropX = imageX + (cropBounds.x / image.width) * drawWidth;
-    const cropY = imageY + (cropBounds.y / image.height) * drawHeight;
-    const cropW = (cropBounds.width / image.width) * drawWidth;
-    const cropH = (cropBounds.height / image.height) * drawHeight;
+    const outline = (mode === 'crop' ? getRectCorners(effectiveBounds) : corners).map(toCanvas);
 
-    // Darken areas outside crop
+    // Darken everything outside the crop
     ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.clearRect(cropX, cropY, cropW, cropH);
-    ctx.drawImage(image, imageX, imageY, drawWidth, drawHeight);
-    
-    // Redraw darkened areas
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-    ctx.fillRect(0, 0, cropX, canvas.height);
-    ctx.fillRect(cropX + cropW, 0, canvas.width - cropX - cropW, canvas.height);
-    ctx.fillRect(cropX, 0, cropW, cropY);
-    ctx.fillRect(cropX, cropY + cropH, cropW, canvas.height - cropY - cropH);
+    ctx.beginPath();
+    ctx.rect(0, 0, canvas.width, canvas.height);
+    outline.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill('evenodd');
 
     // Draw crop border
     ctx.strokeStyle = '#3B82F6';
     ctx.lineWidth = 2;
-    ctx.strokeRect(cropX, cropY, cropW, cropH);
-
-    // Draw corner handles
-    const handleSize = 8;
-    ctx.fillStyle = '#3B82F6';
-    ctx.fillRect(cropX - handleSize/2, cropY - handleSize/2, handleSize, handleSize);
-    ctx.fillRect(cropX + cropW - handleSize/2, cropY - handleSize/2, handleSize, handleSize);
-    ctx.fillRect(cropX - handleSize/2, cropY + cropH - handleSize/2, handleSize, handleSize);
-    ctx.fillRect(cropX + cropW - handleSize/2, cropY + cropH - handleSize/2, handleSize, handleSize);
+    ctx.beginPath();
+    outline.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.stroke();
 
-    // Draw rule of thirds grid
+    // Draw rule of thirds grid (bilinear across the quad, which is close enough for a guide)
     if (showGrid) {
+      const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+      const [tl, tr, br, bl] = outline;
       ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
       ctx.lineWidth = 1;
-      
-      // Vertical lines
       ctx.beginPath();
-      ctx.moveTo(cropX + cropW/3, cropY);
-      ctx.lineTo(cropX + cropW/3, cropY + cropH);
-      ctx.moveTo(cropX + 2*cropW/3, cropY);
-      ctx.lineTo(cropX + 2*cropW/3, cropY + cropH);
-      
-      // Horizontal lines
-      ctx.moveTo(cropX, cropY + cropH/3);
-      ctx.lineTo(cropX + cropW, cropY + cropH/3);
-      ctx.moveTo(cropX, cropY + 2*cropH/3);
-      ctx.lineTo(cropX + cropW, cropY + 2*cropH/3);
+      [1 / 3, 2 / 3].forEach(t => {
+        const top = lerp(tl, tr, t);
+        const bottom = lerp(bl, br, t);
+        const left = lerp(tl, bl, t);
+        const right = lerp(tr, br, t);
+        ctx.moveTo(top.x, top.y);
+        ctx.lineTo(bottom.x, bottom.y);
+        ctx.moveTo(left.x, left.y);
+        ctx.lineTo(right.x, right.y);
+      });
       ctx.stroke();
     }
+
+    // Draw corner handles
+    ctx.fillStyle = '#3B82F6';
+    ctx.strokeStyle = '#FFFFFF';
+    outline.forEach(point => {
+      ctx.beginPath();
+      if (mode === 'perspective') {
+        ctx.arc(point.x, point.y, 6, 0, Math.PI * 2);
+      } else {
+        ctx.rect(point.x - 4, point.y - 4, 8, 8);
+      }
+      ctx.fill();
+      ctx.stroke();
+    });
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const getPointerPosition = (e: React.PointerEvent): Point | null => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    setIsDragging(true);
-    setDragStart({ x, y });
+    return canvas ? clientToCanvasPoint(canvas, e.clientX, e.clientY) : null;
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const findCorner = (points: Point[], position: Point): number => {
+    return points.findIndex(point => {
+      const canvasPoint = toCanvas(point);
+      return Math.hypot(canvasPoint.x - position.x, canvasPoint.y - position.y) <= HANDLE_RADIUS;
+    });
+  };
 
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const position = getPointerPosition(e);
+    if (!position) return;
 
-    const deltaX = x - dragStart.x;
-    const deltaY = y - dragStart.y;
+    if (mode === 'perspective') {
+      const corner = findCorner(corners, position);
+      if (corner !== -1) {
+        dragRef.current = { kind: 'corner', corner };
+      }
+    } else {
+      const corner = findCorner(getRectCorners(effectiveBounds), position);
+      const point = toImage(position);
+      const inside = point.x >= effectiveBounds.x && point.x <= effectiveBounds.x + effectiveBounds.width &&
+        point.y >= effectiveBounds.y && point.y <= effectiveBounds.y + effectiveBounds.height;
+
+      // Drags start from what's on screen, so an auto-filled crop doesn't jump back out
+      if (corner !== -1) {
+        dragRef.current = { kind: 'resize', corner, startBounds: effectiveBounds };
+      } else if (inside) {
+        dragRef.current = { kind: 'move', start: point, startBounds: effectiveBounds };
+      }
+    }
 
-    setCropBounds(prev => ({
-      ...prev,
-      x: Math.max(0, Math.min(image.width - prev.width, prev.x + deltaX * 2)),
-      y: Math.max(0, Math.min(image.height - prev.height, prev.y + deltaY * 2))
-    }));
+    if (dragRef.current) {
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    }
+  };
 
-    setDragStart({ x, y });
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const position = getPointerPosition(e);
+    if (!drag || !position) return;
+
+    const point = toImage(position);
+
+    if (drag.kind === 'corner') {
+      const clamped = {
+        x: Math.max(0, Math.min(imageWidth, point.x)),
+        y: Math.max(0, Math.min(imageHeight, point.y))
+      };
+      setCorners(prev => prev.map((corner, index) => index === drag.corner ? clamped : corner));
+    } else if (drag.kind === 'move') {
+      setCropBounds({
+        ...drag.startBounds,
+        x: drag.startBounds.x + point.x - drag.start.x,
+        y: drag.startBounds.y + point.y - drag.start.y
+      });
+    } else {
+      // Resize against the opposite corner, keeping the chosen aspect ratio
+      const anchor = getRectCorners(drag.startBounds)[(drag.corner + 2) % 4];
+      let width = Math.max(MIN_CROP_SIZE, Math.abs(point.x - anchor.x));
+      let height = Math.max(MIN_CROP_SIZE, Math.abs(point.y - anchor.y));
+      if (selectedRatio.ratio) {
+        if (width / height > selectedRatio.ratio) {
+          height = width / selectedRatio.ratio;
+        } else {
+          width = height * selectedRatio.ratio;
+        }
+      }
+      setCropBounds({
+        x: point.x < anchor.x ? anchor.x - width : anchor.x,
+        y: point.y < anchor.y ? anchor.y - height : anchor.y,
+        width,
+        height
+      });
+    }
   };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
+  const handlePointerUp = () => {
+    dragRef.current = null;
   };
 
   const applyCrop = () => {
-    onCrop(cropBounds);
+    if (mode === 'perspective') {
+      onCrop({ mode: 'perspective', corners: corners as [Point, Point, Point, Point] });
+    } else {
+      onCrop({ mode: 'crop', bounds: effectiveBounds, angle });
+    }
   };
 
   const resetCrop = () => {
-    setCropBounds({
-      x: image.width * 0.1,
-      y: image.height * 0.1,
-      width: image.width * 0.8,
-      height: image.height * 0.8
-    });
+    setCropBounds(getInsetBounds(imageWidth, imageHeight));
+    setCorners(getInsetCorners(imageWidth, imageHeight));
+    setAngle(0);
   };
 
+  // Fit the chosen ratio inside the current crop, keeping its centre
   const applyAspectRatio = (ratio: typeof aspectRatios[0]) => {
     setSelectedRatio(ratio);
-    
-    if (ratio.ratio) {
-      const currentAspect = cropBounds.width / cropBounds.height;
-      if (Math.abs(currentAspect - ratio.ratio) > 0.1) {
-        const newHeight = cropBounds.width / ratio.ratio;
-        setCropBounds(prev => ({
-          ...prev,
-          height: Math.min(newHeight, image.height - prev.y)
-        }));
-      }
-    }
+    if (!ratio.ratio) return;
+
+    const bounds = effectiveBounds;
+    const width = Math.min(bounds.width, bounds.height * ratio.ratio);
+    const height = width / ratio.ratio;
+    setCropBounds({
+      x: bounds.x + (bounds.width - width) / 2,
+      y: bounds.y + (bounds.height - height) / 2,
+      width,
+      height
+    });
   };
 
   if (!isActive) return null;
 
+  const outputSize = mode === 'crop'
+    ? { width: Math.round(effectiveBounds.width), height: Math.round(effectiveBounds.height) }
+    : {
+        width: Math.round((Math.hypot(corners[1].x - corners[0].x, corners[1].y - corners[0].y) + Math.hypot(corners[2].x - corners[3].x, corners[2].y - corners[3].y)) / 2),
+        height: Math.round((Math.hypot(corners[3].x - corners[0].x, corners[3].y - corners[0].y) + Math.hypot(corners[2].x - corners[1].x, corners[2].y - corners[1].y)) / 2)
+      };
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
       <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full mx-4 overflow-hidden">
@@ -231,43 +323,97 @@ export const ManualCrop: React.FC<ManualCropProps> = ({
           <div className="flex-1 p-6 flex items-center justify-center bg-gray-50">
             <canvas
               ref={canvasRef}
-              className="border border-gray-300 rounded-lg shadow-lg cursor-move"
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
+              className="max-w-full border border-gray-300 rounded-lg shadow-lg cursor-move"
+              style={{ touchAction: 'none' }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
             />
           </div>
 
           {/* Controls */}
           <div className="w-64 p-6 bg-white border-l border-gray-200">
-            <h4 className="font-semibold text-gray-900 mb-4">Aspect Ratio</h4>
             <div className="grid grid-cols-2 gap-2 mb-6">
-              {aspectRatios.map((ratio) => (
-                <button
-                  key={ratio.name}
-                  onClick={() => applyAspectRatio(ratio)}
-                  className={`p-2 rounded-lg text-sm font-medium transition-colors ${
-                    selectedRatio.name === ratio.name
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  {ratio.name}
-                </button>
-              ))}
+              <button
+                onClick={() => setMode('crop')}
+                className={`p-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center space-x-1 ${
+                  mode === 'crop' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <Crop className="w-4 h-4" />
+                <span>Crop</span>
+              </button>
+              <button
+                onClick={() => setMode('perspective')}
+                className={`p-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center space-x-1 ${
+                  mode === 'perspective' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <Grid3X3 className="w-4 h-4" />
+                <span>Perspective</span>
+              </button>
             </div>
 
+            {mode === 'crop' ? (
+              <>
+                <h4 className="font-semibold text-gray-900 mb-4">Aspect Ratio</h4>
+                <div className="grid grid-cols-2 gap-2 mb-6">
+                  {aspectRatios.map((ratio) => (
+                    <button
+                      key={ratio.name}
+                      onClick={() => applyAspectRatio(ratio)}
+                      className={`p-2 rounded-lg text-sm font-medium transition-colors ${
+                        selectedRatio.name === ratio.name
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {ratio.name}
+                    </button>
+                  ))}
+                </div>
+
+                <h4 className="font-semibold text-gray-900 mb-2">Straighten</h4>
+                <div className="flex items-center space-x-2 mb-2">
+                  <input
+                    type="range"
+                    min={-MAX_STRAIGHTEN_ANGLE}
+                    max={MAX_STRAIGHTEN_ANGLE}
+                    step={0.1}
+                    value={angle}
+                    onChange={(e) => setAngle(parseFloat(e.target.value))}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-gray-600 w-12 text-right">{angle.toFixed(1)}°</span>
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 mb-6">
+                  <input
+                    type="checkbox"
+                    checked={autoFill}
+                    onChange={(e) => setAutoFill(e.target.checked)}
+                  />
+                  <span>Auto-fill (no empty corners)</span>
+                </label>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600 mb-6">
+                Drag the four corners onto the edges of the surface to flatten. The result is warped to a rectangle.
+              </p>
+            )}
+
             <div className="space-y-4 text-sm text-gray-600">
-              <div>
-                <span className="font-medium">Position:</span>
-                <div>X: {Math.round(cropBounds.x)}px</div>
-                <div>Y: {Math.round(cropBounds.y)}px</div>
-              </div>
+              {mode === 'crop' && (
+                <div>
+                  <span className="font-medium">Position:</span>
+                  <div>X: {Math.round(effectiveBounds.x)}px</div>
+                  <div>Y: {Math.round(effectiveBounds.y)}px</div>
+                </div>
+              )}
               <div>
                 <span className="font-medium">Size:</span>
-                <div>W: {Math.round(cropBounds.width)}px</div>
-                <div>H: {Math.round(cropBounds.height)}px</div>
+                <div>W: {outputSize.width}px</div>
+                <div>H: {outputSize.height}px</div>
               </div>
             </div>
 
@@ -291,4 +437,4 @@ export const ManualCrop: React.FC<ManualCropProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,369 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Brush, Check, Eraser, Loader2, RotateCcw, X } from 'lucide-react';
+import { SelectionMask } from '../types/editor';
+import { canvasToMask, paintMaskStroke } from '../services/layerMask';
+import {
+  decontaminateColours,
+  defaultMaskRefineOptions,
+  MAX_FEATHER,
+  MAX_MASK_SHIFT,
+  MAX_MATTING_RADIUS,
+  MaskHints,
+  MaskRefineOptions,
+  refineMask,
+  scaleMaskRefineOptions
+} from '../services/maskRefine';
+import { isMaskEmpty, resizeMask } from '../services/selection';
+import { clientToCanvasPoint } from '../services/viewTransform';
+
+interface RefineMaskDialogProps {
+  image: HTMLImageElement;
+  mask: SelectionMask; // The raw segmentation, in layer pixels
+  onApply: (options: MaskRefineOptions, hints: MaskHints) => void;
+  onCancel: () => void;
+  isApplying: boolean;
+}
+
+type HintMode = 'keep' | 'remove';
+type PreviewView = 'cutout' | 'overlay';
+
+// The preview refines a smaller copy so sliders stay responsive; Apply refines at full size
+const PREVIEW_SIZE = 720;
+const CHECKER_SIZE = 8;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// A hint canvas's strokes in one flat colour, for drawing over the preview
+const tintCanvas = (source: HTMLCanvasElement, color: string) => {
+  const canvas = createCanvas(source.width, source.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.drawImage(source, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const RefineMaskDialog: React.FC<RefineMaskDialogProps> = ({
+  image,
+  mask,
+  onApply,
+  onCancel,
+  isApplying
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageWidth = image.naturalWidth || image.width;
+  const imageHeight = image.naturalHeight || image.height;
+  const scale = Math.min(1, PREVIEW_SIZE / Math.max(imageWidth, imageHeight));
+  const previewWidth = Math.max(1, Math.round(imageWidth * scale));
+  const previewHeight = Math.max(1, Math.round(imageHeight * scale));
+
+  const [options, setOptions] = useState<MaskRefineOptions>(defaultMaskRefineOptions);
+  const [hintMode, setHintMode] = useState<HintMode>('keep');
+  const [brushSize, setBrushSize] = useState(40); // Layer pixels
+  const [view, setView] = useState<PreviewView>('cutout');
+  const [hintVersion, setHintVersion] = useState(0);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Preview-sized copies of the layer and its segmentation, plus the hand-painted hints
+  const preview = useMemo(() => {
+    const canvas = createCanvas(previewWidth, previewHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Unable to get canvas context');
+    }
+    ctx.drawImage(image, 0, 0, previewWidth, previewHeight);
+    return {
+      pixels: ctx.getImageData(0, 0, previewWidth, previewHeight),
+      mask: resizeMask(mask, previewWidth, previewHeight),
+      keep: createCanvas(previewWidth, previewHeight),
+      remove: createCanvas(previewWidth, previewHeight),
+      result: createCanvas(previewWidth, previewHeight) // Latest cutout or overlay
+    };
+  }, [image, mask, previewWidth, previewHeight]);
+
+  const getHints = useCallback((): MaskHints => {
+    const keep = canvasToMask(preview.keep);
+    const remove = canvasToMask(preview.remove);
+    return { keep: isMaskEmpty(keep) ? null : keep, remove: isMaskEmpty(remove) ? null : remove };
+  }, [preview]);
+
+  const drawPreview = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = previewWidth;
+    canvas.height = previewHeight;
+    if (view === 'cutout') {
+      for (let y = 0; y < previewHeight; y += CHECKER_SIZE) {
+        for (let x = 0; x < previewWidth; x += CHECKER_SIZE) {
+          ctx.fillStyle = (x / CHECKER_SIZE + y / CHECKER_SIZE) % 2 === 0 ? '#ffffff' : '#e5e7eb';
+          ctx.fillRect(x, y, CHECKER_SIZE, CHECKER_SIZE);
+        }
+      }
+    } else {
+      ctx.drawImage(image, 0, 0, previewWidth, previewHeight);
+    }
+    ctx.drawImage(preview.result, 0, 0);
+
+    // Painted hints on top: green keeps, red removes
+    ctx.globalAlpha = 0.4;
+    ctx.drawImage(tintCanvas(preview.keep, '#22c55e'), 0, 0);
+    ctx.drawImage(tintCanvas(preview.remove, '#ef4444'), 0, 0);
+    ctx.globalAlpha = 1;
+  }, [image, preview, view, previewWidth, previewHeight]);
+
+  // Re-run the refinement shortly after the settings or hints stop changing
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const ctx = preview.result.getContext('2d');
+      if (!ctx) return;
+
+      const previewOptions = scaleMaskRefineOptions(options, scale);
+      const refined = refineMask(preview.mask, preview.pixels, previewOptions, getHints());
+      const output = ctx.createImageData(previewWidth, previewHeight);
+      if (view === 'cutout') {
+        output.data.set(options.decontaminate ? decontaminateColours(preview.pixels, refined, previewOptions) : preview.pixels.data);
+        for (let i = 0; i < refined.data.length; i++) {
+          output.data[i * 4 + 3] = Math.round((output.data[i * 4 + 3] * refined.data[i]) / 255);
+        }
+      } else {
+        // Tint what will be removed, so the edge can be judged against the original
+        for (let i = 0; i < refined.data.length; i++) {
+          output.data[i * 4] = 239;
+          output.data[i * 4 + 1] = 68;
+          output.data[i * 4 + 2] = 68;
+          output.data[i * 4 + 3] = Math.round((255 - refined.data[i]) * 0.6);
+        }
+      }
+      ctx.putImageData(output, 0, 0);
+      drawPreview();
+    }, 120);
+    return () => window.clearTimeout(timer);
+  }, [preview, options, view, hintVersion, scale, previewWidth, previewHeight, getHints, drawPreview]);
+
+  const getPreviewPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current;
+    return canvas ? clientToCanvasPoint(canvas, e.clientX, e.clientY) : null;
+  };
+
+  // Painting one hint clears the other under the brush, so each area has one answer
+  const paintHint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const brush = { size: Math.max(1, brushSize * scale), hardness: 70 };
+    const [paint, clear] = hintMode === 'keep' ? [preview.keep, preview.remove] : [preview.remove, preview.keep];
+    paintMaskStroke(paint, from, to, { ...brush, mode: 'reveal' });
+    paintMaskStroke(clear, from, to, { ...brush, mode: 'hide' });
+    drawPreview();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const point = getPreviewPoint(e);
+    if (!point || isApplying) return;
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    lastPointRef.current = point;
+    paintHint(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = getPreviewPoint(e);
+    if (!point || !lastPointRef.current) return;
+    paintHint(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    setHintVersion(version => version + 1);
+  };
+
+  const clearHints = () => {
+    [preview.keep, preview.remove].forEach(canvas => canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height));
+    setHintVersion(version => version + 1);
+  };
+
+  const updateOption = <K extends keyof MaskRefineOptions>(key: K, value: MaskRefineOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Refine Background Removal</h3>
+            <p className="text-sm text-gray-600">Paint over the preview to keep or remove areas by hand</p>
+          </div>
+          <button
+            onClick={onCancel}
+            disabled={isApplying}
+            className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex">
+          {/* Preview */}
+          <div className="flex-1 p-6 flex items-center justify-center bg-gray-50">
+            <canvas
+              ref={canvasRef}
+              className="max-w-full max-h-[70vh] border border-gray-300 rounded-lg shadow-lg cursor-crosshair"
+              style={{ touchAction: 'none' }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          </div>
+
+          {/* Controls */}
+          <div className="w-64 p-6 bg-white border-l border-gray-200 space-y-6 overflow-y-auto max-h-[80vh]">
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-2">Brush</h4>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                <button
+                  onClick={() => setHintMode('keep')}
+                  className={`p-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center space-x-1 ${
+                    hintMode === 'keep' ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <Brush className="w-4 h-4" />
+                  <span>Keep</span>
+                </button>
+                <button
+                  onClick={() => setHintMode('remove')}
+                  className={`p-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center space-x-1 ${
+                    hintMode === 'remove' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <Eraser className="w-4 h-4" />
+                  <span>Remove</span>
+                </button>
+              </div>
+              <label className="block text-xs text-gray-600 mb-1">Size: {brushSize}px</label>
+              <input
+                type="range"
+                min={2}
+                max={300}
+                value={brushSize}
+                onChange={(e) => setBrushSize(parseInt(e.target.value))}
+                className="w-full"
+              />
+              <button
+                onClick={clearHints}
+                className="mt-2 w-full p-2 rounded-lg text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors flex items-center justify-center space-x-1"
+              >
+                <RotateCcw className="w-3 h-3" />
+                <span>Clear Strokes</span>
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-gray-900">Edge</h4>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">
+                  Shift edge: {options.shift > 0 ? '+' : ''}{options.shift}px
+                </label>
+                <input
+                  type="range"
+                  min={-MAX_MASK_SHIFT}
+                  max={MAX_MASK_SHIFT}
+                  value={options.shift}
+                  onChange={(e) => updateOption('shift', parseInt(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Feather: {options.feather}px</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_FEATHER}
+                  value={options.feather}
+                  onChange={(e) => updateOption('feather', parseInt(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={options.matting}
+                  onChange={(e) => updateOption('matting', e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-xs text-gray-700">Match edges to the image (hair, fur)</span>
+              </label>
+              {options.matting && (
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Edge width: {options.mattingRadius}px</label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={MAX_MATTING_RADIUS}
+                    value={options.mattingRadius}
+                    onChange={(e) => updateOption('mattingRadius', parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+              )}
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={options.decontaminate}
+                  onChange={(e) => updateOption('decontaminate', e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-xs text-gray-700">Decontaminate colours</span>
+              </label>
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-2">View</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {(['cutout', 'overlay'] as PreviewView[]).map(value => (
+                  <button
+                    key={value}
+                    onClick={() => setView(value)}
+                    className={`p-2 rounded-lg text-xs font-medium transition-colors ${
+                      view === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {value === 'cutout' ? 'Cut-out' : 'Overlay'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                onClick={onCancel}
+                disabled={isApplying}
+                className="flex-1 p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onApply(options, getHints())}
+                disabled={isApplying}
+                className="flex-1 p-2 rounded-lg bg-pink-500 text-white hover:bg-pink-600 transition-colors font-medium flex items-center justify-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                <span>Apply</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, ImagePlus, Loader2, X } from 'lucide-react';
+import {
+  BACKGROUND_FILLS,
+  BackgroundReplaceOptions,
+  getDefaultBackgroundReplaceOptions,
+  renderBackgroundLayers,
+  scaleBackgroundReplaceOptions
+} from '../services/backgroundReplace';
+import { readImageFile } from '../services/imageMetadata';
+
+interface ReplaceBackgroundDialogProps {
+  subject: HTMLCanvasElement; // The cut-out subject in document pixels
+  original: HTMLCanvasElement; // The same pixels without the cutout
+  onApply: (options: BackgroundReplaceOptions) => void;
+  onCancel: () => void;
+  isApplying: boolean;
+}
+
+// The preview renders a smaller copy so sliders stay responsive; Apply renders at full size
+const PREVIEW_SIZE = 480;
+
+const downscale = (source: HTMLCanvasElement, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+  }
+  return canvas;
+};
+
+export const ReplaceBackgroundDialog: React.FC<ReplaceBackgroundDialogProps> = ({
+  subject,
+  original,
+  onApply,
+  onCancel,
+  isApplying
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { width, height } = subject;
+  const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height));
+  const previewWidth = Math.max(1, Math.round(width * scale));
+  const previewHeight = Math.max(1, Math.round(height * scale));
+  // Slider ranges follow the document, like the defaults
+  const unit = Math.max(width, height) / 100;
+  const maxDistance = Math.max(10, Math.round(unit * 10));
+
+  const [options, setOptions] = useState<BackgroundReplaceOptions>(() => getDefaultBackgroundReplaceOptions(width, height));
+  const [imageName, setImageName] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const preview = useMemo(() => ({
+    subject: downscale(subject, previewWidth, previewHeight),
+    original: downscale(original, previewWidth, previewHeight)
+  }), [subject, original, previewWidth, previewHeight]);
+
+  // Re-render shortly after the settings stop changing; a slower, older render never wins
+  useEffect(() => {
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const layers = await renderBackgroundLayers(preview.subject, preview.original, scaleBackgroundReplaceOptions(options, scale));
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (cancelled || !canvas || !ctx) return;
+
+        canvas.width = previewWidth;
+        canvas.height = previewHeight;
+        ctx.drawImage(layers.background, 0, 0);
+        if (layers.shadow) {
+          ctx.globalAlpha = options.shadow.opacity / 100;
+          ctx.drawImage(layers.shadow, 0, 0);
+          ctx.globalAlpha = 1;
+        }
+        ctx.drawImage(preview.subject, 0, 0);
+        if (layers.lightWrap) {
+          ctx.globalCompositeOperation = 'screen';
+          ctx.drawImage(layers.lightWrap, 0, 0);
+          ctx.globalCompositeOperation = 'source-over';
+        }
+        setPreviewError(null);
+      } catch (error) {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : 'Unable to preview the background');
+      }
+    }, 150);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [preview, options, scale, previewWidth, previewHeight]);
+
+  const handleImageSelect = async (file: File) => {
+    try {
+      const { image } = await readImageFile(file);
+      setOptions(prev => ({ ...prev, fill: 'image', image }));
+      setImageName(file.name);
+    } catch (error) {
+      console.error('Failed to load the background image:', error);
+      alert('That image could not be opened. Please try another.');
+    }
+  };
+
+  const updateLightWrap = (updates: Partial<BackgroundReplaceOptions['lightWrap']>) => {
+    setOptions(prev => ({ ...prev, lightWrap: { ...prev.lightWrap, ...updates } }));
+  };
+
+  const updateShadow = (updates: Partial<BackgroundReplaceOptions['shadow']>) => {
+    setOptions(prev => ({ ...prev, shadow: { ...prev.shadow, ...updates } }));
+  };
+
+  const canApply = !isApplying && (options.fill !== 'image' || !!options.image);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Replace Background</h3>
+            <p className="text-sm text-gray-600">Adds the new background, shadow and light wrap as layers</p>
+          </div>
+          <button
+            onClick={onCancel}
+            disabled={isApplying}
+            className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex">
+          {/* Preview */}
+          <div className="flex-1 p-6 flex flex-col items-center justify-center bg-gray-50">
+            <canvas
+              ref={canvasRef}
+              className="max-w-full max-h-[70vh] border border-gray-300 rounded-lg shadow-lg"
+            />
+            {previewError && <p className="mt-3 text-sm text-gray-600">{previewError}</p>}
+          </div>
+
+          {/* Controls */}
+          <div className="w-72 p-6 bg-white border-l border-gray-200 space-y-6 overflow-y-auto max-h-[80vh]">
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-2">Background</h4>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                {BACKGROUND_FILLS.map(fill => (
+                  <button
+                    key={fill.value}
+                    onClick={() => setOptions(prev => ({ ...prev, fill: fill.value }))}
+                    title={fill.description}
+                    className={`p-2 rounded-lg text-sm font-medium transition-colors ${
+                      options.fill === fill.value ? 'bg-pink-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {fill.label}
+                  </button>
+                ))}
+              </div>
+
+              {options.fill === 'color' && (
+                <input
+                  type="color"
+                  value={options.color}
+                  onChange={(e) => setOptions(prev => ({ ...prev, color: e.target.value }))}
+                  className="w-full h-10 rounded-lg border border-gray-300"
+                />
+              )}
+
+              {options.fill === 'gradient' && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="color"
+                      value={options.gradient.from}
+                      onChange={(e) => setOptions(prev => ({ ...prev, gradient: { ...prev.gradient, from: e.target.value } }))}
+                      className="w-full h-10 rounded-lg border border-gray-300"
+                    />
+                    <input
+                      type="color"
+                      value={options.gradient.to}
+                      onChange={(e) => setOptions(prev => ({ ...prev, gradient: { ...prev.gradient, to: e.target.value } }))}
+                      className="w-full h-10 rounded-lg border border-gray-300"
+                    />
+                  </div>
+                  <label className="block text-xs text-gray-600">Angle: {options.gradient.angle}°</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={359}
+                    value={options.gradient.angle}
+                    onChange={(e) => setOptions(prev => ({ ...prev, gradient: { ...prev.gradient, angle: parseInt(e.target.value) } }))}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              {options.fill === 'blur' && (
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Blur: {options.blur}px</label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={maxDistance}
+                    value={options.blur}
+                    onChange={(e) => setOptions(prev => ({ ...prev, blur: parseInt(e.target.value) }))}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              {options.fill === 'image' && (
+                <div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImageSelect(file);
+                      e.target.value = '';
+                    }}
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full p-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-300 transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <ImagePlus className="w-4 h-4" />
+                    <span>{imageName ? 'Choose Another Image' : 'Choose Image'}</span>
+                  </button>
+                  {imageName && <p className="mt-1 text-xs text-gray-500 truncate">{imageName}</p>}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={options.shadow.enabled}
+                  onChange={(e) => updateShadow({ enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm font-semibold text-gray-900">Drop Shadow</span>
+              </label>
+              {options.shadow.enabled && (
+                <>
+                  <label className="block text-xs text-gray-600">Opacity: {options.shadow.opacity}%</label>
+                  <input type="range" min={0} max={100} value={options.shadow.opacity}
+                    onChange={(e) => updateShadow({ opacity: parseInt(e.target.value) })} className="w-full" />
+                  <label className="block text-xs text-gray-600">Softness: {options.shadow.blur}px</label>
+                  <input type="range" min={0} max={maxDistance} value={options.shadow.blur}
+                    onChange={(e) => updateShadow({ blur: parseInt(e.target.value) })} className="w-full" />
+                  <label className="block text-xs text-gray-600">Offset X: {options.shadow.offsetX}px</label>
+                  <input type="range" min={-maxDistance} max={maxDistance} value={options.shadow.offsetX}
+                    onChange={(e) => updateShadow({ offsetX: parseInt(e.target.value) })} className="w-full" />
+                  <label className="block text-xs text-gray-600">Offset Y: {options.shadow.offsetY}px</label>
+                  <input type="range" min={-maxDistance} max={maxDistance} value={options.shadow.offsetY}
+                    onChange={(e) => updateShadow({ offsetY: parseInt(e.target.value) })} className="w-full" />
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={options.lightWrap.enabled}
+                  onChange={(e) => updateLightWrap({ enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm font-semibold text-gray-900">Light Wrap</span>
+              </label>
+              {options.lightWrap.enabled && (
+                <>
+                  <label className="block text-xs text-gray-600">Amount: {options.lightWrap.amount}%</label>
+                  <input type="range" min={0} max={100} value={options.lightWrap.amount}
+                    onChange={(e) => updateLightWrap({ amount: parseInt(e.target.value) })} className="w-full" />
+                  <label className="block text-xs text-gray-600">Width: {options.lightWrap.width}px</label>
+                  <input type="range" min={1} max={maxDistance} value={options.lightWrap.width}
+                    onChange={(e) => updateLightWrap({ width: parseInt(e.target.value) })} className="w-full" />
+                </>
+              )}
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                onClick={onCancel}
+                disabled={isApplying}
+                className="flex-1 p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onApply(options)}
+                disabled={!canApply}
+                className="flex-1 p-2 rounded-lg bg-pink-500 text-white hover:bg-pink-600 transition-colors font-medium flex items-center justify-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                <span>Apply</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import {
+  clearSegmentationCache,
+  getSegmentationModel,
+  importSegmentationModel,
+  isBackendAvailable,
+  loadSegmentationSettings,
+  saveSegmentationSettings,
+  SEGMENTATION_BACKENDS,
+  SEGMENTATION_MODELS,
+  SegmentationSettings
+} from '../services/segmentation';
+
+// Which model background removal and auto crop segment with, and where it runs. Changes
+// apply from the next segmentation.
+export const SegmentationSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<SegmentationSettings>(loadSegmentationSettings);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const model = getSegmentationModel(settings.modelId);
+
+  const update = (changes: Partial<SegmentationSettings>) => {
+    const next = { ...settings, ...changes };
+    try {
+      saveSegmentationSettings(next);
+      setSettings(next);
+    } catch (error) {
+      console.error('Failed to save segmentation settings:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save segmentation settings');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      update({ localModelUrl: await importSegmentationModel(files) });
+    } catch (error) {
+      console.error('Failed to import segmentation model:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import the model');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    try {
+      const removed = await clearSegmentationCache();
+      alert(removed > 0 ? `Removed ${removed} cached model(s)` : 'No models are cached');
+    } catch (error) {
+      console.error('Failed to clear the model cache:', error);
+      alert('Failed to clear the model cache');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+        <select
+          value={settings.modelId}
+          onChange={(e) => update({ modelId: e.target.value })}
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {SEGMENTATION_MODELS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">{model.description}</p>
+      </div>
+
+      {model.config.kind === 'graph' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">model.json location</label>
+          <input
+            type="text"
+            value={settings.localModelUrl}
+            onChange={(e) => update({ localModelUrl: e.target.value })}
+            placeholder="/models/salient/model.json"
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="mt-2 w-full p-2 rounded-lg text-xs font-medium bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-50"
+          >
+            <div className="flex items-center justify-center space-x-2">
+              <Upload className="w-4 h-4" />
+              <span>{isImporting ? 'Importing...' : 'Import model files'}</span>
+            </div>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.bin"
+            multiple
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Backend</label>
+        <select
+          value={settings.backend}
+          onChange={(e) => update({ backend: e.target.value as SegmentationSettings['backend'] })}
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {SEGMENTATION_BACKENDS.map(option => (
+            <option key={option.value} value={option.value} disabled={!isBackendAvailable(option.value)}>
+              {option.label}{isBackendAvailable(option.value) ? '' : ' (not installed)'}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {SEGMENTATION_BACKENDS.find(option => option.value === settings.backend)?.description}
+        </p>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.cacheModels}
+          onChange={(e) => update({ cacheModels: e.target.checked })}
+          className="rounded"
+        />
+        <span>Keep models for offline use</span>
+      </label>
+      <button
+        onClick={handleClearCache}
+        className="w-full p-2 rounded-lg text-xs font-medium bg-gray-100 hover:bg-gray-200 text-gray-700"
+      >
+        <div className="flex items-center justify-center space-x-2">
+          <Trash2 className="w-4 h-4" />
+          <span>Clear cached models</span>
+        </div>
+      </button>
+    </div>
+  );
+};
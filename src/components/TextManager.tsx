@@ -11,7 +11,8 @@ interface TextManagerProps {
   layers: any[];
   activeLayerId: string | null;
   layerOperations: any;
-  textElements: Map<string, any>;
+  textElements: Map<string, TextData>;
+  documentSize?: { width: number; height: number } | null;
 }
 
 export const TextManager: React.FC<TextManagerProps> = ({
@@ -23,7 +24,8 @@ export const TextManager: React.FC<TextManagerProps> = ({
   layers,
   activeLayerId,
   layerOperations,
-  textElements
+  textElements,
+  documentSize
 }) => {
   const [showTextTool, setShowTextTool] = useState(false);
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
@@ -66,15 +68,14 @@ export const TextManager: React.FC<TextManagerProps> = ({
       }
     }
     
-    // Calculate center position based on actual canvas size
-    const canvas = canvasRef.current;
+    // Text layers are placed in document pixels, so start at the document's centre
     let defaultX = 960; // Fallback center position for 1920x1080
     let defaultY = 540; // Fallback center position for 1920x1080
     
-    if (canvas) {
-      defaultX = canvas.width / 2;
-      defaultY = canvas.height / 2;
-      console.log(`📍 TEXT AT CANVAS CENTER: ${defaultX}, ${defaultY} (Canvas: ${canvas.width}x${canvas.height})`);
+    if (documentSize) {
+      defaultX = documentSize.width / 2;
+      defaultY = documentSize.height / 2;
+      console.log(`📍 TEXT AT DOCUMENT CENTER: ${defaultX}, ${defaultY} (Document: ${documentSize.width}x${documentSize.height})`);
     } else {
       // If no canvas yet, try to get dimensions from first layer
       const firstLayer = layers[0];
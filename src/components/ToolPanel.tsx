@@ -1,16 +1,24 @@
 import React, { useState } from 'react';
-import { Sliders, Palette, RotateCw, ChevronDown, ChevronUp, X, Scissors, Loader2, Wand2, Focus, Crop, Pipette, Circle, Type, Layers } from 'lucide-react';
+import { Sliders, Palette, RotateCw, ChevronDown, ChevronUp, X, Scissors, Loader2, Wand2, Focus, Crop, Pipette, Circle, Type, Layers, BoxSelect, Frame, Scaling, Shrink, ImagePlus, Settings } from 'lucide-react';
 import { ImageState, FilterType } from '../types/editor';
+import { AutoCropMode } from '../services/autoCrop';
+import { SegmentationSettingsPanel } from './SegmentationSettingsPanel';
 import { VignetteControl } from './VignetteControl';
 
 interface ToolPanelProps {
   imageState: ImageState;
   onUpdateState: (updates: Partial<ImageState>) => void;
   onRemoveBackground: () => Promise<void>;
+  onReplaceBackground?: () => void;
+  canReplaceBackground?: boolean; // The active layer has a cutout mask
   isProcessingBackground: boolean;
   onAutoEnhance: () => Promise<void>;
   onSharpenImage: () => Promise<void>;
-  onAutoCrop: () => Promise<void>;
+  onAutoCrop: (mode?: AutoCropMode, aspectRatio?: number) => Promise<void>;
+  onManualCrop?: () => void;
+  onCanvasSize?: () => void;
+  onImageSize?: () => void;
+  onTrim?: () => void;
   onColorPalette: () => Promise<void>;
   isMobile: boolean;
   isOpen: boolean;
@@ -18,6 +26,8 @@ interface ToolPanelProps {
   vignetteIntensity?: number;
   vignetteRadius?: number;
   onVignetteChange?: (intensity: number, radius: number) => void;
+  hasSelection?: boolean;
+  onLimitToSelectionChange?: (enabled: boolean) => void;
 }
 
 interface CollapsibleSectionProps {
@@ -103,20 +113,40 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
   imageState, 
   onUpdateState, 
   onRemoveBackground,
+  onReplaceBackground,
+  canReplaceBackground = false,
   isProcessingBackground,
   onAutoEnhance,
   onSharpenImage,
   onAutoCrop,
+  onManualCrop,
+  onCanvasSize,
+  onImageSize,
+  onTrim,
   onColorPalette,
   isMobile, 
   isOpen, 
   onClose,
   vignetteIntensity = 0,
   vignetteRadius = 50,
-  onVignetteChange
+  onVignetteChange,
+  hasSelection = false,
+  onLimitToSelectionChange
 }) => {
   const [adjustmentsOpen, setAdjustmentsOpen] = useState(true);
   const [effectsOpen, setEffectsOpen] = useState(false);
+  const [autoCropMode, setAutoCropMode] = useState<AutoCropMode>('person');
+  const [cropAspect, setCropAspect] = useState(0); // 0 keeps the image's shape
+  const [modelSettingsOpen, setModelSettingsOpen] = useState(false);
+
+  const cropAspects = [
+    { label: 'Original', value: 0 },
+    { label: '1:1', value: 1 },
+    { label: '4:5', value: 4 / 5 },
+    { label: '3:2', value: 3 / 2 },
+    { label: '16:9', value: 16 / 9 },
+    { label: '9:16', value: 9 / 16 }
+  ];
 
   const filters: { name: string; value: FilterType }[] = [
     { name: 'None', value: 'none' },
@@ -171,6 +201,29 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
           </p>
         </div>
 
+        {/* Limit to Selection */}
+        {onLimitToSelectionChange && (hasSelection || imageState.region) && (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={!!imageState.region}
+                onChange={(e) => onLimitToSelectionChange(e.target.checked)}
+                className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <div>
+                <span className="flex items-center space-x-2 text-sm font-semibold text-blue-800">
+                  <BoxSelect className="w-4 h-4" />
+                  <span>Limit to Selection</span>
+                </span>
+                <p className="text-xs text-blue-700 mt-1">
+                  Adjustments, filters and sharpening only affect the selected pixels. Re-check to use the current selection.
+                </p>
+              </div>
+            </label>
+          </div>
+        )}
+
         <div>
           <div className="flex items-center space-x-2 mb-3 sm:mb-4">
             <Wand2 className="w-5 h-5 text-yellow-600" />
@@ -208,10 +261,36 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
         <div>
           <div className="flex items-center space-x-2 mb-3 sm:mb-4">
             <Crop className="w-5 h-5 text-violet-600" />
-            <h3 className="text-lg font-semibold text-gray-900">Auto Crop</h3>
+            <h3 className="text-lg font-semibold text-gray-900">Crop</h3>
           </div>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            {([['person', 'People'], ['content', 'Any Subject']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setAutoCropMode(mode)}
+                className={`p-2 rounded-lg text-xs font-medium transition-all duration-300 border ${
+                  autoCropMode === mode
+                    ? 'border-violet-500 bg-violet-50 text-violet-700'
+                    : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {autoCropMode === 'content' && (
+            <select
+              value={cropAspect}
+              onChange={(e) => setCropAspect(parseFloat(e.target.value))}
+              className="w-full mb-2 p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {cropAspects.map(aspect => (
+                <option key={aspect.label} value={aspect.value}>{aspect.label}</option>
+              ))}
+            </select>
+          )}
           <button
-            onClick={onAutoCrop}
+            onClick={() => onAutoCrop(autoCropMode, autoCropMode === 'content' && cropAspect ? cropAspect : undefined)}
             className="w-full p-3 rounded-lg font-medium transition-all duration-300 bg-violet-500 hover:bg-violet-600 text-white shadow-sm hover:shadow-md"
           >
             <div className="flex items-center justify-center space-x-2">
@@ -219,8 +298,64 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
               <span>Auto Crop</span>
             </div>
           </button>
+          {onManualCrop && (
+            <button
+              onClick={onManualCrop}
+              className="w-full mt-2 p-3 rounded-lg font-medium transition-all duration-300 bg-violet-100 hover:bg-violet-200 text-violet-700"
+            >
+              <div className="flex items-center justify-center space-x-2">
+                <Crop className="w-5 h-5" />
+                <span>Crop &amp; Straighten</span>
+              </div>
+            </button>
+          )}
         </div>
 
+        {/* Document Size */}
+        {(onCanvasSize || onImageSize || onTrim) && (
+          <div>
+            <div className="flex items-center space-x-2 mb-3 sm:mb-4">
+              <Frame className="w-5 h-5 text-sky-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Document</h3>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {onCanvasSize && (
+                <button
+                  onClick={onCanvasSize}
+                  className="p-3 rounded-lg font-medium transition-all duration-300 bg-sky-100 hover:bg-sky-200 text-sky-700"
+                >
+                  <div className="flex items-center justify-center space-x-2">
+                    <Frame className="w-4 h-4" />
+                    <span className="text-sm">Canvas Size</span>
+                  </div>
+                </button>
+              )}
+              {onImageSize && (
+                <button
+                  onClick={onImageSize}
+                  className="p-3 rounded-lg font-medium transition-all duration-300 bg-sky-100 hover:bg-sky-200 text-sky-700"
+                >
+                  <div className="flex items-center justify-center space-x-2">
+                    <Scaling className="w-4 h-4" />
+                    <span className="text-sm">Image Size</span>
+                  </div>
+                </button>
+              )}
+            </div>
+            {onTrim && (
+              <button
+                onClick={onTrim}
+                className="w-full mt-2 p-3 rounded-lg font-medium transition-all duration-300 bg-sky-100 hover:bg-sky-200 text-sky-700"
+              >
+                <div className="flex items-center justify-center space-x-2">
+                  <Shrink className="w-4 h-4" />
+                  <span className="text-sm">Trim Transparent Pixels</span>
+                </div>
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Color Palette */}
         <div>
           <div className="flex items-center space-x-2 mb-3 sm:mb-4">
@@ -353,6 +488,34 @@ export const ToolPanel: React.FC<ToolPanelProps> = ({
               )}
             </div>
           </button>
+          {onReplaceBackground && (
+            <button
+              onClick={onReplaceBackground}
+              disabled={isProcessingBackground || !canReplaceBackground}
+              title={canReplaceBackground ? 'Put a new background behind the subject' : 'Remove the background first'}
+              className={`mt-2 w-full p-3 rounded-lg font-medium transition-all duration-300 ${
+                isProcessingBackground || !canReplaceBackground
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed opacity-50'
+                  : 'bg-white text-pink-600 border border-pink-300 hover:bg-pink-50 shadow-sm hover:shadow-md'
+              }`}
+            >
+              <div className="flex items-center justify-center space-x-2">
+                <ImagePlus className="w-5 h-5" />
+                <span>Replace Background</span>
+              </div>
+            </button>
+          )}
+          <button
+            onClick={() => setModelSettingsOpen(!modelSettingsOpen)}
+            className="mt-2 w-full flex items-center justify-between p-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <span className="flex items-center space-x-2">
+              <Settings className="w-4 h-4" />
+              <span>Segmentation model</span>
+            </span>
+            {modelSettingsOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          {modelSettingsOpen && <SegmentationSettingsPanel />}
         </div>
 
         {/* Transform */}
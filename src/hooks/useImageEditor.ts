@@ -1,10 +1,45 @@
-import { useState, useCallback, useRef } from 'react';
-import { ImageState, HistoryState, FilterType, Layer, BlendMode } from '../types/editor';
-import { removeBackground } from '../services/backgroundRemover';
-import { analyzeImageHistogram, getImageDataFromCanvas } from '../services/imageAnalysis';
-import { sharpenImage, analyzeImageSharpness } from '../services/imageSharpening';
-import { autoCropImage, centerCropImage } from '../services/autoCrop';
-import { extractColorPalette } from '../services/colorAnalysis';
+import { useState, useCallback, useRef, useMemo } from 'react';
+import { ImageState, HistoryState, FilterType, Layer, BlendMode, EditorTool, SelectionMask, SelectionMode, DocumentSnapshot, DocumentBackground } from '../types/editor';
+import { createPersonMask, refineLayerCutout } from '../services/backgroundRemover';
+import { MaskHints, MaskRefineOptions } from '../services/maskRefine';
+import { BackgroundReplaceOptions, renderBackgroundLayers, renderSubjectInDocument } from '../services/backgroundReplace';
+import { getImageDataFromCanvas } from '../services/imageAnalysis';
+import { analyzeImageSharpness } from '../services/imageSharpening';
+import { autoCropImage, AutoCropMode, centerCropImage, saliencyCropImage } from '../services/autoCrop';
+import { runPixelTaskInPool } from '../services/workerPool';
+import { isProjectFile, readProjectFile, saveProjectFile, PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { blendWithMask, createFullMask, invertMask, MagicWandOptions, resizeMask, transformMask } from '../services/selection';
+import {
+  getBaseAsOverlay,
+  getDocumentMatrix,
+  getDocumentSize,
+  getLayerToDocumentMatrix,
+  getOverlayAsBase,
+  ViewState
+} from '../services/viewTransform';
+import { defaultMaskBrushOptions, hasActiveMask, MaskBrushOptions } from '../services/layerMask';
+import { BrushOptions, defaultBrushOptions } from '../services/brush';
+import { LayerTransform } from '../services/layerTransform';
+import { createClipboardPayload, getLayerPixels, readClipboard, writeClipboard } from '../services/clipboard';
+import { cropImage, CropRequest } from '../services/crop';
+import {
+  CanvasAnchor,
+  DocumentChange,
+  getCanvasSizeChange,
+  getCropChange,
+  getImageSizeChange,
+  getTrimChange,
+  mapLayerMask,
+  mapSelection,
+  placeBaseLayer,
+  placeOverlay,
+  renderLayerForChange
+} from '../services/documentSize';
+import { resampleCanvas } from '../services/canvasResample';
+import { ResampleOptions } from '../services/resample';
+import { readImageFile } from '../services/imageMetadata';
+import { createHistory, emptyHistory, getHistoryMemory, HISTORY_MEMORY_LIMIT, pushHistoryStep } from '../services/history';
+import { TextData } from '../components/TextTool';
 
 const initialImageState: ImageState = {
   brightness: 0,
@@ -15,7 +50,8 @@ const initialImageState: ImageState = {
   flipX: false,
   flipY: false,
   filter: 'none',
-  crop: null,
+  curves: null,
+  region: null,
 };
 
 const generateLayerId = (): string => {
@@ -48,29 +84,112 @@ const generateThumbnail = (image: HTMLImageElement): string => {
   return canvas.toDataURL();
 };
 
+const adjustmentStepNames: Partial<Record<keyof ImageState, string>> = {
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+  saturation: 'Saturation',
+  blur: 'Blur',
+  rotation: 'Rotate',
+  flipX: 'Flip Horizontal',
+  flipY: 'Flip Vertical',
+  filter: 'Filter',
+  curves: 'Curves',
+  region: 'Limit to Selection'
+};
+
+// Replace one layer in a document. Returning null from `update` leaves the document unchanged.
+const withLayer = (
+  document: DocumentSnapshot,
+  layerId: string,
+  update: (layer: Layer) => Layer | null
+): DocumentSnapshot | null => {
+  const layer = document.layers.find(l => l.id === layerId);
+  const updated = layer ? update(layer) : null;
+  if (!updated) return null;
+  return { ...document, layers: document.layers.map(l => l.id === layerId ? updated : l) };
+};
+
+const withPixels = (layer: Layer, image: HTMLImageElement): Layer => ({
+  ...layer,
+  image,
+  thumbnail: generateThumbnail(image)
+});
+
+const loadCanvasImage = (canvas: HTMLCanvasElement): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Unable to decode the resized pixels'));
+    img.src = canvas.toDataURL();
+  });
+};
+
+// The first image opened or added sets the document's size
+const withFirstLayers = (document: DocumentSnapshot, layers: Layer[]): DocumentSnapshot => {
+  if (document.layers.length > 0 || layers.length === 0) return { ...document, layers: [...document.layers, ...layers] };
+  const [base, ...overlays] = layers;
+  return {
+    ...document,
+    width: base.image.naturalWidth || base.image.width,
+    height: base.image.naturalHeight || base.image.height,
+    layers: [{ ...base, position: { x: 0, y: 0 } }, ...overlays]
+  };
+};
+
+// Keep layers where they were when a different layer ends up at the bottom
+const rebaseLayers = (document: DocumentSnapshot, layers: Layer[]): Layer[] => {
+  const oldBase = document.layers[0];
+  const newBase = layers[0];
+  if (!oldBase || !newBase || oldBase.id === newBase.id) return layers;
+
+  return layers.map(layer => {
+    if (layer.id === newBase.id) return { ...layer, ...getOverlayAsBase(layer) };
+    if (layer.id === oldBase.id) return { ...layer, ...getBaseAsOverlay(document) };
+    return layer;
+  });
+};
+
+// New documents use their first image as the background, as they always have
+const defaultBackground: DocumentBackground = { type: 'layer' };
+const defaultVignette = { intensity: 0, radius: 50 };
+
 export const useImageEditor = () => {
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [layers, setLayers] = useState<Layer[]>([]);
   const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
-  const [history, setHistory] = useState<HistoryState>({
-    past: [],
-    present: initialImageState,
-    future: []
-  });
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [isLoading, setIsLoading] = useState(false);
   const [isProcessingBackground, setIsProcessingBackground] = useState(false);
+  // A segmentation waiting in the refine dialog before it becomes the layer's mask
+  const [backgroundRefine, setBackgroundRefine] = useState<{ layerId: string; image: HTMLImageElement; mask: SelectionMask } | null>(null);
+  // A cut-out subject, in document pixels, waiting for a new background
+  const [backgroundReplace, setBackgroundReplace] = useState<{ layerId: string; subject: HTMLCanvasElement; original: HTMLCanvasElement } | null>(null);
   const [colorPalette, setColorPalette] = useState<{r: number, g: number, b: number}[]>([]);
   const [paletteStats, setPaletteStats] = useState<{processingTime: number, totalPixelsAnalyzed: number, samplingRate: number} | null>(null);
   const [vignetteIntensity, setVignetteIntensity] = useState(0);
   const [vignetteRadius, setVignetteRadius] = useState(50);
   const [processingTimes, setProcessingTimes] = useState<{[key: string]: number}>({});
+  const [activeTool, setActiveTool] = useState<EditorTool>('move');
+  const [selection, setSelection] = useState<SelectionMask | null>(null);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('replace');
+  const [wandOptions, setWandOptions] = useState<MagicWandOptions>({ tolerance: 32, contiguous: true });
+  const [maskBrushOptions, setMaskBrushOptions] = useState<MaskBrushOptions>(defaultMaskBrushOptions);
+  const [brushOptions, setBrushOptions] = useState<BrushOptions>(defaultBrushOptions);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const originalImageRef = useRef<HTMLImageElement | null>(null);
   const processedImageRef = useRef<HTMLCanvasElement | null>(null);
-  const [textElements, setTextElements] = useState<Map<string, any>>(new Map());
+  const [textElements, setTextElements] = useState<Map<string, TextData>>(new Map());
+  const [documentBackground, setDocumentBackgroundState] = useState<DocumentBackground>(defaultBackground);
+  const [documentDimensions, setDocumentDimensions] = useState({ width: 0, height: 0 });
+  // The latest document, updated synchronously so changes made in one event build on each other
+  const documentRef = useRef<DocumentSnapshot>({ width: 0, height: 0, layers: [], activeLayerId: null, textElements: new Map(), background: defaultBackground, vignette: defaultVignette });
+  const documentLayout = useMemo(() => ({ layers, ...documentDimensions }), [layers, documentDimensions]);
+  const documentSize = useMemo(() => getDocumentSize(documentLayout), [documentLayout]);
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
+  const historyMemory = useMemo(() => getHistoryMemory(history), [history]);
 
   const updateProcessingTime = useCallback((operation: string, time: number) => {
     setProcessingTimes(prev => ({
@@ -79,11 +198,6 @@ export const useImageEditor = () => {
     }));
   }, []);
 
-  const updateVignette = useCallback((intensity: number, radius: number) => {
-    setVignetteIntensity(intensity);
-    setVignetteRadius(radius);
-  }, []);
-
   const createLayerFromImage = useCallback((img: HTMLImageElement, name?: string): Layer => {
     const layerId = generateLayerId();
     return {
@@ -102,59 +216,166 @@ export const useImageEditor = () => {
     };
   }, [layers.length]);
 
-  const addToHistory = useCallback((newState: ImageState) => {
-    setHistory(prev => ({
-      past: [...prev.past, prev.present],
-      present: newState,
-      future: []
-    }));
+  // Show a document in the editor without recording a history step
+  const showDocument = useCallback((document: DocumentSnapshot) => {
+    documentRef.current = document;
+    const activeLayer = document.layers.find(layer => layer.id === document.activeLayerId);
+    setDocumentDimensions(prev => prev.width === document.width && prev.height === document.height
+      ? prev
+      : { width: document.width, height: document.height });
+    setLayers(document.layers);
+    setActiveLayerId(document.activeLayerId);
+    setTextElements(document.textElements);
+    setDocumentBackgroundState(document.background);
+    setVignetteIntensity(document.vignette.intensity);
+    setVignetteRadius(document.vignette.radius);
+    setImage(activeLayer ? activeLayer.image : null);
   }, []);
 
+  // Replace the document and start its history over from a single step
+  const startHistory = useCallback((name: string, document: DocumentSnapshot) => {
+    showDocument(document);
+    setHistory(createHistory(name, document));
+  }, [showDocument]);
+
+  // Apply a change to the document and record it as a named history step. Returning null
+  // from `change` skips the step; steps sharing a `coalesceKey` in quick succession merge.
+  const commitDocument = useCallback((
+    name: string,
+    change: (document: DocumentSnapshot) => DocumentSnapshot | null,
+    coalesceKey?: string
+  ) => {
+    const previous = documentRef.current;
+    const next = change(previous);
+    if (!next) return;
+
+    showDocument(next);
+    setHistory(prev => pushHistoryStep(
+      prev.steps.length > 0 ? prev : createHistory('New Document', previous),
+      name,
+      next,
+      coalesceKey
+    ));
+  }, [showDocument]);
+
+  // Restore the document as it was at a history step. The active layer stays selected
+  // when it exists in that step.
+  const jumpToStep = useCallback((index: number) => {
+    const step = history.steps[index];
+    if (!step || index === history.index) return;
+
+    const currentLayerId = documentRef.current.activeLayerId;
+    const keepActive = step.document.layers.some(layer => layer.id === currentLayerId);
+    showDocument({ ...step.document, activeLayerId: keepActive ? currentLayerId : step.document.activeLayerId });
+    setHistory(prev => ({ ...prev, index }));
+  }, [history, showDocument]);
+
   const undo = useCallback(() => {
-    setHistory(prev => {
-      if (prev.past.length === 0) return prev;
-      const previous = prev.past[prev.past.length - 1];
-      const newPast = prev.past.slice(0, prev.past.length - 1);
-      return {
-        past: newPast,
-        present: previous,
-        future: [prev.present, ...prev.future]
-      };
-    });
-  }, []);
+    jumpToStep(history.index - 1);
+  }, [history.index, jumpToStep]);
 
   const redo = useCallback(() => {
-    setHistory(prev => {
-      if (prev.future.length === 0) return prev;
-      const next = prev.future[0];
-      const newFuture = prev.future.slice(1);
-      return {
-        past: [...prev.past, prev.present],
-        present: next,
-        future: newFuture
-      };
-    });
-  }, []);
+    jumpToStep(history.index + 1);
+  }, [history.index, jumpToStep]);
 
-  const updateImageState = useCallback((updates: Partial<ImageState>) => {
-    // Update global state for single image mode
-    const newState = { ...history.present, ...updates };
-    addToHistory(newState);
-    
-    // Also update active layer's image state if in layer mode
-    if (activeLayerId) {
-      setLayers(prev => prev.map(layer => 
-        layer.id === activeLayerId 
-          ? { ...layer, imageState: { ...layer.imageState, ...updates } }
-          : layer
+  // Commit painted pixels to a layer as an undoable history step
+  const paintLayer = useCallback((layerId: string, pixels: HTMLCanvasElement, stepName: string) => {
+    const paintedImage = new Image();
+    paintedImage.onload = () => {
+      commitDocument(stepName, document => withLayer(document, layerId, layer =>
+        layer.locked ? null : withPixels(layer, paintedImage)
       ));
+    };
+    paintedImage.src = pixels.toDataURL();
+  }, [commitDocument]);
+
+  // Adjustments belong to the active layer. Slider drags on the same setting merge into one
+  // step; other continuous edits, such as dragging a curve, pass a `coalesceKey` to do the same.
+  const updateImageState = useCallback((updates: Partial<ImageState>, stepName?: string, coalesceKey?: string) => {
+    const layerId = documentRef.current.activeLayerId;
+    if (!layerId) return;
+
+    const keys = Object.keys(updates) as (keyof ImageState)[];
+    const name = stepName ?? (keys.length === 1 ? adjustmentStepNames[keys[0]] ?? 'Adjust' : 'Adjustments');
+    const isSlider = keys.every(key => typeof updates[key] === 'number');
+
+    commitDocument(
+      name,
+      document => withLayer(document, layerId, layer => ({
+        ...layer,
+        imageState: { ...layer.imageState, ...updates }
+      })),
+      coalesceKey || isSlider ? `adjust:${layerId}:${coalesceKey ?? keys.join(',')}` : undefined
+    );
+  }, [commitDocument]);
+
+  // The vignette covers the whole document. Dragging either slider merges into one step.
+  const updateVignette = useCallback((intensity: number, radius: number) => {
+    commitDocument('Vignette', document => {
+      if (document.vignette.intensity === intensity && document.vignette.radius === radius) return null;
+      return { ...document, vignette: { intensity, radius } };
+    }, 'vignette');
+  }, [commitDocument]);
+
+  const openProject = useCallback(async (file: File) => {
+    setIsLoading(true);
+    try {
+      const project = await readProjectFile(file);
+      const activeLayer = project.layers.find(layer => layer.id === project.activeLayerId) || project.layers[0];
+
+      startHistory('Open Project', {
+        width: project.width,
+        height: project.height,
+        layers: project.layers,
+        activeLayerId: activeLayer ? activeLayer.id : null,
+        textElements: project.textElements,
+        background: project.background,
+        vignette: { intensity: project.vignetteIntensity, radius: project.vignetteRadius }
+      });
+      originalImageRef.current = project.layers[0]?.image ?? null;
+      setSelection(null);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      alert(error instanceof Error ? error.message : 'Failed to open project.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startHistory]);
+
+  const saveProject = useCallback(() => {
+    if (layers.length === 0) return;
+
+    try {
+      const baseName = layers[0].name.replace(/\s+\d+$/, '') || 'untitled';
+      saveProjectFile({
+        ...documentDimensions,
+        layers,
+        activeLayerId,
+        textElements,
+        background: documentBackground,
+        vignetteIntensity,
+        vignetteRadius
+      }, baseName);
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      alert('Failed to save project. Please try again.');
     }
-  }, [history.present, addToHistory]);
+  }, [documentDimensions, layers, activeLayerId, textElements, documentBackground, vignetteIntensity, vignetteRadius]);
 
   const loadImage = useCallback((file: File | File[]) => {
+    const files = Array.isArray(file) ? file : [file];
+
+    // Project files replace the whole document instead of adding layers
+    const projectFile = files.find(isProjectFile);
+    if (projectFile) {
+      openProject(projectFile);
+      return;
+    }
+
     setIsLoading(true);
     
-    const files = Array.isArray(file) ? file : [file];
     let loadedCount = 0;
     const newLayers: Layer[] = [];
     
@@ -163,44 +384,54 @@ export const useImageEditor = () => {
       if (loadedCount === files.length) {
         // All images loaded
         if (newLayers.length > 0) {
-          setLayers(prev => [...prev, ...newLayers]);
-          setActiveLayerId(newLayers[0].id);
-          
-          // Set main image to first layer for backward compatibility
-          setImage(newLayers[0].image);
+          const document = documentRef.current;
+          const next = { ...withFirstLayers(document, newLayers), activeLayerId: newLayers[0].id };
+
+          // Opening into an empty editor starts a new history; otherwise the images are added as layers
+          if (document.layers.length === 0) {
+            startHistory('Open Image', next);
+          } else {
+            commitDocument(newLayers.length === 1 ? 'Add Layer' : 'Add Layers', () => next);
+          }
           originalImageRef.current = newLayers[0].image;
         }
         
-        setHistory({
-          past: [],
-          present: initialImageState,
-          future: []
-        });
         setZoom(1);
         setPan({ x: 0, y: 0 });
         setIsLoading(false);
       }
     };
     
+    // Decoded upright by EXIF orientation, with the file's metadata kept on the layer
     files.forEach((f, index) => {
-      const img = new Image();
-      img.onload = () => {
-        const layer = createLayerFromImage(img, `${f.name.split('.')[0]} ${index + 1}`);
-        newLayers.push(layer);
-        handleImageLoad();
-      };
-      img.onerror = () => {
-        console.error(`Error loading ${f.name}`);
-        handleImageLoad();
-      };
-      img.src = URL.createObjectURL(f);
+      readImageFile(f)
+        .then(({ image: img, metadata }) => {
+          const layer = createLayerFromImage(img, `${f.name.split('.')[0]} ${index + 1}`);
+          newLayers.push({ ...layer, metadata });
+          handleImageLoad();
+        })
+        .catch(error => {
+          console.error(`Error loading ${f.name}:`, error);
+          handleImageLoad();
+        });
     });
+  }, [openProject, createLayerFromImage, startHistory, commitDocument]);
+
+  // Document pixels per editor canvas pixel at zoom 1, so new text shows at its font size
+  const getCanvasPixelSize = useCallback((): number => {
+    const current = documentRef.current;
+    const canvas = canvasRef.current;
+    if (!canvas || current.layers.length === 0) return 1;
+
+    const view: ViewState = { canvasWidth: canvas.width, canvasHeight: canvas.height, zoom: 1, pan: { x: 0, y: 0 } };
+    const toCanvas = getDocumentMatrix(current, current.layers[0].imageState, view);
+    return 1 / Math.hypot(toCanvas.a, toCanvas.b);
   }, []);
 
   const addLayer = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'image/*';
+    input.accept = `image/*,${PROJECT_FILE_EXTENSION}`;
     input.multiple = true;
     input.onchange = (e) => {
       const files = Array.from((e.target as HTMLInputElement).files || []);
@@ -212,116 +443,169 @@ export const useImageEditor = () => {
   }, [loadImage]);
 
   const layerOperations = {
+    // Changing the active layer isn't an edit, so it doesn't add a history step
     selectLayer: useCallback((layerId: string) => {
-      setActiveLayerId(layerId);
-      const layer = layers.find(l => l.id === layerId);
-      if (layer) {
-        setImage(layer.image);
-        setHistory(prev => ({
-          ...prev,
-          present: layer.imageState
-        }));
-      }
-    }, [layers]),
+      const document = documentRef.current;
+      if (!document.layers.some(layer => layer.id === layerId)) return;
+      showDocument({ ...document, activeLayerId: layerId });
+    }, [showDocument]),
     
     toggleVisibility: useCallback((layerId: string) => {
-      setLayers(prev => prev.map(layer => 
-        layer.id === layerId ? { ...layer, visible: !layer.visible } : layer
-      ));
-    }, []),
+      const layer = documentRef.current.layers.find(l => l.id === layerId);
+      commitDocument(layer?.visible ? 'Hide Layer' : 'Show Layer', document =>
+        withLayer(document, layerId, l => ({ ...l, visible: !l.visible }))
+      );
+    }, [commitDocument]),
     
     changeOpacity: useCallback((layerId: string, opacity: number) => {
-      setLayers(prev => prev.map(layer => 
-        layer.id === layerId ? { ...layer, opacity } : layer
-      ));
-    }, []),
+      commitDocument('Layer Opacity', document =>
+        withLayer(document, layerId, layer => ({ ...layer, opacity })),
+        `opacity:${layerId}`
+      );
+    }, [commitDocument]),
     
     changeBlendMode: useCallback((layerId: string, blendMode: BlendMode) => {
-      setLayers(prev => prev.map(layer => 
-        layer.id === layerId ? { ...layer, blendMode } : layer
-      ));
-    }, []),
+      commitDocument('Blend Mode', document =>
+        withLayer(document, layerId, layer => ({ ...layer, blendMode }))
+      );
+    }, [commitDocument]),
     
     deleteLayer: useCallback((layerId: string) => {
-      setLayers(prev => {
-        const newLayers = prev.filter(layer => layer.id !== layerId);
-        if (newLayers.length === 0) {
-          setActiveLayerId(null);
-          setImage(null);
-          return [];
-        }
-        
-        // If deleting active layer, select another one
-        if (layerId === activeLayerId) {
-          const newActiveLayer = newLayers[0];
-          setActiveLayerId(newActiveLayer.id);
-          setImage(newActiveLayer.image);
-        }
-        
-        return newLayers;
+      commitDocument('Delete Layer', document => {
+        if (!document.layers.some(layer => layer.id === layerId)) return null;
+
+        const layers = rebaseLayers(document, document.layers.filter(layer => layer.id !== layerId));
+        const textElements = new Map(document.textElements);
+        textElements.delete(layerId);
+
+        // If deleting the active layer, select another one
+        const activeLayerId = layerId === document.activeLayerId
+          ? layers[0]?.id ?? null
+          : document.activeLayerId;
+
+        return { ...document, layers, activeLayerId, textElements };
       });
-    }, [activeLayerId]),
+    }, [commitDocument]),
     
     duplicateLayer: useCallback((layerId: string) => {
-      const layer = layers.find(l => l.id === layerId);
-      if (layer) {
+      commitDocument('Duplicate Layer', document => {
+        const layer = document.layers.find(l => l.id === layerId);
+        if (!layer) return null;
+
         const duplicatedLayer: Layer = {
           ...layer,
           id: generateLayerId(),
           name: `${layer.name} Copy`
         };
-        setLayers(prev => [...prev, duplicatedLayer]);
-      }
-    }, [layers]),
+
+        // Copies of text layers stay editable
+        const textElements = new Map(document.textElements);
+        const textData = textElements.get(layerId);
+        if (textData) {
+          textElements.set(duplicatedLayer.id, { ...textData });
+        }
+
+        return { ...document, layers: [...document.layers, duplicatedLayer], textElements };
+      });
+    }, [commitDocument]),
     
     reorderLayer: useCallback((layerId: string, direction: 'up' | 'down') => {
-      setLayers(prev => {
-        const index = prev.findIndex(l => l.id === layerId);
-        if (index === -1) return prev;
+      commitDocument(direction === 'up' ? 'Move Layer Up' : 'Move Layer Down', document => {
+        const index = document.layers.findIndex(l => l.id === layerId);
+        if (index === -1) return null;
         
         const newIndex = direction === 'up' ? index + 1 : index - 1;
-        if (newIndex < 0 || newIndex >= prev.length) return prev;
+        if (newIndex < 0 || newIndex >= document.layers.length) return null;
         
-        const newLayers = [...prev];
-        [newLayers[index], newLayers[newIndex]] = [newLayers[newIndex], newLayers[index]];
-        return newLayers;
+        const layers = [...document.layers];
+        [layers[index], layers[newIndex]] = [layers[newIndex], layers[index]];
+        return { ...document, layers: rebaseLayers(document, layers) };
       });
-    }, []),
+    }, [commitDocument]),
     
     toggleLock: useCallback((layerId: string) => {
-      setLayers(prev => prev.map(layer => 
-        layer.id === layerId ? { ...layer, locked: !layer.locked } : layer
-      ));
-    }, []),
+      const layer = documentRef.current.layers.find(l => l.id === layerId);
+      commitDocument(layer?.locked ? 'Unlock Layer' : 'Lock Layer', document =>
+        withLayer(document, layerId, l => ({ ...l, locked: !l.locked }))
+      );
+    }, [commitDocument]),
     
     renameLayer: useCallback((layerId: string, newName: string) => {
-      setLayers(prev => prev.map(layer => 
-        layer.id === layerId ? { ...layer, name: newName } : layer
-      ));
-    }, []),
+      commitDocument('Rename Layer', document =>
+        withLayer(document, layerId, layer => layer.name === newName ? null : { ...layer, name: newName })
+      );
+    }, [commitDocument]),
     
-    updateLayerImage: useCallback((layerId: string, newImage: HTMLImageElement) => {
-      setLayers(prev => prev.map(layer => 
-        layer.id === layerId 
-          ? { ...layer, image: newImage, thumbnail: generateThumbnail(newImage) }
-          : layer
-      ));
-    }, []),
+    updateLayerImage: useCallback((layerId: string, newImage: HTMLImageElement, stepName = 'Edit Pixels') => {
+      commitDocument(stepName, document =>
+        withLayer(document, layerId, layer => withPixels(layer, newImage))
+      );
+    }, [commitDocument]),
 
     updateLayerPosition: useCallback((layerId: string, position: { x: number; y: number }) => {
-      setLayers(prev => prev.map(layer => 
-        layer.id === layerId 
-          ? { ...layer, position }
-          : layer
-      ));
-    }, []),
+      commitDocument('Move Layer', document =>
+        withLayer(document, layerId, layer => ({ ...layer, position })),
+        `transform:${layerId}`
+      );
+    }, [commitDocument]),
+
+    updateLayerTransform: useCallback((layerId: string, transform: Partial<LayerTransform>) => {
+      commitDocument('Transform Layer', document =>
+        withLayer(document, layerId, layer => layer.locked ? null : { ...layer, ...transform }),
+        `transform:${layerId}`
+      );
+    }, [commitDocument]),
+
+    // Bake an overlay's scale into its pixels with the chosen resampling, leaving it at 100%
+    applyScale: useCallback(async (layerId: string, resample: ResampleOptions) => {
+      const layer = documentRef.current.layers.find(l => l.id === layerId);
+      if (!layer || layer.locked || documentRef.current.layers[0]?.id === layerId) return;
+
+      const width = layer.image.naturalWidth || layer.image.width;
+      const height = layer.image.naturalHeight || layer.image.height;
+      const targetWidth = Math.max(1, Math.round(width * Math.abs(layer.scale.x)));
+      const targetHeight = Math.max(1, Math.round(height * Math.abs(layer.scale.y)));
+      if (targetWidth === width && targetHeight === height) return;
+
+      try {
+        const image = await loadCanvasImage(await resampleCanvas(layer.image, width, height, targetWidth, targetHeight, resample));
+        commitDocument('Apply Scale', document => withLayer(document, layerId, current => {
+          if (current.locked || current.image !== layer.image) return null;
+          const { region } = current.imageState;
+          return {
+            ...withPixels(current, image),
+            // What rounding to whole pixels left over, with any flip kept
+            scale: { x: (current.scale.x * width) / targetWidth, y: (current.scale.y * height) / targetHeight },
+            mask: current.mask ? resizeMask(current.mask, targetWidth, targetHeight) : current.mask,
+            imageState: {
+              ...current.imageState,
+              region: region ? resizeMask(region, targetWidth, targetHeight) : null
+            }
+          };
+        }));
+        console.log(`📐 Resampled ${layer.name} to ${targetWidth}×${targetHeight} (${resample.method})`);
+      } catch (error) {
+        console.error('Apply scale failed:', error);
+        alert('Could not resample the layer. Please try again.');
+      }
+    }, [commitDocument]),
     
-    addLayerFromImage: useCallback((image: HTMLImageElement, name?: string) => {
-      const newLayer = createLayerFromImage(image, name);
-      setLayers(prev => [...prev, newLayer]);
-      setActiveLayerId(newLayer.id);
+    // `properties` override the new layer's defaults; `textData` keeps a pasted text layer editable
+    addLayerFromImage: useCallback((
+      image: HTMLImageElement,
+      name?: string,
+      options: { properties?: Partial<Layer>; textData?: TextData; stepName?: string } = {}
+    ) => {
+      const newLayer = { ...createLayerFromImage(image, name), ...options.properties };
+      commitDocument(options.stepName ?? 'Add Layer', document => ({
+        ...withFirstLayers(document, [newLayer]),
+        activeLayerId: newLayer.id,
+        textElements: options.textData
+          ? new Map(document.textElements).set(newLayer.id, options.textData)
+          : document.textElements
+      }));
       return newLayer;
-    }, [createLayerFromImage]),
+    }, [createLayerFromImage, commitDocument]),
 
     addTextLayer: useCallback((textData: any) => {
       const layerId = generateLayerId();
@@ -498,6 +782,8 @@ export const useImageEditor = () => {
       // Calculate center position for the layer - use the textData coordinates!
       let centerX = textData.x || 400; // Use passed coordinates or fallback
       let centerY = textData.y || 300; // Use passed coordinates or fallback
+      // Text shows at its font size on the unzoomed canvas, whatever the document's size
+      const textScale = getCanvasPixelSize();
       
       console.log(`🎯 FINAL TEXT POSITION: (${centerX}, ${centerY})`);
       
@@ -512,24 +798,26 @@ export const useImageEditor = () => {
           opacity: 1,
           blendMode: 'normal',
           position: { x: centerX, y: centerY }, // Position layer at center
-          scale: { x: 1, y: 1 },
+          scale: { x: textScale, y: textScale },
           rotation: 0,
           imageState: { ...initialImageState },
           locked: false,
           thumbnail: thumbnailCanvas.toDataURL()
         };
         
-        setLayers(prev => [...prev, textLayer]);
-        setActiveLayerId(layerId);
-        
-        // Store text data for editing
-        setTextElements(prev => new Map(prev.set(layerId, textData)));
+        // Store text data alongside the layer for editing
+        commitDocument('Add Text', document => ({
+          ...document,
+          layers: [...document.layers, textLayer],
+          activeLayerId: layerId,
+          textElements: new Map(document.textElements).set(layerId, textData)
+        }));
         
         console.log(`✅ TEXT ADDED AT CENTER: (${centerX}, ${centerY})`);
       };
       img.src = canvas.toDataURL();
       return layerId;
-    }, []),
+    }, [commitDocument, getCanvasPixelSize]),
 
     updateTextLayer: useCallback((layerId: string, textData: any) => {
       console.log(`🔄 UPDATING TEXT: Position (${textData.x}, ${textData.y})`);
@@ -692,24 +980,22 @@ export const useImageEditor = () => {
       
       const img = new Image();
       img.onload = () => {
-        setLayers(prev => prev.map(layer => 
-          layer.id === layerId 
-            ? { 
-                ...layer, 
-                image: img, 
-                name: `Text: ${textData.text.substring(0, 20)}${textData.text.length > 20 ? '...' : ''}`,
-                position: { x: textData.x, y: textData.y }, // Use the coordinates from textData
-                rotation: 0,
-                thumbnail: thumbnailCanvas.toDataURL()
-              }
-            : layer
-        ));
-        
-        // Update stored text data
-        setTextElements(prev => new Map(prev.set(layerId, textData)));
+        commitDocument('Edit Text', document => {
+          const updated = withLayer(document, layerId, layer => ({
+            ...layer, 
+            image: img, 
+            name: `Text: ${textData.text.substring(0, 20)}${textData.text.length > 20 ? '...' : ''}`,
+            position: { x: textData.x, y: textData.y }, // Use the coordinates from textData
+            rotation: 0,
+            thumbnail: thumbnailCanvas.toDataURL()
+          }));
+          
+          // Update stored text data
+          return updated && { ...updated, textElements: new Map(document.textElements).set(layerId, textData) };
+        });
       };
       img.src = canvas.toDataURL();
-    }, []),
+    }, [commitDocument]),
 
     getTextData: useCallback((layerId: string) => {
       return textElements.get(layerId);
@@ -720,17 +1006,167 @@ export const useImageEditor = () => {
     }, [textElements])
   };
 
+  // Selections live in document space
+  const selectionOperations = {
+    selectAll: useCallback(() => {
+      if (!documentSize) return;
+      setSelection(createFullMask(documentSize.width, documentSize.height));
+    }, [documentSize]),
+
+    deselect: useCallback(() => {
+      setSelection(null);
+    }, []),
+
+    invert: useCallback(() => {
+      if (!documentSize) return;
+      setSelection(prev => prev
+        ? invertMask(prev)
+        : createFullMask(documentSize.width, documentSize.height)
+      );
+    }, [documentSize]),
+
+    // Snapshot the selection into the active layer's pixels so its adjustments only apply there
+    setLimitToSelection: useCallback((enabled: boolean) => {
+      if (!enabled) {
+        updateImageState({ region: null });
+        return;
+      }
+
+      const activeLayer = layers.find(layer => layer.id === activeLayerId);
+      if (!selection || !activeLayer) return;
+
+      const region = transformMask(
+        selection,
+        activeLayer.image.naturalWidth || activeLayer.image.width,
+        activeLayer.image.naturalHeight || activeLayer.image.height,
+        getLayerToDocumentMatrix(documentLayout, activeLayer)
+      );
+      updateImageState({ region });
+    }, [documentLayout, layers, activeLayerId, selection, updateImageState])
+  };
+
+  const maskOperations = {
+    // New masks reveal the current selection, or the whole layer when nothing is selected
+    addMask: useCallback((layerId: string) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer) return;
+
+      const width = layer.image.naturalWidth || layer.image.width;
+      const height = layer.image.naturalHeight || layer.image.height;
+      const mask = selection
+        ? transformMask(selection, width, height, getLayerToDocumentMatrix(documentLayout, layer))
+        : createFullMask(width, height);
+
+      commitDocument('Add Mask', document =>
+        withLayer(document, layerId, l => ({ ...l, mask, maskEnabled: true }))
+      );
+    }, [documentLayout, layers, selection, commitDocument]),
+
+    deleteMask: useCallback((layerId: string) => {
+      commitDocument('Delete Mask', document =>
+        withLayer(document, layerId, layer => layer.mask ? { ...layer, mask: null, maskEnabled: undefined } : null)
+      );
+    }, [commitDocument]),
+
+    toggleMask: useCallback((layerId: string) => {
+      const layer = documentRef.current.layers.find(l => l.id === layerId);
+      commitDocument(layer?.maskEnabled === false ? 'Enable Mask' : 'Disable Mask', document =>
+        withLayer(document, layerId, l => l.mask ? { ...l, maskEnabled: l.maskEnabled === false } : null)
+      );
+    }, [commitDocument]),
+
+    invertMask: useCallback((layerId: string) => {
+      commitDocument('Invert Mask', document =>
+        withLayer(document, layerId, layer => layer.mask ? { ...layer, mask: invertMask(layer.mask) } : null)
+      );
+    }, [commitDocument]),
+
+    updateMask: useCallback((layerId: string, mask: SelectionMask) => {
+      commitDocument('Paint Mask', document =>
+        withLayer(document, layerId, layer => layer.locked ? null : { ...layer, mask, maskEnabled: layer.maskEnabled ?? true })
+      );
+    }, [commitDocument])
+  };
+
+  // Copy the active layer, or the selected part of it, to the system clipboard
+  const copyToClipboard = useCallback(async () => {
+    const activeLayer = layers.find(layer => layer.id === activeLayerId);
+    if (!activeLayer) return;
+
+    try {
+      const cutout = selection
+        ? transformMask(
+            selection,
+            activeLayer.image.naturalWidth || activeLayer.image.width,
+            activeLayer.image.naturalHeight || activeLayer.image.height,
+            getLayerToDocumentMatrix(documentLayout, activeLayer)
+          )
+        : null;
+      const { canvas: pixels, bounds } = getLayerPixels(activeLayer, cutout);
+
+      // Only whole text layers stay editable once pasted
+      const payload = createClipboardPayload(
+        documentLayout,
+        activeLayer,
+        bounds,
+        cutout ? undefined : textElements.get(activeLayer.id)
+      );
+      await writeClipboard(pixels, payload);
+      console.log(`📋 Copied ${bounds.width}×${bounds.height} pixels from ${activeLayer.name}`);
+    } catch (error) {
+      console.error('Copy failed:', error);
+      alert(error instanceof Error ? error.message : 'Copy failed. Please try again.');
+    }
+  }, [documentLayout, layers, activeLayerId, selection, textElements]);
+
+  // Paste the clipboard image as a new layer. Our own payload puts it back where it was
+  // copied with its blend mode, opacity and text data; images from other apps are centred.
+  const { addLayerFromImage } = layerOperations;
+  const pasteFromClipboard = useCallback(async () => {
+    try {
+      const contents = await readClipboard();
+      if (!contents) {
+        alert('There is no image on the clipboard to paste.');
+        return;
+      }
+
+      const { image: pastedImage, payload } = contents;
+      if (payload) {
+        addLayerFromImage(pastedImage, payload.name, {
+          properties: {
+            opacity: payload.opacity,
+            blendMode: payload.blendMode,
+            position: payload.position,
+            scale: payload.scale,
+            rotation: payload.rotation,
+            skew: payload.skew,
+            imageState: { ...initialImageState, ...payload.imageState }
+          },
+          textData: payload.textData,
+          stepName: 'Paste'
+        });
+      } else {
+        addLayerFromImage(pastedImage, 'Pasted Image', {
+          properties: { position: { x: documentRef.current.width / 2, y: documentRef.current.height / 2 } },
+          stepName: 'Paste'
+        });
+      }
+      console.log(`📋 Pasted ${pastedImage.naturalWidth}×${pastedImage.naturalHeight} image${payload ? ' with layer properties' : ''}`);
+    } catch (error) {
+      console.error('Paste failed:', error);
+      alert(error instanceof Error && error.name === 'NotAllowedError'
+        ? 'Clipboard access was blocked. Allow clipboard permissions for this site to paste.'
+        : error instanceof Error ? error.message : 'Paste failed. Please try again.');
+    }
+  }, [addLayerFromImage]);
+
   const resetImage = useCallback(() => {
-    setHistory({
-      past: [],
-      present: initialImageState,
-      future: []
-    });
-    setLayers([]);
-    setActiveLayerId(null);
+    showDocument({ width: 0, height: 0, layers: [], activeLayerId: null, textElements: new Map(), background: defaultBackground, vignette: defaultVignette });
+    setHistory(emptyHistory);
+    setSelection(null);
     setZoom(1);
     setPan({ x: 0, y: 0 });
-  }, []);
+  }, [showDocument]);
 
   const exportImage = useCallback(() => {
     const canvas = canvasRef.current;
@@ -742,44 +1178,143 @@ export const useImageEditor = () => {
     link.click();
   }, []);
 
+  // Segment the active layer with the chosen segmentation model and open the result for
+  // refinement. The cutout becomes a layer mask, so it can still be painted, inverted or
+  // removed later.
   const handleRemoveBackground = useCallback(async () => {
-    if (!image || isProcessingBackground || !activeLayerId) return;
+    const activeLayer = layers.find(layer => layer.id === activeLayerId);
+    if (!activeLayer || isProcessingBackground) return;
 
     setIsProcessingBackground(true);
     try {
-      // Process background removal with pixel alpha masking
-      const processedImageData = await removeBackground(image, {
+      const mask = await createPersonMask(activeLayer.image, {
         segmentationThreshold: 0.5,
         flipHorizontal: false
       });
 
-      // Create a canvas with the processed image
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d')!;
-      canvas.width = processedImageData.width;
-      canvas.height = processedImageData.height;
-      ctx.putImageData(processedImageData, 0, 0);
-      
-      // Create a new image element from the processed canvas
-      const processedImage = new Image();
-      processedImage.onload = () => {
-        // Update the active layer
-        setLayers(prev => prev.map(layer => 
-          layer.id === activeLayerId 
-            ? { ...layer, image: processedImage, thumbnail: generateThumbnail(processedImage) }
-            : layer
-        ));
-        setImage(processedImage);
-      };
-      processedImage.src = canvas.toDataURL();
-      
+      setBackgroundRefine({ layerId: activeLayer.id, image: activeLayer.image, mask });
     } catch (error) {
       console.error('Background removal failed:', error);
-      alert('Background removal failed. Please try again.');
+      alert(error instanceof Error && error.message === 'No person detected in the image'
+        ? 'No person was detected in this layer, so no mask was created.'
+        : 'Background removal failed. Please try again.');
     } finally {
       setIsProcessingBackground(false);
     }
-  }, [image, isProcessingBackground, activeLayerId]);
+  }, [layers, activeLayerId, isProcessingBackground]);
+
+  // Commit the refined cutout in one step. Decontamination recolours the edge pixels, so the
+  // layer's pixels can change along with its mask.
+  const applyBackgroundRefine = useCallback(async (options: MaskRefineOptions, hints: MaskHints) => {
+    if (!backgroundRefine) return;
+
+    setIsProcessingBackground(true);
+    try {
+      const result = refineLayerCutout(backgroundRefine.image, backgroundRefine.mask, options, hints);
+      const image = result.pixels ? await loadCanvasImage(result.pixels) : null;
+
+      commitDocument('Remove Background', document =>
+        withLayer(document, backgroundRefine.layerId, layer => ({
+          ...(image ? withPixels(layer, image) : layer),
+          mask: result.mask,
+          maskEnabled: true
+        }))
+      );
+      setBackgroundRefine(null);
+    } catch (error) {
+      console.error('Refining the cutout failed:', error);
+      alert('Refining the cutout failed. Please try again.');
+    } finally {
+      setIsProcessingBackground(false);
+    }
+  }, [backgroundRefine, commitDocument]);
+
+  const cancelBackgroundRefine = useCallback(() => {
+    setBackgroundRefine(null);
+  }, []);
+
+  // Open the new-background dialog for the active layer, which needs a cutout mask first
+  const handleReplaceBackground = useCallback(() => {
+    const document = documentRef.current;
+    const layer = document.layers.find(l => l.id === document.activeLayerId);
+    const size = getDocumentSize(document);
+    if (!layer || !size) return;
+
+    if (!hasActiveMask(layer)) {
+      alert('Remove the background first, so there is a subject to put a new background behind.');
+      return;
+    }
+
+    try {
+      const toDocument = getLayerToDocumentMatrix(document, layer);
+      const { subject, original } = renderSubjectInDocument(layer, toDocument, size.width, size.height);
+      setBackgroundReplace({ layerId: layer.id, subject, original });
+    } catch (error) {
+      console.error('Preparing the background replacement failed:', error);
+      alert('Unable to prepare the background replacement. Please try again.');
+    }
+  }, []);
+
+  // Add the new background (and shadow and light wrap) as layers around the subject, in one
+  // step. A subject on the bottom layer becomes an overlay that stays exactly where it was,
+  // since the new background takes its place as the document's base.
+  const applyBackgroundReplace = useCallback(async (options: BackgroundReplaceOptions) => {
+    const size = getDocumentSize(documentRef.current);
+    if (!backgroundReplace || !size) return;
+
+    setIsProcessingBackground(true);
+    try {
+      const rendered = await renderBackgroundLayers(backgroundReplace.subject, backgroundReplace.original, options);
+      const [background, shadow, lightWrap] = await Promise.all([
+        loadCanvasImage(rendered.background),
+        rendered.shadow ? loadCanvasImage(rendered.shadow) : null,
+        rendered.lightWrap ? loadCanvasImage(rendered.lightWrap) : null
+      ]);
+
+      const overlay = {
+        position: { x: size.width / 2, y: size.height / 2 },
+        scale: { x: 1, y: 1 },
+        rotation: 0,
+        skew: { x: 0, y: 0 }
+      };
+
+      commitDocument('Replace Background', document => {
+        const index = document.layers.findIndex(l => l.id === backgroundReplace.layerId);
+        if (index === -1) return null;
+
+        const subject = document.layers[index];
+        const added: Layer[] = [
+          index === 0
+            ? createLayerFromImage(background, 'Background')
+            : { ...createLayerFromImage(background, 'Background'), ...overlay }
+        ];
+        if (shadow) {
+          added.push({ ...createLayerFromImage(shadow, 'Shadow'), ...overlay, opacity: options.shadow.opacity / 100 });
+        }
+        added.push(index === 0 ? { ...subject, ...getBaseAsOverlay(document) } : subject);
+        if (lightWrap) {
+          added.push({ ...createLayerFromImage(lightWrap, 'Light Wrap'), ...overlay, blendMode: 'screen' });
+        }
+
+        return {
+          ...document,
+          layers: [...document.layers.slice(0, index), ...added, ...document.layers.slice(index + 1)],
+          activeLayerId: subject.id
+        };
+      });
+      setBackgroundReplace(null);
+      console.log(`🖼️ Replaced the background with ${options.fill === 'color' ? 'a colour' : options.fill === 'image' ? 'an image' : `a ${options.fill}`}`);
+    } catch (error) {
+      console.error('Background replacement failed:', error);
+      alert(error instanceof Error ? error.message : 'Background replacement failed. Please try again.');
+    } finally {
+      setIsProcessingBackground(false);
+    }
+  }, [backgroundReplace, createLayerFromImage, commitDocument]);
+
+  const cancelBackgroundReplace = useCallback(() => {
+    setBackgroundReplace(null);
+  }, []);
 
   const handleAutoEnhance = useCallback(async () => {
     if (!image || !canvasRef.current || !activeLayerId) return;
@@ -790,7 +1325,7 @@ export const useImageEditor = () => {
       const imageData = getImageDataFromCanvas(canvasRef.current);
       
       // Analyze the image
-      const analysis = analyzeImageHistogram(imageData);
+      const analysis = await runPixelTaskInPool('histogram', { imageData }, { transfer: [imageData.data.buffer] });
       
       console.log('Image Analysis Results:', {
         averageLuminance: analysis.averageLuminance.toFixed(1),
@@ -808,7 +1343,7 @@ export const useImageEditor = () => {
         saturation: Math.round(analysis.recommendedSaturation)
       };
       
-      updateImageState(enhancedState);
+      updateImageState(enhancedState, 'Auto Enhance');
       
     } catch (error) {
       console.error('Auto enhance failed:', error);
@@ -818,6 +1353,7 @@ export const useImageEditor = () => {
     }
   }, [image, canvasRef, activeLayerId, updateImageState]);
 
+  const { updateLayerImage } = layerOperations;
   const handleSharpenImage = useCallback(async () => {
     if (!image || !canvasRef.current || !activeLayerId) return;
 
@@ -852,13 +1388,19 @@ export const useImageEditor = () => {
       console.log(`🚀 Applying sharpening with intensity ${intensity}`);
       
       // Apply sharpening
-      const result = await sharpenImage(imageData, { intensity });
+      const result = await runPixelTaskInPool('sharpen', { imageData, options: { intensity } });
       
       console.log(`✅ SHARPENING COMPLETED in ${result.processingTime.toFixed(2)}ms`);
       updateProcessingTime('sharpening', result.processingTime);
       
+      // Keep the sharpening inside the selection when adjustments are limited to it
+      const region = activeLayer?.imageState.region;
+      const outputData = region
+        ? blendWithMask(imageData, result.imageData, resizeMask(region, imageData.width, imageData.height))
+        : result.imageData;
+      
       // Create canvas with sharpened data
-      tempCtx.putImageData(result.imageData, 0, 0);
+      tempCtx.putImageData(outputData, 0, 0);
       
       // Create new image element
       const sharpenedImage = new Image();
@@ -866,8 +1408,7 @@ export const useImageEditor = () => {
         console.log('✅ SHARPENING SUCCESS! Image updated.');
         
         // Update the active layer
-        layerOperations.updateLayerImage(activeLayerId, sharpenedImage);
-        setImage(sharpenedImage);
+        updateLayerImage(activeLayerId, sharpenedImage, 'Sharpen');
       };
       sharpenedImage.src = tempCanvas.toDataURL();
       
@@ -877,68 +1418,122 @@ export const useImageEditor = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [image, canvasRef, activeLayerId, layerOperations, updateProcessingTime]);
+  }, [image, canvasRef, activeLayerId, activeLayer, updateLayerImage, updateProcessingTime]);
+
+  // Crop the active layer's pixels. Its mask and adjustment region are cropped with it, and
+  // overlays move so the kept pixels stay where they were in the document. Cropping the base
+  // layer crops the document to it, and the other layers keep their place on the document.
+  const applyCrop = useCallback((request: CropRequest, stepName?: string) => {
+    const activeLayer = layers.find(layer => layer.id === activeLayerId);
+    if (!activeLayer || activeLayer.locked) return;
+
+    try {
+      const output = cropImage(activeLayer.image, request);
+      const isBase = layers[0]?.id === activeLayer.id;
+
+      const croppedImage = new Image();
+      croppedImage.onload = () => {
+        commitDocument(stepName ?? (request.mode === 'perspective' ? 'Perspective Crop' : 'Crop'), document => {
+          const change = isBase ? getCropChange(document, output.canvas.width, output.canvas.height, output.toOutput) : null;
+          const cropped = withLayer(document, activeLayer.id, layer => {
+            let position = { x: 0, y: 0 };
+            if (!isBase) {
+              const center = getLayerToDocumentMatrix(document, layer)
+                .transformPoint(new DOMPoint(output.sourceCenter.x, output.sourceCenter.y));
+              position = { x: center.x, y: center.y };
+            }
+
+            return {
+              ...withPixels(layer, croppedImage),
+              position,
+              mask: layer.mask ? output.cropMask(layer.mask) : layer.mask,
+              imageState: {
+                ...layer.imageState,
+                region: layer.imageState.region ? output.cropMask(layer.imageState.region) : null
+              }
+            };
+          });
+          if (!cropped || !change) return cropped;
+          return {
+            ...cropped,
+            width: change.width,
+            height: change.height,
+            layers: cropped.layers.map((layer, index) => index === 0 ? layer : { ...layer, ...placeOverlay(layer, change) })
+          };
+        });
+
+        // Cropping the base layer changes the document size, so old selections no longer line up
+        if (isBase) {
+          setSelection(null);
+          setZoom(1);
+          setPan({ x: 0, y: 0 });
+        }
+        console.log(`✂️ Cropped ${activeLayer.name} to ${output.canvas.width}×${output.canvas.height}`);
+      };
+      croppedImage.src = output.canvas.toDataURL();
+    } catch (error) {
+      console.error('Crop failed:', error);
+      alert('Crop failed. Please try again.');
+    }
+  }, [layers, activeLayerId, commitDocument]);
 
-  const handleAutoCrop = useCallback(async () => {
+  // People are found with the segmentation model; anything else, or a person crop that finds
+  // nobody, falls back to the saliency crop, which needs no network
+  const handleAutoCrop = useCallback(async (mode: AutoCropMode = 'person', aspectRatio?: number) => {
     if (!image || !canvasRef.current || !activeLayerId) return;
+    if (activeLayer?.locked) {
+      alert('This layer is locked. Unlock it to crop.');
+      return;
+    }
 
     setIsLoading(true);
     try {
       console.log('Starting auto-crop process...');
       
-      // Try AI-powered auto-crop first
+      const contentCrop = async () => {
+        try {
+          return await saliencyCropImage(image, { aspectRatio });
+        } catch (saliencyError) {
+          console.warn('Saliency crop failed, falling back to center crop:', saliencyError);
+          return centerCropImage(image, 0.8);
+        }
+      };
+
       let result;
-      try {
-        result = await autoCropImage(image, {
-          segmentationThreshold: 0.6,
-          paddingPercentage: 0.15,
-          minCropSize: 200,
-          flipHorizontal: false
-        });
+      if (mode === 'content') {
+        result = await contentCrop();
+      } else {
+        try {
+          result = await autoCropImage(image, {
+            segmentationThreshold: 0.6,
+            paddingPercentage: 0.15,
+            minCropSize: 200,
+            flipHorizontal: false
+          });
         
-        console.log('Auto-crop results:', {
-          subjectDetected: result.subjectDetected,
-          subjectCoverage: `${result.subjectCoverage.toFixed(1)}%`,
-          cropDimensions: `${result.cropBounds.width}x${result.cropBounds.height}`,
-          processingTime: `${result.processingTime.toFixed(2)}ms`
-        });
+          console.log('Auto-crop results:', {
+            subjectDetected: result.subjectDetected,
+            subjectCoverage: `${result.subjectCoverage.toFixed(1)}%`,
+            cropDimensions: `${result.cropBounds.width}x${result.cropBounds.height}`,
+            processingTime: `${result.processingTime.toFixed(2)}ms`
+          });
         
-      } catch (aiError) {
-        console.warn('AI auto-crop failed, falling back to center crop:', aiError);
-        // Fallback to center crop
-        result = await centerCropImage(image, 0.8);
+          if (!result.subjectDetected) {
+            result = await contentCrop();
+          }
+        } catch (aiError) {
+          console.warn('AI auto-crop failed, falling back to saliency crop:', aiError);
+          result = await contentCrop();
+        }
       }
       
-      // Create a canvas with the cropped image
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d')!;
-      canvas.width = result.croppedImageData.width;
-      canvas.height = result.croppedImageData.height;
-      ctx.putImageData(result.croppedImageData, 0, 0);
-      
-      // Create a new image element from the cropped canvas
-      const croppedImage = new Image();
-      croppedImage.onload = () => {
-        // Update the active layer
-        setLayers(prev => prev.map(layer => 
-          layer.id === activeLayerId 
-            ? { ...layer, image: croppedImage, thumbnail: generateThumbnail(croppedImage) }
-            : layer
-        ));
-        setImage(croppedImage);
-        
-        // Reset zoom and pan for the new crop
-        setZoom(1);
-        setPan({ x: 0, y: 0 });
-        
-        // Show user feedback
-        if (result.subjectDetected) {
-          console.log(`✅ Subject detected! Cropped to ${result.cropBounds.width}×${result.cropBounds.height} with ${result.subjectCoverage.toFixed(1)}% subject coverage.`);
-        } else {
-          console.log(`ℹ️ No clear subject detected. Applied center crop to ${result.cropBounds.width}×${result.cropBounds.height}.`);
-        }
-      };
-      croppedImage.src = canvas.toDataURL();
+      // Cropped like the crop tool, so the layer mask and adjustment region stay aligned
+      applyCrop({ mode: 'crop', bounds: result.cropBounds, angle: 0 }, 'Auto Crop');
+      if (result.subjectDetected) {
+        console.log(`✅ Subject detected! Cropped to ${result.cropBounds.width}×${result.cropBounds.height} with ${result.subjectCoverage.toFixed(1)}% subject coverage.`);
+      } else {
+        console.log(`ℹ️ No clear subject detected. Applied center crop to ${result.cropBounds.width}×${result.cropBounds.height}.`);
+      }
       
     } catch (error) {
       console.error('Auto-crop failed:', error);
@@ -946,7 +1541,89 @@ export const useImageEditor = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [image, canvasRef, activeLayerId]);
+  }, [image, canvasRef, activeLayerId, activeLayer, applyCrop]);
+
+  // Change the document's size in one step. Every layer follows, and overlays, masks and the
+  // selection stay on the same document pixels. `getChange` returns null when there's nothing to do.
+  const applyDocumentChange = useCallback(async (
+    name: string,
+    getChange: (document: DocumentSnapshot) => DocumentChange | null
+  ) => {
+    const document = documentRef.current;
+    if (document.layers.length === 0) return;
+
+    try {
+      const change = getChange(document);
+      if (!change) {
+        console.log(`📐 ${name}: nothing to change`);
+        return;
+      }
+
+      const pixels = await Promise.all(document.layers.map(async (layer, index) => {
+        const rendered = await renderLayerForChange(layer, index === 0, change);
+        return rendered ? loadCanvasImage(rendered) : null;
+      }));
+
+      const layers = document.layers.map((layer, index) => {
+        const image = pixels[index];
+        const updated = image ? withPixels(layer, image) : layer;
+        const width = updated.image.naturalWidth || updated.image.width;
+        const height = updated.image.naturalHeight || updated.image.height;
+        const isBase = index === 0;
+        const { region } = layer.imageState;
+        return {
+          ...updated,
+          ...(isBase ? { position: placeBaseLayer(layer, change) } : placeOverlay(layer, change)),
+          mask: layer.mask ? mapLayerMask(layer.mask, layer, isBase, change, width, height, 255) : layer.mask,
+          imageState: {
+            ...layer.imageState,
+            region: region ? mapLayerMask(region, layer, isBase, change, width, height) : null
+          }
+        };
+      });
+
+      // Skip the step if the document was edited while the pixels were being prepared
+      commitDocument(name, current => current.layers === document.layers
+        ? { ...current, width: change.width, height: change.height, layers }
+        : null);
+      setSelection(prev => prev ? mapSelection(prev, change) : prev);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+      console.log(`📐 ${name}: ${change.width}×${change.height}`);
+    } catch (error) {
+      console.error(`${name} failed:`, error);
+      alert(error instanceof Error ? error.message : `${name} failed. Please try again.`);
+    }
+  }, [commitDocument]);
+
+  const documentOperations = {
+    // Grow or shrink the canvas around the existing pixels. With a layer background the new
+    // area is filled with `extensionColor`; otherwise it stays transparent.
+    resizeCanvas: useCallback((width: number, height: number, anchor: CanvasAnchor, extensionColor: string) => {
+      return applyDocumentChange('Canvas Size', document => getCanvasSizeChange(
+        document,
+        width,
+        height,
+        anchor,
+        document.background.type === 'layer' ? extensionColor : undefined
+      ));
+    }, [applyDocumentChange]),
+
+    // Resample every layer so the document has a new pixel size
+    resizeImage: useCallback((width: number, height: number, resample: ResampleOptions) => {
+      return applyDocumentChange('Image Size', document => getImageSizeChange(document, width, height, resample));
+    }, [applyDocumentChange]),
+
+    trimTransparent: useCallback(() => {
+      return applyDocumentChange('Trim', getTrimChange);
+    }, [applyDocumentChange]),
+
+    setBackground: useCallback((background: DocumentBackground) => {
+      commitDocument('Canvas Background', document =>
+        document.layers.length > 0 ? { ...document, background } : null
+      );
+    }, [commitDocument])
+  };
 
   const handleColorPalette = useCallback(async () => {
     if (!image || !canvasRef.current) return;
@@ -959,7 +1636,7 @@ export const useImageEditor = () => {
       console.log('Extracting color palette using K-means clustering...');
       
       // Extract dominant colors using K-means clustering
-      const result = await extractColorPalette(imageData, 5);
+      const result = await runPixelTaskInPool('palette', { imageData, colors: 5 }, { transfer: [imageData.data.buffer] });
       
       console.log('Color palette extraction completed:', {
         colors: result.colors.map(c => `rgb(${c.r}, ${c.g}, ${c.b})`),
@@ -993,9 +1670,17 @@ export const useImageEditor = () => {
     image,
     layers,
     activeLayerId,
-    imageState: history.present,
-    canUndo: history.past.length > 0,
-    canRedo: history.future.length > 0,
+    documentSize,
+    documentBackground,
+    documentOperations,
+    imageState: activeLayer ? activeLayer.imageState : initialImageState,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.steps.length - 1,
+    historySteps: history.steps,
+    historyIndex: history.index,
+    historyMemory,
+    historyMemoryLimit: HISTORY_MEMORY_LIMIT,
+    jumpToStep,
     zoom,
     pan,
     isLoading,
@@ -1010,12 +1695,21 @@ export const useImageEditor = () => {
     redo,
     resetImage,
     exportImage,
+    saveProject,
     setZoom,
     setPan,
     handleRemoveBackground,
+    backgroundRefine,
+    applyBackgroundRefine,
+    cancelBackgroundRefine,
+    handleReplaceBackground,
+    backgroundReplace,
+    applyBackgroundReplace,
+    cancelBackgroundReplace,
     handleAutoEnhance,
     handleSharpenImage,
     handleAutoCrop,
+    applyCrop,
     handleColorPalette,
     colorPalette,
     paletteStats,
@@ -1025,6 +1719,23 @@ export const useImageEditor = () => {
     updateVignette,
     processingTimes,
     updateProcessingTime,
-    textElements
+    textElements,
+    activeTool,
+    setActiveTool,
+    selection,
+    setSelection,
+    selectionMode,
+    setSelectionMode,
+    wandOptions,
+    setWandOptions,
+    selectionOperations,
+    maskBrushOptions,
+    setMaskBrushOptions,
+    maskOperations,
+    brushOptions,
+    setBrushOptions,
+    paintLayer,
+    copyToClipboard,
+    pasteFromClipboard
   };
 }
\ No newline at end of file
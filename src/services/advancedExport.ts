@@ -1,18 +1,37 @@
+import { Layer } from '../types/editor';
+import { encodeGIF, GifOptions } from './gifEncoder';
+import { renderLayerFrame } from './layerRender';
+import { createPDF, PdfOptions } from './pdfWriter';
+import { encodeICNS, encodeICO, ICNS_SIZES, ICO_SIZES } from './iconEncoder';
+import { resampleCanvas } from './canvasResample';
+import { defaultResampleOptions, ResampleOptions } from './resample';
+import { embedMetadata, MetadataExportOptions } from './imageMetadata';
+import { createExportSet, downloadExportSet, ExportSetItem } from './exportSet';
+
 interface ExportOptions {
-  format: 'png' | 'jpeg' | 'webp' | 'avif' | 'bmp' | 'gif' | 'pdf' | 'ico';
+  format: 'png' | 'jpeg' | 'webp' | 'avif' | 'bmp' | 'gif' | 'pdf' | 'ico' | 'icns';
   quality: number;
   width?: number;
   height?: number;
   maintainAspectRatio: boolean;
+  resample?: ResampleOptions;
+  scope?: 'document' | 'layer' | 'selection'; // Already applied by the compositor that drew the canvas
   backgroundColor?: string;
   compression?: 'none' | 'low' | 'medium' | 'high';
-  metadata?: boolean;
+  metadata?: MetadataExportOptions; // JPEG and PNG only; left out, nothing is embedded
+  gif?: GifOptions;
+  pdf?: PdfOptions;
+  iconSizes?: number[];
+  set?: ExportSetItem[]; // Several preset sizes in one ZIP instead of a single file
 }
 
-// Convert canvas to different formats
+// Encode a rendered composition (see compositor) in any format and download it.
+// `renderLayerFrames` gives the frames of an animated GIF, one per layer (see compositor).
 export const exportAdvanced = async (
   canvas: HTMLCanvasElement,
-  options: ExportOptions
+  options: ExportOptions,
+  layers: Layer[] = [],
+  renderLayerFrames?: () => HTMLCanvasElement[]
 ): Promise<void> => {
   const {
     format,
@@ -22,9 +41,21 @@ export const exportAdvanced = async (
     maintainAspectRatio,
     backgroundColor = '#ffffff',
     compression = 'medium',
-    metadata = false
+    metadata,
+    resample = defaultResampleOptions
   } = options;
 
+  if (options.set?.length) {
+    const archive = await createExportSet(canvas, options.set, {
+      quality: quality / 100,
+      resample,
+      metadata,
+      sourceMetadata: layers[0]?.metadata
+    });
+    downloadExportSet(archive);
+    return;
+  }
+
   // Create export canvas with desired dimensions
   let exportCanvas = canvas;
   if (width || height) {
@@ -43,16 +74,17 @@ export const exportAdvanced = async (
       }
     }
     
-    exportCanvas.width = newWidth;
-    exportCanvas.height = newHeight;
+    const resized = await resampleCanvas(canvas, canvas.width, canvas.height, newWidth, newHeight, resample);
+    exportCanvas.width = resized.width;
+    exportCanvas.height = resized.height;
     
     // Fill background for formats that don't support transparency
     if (['jpeg', 'bmp', 'pdf'].includes(format)) {
       ctx.fillStyle = backgroundColor;
-      ctx.fillRect(0, 0, newWidth, newHeight);
+      ctx.fillRect(0, 0, resized.width, resized.height);
     }
     
-    ctx.drawImage(canvas, 0, 0, newWidth, newHeight);
+    ctx.drawImage(resized, 0, 0);
   }
 
   // Apply compression settings
@@ -121,30 +153,39 @@ export const exportAdvanced = async (
       break;
       
     case 'gif':
-      dataUrl = await convertToGIF(exportCanvas);
+      dataUrl = await convertToGIF(exportCanvas, options.gif, renderLayerFrames, backgroundColor);
       fileName = `edited-image-${Date.now()}.gif`;
       break;
       
     case 'pdf':
-      dataUrl = await convertToPDF(exportCanvas);
+      dataUrl = await convertToPDF(exportCanvas, options.pdf, layers, backgroundColor, actualQuality);
       fileName = `edited-image-${Date.now()}.pdf`;
       break;
       
     case 'ico':
-      dataUrl = await convertToICO(exportCanvas);
+      dataUrl = await convertToICO(exportCanvas, options.iconSizes ?? ICO_SIZES);
       fileName = `edited-image-${Date.now()}.ico`;
       break;
       
+    case 'icns':
+      dataUrl = await convertToICNS(exportCanvas, options.iconSizes ?? ICNS_SIZES);
+      fileName = `edited-image-${Date.now()}.icns`;
+      break;
+      
     default:
       dataUrl = exportCanvas.toDataURL('image/png');
       fileName = `edited-image-${Date.now()}.png`;
   }
 
-  // Add metadata if requested
-  if (metadata && ['jpeg', 'png'].includes(format)) {
-    // For supported formats, we could embed EXIF data here
-    // This is a simplified implementation
-    console.log('Metadata embedding requested for', format);
+  // Carry the bottom layer's metadata over, as the export's policy allows. Fallback
+  // encodings are checked too, since a WebP request can come back as PNG.
+  const encodedFormat = dataUrl.startsWith('data:image/jpeg') ? 'jpeg' : dataUrl.startsWith('data:image/png') ? 'png' : null;
+  if (metadata && (format === 'jpeg' || format === 'png') && encodedFormat === format) {
+    const bytes = embedMetadata(dataURLToBytes(dataUrl), format, layers[0]?.metadata ?? null, metadata, {
+      width: exportCanvas.width,
+      height: exportCanvas.height
+    });
+    dataUrl = await blobToDataURL(new Blob([bytes], { type: `image/${format}` }));
   }
 
   // Download the file
@@ -216,47 +257,93 @@ const convertToBMP = async (canvas: HTMLCanvasElement): Promise<string> => {
     }
   }
   
-  const blob = new Blob([buffer], { type: 'image/bmp' });
-  return new Promise((resolve) => {
+  return blobToDataURL(new Blob([buffer], { type: 'image/bmp' }));
+};
+
+const dataURLToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const blobToDataURL = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Unable to read exported file'));
     reader.readAsDataURL(blob);
   });
 };
 
-// Convert canvas to GIF format (simplified, single frame)
-const convertToGIF = async (canvas: HTMLCanvasElement): Promise<string> => {
-  // This is a simplified GIF conversion
-  // For production, you'd want to use a proper GIF encoding library
-  return canvas.toDataURL('image/png'); // Fallback to PNG for now
+// Convert canvas to GIF format (indexed color, optionally one frame per visible layer)
+const convertToGIF = async (
+  canvas: HTMLCanvasElement,
+  gifOptions: GifOptions | undefined,
+  renderLayerFrames: (() => HTMLCanvasElement[]) | undefined,
+  backgroundColor: string
+): Promise<string> => {
+  const { width, height } = canvas;
+
+  let frameCanvases: HTMLCanvasElement[] = [canvas];
+  const layerFrames = gifOptions?.animated ? renderLayerFrames?.() : undefined;
+  if (layerFrames && layerFrames.length > 1) {
+    frameCanvases = layerFrames;
+  }
+
+  // Without a transparent index, transparent pixels would quantize to black; flatten each
+  // frame onto the background first. Layer frames come at the composition's size and are
+  // scaled to the export's.
+  const frames = frameCanvases.map(frameCanvas => {
+    const frame = document.createElement('canvas');
+    frame.width = width;
+    frame.height = height;
+    const ctx = frame.getContext('2d')!;
+    if (!gifOptions?.transparent) {
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(frameCanvas, 0, 0, width, height);
+    return { imageData: ctx.getImageData(0, 0, width, height) };
+  });
+
+  const bytes = encodeGIF(frames, width, height, gifOptions);
+  return blobToDataURL(new Blob([bytes], { type: 'image/gif' }));
 };
 
-// Convert canvas to PDF format
-const convertToPDF = async (canvas: HTMLCanvasElement): Promise<string> => {
-  // This is a simplified PDF conversion
-  // For production, you'd want to use a library like jsPDF
-  const imgData = canvas.toDataURL('image/png');
-  
-  // Simple PDF structure (this is very basic)
-  const width = canvas.width;
-  const height = canvas.height;
-  
-  // For now, fallback to PNG
-  return imgData;
+// Convert canvas to PDF format (the composite, or one page per layer)
+const convertToPDF = async (
+  canvas: HTMLCanvasElement,
+  pdfOptions: PdfOptions | undefined,
+  layers: Layer[],
+  backgroundColor: string,
+  quality: number
+): Promise<string> => {
+  let pages: HTMLCanvasElement[] = [canvas];
+  const visibleLayers = layers.filter(layer => layer.visible);
+  // With every layer hidden there are no layer pages; the flattened page is exported instead
+  if (pdfOptions?.pagePerLayer && visibleLayers.length > 0) {
+    pages = visibleLayers.map(layer => renderLayerFrame(
+      layer,
+      layer.image.naturalWidth || layer.image.width,
+      layer.image.naturalHeight || layer.image.height
+    ));
+  }
+
+  const blob = await createPDF(pages, pdfOptions, quality, backgroundColor);
+  return blobToDataURL(blob);
 };
 
-// Convert canvas to ICO format
-const convertToICO = async (canvas: HTMLCanvasElement): Promise<string> => {
-  // ICO format is complex, this is a simplified version
-  // Create a smaller version for icon
-  const iconCanvas = document.createElement('canvas');
-  const iconCtx = iconCanvas.getContext('2d')!;
-  
-  const size = Math.min(256, Math.min(canvas.width, canvas.height));
-  iconCanvas.width = size;
-  iconCanvas.height = size;
-  
-  iconCtx.drawImage(canvas, 0, 0, size, size);
-  
-  return iconCanvas.toDataURL('image/png');
-};
\ No newline at end of file
+// Convert canvas to a multi-resolution ICO
+const convertToICO = async (canvas: HTMLCanvasElement, sizes: number[]): Promise<string> => {
+  const bytes = await encodeICO(canvas, sizes);
+  return blobToDataURL(new Blob([bytes], { type: 'image/x-icon' }));
+};
+
+// Convert canvas to a macOS ICNS icon
+const convertToICNS = async (canvas: HTMLCanvasElement, sizes: number[]): Promise<string> => {
+  const bytes = await encodeICNS(canvas, sizes);
+  return blobToDataURL(new Blob([bytes], { type: 'image/icns' }));
+};
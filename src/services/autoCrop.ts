@@ -1,5 +1,5 @@
-import * as bodyPix from '@tensorflow-models/body-pix';
-import { loadBodyPixModel } from './backgroundRemover';
+import { computeAttentionMap, findAttentionWindow, getWindowAttention } from './saliency';
+import { segmentSubject, SubjectSegmentation } from './segmentation';
 
 export interface CropBounds {
   x: number;
@@ -15,6 +15,14 @@ export interface AutoCropOptions {
   flipHorizontal?: boolean;
 }
 
+export interface SaliencyCropOptions {
+  aspectRatio?: number; // Width / height; left out, the crop keeps the image's shape and tightens
+  scales?: number[]; // Window sizes to try, as fractions of the largest
+}
+
+// What auto crop looks for: people (the segmentation model) or anything that stands out (saliency)
+export type AutoCropMode = 'person' | 'content';
+
 export interface AutoCropResult {
   cropBounds: CropBounds;
   croppedImageData: ImageData;
@@ -25,7 +33,7 @@ export interface AutoCropResult {
 
 // Find the bounding box of detected person/subject pixels
 const findSubjectBounds = (
-  segmentation: bodyPix.SemanticPersonSegmentation,
+  segmentation: SubjectSegmentation,
   width: number,
   height: number
 ): CropBounds | null => {
@@ -125,7 +133,7 @@ const cropImageData = (
 
 // Enhanced crop algorithm that tries different approaches
 const findOptimalCropBounds = (
-  segmentation: bodyPix.SemanticPersonSegmentation,
+  segmentation: SubjectSegmentation,
   width: number,
   height: number,
   options: AutoCropOptions
@@ -199,9 +207,6 @@ export const autoCropImage = async (
   console.log('Starting auto-crop analysis...');
 
   try {
-    // Load BodyPix model
-    const bodyPixModel = await loadBodyPixModel();
-    
     // Create canvas for processing
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
@@ -218,10 +223,9 @@ export const autoCropImage = async (
     
     // Get segmentation
     console.log('Performing subject segmentation...');
-    const segmentation = await bodyPixModel.segmentPerson(canvas, {
+    const segmentation = await segmentSubject(canvas, {
       flipHorizontal,
-      internalResolution: 'medium',
-      segmentationThreshold,
+      threshold: segmentationThreshold
     });
 
     // Calculate subject coverage
@@ -276,6 +280,78 @@ export const autoCropImage = async (
   }
 };
 
+// Where the person in an image is, for crops that keep them in frame. Null when there is
+// no clear subject.
+export const detectSubjectBounds = async (
+  source: HTMLCanvasElement,
+  segmentationThreshold: number = 0.6
+): Promise<CropBounds | null> => {
+  const segmentation = await segmentSubject(source, { threshold: segmentationThreshold });
+
+  const bounds = findSubjectBounds(segmentation, source.width, source.height);
+  // Ignore stray detections covering less than 1% of the image
+  if (!bounds || bounds.width * bounds.height < source.width * source.height * 0.01) return null;
+  return bounds;
+};
+
+// Longest side the attention map is computed from; the map itself is coarser still
+const SALIENCY_SAMPLE_SIZE = 512;
+
+// Crop to whatever stands out: products, landscapes and animals as well as people. Runs
+// locally with no model, so it also works offline.
+export const saliencyCropImage = async (
+  imageElement: HTMLImageElement,
+  options: SaliencyCropOptions = {}
+): Promise<AutoCropResult> => {
+  const startTime = performance.now();
+  const width = imageElement.naturalWidth || imageElement.width;
+  const height = imageElement.naturalHeight || imageElement.height;
+
+  const canvas = document.createElement('canvas');
+  const sample = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const sampleCtx = sample.getContext('2d');
+  if (!ctx || !sampleCtx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(imageElement, 0, 0);
+
+  const scale = Math.min(1, SALIENCY_SAMPLE_SIZE / Math.max(width, height));
+  sample.width = Math.max(1, Math.round(width * scale));
+  sample.height = Math.max(1, Math.round(height * scale));
+  sampleCtx.drawImage(imageElement, 0, 0, sample.width, sample.height);
+  const map = computeAttentionMap(sampleCtx.getImageData(0, 0, sample.width, sample.height));
+
+  // Without a target shape, the whole image would always win, so only tighter windows compete
+  const aspectRatio = options.aspectRatio ?? width / height;
+  const scales = options.scales ?? (options.aspectRatio ? [1, 0.85, 0.7] : [0.9, 0.8, 0.7, 0.6]);
+  const best = findAttentionWindow(map, aspectRatio, { scales });
+
+  const x = Math.max(0, Math.round(best.x / scale));
+  const y = Math.max(0, Math.round(best.y / scale));
+  const cropBounds: CropBounds = {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(best.width / scale))),
+    height: Math.max(1, Math.min(height - y, Math.round(best.height / scale)))
+  };
+
+  const croppedImageData = cropImageData(ctx.getImageData(0, 0, width, height), cropBounds);
+  const attention = getWindowAttention(map, best);
+  console.log(`🎯 Saliency crop kept ${(attention * 100).toFixed(1)}% of the attention`);
+
+  return {
+    cropBounds,
+    croppedImageData,
+    processingTime: performance.now() - startTime,
+    subjectDetected: attention > 0,
+    subjectCoverage: attention * 100
+  };
+};
+
 // Fallback crop using center focus
 export const centerCropImage = (
   imageElement: HTMLImageElement,
@@ -1,52 +1,13 @@
-import * as tf from '@tensorflow/tfjs';
-import * as bodyPix from '@tensorflow-models/body-pix';
-
-let model: bodyPix.BodyPix | null = null;
-let isLoading = false;
+import { SelectionMask } from '../types/editor';
+import { decontaminateColours, MaskHints, MaskRefineOptions, refineMask } from './maskRefine';
+import { getSegmentationProvider, segmentSubject } from './segmentation';
+import { createMask, resizeMask } from './selection';
 
 export interface BackgroundRemovalOptions {
   segmentationThreshold?: number;
   flipHorizontal?: boolean;
 }
 
-export const loadBodyPixModel = async (): Promise<bodyPix.BodyPix> => {
-  // If model is already loaded, return it
-  if (model) return model;
-  
-  // If model is currently loading, wait for it
-  if (isLoading) {
-    while (isLoading) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    if (model) return model;
-  }
-  
-  isLoading = true;
-  
-  try {
-    // Ensure TensorFlow.js is ready
-    await tf.ready();
-    console.log('TensorFlow.js is ready');
-    
-    // Load the BodyPix model
-    console.log('Loading BodyPix model...');
-    model = await bodyPix.load({
-      architecture: 'MobileNetV1',
-      outputStride: 16,
-      multiplier: 0.75,
-      quantBytes: 2,
-    });
-    
-    console.log('BodyPix model loaded successfully');
-    return model;
-  } catch (error) {
-    console.error('Failed to load BodyPix model:', error);
-    throw new Error('Failed to load BodyPix model. Please try again.');
-  } finally {
-    isLoading = false;
-  }
-};
-
 export const removeBackground = async (
   imageElement: HTMLImageElement,
   options: BackgroundRemovalOptions = {}
@@ -56,15 +17,11 @@ export const removeBackground = async (
     flipHorizontal = false
   } = options;
 
-  // Ensure BodyPix model is loaded and ready
-  console.log('Ensuring BodyPix model is ready...');
-  const bodyPixModel = await loadBodyPixModel();
+  // Ensure the segmentation model is loaded and ready
+  console.log('Ensuring the segmentation model is ready...');
+  const provider = await getSegmentationProvider();
   
-  if (!bodyPixModel) {
-    throw new Error('BodyPix model failed to load');
-  }
-  
-  console.log('BodyPix model is ready, starting segmentation...');
+  console.log(`${provider.label} is ready, starting segmentation...`);
 
   // Create a canvas to process the image
   const canvas = document.createElement('canvas');
@@ -81,11 +38,10 @@ export const removeBackground = async (
   ctx.drawImage(imageElement, 0, 0);
   
   try {
-    // Get segmentation from BodyPix - only called after model is ready
-    const segmentation = await bodyPixModel.segmentPerson(canvas, {
+    // Get segmentation - only called after model is ready
+    const segmentation = await provider.segment(canvas, {
       flipHorizontal,
-      internalResolution: 'medium',
-      segmentationThreshold,
+      threshold: segmentationThreshold
     });
     
     console.log('Segmentation completed, processing pixels...');
@@ -131,11 +87,91 @@ export const removeBackground = async (
   }
 };
 
+// Segment the person in an image into a layer mask (255 = person, 0 = background)
+// instead of erasing the background pixels
+export const createPersonMask = async (
+  imageElement: HTMLImageElement,
+  options: BackgroundRemovalOptions = {}
+): Promise<SelectionMask> => {
+  const {
+    segmentationThreshold = 0.5,
+    flipHorizontal = false
+  } = options;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = imageElement.naturalWidth;
+  canvas.height = imageElement.naturalHeight;
+  ctx.drawImage(imageElement, 0, 0);
+
+  const segmentation = await segmentSubject(canvas, {
+    flipHorizontal,
+    threshold: segmentationThreshold
+  });
+
+  const mask = createMask(canvas.width, canvas.height);
+  let personPixels = 0;
+  for (let i = 0; i < segmentation.data.length; i++) {
+    if (segmentation.data[i] === 1) {
+      mask.data[i] = 255;
+      personPixels++;
+    }
+  }
+
+  const personPercentage = (personPixels / segmentation.data.length) * 100;
+  console.log(`Person pixels detected for mask: ${personPixels}/${segmentation.data.length} (${personPercentage.toFixed(2)}%)`);
+
+  if (personPercentage < 1) {
+    throw new Error('No person detected in the image');
+  }
+
+  return mask;
+};
+
+// Refine a person mask against the full-size layer pixels. Hints may be painted at any size.
+// With decontamination on, the layer's edge colours change too, so new pixels come back.
+export const refineLayerCutout = (
+  image: HTMLImageElement,
+  mask: SelectionMask,
+  options: MaskRefineOptions,
+  hints: MaskHints
+): { mask: SelectionMask; pixels: HTMLCanvasElement | null } => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = image.naturalWidth || image.width;
+  canvas.height = image.naturalHeight || image.height;
+  ctx.drawImage(image, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const fit = (hint: SelectionMask | null) => hint && resizeMask(hint, canvas.width, canvas.height);
+  const refined = refineMask(resizeMask(mask, canvas.width, canvas.height), imageData, options, {
+    keep: fit(hints.keep),
+    remove: fit(hints.remove)
+  });
+  console.log(`✂️ Refined the cutout (shift ${options.shift}px, feather ${options.feather}px${options.matting ? `, matting ${options.mattingRadius}px` : ''})`);
+
+  if (!options.decontaminate) {
+    return { mask: refined, pixels: null };
+  }
+  imageData.data.set(decontaminateColours(imageData, refined, options));
+  ctx.putImageData(imageData, 0, 0);
+  return { mask: refined, pixels: canvas };
+};
+
 export const preloadModel = async (): Promise<void> => {
   try {
-    await loadBodyPixModel();
-    console.log('BodyPix model preloaded successfully');
+    await getSegmentationProvider();
+    console.log('Segmentation model preloaded successfully');
   } catch (error) {
-    console.warn('Failed to preload BodyPix model:', error);
+    console.warn('Failed to preload the segmentation model:', error);
   }
 };
\ No newline at end of file
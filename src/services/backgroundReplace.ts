@@ -0,0 +1,294 @@
+import { Layer } from '../types/editor';
+import { resampleCanvas } from './canvasResample';
+import { getAdjustedSource, getLayerSource } from './layerRender';
+import { boxMean } from './maskRefine';
+import { PixelBuffer } from './renderGraph';
+import { defaultResampleOptions } from './resample';
+
+// Background replacement: new layers for under and over a cut-out subject. Everything works in
+// document pixels, from the subject drawn with its mask and the same pixels without it.
+
+export type BackgroundFill = 'color' | 'gradient' | 'blur' | 'image';
+
+export interface BackgroundReplaceOptions {
+  fill: BackgroundFill;
+  color: string;
+  gradient: { from: string; to: string; angle: number }; // Degrees clockwise from left-to-right
+  blur: number; // Bokeh radius, in pixels
+  image: HTMLImageElement | null; // Cropped to cover the document
+  lightWrap: { enabled: boolean; amount: number; width: number }; // Amount 0-100; width in pixels
+  shadow: { enabled: boolean; opacity: number; blur: number; offsetX: number; offsetY: number }; // Opacity 0-100; the rest in pixels
+}
+
+export const BACKGROUND_FILLS: { value: BackgroundFill; label: string; description: string }[] = [
+  { value: 'color', label: 'Colour', description: 'A solid colour' },
+  { value: 'gradient', label: 'Gradient', description: 'A blend between two colours' },
+  { value: 'blur', label: 'Blur', description: 'The original, out of focus' },
+  { value: 'image', label: 'Image', description: 'Another picture' }
+];
+
+export interface BackgroundLayers {
+  background: HTMLCanvasElement;
+  shadow: HTMLCanvasElement | null; // Goes between the background and the subject
+  lightWrap: HTMLCanvasElement | null; // Goes over the subject, screened
+}
+
+// Defaults scaled to the document, so they look alike on small and large images
+export const getDefaultBackgroundReplaceOptions = (width: number, height: number): BackgroundReplaceOptions => {
+  const unit = Math.max(width, height) / 100;
+  return {
+    fill: 'blur',
+    color: '#ffffff',
+    gradient: { from: '#e0e7ff', to: '#fce7f3', angle: 90 },
+    blur: Math.max(1, Math.round(unit * 2)),
+    image: null,
+    lightWrap: { enabled: false, amount: 50, width: Math.max(1, Math.round(unit)) },
+    shadow: {
+      enabled: false,
+      opacity: 40,
+      blur: Math.max(1, Math.round(unit * 2)),
+      offsetX: Math.round(unit),
+      offsetY: Math.round(unit * 1.5)
+    }
+  };
+};
+
+// Distances are in pixels of whatever is rendered; previews at a smaller size scale them down
+export const scaleBackgroundReplaceOptions = (options: BackgroundReplaceOptions, factor: number): BackgroundReplaceOptions => ({
+  ...options,
+  blur: options.blur * factor,
+  lightWrap: { ...options.lightWrap, width: options.lightWrap.width * factor },
+  shadow: {
+    ...options.shadow,
+    blur: options.shadow.blur * factor,
+    offsetX: options.shadow.offsetX * factor,
+    offsetY: options.shadow.offsetY * factor
+  }
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx };
+};
+
+const getPixels = (canvas: HTMLCanvasElement): ImageData => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const pixelsToCanvas = (data: Uint8ClampedArray, width: number, height: number): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas;
+};
+
+// A blur about `radius` pixels wide: three box passes approximate a Gaussian
+const smooth = (values: Float32Array, width: number, height: number, radius: number) => {
+  const passRadius = Math.max(1, Math.round(radius / 3));
+  let result = values;
+  for (let pass = 0; pass < 3; pass++) {
+    result = boxMean(result, width, height, passRadius);
+  }
+  return result;
+};
+
+// The original blurred with the subject left out, so the subject doesn't smear a halo into the
+// bokeh. Each pixel averages only the background around it; where the subject is too wide for
+// that to reach any, wider passes fill in.
+const blurBehindSubject = (original: PixelBuffer, subjectAlpha: Float32Array, radius: number): Uint8ClampedArray => {
+  const { width, height } = original;
+  const size = width * height;
+  const output = new Uint8ClampedArray(size * 4);
+  const filled = new Uint8Array(size);
+
+  const weight = new Float32Array(size);
+  let total = 0;
+  for (let i = 0; i < size; i++) {
+    weight[i] = (1 - subjectAlpha[i]) * (original.data[i * 4 + 3] / 255);
+    total += weight[i];
+  }
+  // All subject: blur it all rather than leave nothing to blur
+  if (total === 0) {
+    for (let i = 0; i < size; i++) weight[i] = original.data[i * 4 + 3] / 255;
+  }
+
+  const channel = new Float32Array(size);
+  for (let r = Math.max(1, radius); ; r *= 4) {
+    const isLast = r >= Math.max(width, height);
+    const cover = smooth(weight, width, height, r);
+    const channels = [0, 1, 2].map(c => {
+      for (let i = 0; i < size; i++) channel[i] = original.data[i * 4 + c] * weight[i];
+      return smooth(channel, width, height, r);
+    });
+
+    let remaining = 0;
+    for (let i = 0; i < size; i++) {
+      if (filled[i]) continue;
+      if (cover[i] < 0.02 && !isLast) {
+        remaining++;
+        continue;
+      }
+      for (let c = 0; c < 3; c++) {
+        output[i * 4 + c] = cover[i] > 0 ? channels[c][i] / cover[i] : 0;
+      }
+      output[i * 4 + 3] = 255;
+      filled[i] = 1;
+    }
+    if (remaining === 0 || isLast) break;
+  }
+  return output;
+};
+
+// The subject's silhouette, softened and offset, in black. Its strength is the layer's opacity.
+const renderShadow = (
+  subjectAlpha: Float32Array,
+  width: number,
+  height: number,
+  shadow: BackgroundReplaceOptions['shadow']
+): Uint8ClampedArray => {
+  const soft = shadow.blur >= 1 ? smooth(subjectAlpha, width, height, shadow.blur) : subjectAlpha;
+  const dx = Math.round(shadow.offsetX);
+  const dy = Math.round(shadow.offsetY);
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const sy = y - dy;
+    if (sy < 0 || sy >= height) continue;
+    for (let x = 0; x < width; x++) {
+      const sx = x - dx;
+      if (sx < 0 || sx >= width) continue;
+      output[(y * width + x) * 4 + 3] = Math.round(soft[sy * width + sx] * 255);
+    }
+  }
+  return output;
+};
+
+// Background light spilling over the subject's edge: the blurred background, shown only
+// inside the subject and fading out from its edge
+const renderLightWrap = (
+  background: PixelBuffer,
+  subjectAlpha: Float32Array,
+  wrap: BackgroundReplaceOptions['lightWrap']
+): Uint8ClampedArray => {
+  const { width, height } = background;
+  const size = width * height;
+  const output = new Uint8ClampedArray(size * 4);
+  const spread = smooth(subjectAlpha, width, height, wrap.width);
+
+  const channel = new Float32Array(size);
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < size; i++) channel[i] = background.data[i * 4 + c];
+    const light = smooth(channel, width, height, wrap.width);
+    for (let i = 0; i < size; i++) output[i * 4 + c] = light[i];
+  }
+  for (let i = 0; i < size; i++) {
+    // Just inside the edge the spread alpha is about a half, so double it to reach full strength
+    output[i * 4 + 3] = Math.round(Math.min(1, subjectAlpha[i] * (1 - spread[i]) * 2 * (wrap.amount / 100)) * 255);
+  }
+  return output;
+};
+
+const renderFill = async (
+  options: BackgroundReplaceOptions,
+  original: HTMLCanvasElement,
+  subjectAlpha: Float32Array
+): Promise<HTMLCanvasElement> => {
+  const { width, height } = original;
+
+  switch (options.fill) {
+    case 'color':
+    case 'gradient': {
+      const { canvas, ctx } = createCanvas(width, height);
+      if (options.fill === 'color') {
+        ctx.fillStyle = options.color;
+      } else {
+        // Run the gradient corner to corner along its angle
+        const angle = (options.gradient.angle * Math.PI) / 180;
+        const dx = Math.cos(angle);
+        const dy = Math.sin(angle);
+        const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+        const gradient = ctx.createLinearGradient(
+          width / 2 - dx * half, height / 2 - dy * half,
+          width / 2 + dx * half, height / 2 + dy * half
+        );
+        gradient.addColorStop(0, options.gradient.from);
+        gradient.addColorStop(1, options.gradient.to);
+        ctx.fillStyle = gradient;
+      }
+      ctx.fillRect(0, 0, width, height);
+      return canvas;
+    }
+
+    case 'blur':
+      return pixelsToCanvas(blurBehindSubject(getPixels(original), subjectAlpha, options.blur), width, height);
+
+    case 'image': {
+      const { image } = options;
+      if (!image) {
+        throw new Error('Choose an image for the new background');
+      }
+      const imageWidth = image.naturalWidth || image.width;
+      const imageHeight = image.naturalHeight || image.height;
+      const scale = Math.max(width / imageWidth, height / imageHeight);
+      const cropWidth = Math.min(imageWidth, Math.round(width / scale));
+      const cropHeight = Math.min(imageHeight, Math.round(height / scale));
+      const { canvas, ctx } = createCanvas(cropWidth, cropHeight);
+      ctx.drawImage(image, -Math.round((imageWidth - cropWidth) / 2), -Math.round((imageHeight - cropHeight) / 2));
+      return resampleCanvas(canvas, cropWidth, cropHeight, width, height, defaultResampleOptions);
+    }
+  }
+};
+
+// The subject layer in document pixels, with and without its mask
+export const renderSubjectInDocument = (
+  layer: Layer,
+  toDocument: DOMMatrix,
+  width: number,
+  height: number
+): { subject: HTMLCanvasElement; original: HTMLCanvasElement } => {
+  const draw = (source: CanvasImageSource) => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.setTransform(toDocument);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0);
+    return canvas;
+  };
+  return {
+    subject: draw(getLayerSource(layer)),
+    original: draw(getAdjustedSource(layer.image, layer.imageState))
+  };
+};
+
+// Render the new background and, if asked for, the shadow and light wrap. All three are
+// document-sized.
+export const renderBackgroundLayers = async (
+  subject: HTMLCanvasElement,
+  original: HTMLCanvasElement,
+  options: BackgroundReplaceOptions
+): Promise<BackgroundLayers> => {
+  const { width, height } = subject;
+  const subjectPixels = getPixels(subject);
+  const subjectAlpha = new Float32Array(width * height);
+  for (let i = 0; i < subjectAlpha.length; i++) {
+    subjectAlpha[i] = subjectPixels.data[i * 4 + 3] / 255;
+  }
+
+  const background = await renderFill(options, original, subjectAlpha);
+  const shadow = options.shadow.enabled && options.shadow.opacity > 0
+    ? pixelsToCanvas(renderShadow(subjectAlpha, width, height, options.shadow), width, height)
+    : null;
+  const lightWrap = options.lightWrap.enabled && options.lightWrap.amount > 0
+    ? pixelsToCanvas(renderLightWrap(getPixels(background), subjectAlpha, options.lightWrap), width, height)
+    : null;
+
+  return { background, shadow, lightWrap };
+};
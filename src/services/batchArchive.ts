@@ -0,0 +1,154 @@
+import { createZip, ZipCompression } from './zipWriter';
+
+export const DEFAULT_NAME_TEMPLATE = '{name}_processed';
+export const NAME_TEMPLATE_TOKENS = ['{name}', '{index}', '{width}', '{height}', '{date}'];
+
+// One batch file as it goes into the archive
+export interface BatchArchiveItem {
+  fileName: string; // Original upload name
+  status: 'pending' | 'processing' | 'completed' | 'error';
+  result?: string; // Data URL
+  format?: string; // File extension of the result, from the type it was encoded as
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+interface NameContext {
+  name: string;
+  index: number; // 0-based
+  total: number;
+  width?: number;
+  height?: number;
+  date: Date;
+}
+
+const INVALID_NAME_CHARS = '\\/:*?"<>|';
+
+// Swap characters file systems reject, control characters included, for underscores
+const sanitizeFileName = (name: string): string => {
+  return Array.from(name, char => INVALID_NAME_CHARS.includes(char) || char.charCodeAt(0) < 0x20 ? '_' : char).join('');
+};
+
+const formatDate = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const stripExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+// Fill a naming template. {index} is 1-based and padded to the batch size so names sort.
+export const formatOutputName = (template: string, context: NameContext): string => {
+  const digits = Math.max(2, context.total.toString().length);
+  const name = sanitizeFileName(template
+    .replace(/\{name\}/g, stripExtension(context.name))
+    .replace(/\{index\}/g, (context.index + 1).toString().padStart(digits, '0'))
+    .replace(/\{width\}/g, context.width !== undefined ? context.width.toString() : '')
+    .replace(/\{height\}/g, context.height !== undefined ? context.height.toString() : '')
+    .replace(/\{date\}/g, formatDate(context.date))
+  ).trim();
+
+  return name || stripExtension(context.name) || `image-${context.index + 1}`;
+};
+
+// Append " (2)", " (3)"... when a template gives two files the same name
+const makeUnique = (name: string, used: Set<string>): string => {
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Extension for an encoded image, from its MIME type (image/png -> png)
+export const getImageExtension = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1]?.split(';')[0];
+  return subtype || 'png';
+};
+
+const toCsvField = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Package every completed result under its templated name, with a manifest of the whole
+// batch and a CSV of anything that failed
+export const createBatchArchive = async (
+  items: BatchArchiveItem[],
+  options: { template: string; compression: ZipCompression }
+): Promise<Blob> => {
+  const date = new Date();
+  const used = new Set(['manifest.json', 'failures.csv']);
+  const entries = [];
+  const manifest = [];
+  const failures: BatchArchiveItem[] = [];
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    if (item.status === 'completed' && item.result) {
+      const baseName = formatOutputName(options.template, {
+        name: item.fileName,
+        index,
+        total: items.length,
+        width: item.width,
+        height: item.height,
+        date
+      });
+      // Each result keeps the extension of the type it was actually encoded as, whatever
+      // the format is set to now
+      const format = item.format ?? 'png';
+      const output = makeUnique(`${baseName}.${format}`, used);
+      entries.push({ name: output, data: dataUrlToBytes(item.result), modified: date });
+      manifest.push({ source: item.fileName, status: 'completed', output, format, width: item.width, height: item.height });
+    } else if (item.status === 'error') {
+      failures.push(item);
+      manifest.push({ source: item.fileName, status: 'error', error: item.error ?? 'Processing failed' });
+    } else {
+      manifest.push({ source: item.fileName, status: 'skipped' });
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error('There are no processed images to download');
+  }
+
+  const encoder = new TextEncoder();
+  const summary = {
+    createdAt: date.toISOString(),
+    template: options.template,
+    completed: entries.length,
+    failed: failures.length,
+    files: manifest
+  };
+  entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify(summary, null, 2)), modified: date });
+
+  if (failures.length > 0) {
+    const rows = failures.map(item => [item.fileName, item.error ?? 'Processing failed'].map(toCsvField).join(','));
+    entries.push({ name: 'failures.csv', data: encoder.encode(['file,error', ...rows].join('\r\n')), modified: date });
+  }
+
+  return createZip(entries, options.compression);
+};
+
+export const downloadBatchArchive = (archive: Blob, fileName: string = `batch-${formatDate(new Date())}`): void => {
+  const url = URL.createObjectURL(archive);
+
+  const link = document.createElement('a');
+  link.download = `${fileName}.zip`;
+  link.href = url;
+  link.click();
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,60 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { readRecipeFile } from './batchRecipe';
+
+const recipe = {
+  id: 'recipe-1',
+  name: 'Warm',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  adjustments: {
+    brightness: 10,
+    contrast: 0,
+    saturation: 5,
+    blur: 0,
+    rotation: 0,
+    flipX: false,
+    flipY: false,
+    filter: 'warm',
+    curves: null
+  },
+  vignette: { intensity: 0.2, radius: 0.8 },
+  style: null,
+  watermark: {
+    name: 'Signature',
+    image: 'data:image/png;base64,AAAA',
+    textData: { text: '© Studio', x: 0, y: 0, fontSize: 24, fontFamily: 'Arial', color: '#ffffff', rotation: 0 },
+    center: { x: 0.9, y: 0.9 },
+    width: 0.2,
+    rotation: 0,
+    opacity: 0.8,
+    blendMode: 'normal'
+  }
+};
+
+const recipeFile = (recipes: unknown[]) => new File(
+  [JSON.stringify({ type: 'photostudio-recipes', version: 1, recipes })],
+  'recipes.json',
+  { type: 'application/json' }
+);
+
+describe('readRecipeFile', () => {
+  it('keeps complete recipes, with fresh ids', async () => {
+    const [read] = await readRecipeFile(recipeFile([recipe]));
+
+    expect(read).toEqual({ ...recipe, id: expect.any(String) });
+    expect(read.id).not.toBe(recipe.id);
+  });
+
+  it('drops recipes missing what applying them reads', async () => {
+    const damaged = [
+      { ...recipe, adjustments: { ...recipe.adjustments, brightness: '10' } },
+      { ...recipe, adjustments: { ...recipe.adjustments, curves: { rgb: [{ x: 0 }] } } },
+      { ...recipe, style: { id: 'film' } },
+      { ...recipe, watermark: { ...recipe.watermark, image: 42 } },
+      { ...recipe, watermark: { ...recipe.watermark, center: null } },
+      { ...recipe, watermark: { ...recipe.watermark, textData: { text: 'No font' } } }
+    ];
+
+    expect(await readRecipeFile(recipeFile([...damaged, recipe]))).toHaveLength(1);
+  });
+});
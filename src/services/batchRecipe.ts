@@ -0,0 +1,289 @@
+import { TextData } from '../components/TextTool';
+import { BlendMode, ImageState, Layer } from '../types/editor';
+import { isCurvesState } from './curves';
+import { getAdjustedSource } from './layerRender';
+import { AppliedStyle, drawStyledImage, getStylePreset } from './stylePresets';
+import { drawVignette } from './vignette';
+import { DocumentLayout, getDocumentSize, getLayerToDocumentMatrix } from './viewTransform';
+
+const RECIPE_FILE_TYPE = 'photostudio-recipes';
+const RECIPE_FILE_VERSION = 1;
+const STORAGE_KEY = 'batchRecipes';
+
+export type RecipeAdjustments = Pick<
+  ImageState,
+  'brightness' | 'contrast' | 'saturation' | 'blur' | 'rotation' | 'flipX' | 'flipY' | 'filter' | 'curves'
+>;
+
+// A text layer stamped onto every image, placed relative to the image size
+export interface RecipeWatermark {
+  name: string;
+  image: string; // PNG data URL of the rendered text
+  textData: TextData;
+  center: { x: number; y: number }; // 0-1 across the image
+  width: number; // Fraction of the image width
+  rotation: number; // Degrees
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+// A named, shareable look built from the editor's adjustment stack
+export interface BatchRecipe {
+  id: string;
+  name: string;
+  createdAt: string;
+  adjustments: RecipeAdjustments;
+  vignette: { intensity: number; radius: number };
+  style: AppliedStyle | null;
+  watermark: RecipeWatermark | null;
+}
+
+// What the editor currently has that a recipe can capture
+export interface RecipeSource {
+  imageState: ImageState;
+  vignetteIntensity: number;
+  vignetteRadius: number;
+  style: AppliedStyle | null;
+  watermarks: RecipeWatermark[]; // One candidate per text layer
+}
+
+const generateRecipeId = (): string => {
+  return `recipe-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const createRecipe = (
+  name: string,
+  source: RecipeSource,
+  options: { style: AppliedStyle | null; watermark: RecipeWatermark | null }
+): BatchRecipe => {
+  const { brightness, contrast, saturation, blur, rotation, flipX, flipY, filter, curves } = source.imageState;
+  return {
+    id: generateRecipeId(),
+    name,
+    createdAt: new Date().toISOString(),
+    adjustments: { brightness, contrast, saturation, blur, rotation, flipX, flipY, filter, curves },
+    vignette: { intensity: source.vignetteIntensity, radius: source.vignetteRadius },
+    style: options.style,
+    watermark: options.watermark
+  };
+};
+
+// Capture a text layer as a watermark, measured against the document size
+export const getRecipeWatermark = (
+  documentLayout: DocumentLayout,
+  layer: Layer,
+  textData: TextData
+): RecipeWatermark | null => {
+  const documentSize = getDocumentSize(documentLayout);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!documentSize || !ctx) return null;
+
+  const width = layer.image.naturalWidth || layer.image.width;
+  const height = layer.image.naturalHeight || layer.image.height;
+  const matrix = getLayerToDocumentMatrix(documentLayout, layer);
+  const center = matrix.transformPoint(new DOMPoint(width / 2, height / 2));
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(layer.image, 0, 0);
+
+  return {
+    name: layer.name,
+    image: canvas.toDataURL('image/png'),
+    textData,
+    center: { x: center.x / documentSize.width, y: center.y / documentSize.height },
+    width: (Math.hypot(matrix.a, matrix.b) * width) / documentSize.width,
+    rotation: (Math.atan2(matrix.b, matrix.a) * 180) / Math.PI,
+    opacity: layer.opacity,
+    blendMode: layer.blendMode
+  };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load the recipe watermark'));
+    img.src = src;
+  });
+};
+
+// Render an image through a recipe at full resolution: adjustments and curves, then the
+// style preset, vignette and finally the watermark, in the order the editor draws them
+export const applyRecipe = async (image: HTMLImageElement, recipe: BatchRecipe): Promise<HTMLCanvasElement> => {
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  const angle = (recipe.adjustments.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const outputWidth = Math.round(width * cos + height * sin);
+  const outputHeight = Math.round(width * sin + height * cos);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  const state: ImageState = { ...recipe.adjustments, region: null };
+  const source = getAdjustedSource(image, state);
+  ctx.save();
+  ctx.translate(outputWidth / 2, outputHeight / 2);
+  ctx.rotate(angle);
+  ctx.scale(recipe.adjustments.flipX ? -1 : 1, recipe.adjustments.flipY ? -1 : 1);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  ctx.restore();
+
+  const style = recipe.style ? getStylePreset(recipe.style.id) : undefined;
+  if (recipe.style && style) {
+    const styled = document.createElement('canvas');
+    const styledCtx = styled.getContext('2d');
+    if (styledCtx) {
+      styled.width = outputWidth;
+      styled.height = outputHeight;
+      drawStyledImage(styledCtx, canvas, outputWidth, outputHeight, style, recipe.style.intensity);
+      ctx.clearRect(0, 0, outputWidth, outputHeight);
+      ctx.drawImage(styled, 0, 0);
+    }
+  }
+
+  drawVignette(canvas, recipe.vignette.intensity, recipe.vignette.radius);
+
+  if (recipe.watermark) {
+    const { watermark } = recipe;
+    const mark = await loadImage(watermark.image);
+    const drawWidth = watermark.width * outputWidth;
+    const drawHeight = drawWidth * (mark.naturalHeight / mark.naturalWidth);
+
+    ctx.save();
+    ctx.globalAlpha = watermark.opacity;
+    ctx.globalCompositeOperation = watermark.blendMode === 'normal' ? 'source-over' : watermark.blendMode;
+    ctx.translate(watermark.center.x * outputWidth, watermark.center.y * outputHeight);
+    ctx.rotate((watermark.rotation * Math.PI) / 180);
+    ctx.drawImage(mark, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.restore();
+  }
+
+  return canvas;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const isAdjustments = (value: unknown): value is RecipeAdjustments => {
+  return isObject(value) &&
+    ['brightness', 'contrast', 'saturation', 'blur', 'rotation'].every(key => Number.isFinite(value[key])) &&
+    typeof value.flipX === 'boolean' &&
+    typeof value.flipY === 'boolean' &&
+    typeof value.filter === 'string' &&
+    (value.curves === null || isCurvesState(value.curves));
+};
+
+const isStyle = (value: unknown): value is AppliedStyle => {
+  return isObject(value) && typeof value.id === 'string' && Number.isFinite(value.intensity);
+};
+
+const isTextData = (value: unknown): value is TextData => {
+  return isObject(value) &&
+    ['text', 'fontFamily', 'color'].every(key => typeof value[key] === 'string') &&
+    ['x', 'y', 'fontSize', 'rotation'].every(key => Number.isFinite(value[key]));
+};
+
+const isWatermark = (value: unknown): value is RecipeWatermark => {
+  return isObject(value) &&
+    typeof value.name === 'string' &&
+    typeof value.image === 'string' &&
+    value.image.startsWith('data:image/') &&
+    isTextData(value.textData) &&
+    isObject(value.center) &&
+    Number.isFinite(value.center.x) &&
+    Number.isFinite(value.center.y) &&
+    ['width', 'rotation', 'opacity'].every(key => Number.isFinite(value[key])) &&
+    typeof value.blendMode === 'string';
+};
+
+// Everything applyRecipe and the recipe list read, so a damaged recipe is dropped instead of
+// failing part way through a batch
+const isRecipe = (value: unknown): value is BatchRecipe => {
+  return isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.createdAt === 'string' &&
+    isAdjustments(value.adjustments) &&
+    isObject(value.vignette) &&
+    Number.isFinite(value.vignette.intensity) &&
+    Number.isFinite(value.vignette.radius) &&
+    (value.style === null || isStyle(value.style)) &&
+    (value.watermark === null || isWatermark(value.watermark));
+};
+
+interface RecipeFile {
+  type: typeof RECIPE_FILE_TYPE;
+  version: number;
+  recipes: unknown[];
+}
+
+const isRecipeFile = (value: unknown): value is RecipeFile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const file = value as Partial<RecipeFile>;
+  return file.type === RECIPE_FILE_TYPE && typeof file.version === 'number' && Array.isArray(file.recipes);
+};
+
+// Saved recipes persist in this browser; files are for sharing them
+export const loadSavedRecipes = (): BatchRecipe[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isRecipe) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecipes = (recipes: BatchRecipe[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+  } catch {
+    throw new Error('Not enough browser storage to save recipes. Export them to a file instead.');
+  }
+};
+
+export const exportRecipeFile = (recipes: BatchRecipe[], fileName: string = 'recipes'): void => {
+  const data = { type: RECIPE_FILE_TYPE, version: RECIPE_FILE_VERSION, recipes };
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.download = `${fileName}.json`;
+  link.href = url;
+  link.click();
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Imported recipes get fresh ids so they never collide with ones already saved
+export const readRecipeFile = async (file: File): Promise<BatchRecipe[]> => {
+  const text = await file.text();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Recipe file is corrupted or not valid JSON');
+  }
+
+  if (!isRecipeFile(data)) {
+    throw new Error('This file does not contain batch recipes');
+  }
+  if (data.version > RECIPE_FILE_VERSION) {
+    throw new Error('This recipe file was made by a newer version of the editor');
+  }
+
+  return data.recipes.filter(isRecipe).map(recipe => ({ ...recipe, id: generateRecipeId() }));
+};
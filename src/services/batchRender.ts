@@ -0,0 +1,143 @@
+import { brightnessMatrix, buildColorGraph, ColorMatrix, contrastMatrix, runGraphOnCPU, saturateMatrix } from './renderGraph';
+import { resamplePixels, ResampleOptions } from './resample';
+import { getSaliencyCrop } from './saliency';
+
+// Resize, enhance and encode one batch image. Runs in the pixel workers through
+// OffscreenCanvas, or on the main thread where that isn't available.
+
+export interface BatchRenderOptions {
+  autoEnhance: boolean;
+  sharpen: boolean;
+  format: 'png' | 'jpeg' | 'webp';
+  quality: number;
+  resize: {
+    enabled: boolean;
+    width: number;
+    height: number;
+    maintainAspectRatio: boolean;
+    smartCrop: boolean; // Without the aspect ratio kept, crop to the new one around salient content instead of stretching
+    resample: ResampleOptions;
+  };
+}
+
+export interface BatchRenderResult {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+type RenderCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): RenderCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const encodeCanvas = (canvas: RenderCanvas, type: string, quality: number): Promise<Blob> => {
+  if (!('toBlob' in canvas)) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode the processed image'));
+      }
+    }, type, quality);
+  });
+};
+
+export const getBatchOutputSize = (
+  width: number,
+  height: number,
+  resize: BatchRenderOptions['resize']
+): { width: number; height: number } => {
+  if (!resize.enabled) return { width, height };
+  if (!resize.maintainAspectRatio) {
+    return { width: Math.max(1, Math.round(resize.width)), height: Math.max(1, Math.round(resize.height)) };
+  }
+
+  const aspectRatio = width / height;
+  if (resize.width / resize.height > aspectRatio) {
+    return { width: Math.max(1, Math.round(resize.height * aspectRatio)), height: Math.max(1, Math.round(resize.height)) };
+  }
+  return { width: Math.max(1, Math.round(resize.width)), height: Math.max(1, Math.round(resize.width / aspectRatio)) };
+};
+
+export const renderBatchImage = async (
+  source: ImageBitmap | Blob,
+  options: BatchRenderOptions,
+  onProgress?: (progress: number) => void
+): Promise<BatchRenderResult> => {
+  const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+  onProgress?.(0.3);
+
+  const { width, height } = getBatchOutputSize(bitmap.width, bitmap.height, options.resize);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  // JPEG has no transparency, so flatten onto white
+  if (options.format === 'jpeg') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (width === bitmap.width && height === bitmap.height) {
+    ctx.drawImage(bitmap, 0, 0);
+  } else {
+    // Resample from the full-size pixels, then draw so JPEG still flattens onto white
+    const source = createCanvas(bitmap.width, bitmap.height);
+    const sourceCtx = source.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!sourceCtx) {
+      throw new Error('Unable to get canvas context');
+    }
+    sourceCtx.drawImage(bitmap, 0, 0);
+    let pixels = sourceCtx.getImageData(0, 0, bitmap.width, bitmap.height);
+    if (options.resize.smartCrop && !options.resize.maintainAspectRatio) {
+      const crop = getSaliencyCrop(pixels, width / height);
+      const x = Math.round(crop.x);
+      const y = Math.round(crop.y);
+      pixels = sourceCtx.getImageData(
+        x,
+        y,
+        Math.max(1, Math.min(bitmap.width - x, Math.round(crop.width))),
+        Math.max(1, Math.min(bitmap.height - y, Math.round(crop.height)))
+      );
+    }
+    const resized = resamplePixels(pixels, width, height, options.resize.resample);
+    source.width = width;
+    source.height = height;
+    sourceCtx.putImageData(new ImageData(resized.data, width, height), 0, 0);
+    ctx.drawImage(source, 0, 0);
+  }
+  bitmap.close();
+
+  // Enhancement runs through the render graph's CPU path so every browser gives the same result
+  const matrices: ColorMatrix[] = [];
+  if (options.autoEnhance) {
+    matrices.push(contrastMatrix(1.1), brightnessMatrix(1.05), saturateMatrix(1.1));
+  }
+  if (options.sharpen) {
+    // Simple sharpening as a contrast boost
+    matrices.push(contrastMatrix(1.2));
+  }
+  if (matrices.length > 0) {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const result = runGraphOnCPU(pixels, buildColorGraph(matrices));
+    ctx.putImageData(new ImageData(result.data, width, height), 0, 0);
+  }
+  onProgress?.(0.7);
+
+  const blob = await encodeCanvas(canvas, `image/${options.format}`, options.quality / 100);
+  onProgress?.(1);
+  return { blob, width, height };
+};
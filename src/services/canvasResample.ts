@@ -0,0 +1,38 @@
+import { ResampleOptions } from './resample';
+import { runPixelTaskInPool } from './workerPool';
+
+// Resample anything drawable to a new pixel size on the pixel worker pool
+export const resampleCanvas = async (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  options: ResampleOptions
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = sourceWidth;
+  canvas.height = sourceHeight;
+  ctx.drawImage(source, 0, 0, sourceWidth, sourceHeight);
+
+  const targetWidth = Math.max(1, Math.round(width));
+  const targetHeight = Math.max(1, Math.round(height));
+  if (targetWidth === sourceWidth && targetHeight === sourceHeight) return canvas;
+
+  const imageData = ctx.getImageData(0, 0, sourceWidth, sourceHeight);
+  const result = await runPixelTaskInPool(
+    'resample',
+    { imageData, width: targetWidth, height: targetHeight, options },
+    { transfer: [imageData.data.buffer] }
+  );
+
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  ctx.putImageData(result.imageData, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,174 @@
+import { TextData } from '../components/TextTool';
+import { BlendMode, ImageState, Layer, SelectionMask } from '../types/editor';
+import { getLayerSource } from './layerRender';
+import { getMaskBounds, maskToCanvas, SelectionRect } from './selection';
+import { DocumentLayout, getLayerToDocumentMatrix } from './viewTransform';
+
+const PAYLOAD_TYPE = 'photostudio-layer';
+
+// Layer properties copied next to the PNG so pasting back into the editor keeps them.
+// Adjustments and masks are baked into the PNG, so only the geometric image state travels.
+export interface ClipboardLayerPayload {
+  type: typeof PAYLOAD_TYPE;
+  version: 2;
+  name: string;
+  opacity: number;
+  blendMode: BlendMode;
+  position: { x: number; y: number }; // Document pixels, as on Layer
+  scale: { x: number; y: number };
+  rotation: number;
+  skew: { x: number; y: number };
+  imageState: Pick<ImageState, 'rotation' | 'flipX' | 'flipY'>;
+  textData?: TextData;
+}
+
+export interface ClipboardContents {
+  image: HTMLImageElement;
+  payload: ClipboardLayerPayload | null; // Null for images copied from other apps
+}
+
+const isPayload = (value: unknown): value is ClipboardLayerPayload => {
+  if (typeof value !== 'object' || value === null) return false;
+  const payload = value as Partial<ClipboardLayerPayload>;
+  return payload.type === PAYLOAD_TYPE && payload.version === 2;
+};
+
+export const isClipboardSupported = (): boolean => {
+  return !!navigator.clipboard && typeof ClipboardItem !== 'undefined';
+};
+
+// Draw a layer's pixels as they appear (adjustments and mask applied), optionally cut out
+// by a mask in layer pixels and cropped to it. Returns the pixels and where they came from.
+export const getLayerPixels = (
+  layer: Layer,
+  cutout: SelectionMask | null
+): { canvas: HTMLCanvasElement; bounds: SelectionRect } => {
+  const width = layer.image.naturalWidth || layer.image.width;
+  const height = layer.image.naturalHeight || layer.image.height;
+  const bounds = cutout ? getMaskBounds(cutout) : { x: 0, y: 0, width, height };
+  if (!bounds) {
+    throw new Error('The selection does not cover the active layer');
+  }
+
+  const full = document.createElement('canvas');
+  const fullCtx = full.getContext('2d');
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!fullCtx || !ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  full.width = width;
+  full.height = height;
+  fullCtx.drawImage(getLayerSource(layer), 0, 0, width, height);
+  if (cutout) {
+    fullCtx.globalCompositeOperation = 'destination-in';
+    fullCtx.drawImage(maskToCanvas(cutout), 0, 0);
+  }
+
+  canvas.width = bounds.width;
+  canvas.height = bounds.height;
+  ctx.drawImage(full, -bounds.x, -bounds.y);
+  return { canvas, bounds };
+};
+
+// Describe copied pixels so a paste lands them where they were. The base layer has no
+// transform of its own, so it pastes unscaled and unrotated.
+export const createClipboardPayload = (
+  documentLayout: DocumentLayout,
+  layer: Layer,
+  bounds: SelectionRect,
+  textData?: TextData
+): ClipboardLayerPayload => {
+  const matrix = getLayerToDocumentMatrix(documentLayout, layer);
+  const center = matrix.transformPoint(new DOMPoint(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2));
+  const isBase = documentLayout.layers[0]?.id === layer.id;
+
+  return {
+    type: PAYLOAD_TYPE,
+    version: 2,
+    name: layer.name,
+    opacity: layer.opacity,
+    blendMode: layer.blendMode,
+    position: { x: center.x, y: center.y },
+    scale: isBase ? { x: 1, y: 1 } : { ...layer.scale },
+    rotation: isBase ? 0 : layer.rotation,
+    skew: isBase ? { x: 0, y: 0 } : { ...(layer.skew ?? { x: 0, y: 0 }) },
+    imageState: {
+      rotation: layer.imageState.rotation,
+      flipX: layer.imageState.flipX,
+      flipY: layer.imageState.flipY
+    },
+    textData
+  };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode the copied pixels'));
+      }
+    }, 'image/png');
+  });
+};
+
+// Put pixels on the system clipboard as PNG, with the payload as JSON text alongside
+export const writeClipboard = async (canvas: HTMLCanvasElement, payload: ClipboardLayerPayload): Promise<void> => {
+  if (!isClipboardSupported()) {
+    throw new Error('Clipboard access is not supported in this browser');
+  }
+
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      'image/png': canvasToBlob(canvas),
+      'text/plain': new Blob([JSON.stringify(payload)], { type: 'text/plain' })
+    })
+  ]);
+};
+
+const loadBlobImage = (blob: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to read the image on the clipboard'));
+    };
+    img.src = url;
+  });
+};
+
+const readPayload = async (item: ClipboardItem): Promise<ClipboardLayerPayload | null> => {
+  if (!item.types.includes('text/plain')) return null;
+  try {
+    const parsed: unknown = JSON.parse(await (await item.getType('text/plain')).text());
+    return isPayload(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Read the first image on the clipboard, plus our payload if we put it there.
+// Returns null when the clipboard holds no image.
+export const readClipboard = async (): Promise<ClipboardContents | null> => {
+  if (!isClipboardSupported()) {
+    throw new Error('Clipboard access is not supported in this browser');
+  }
+
+  const items = await navigator.clipboard.read();
+  for (const item of items) {
+    const imageType = item.types.find(type => type.startsWith('image/'));
+    if (!imageType) continue;
+
+    const image = await loadBlobImage(await item.getType(imageType));
+    return { image, payload: await readPayload(item) };
+  }
+  return null;
+};
@@ -1,4 +1,4 @@
-interface ColorRGB {
+export interface ColorRGB {
   r: number;
   g: number;
   b: number;
@@ -62,7 +62,7 @@ const colorDistance = (c1: ColorRGB, c2: ColorRGB): number => {
 };
 
 // Sample pixels from image data for performance
-const samplePixels = (imageData: ImageData, maxSamples: number = 5000): ColorRGB[] => {
+const samplePixels = (imageData: ImageData, maxSamples: number = 5000, skipExtremes: boolean = true): ColorRGB[] => {
   const { data, width, height } = imageData;
   const totalPixels = width * height;
   const samplingInterval = Math.max(1, Math.floor(totalPixels / maxSamples));
@@ -80,8 +80,10 @@ const samplePixels = (imageData: ImageData, maxSamples: number = 5000): ColorRGB
     const b = data[i + 2];
     
     // Skip very dark or very light pixels that might be noise
-    const [, , lightness] = rgbToHsl(r, g, b);
-    if (lightness < 5 || lightness > 95) continue;
+    if (skipExtremes) {
+      const [, , lightness] = rgbToHsl(r, g, b);
+      if (lightness < 5 || lightness > 95) continue;
+    }
     
     samples.push({ r, g, b });
   }
@@ -96,33 +98,34 @@ const initializeCentroids = (pixels: ColorRGB[], k: number): ColorRGB[] => {
   // Choose first centroid randomly
   centroids.push(pixels[Math.floor(Math.random() * pixels.length)]);
   
+  // Squared distance from each pixel to its nearest centroid, updated as centroids are added
+  const distances = pixels.map(pixel => {
+    const distance = colorDistance(pixel, centroids[0]);
+    return distance * distance;
+  });
+  
   // Choose remaining centroids using K-means++ (weighted probability)
   for (let i = 1; i < k; i++) {
-    const distances: number[] = [];
-    let totalDistance = 0;
-    
-    // Calculate distance from each pixel to nearest existing centroid
-    for (const pixel of pixels) {
-      let minDistance = Infinity;
-      for (const centroid of centroids) {
-        const distance = colorDistance(pixel, centroid);
-        minDistance = Math.min(minDistance, distance);
-      }
-      distances.push(minDistance * minDistance); // Square for K-means++
-      totalDistance += minDistance * minDistance;
-    }
+    const totalDistance = distances.reduce((sum, distance) => sum + distance, 0);
     
     // Choose next centroid with probability proportional to squared distance
     const randomValue = Math.random() * totalDistance;
     let cumulativeDistance = 0;
+    let nextCentroid = pixels[pixels.length - 1];
     
     for (let j = 0; j < pixels.length; j++) {
       cumulativeDistance += distances[j];
       if (cumulativeDistance >= randomValue) {
-        centroids.push(pixels[j]);
+        nextCentroid = pixels[j];
         break;
       }
     }
+    centroids.push(nextCentroid);
+    
+    for (let j = 0; j < pixels.length; j++) {
+      const distance = colorDistance(pixels[j], nextCentroid);
+      distances[j] = Math.min(distances[j], distance * distance);
+    }
   }
   
   return centroids;
@@ -148,30 +151,29 @@ const assignPixelsToClusters = (pixels: ColorRGB[], centroids: ColorRGB[]): numb
 
 // Update centroids based on cluster assignments
 const updateCentroids = (pixels: ColorRGB[], assignments: number[], k: number): ColorRGB[] => {
-  const newCentroids: ColorRGB[] = [];
+  const sums = Array.from({ length: k }, () => ({ r: 0, g: 0, b: 0, count: 0 }));
   
-  for (let i = 0; i < k; i++) {
-    const clusterPixels = pixels.filter((_, index) => assignments[index] === i);
-    
-    if (clusterPixels.length === 0) {
+  pixels.forEach((pixel, index) => {
+    const sum = sums[assignments[index]];
+    sum.r += pixel.r;
+    sum.g += pixel.g;
+    sum.b += pixel.b;
+    sum.count++;
+  });
+  
+  return sums.map(sum => {
+    if (sum.count === 0) {
       // If no pixels assigned, use a random pixel
-      newCentroids.push(pixels[Math.floor(Math.random() * pixels.length)]);
-      continue;
+      return pixels[Math.floor(Math.random() * pixels.length)];
     }
     
     // Calculate average color of cluster
-    const avgR = clusterPixels.reduce((sum, pixel) => sum + pixel.r, 0) / clusterPixels.length;
-    const avgG = clusterPixels.reduce((sum, pixel) => sum + pixel.g, 0) / clusterPixels.length;
-    const avgB = clusterPixels.reduce((sum, pixel) => sum + pixel.b, 0) / clusterPixels.length;
-    
-    newCentroids.push({
-      r: Math.round(avgR),
-      g: Math.round(avgG),
-      b: Math.round(avgB)
-    });
-  }
-  
-  return newCentroids;
+    return {
+      r: Math.round(sum.r / sum.count),
+      g: Math.round(sum.g / sum.count),
+      b: Math.round(sum.b / sum.count)
+    };
+  });
 };
 
 // Check if centroids have converged
@@ -266,6 +268,45 @@ export const extractColorPalette = async (
   };
 };
 
+// Build a quantization palette (e.g. for GIF export) using the same K-means clustering.
+// Unlike extractColorPalette, near-black and near-white pixels are kept so shadows and
+// highlights survive quantization.
+export const buildQuantizationPalette = (
+  images: ImageData[],
+  maxColors: number = 256,
+  maxIterations: number = 8,
+  maxSamples: number = 6000
+): ColorRGB[] => {
+  const samplesPerImage = Math.max(500, Math.floor(maxSamples / Math.max(1, images.length)));
+  const pixels = images.flatMap(imageData => samplePixels(imageData, samplesPerImage, false));
+  
+  if (pixels.length === 0) {
+    return [{ r: 0, g: 0, b: 0 }];
+  }
+  
+  // Few distinct colors: use them directly instead of clustering
+  const unique = new Map<number, ColorRGB>();
+  for (const pixel of pixels) {
+    unique.set((pixel.r << 16) | (pixel.g << 8) | pixel.b, pixel);
+    if (unique.size > maxColors) break;
+  }
+  if (unique.size <= maxColors) {
+    return Array.from(unique.values());
+  }
+  
+  let centroids = initializeCentroids(pixels, maxColors);
+  
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const assignments = assignPixelsToClusters(pixels, centroids);
+    const newCentroids = updateCentroids(pixels, assignments, maxColors);
+    const converged = centroidsConverged(centroids, newCentroids, 2);
+    centroids = newCentroids;
+    if (converged) break;
+  }
+  
+  return centroids;
+};
+
 // Generate color name based on HSL values (optional feature)
 export const getColorName = (r: number, g: number, b: number): string => {
   const [hue, saturation, lightness] = rgbToHsl(r, g, b);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ImageState, Layer } from '../types/editor';
+import { getVisibleLayers } from './compositor';
+
+const imageState: ImageState = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  blur: 0,
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  filter: 'none',
+  curves: null,
+  region: null
+};
+
+const layer = (id: string, visible: boolean): Layer => ({
+  id,
+  name: id,
+  image: { width: 4, height: 4 } as HTMLImageElement,
+  visible,
+  opacity: 1,
+  blendMode: 'normal',
+  position: { x: 0, y: 0 },
+  scale: { x: 1, y: 1 },
+  rotation: 0,
+  imageState,
+  locked: false
+});
+
+describe('getVisibleLayers', () => {
+  it('leaves out a hidden base layer, as it does any other hidden layer', () => {
+    const base = layer('base', false);
+    const overlay = layer('overlay', true);
+
+    expect(getVisibleLayers([base, overlay])).toEqual([overlay]);
+  });
+
+  it('keeps the drawing order of the layers that show', () => {
+    const layers = [layer('base', true), layer('hidden', false), layer('top', true)];
+
+    expect(getVisibleLayers(layers).map(l => l.id)).toEqual(['base', 'top']);
+  });
+});
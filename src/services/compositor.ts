@@ -0,0 +1,189 @@
+import { DocumentBackground, ImageState, Layer, SelectionMask } from '../types/editor';
+import { getLayerSource } from './layerRender';
+import { getMaskBounds, resizeMask } from './selection';
+import { drawVignette } from './vignette';
+import { getLayerToDocumentMatrix } from './viewTransform';
+
+// What to export: the whole document, the active layer alone, or the document cropped to
+// the selection's bounds
+export type ExportScope = 'document' | 'layer' | 'selection';
+
+export interface CompositionOptions {
+  documentSize: { width: number; height: number };
+  scope: ExportScope;
+  activeLayerId: string | null;
+  selection: SelectionMask | null;
+  background: DocumentBackground;
+  vignette: { intensity: number; radius: number };
+}
+
+interface CompositionFrame {
+  width: number;
+  height: number;
+  toOutput: DOMMatrix; // Document pixels (or the layer's, for a layer export) -> output pixels
+  layers: Layer[];
+  crop: { x: number; y: number; width: number; height: number } | null;
+}
+
+const getImageSize = (image: HTMLImageElement) => ({
+  width: image.naturalWidth || image.width,
+  height: image.naturalHeight || image.height
+});
+
+// A width × height area turned by its rotation and flips, in the bounding box that holds it
+const getOrientedFrame = ({ width, height }: { width: number; height: number }, state: ImageState) => {
+  const angle = (state.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const outputWidth = Math.max(1, Math.round(width * cos + height * sin));
+  const outputHeight = Math.max(1, Math.round(width * sin + height * cos));
+
+  return {
+    width: outputWidth,
+    height: outputHeight,
+    toOutput: new DOMMatrix()
+      .translateSelf(outputWidth / 2, outputHeight / 2)
+      .rotateSelf(state.rotation)
+      .scaleSelf(state.flipX ? -1 : 1, state.flipY ? -1 : 1)
+      .translateSelf(-width / 2, -height / 2)
+  };
+};
+
+// The layers that show, in drawing order. A hidden base layer is left out like any other,
+// in the editor and in the export alike.
+export const getVisibleLayers = (layers: Layer[]): Layer[] => layers.filter(l => l.visible);
+
+const getCompositionFrame = (layers: Layer[], options: CompositionOptions): CompositionFrame => {
+  const base = layers[0];
+  if (!base) {
+    throw new Error('There is nothing to export');
+  }
+
+  if (options.scope === 'layer') {
+    const layer = layers.find(l => l.id === options.activeLayerId);
+    if (!layer) {
+      throw new Error('Select a layer to export');
+    }
+    return { ...getOrientedFrame(getImageSize(layer.image), layer.imageState), layers: [layer], crop: null };
+  }
+
+  // With every layer hidden the frame is still the document's size and comes out transparent
+  const frame: CompositionFrame = {
+    ...getOrientedFrame(options.documentSize, base.imageState),
+    layers: getVisibleLayers(layers),
+    crop: null
+  };
+  if (options.scope === 'document') {
+    return frame;
+  }
+
+  const { width, height } = options.documentSize;
+  const bounds = options.selection ? getMaskBounds(resizeMask(options.selection, width, height)) : null;
+  if (!bounds) {
+    throw new Error('Make a selection to export it');
+  }
+
+  // Crop to the selection's bounding box as it lands in the oriented output. The document is
+  // still rendered whole first so the vignette matches a full export.
+  const corners = [
+    [bounds.x, bounds.y],
+    [bounds.x + bounds.width, bounds.y],
+    [bounds.x + bounds.width, bounds.y + bounds.height],
+    [bounds.x, bounds.y + bounds.height]
+  ].map(([x, y]) => frame.toOutput.transformPoint(new DOMPoint(x, y)));
+  const left = Math.max(0, Math.floor(Math.min(...corners.map(p => p.x))));
+  const top = Math.max(0, Math.floor(Math.min(...corners.map(p => p.y))));
+  const right = Math.min(frame.width, Math.ceil(Math.max(...corners.map(p => p.x))));
+  const bottom = Math.min(frame.height, Math.ceil(Math.max(...corners.map(p => p.y))));
+
+  return { ...frame, crop: { x: left, y: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) } };
+};
+
+// Output size for a scope, for showing before the export runs. Null when the scope has
+// nothing to export (no active layer, no selection).
+export const getCompositionSize = (
+  layers: Layer[],
+  options: CompositionOptions
+): { width: number; height: number } | null => {
+  try {
+    const frame = getCompositionFrame(layers, options);
+    return frame.crop ? { width: frame.crop.width, height: frame.crop.height } : { width: frame.width, height: frame.height };
+  } catch {
+    return null;
+  }
+};
+
+// Render the composition offscreen at native resolution, independent of the editor's zoom,
+// pan and viewport: the document background, every visible layer with its adjustments, mask,
+// placement, opacity and blend mode, then the vignette. Transparent where nothing covers.
+const renderFrame = (layers: Layer[], frame: CompositionFrame, options: CompositionOptions): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+
+  // Layers are clipped to the document, which a rotated frame doesn't fill
+  if (options.scope !== 'layer') {
+    const { width, height } = options.documentSize;
+    ctx.setTransform(frame.toOutput);
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
+    if (options.background.type === 'color') {
+      ctx.fillStyle = options.background.color;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.resetTransform();
+  }
+
+  frame.layers.forEach(layer => {
+    if (layer.opacity === 0) return;
+    const { width, height } = getImageSize(layer.image);
+    const toDocument = options.scope === 'layer' ? new DOMMatrix() : getLayerToDocumentMatrix({ layers }, layer);
+
+    ctx.save();
+    ctx.setTransform(frame.toOutput.multiply(toDocument));
+    if (layer !== layers[0] || options.scope === 'layer') {
+      ctx.globalAlpha = layer.opacity;
+      ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(getLayerSource(layer), 0, 0, width, height);
+    ctx.restore();
+  });
+
+  if (options.scope !== 'layer') {
+    drawVignette(canvas, options.vignette.intensity, options.vignette.radius);
+  }
+
+  if (!frame.crop) return canvas;
+
+  const cropped = document.createElement('canvas');
+  const croppedCtx = cropped.getContext('2d');
+  if (!croppedCtx) {
+    throw new Error('Unable to get canvas context');
+  }
+  cropped.width = frame.crop.width;
+  cropped.height = frame.crop.height;
+  croppedCtx.drawImage(canvas, -frame.crop.x, -frame.crop.y);
+  return cropped;
+};
+
+export const renderComposition = (layers: Layer[], options: CompositionOptions): HTMLCanvasElement => {
+  const frame = getCompositionFrame(layers, options);
+  console.log(`🖼️ Composed ${frame.layers.length} layer(s) at ${frame.width}×${frame.height}`);
+  return renderFrame(layers, frame, options);
+};
+
+// One frame per layer for a layer animation: each visible layer alone, placed on the same
+// frame as the static export with its background and vignette. A layer export has one frame.
+export const renderLayerFrames = (layers: Layer[], options: CompositionOptions): HTMLCanvasElement[] => {
+  const frame = getCompositionFrame(layers, options);
+  console.log(`🎞️ Composed ${frame.layers.length} layer frame(s) at ${frame.width}×${frame.height}`);
+  return frame.layers.map(layer => renderFrame(layers, { ...frame, layers: [layer] }, options));
+};
@@ -0,0 +1,236 @@
+import { SelectionMask } from '../types/editor';
+import { createMask, resizeMask, SelectionRect, transformMask } from './selection';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A crop rectangle in the straightened frame: the image rotated by `angle` degrees about
+// its centre, keeping the image's own pixel grid
+export interface StraightenCrop {
+  mode: 'crop';
+  bounds: SelectionRect;
+  angle: number;
+}
+
+// Four image-pixel corners, clockwise from top-left, warped to a rectangle
+export interface PerspectiveCrop {
+  mode: 'perspective';
+  corners: [Point, Point, Point, Point];
+}
+
+export type CropRequest = StraightenCrop | PerspectiveCrop;
+
+export interface CropOutput {
+  canvas: HTMLCanvasElement;
+  // Warp a mask in the source's pixels into the cropped pixels
+  cropMask: (mask: SelectionMask) => SelectionMask;
+  // Where the centre of the output sits in source pixels (for keeping overlays in place)
+  sourceCenter: Point;
+  // Source pixels -> output pixels. A perspective crop isn't affine, so there it only keeps
+  // the centre in place.
+  toOutput: DOMMatrix;
+}
+
+export const MAX_STRAIGHTEN_ANGLE = 45;
+
+const getImageSize = (image: HTMLImageElement) => ({
+  width: image.naturalWidth || image.width,
+  height: image.naturalHeight || image.height
+});
+
+// Map straightened-frame pixels back into source image pixels
+const getStraightenMatrix = (width: number, height: number, angle: number): DOMMatrix => {
+  return new DOMMatrix()
+    .translateSelf(width / 2, height / 2)
+    .rotateSelf(-angle)
+    .translateSelf(-width / 2, -height / 2);
+};
+
+// Shrink a crop about its centre until it fits inside the straightened image, so rotating
+// never leaves empty corners. The aspect ratio is kept; crops that already fit are unchanged.
+export const autoFillCrop = (bounds: SelectionRect, width: number, height: number, angle: number): SelectionRect => {
+  const toSource = getStraightenMatrix(width, height, angle);
+  let center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+
+  const fitScale = (origin: Point): number => {
+    const base = toSource.transformPoint(new DOMPoint(origin.x, origin.y));
+    let scale = 1;
+    [[-1, -1], [1, -1], [1, 1], [-1, 1]].forEach(([sx, sy]) => {
+      // Corner offset from the centre, rotated into source pixels
+      const corner = toSource.transformPoint(new DOMPoint(origin.x + (sx * bounds.width) / 2, origin.y + (sy * bounds.height) / 2));
+      const vx = corner.x - base.x;
+      const vy = corner.y - base.y;
+      if (vx > 0) scale = Math.min(scale, (width - base.x) / vx);
+      if (vx < 0) scale = Math.min(scale, base.x / -vx);
+      if (vy > 0) scale = Math.min(scale, (height - base.y) / vy);
+      if (vy < 0) scale = Math.min(scale, base.y / -vy);
+    });
+    return Math.max(0, scale);
+  };
+
+  let scale = fitScale(center);
+  if (scale <= 0.01) {
+    // The centre itself is off the image; fall back to the image centre
+    center = { x: width / 2, y: height / 2 };
+    scale = fitScale(center);
+  }
+
+  const newWidth = Math.max(1, bounds.width * scale);
+  const newHeight = Math.max(1, bounds.height * scale);
+  return { x: center.x - newWidth / 2, y: center.y - newHeight / 2, width: newWidth, height: newHeight };
+};
+
+const straightenCrop = (image: HTMLImageElement, request: StraightenCrop): CropOutput => {
+  const { width, height } = getImageSize(image);
+  const bounds = {
+    x: Math.round(request.bounds.x),
+    y: Math.round(request.bounds.y),
+    width: Math.max(1, Math.round(request.bounds.width)),
+    height: Math.max(1, Math.round(request.bounds.height))
+  };
+
+  // Output pixels -> source pixels
+  const outputToSource = getStraightenMatrix(width, height, request.angle).translateSelf(bounds.x, bounds.y);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = bounds.width;
+  canvas.height = bounds.height;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.setTransform(outputToSource.inverse());
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const center = outputToSource.transformPoint(new DOMPoint(bounds.width / 2, bounds.height / 2));
+  return {
+    canvas,
+    cropMask: mask => transformMask(resizeMask(mask, width, height), bounds.width, bounds.height, outputToSource),
+    sourceCenter: { x: center.x, y: center.y },
+    toOutput: outputToSource.inverse()
+  };
+};
+
+// Projective map from the unit square onto a quad (corners clockwise from top-left)
+const getSquareToQuad = (corners: Point[]) => {
+  const [p0, p1, p2, p3] = corners;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  let g = 0;
+  let h = 0;
+  if (dx3 !== 0 || dy3 !== 0) {
+    const det = dx1 * dy2 - dx2 * dy1;
+    g = (dx3 * dy2 - dx2 * dy3) / det;
+    h = (dx1 * dy3 - dx3 * dy1) / det;
+  }
+
+  const a = p1.x - p0.x + g * p1.x;
+  const b = p3.x - p0.x + h * p3.x;
+  const d = p1.y - p0.y + g * p1.y;
+  const e = p3.y - p0.y + h * p3.y;
+
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w };
+  };
+};
+
+// Average opposite edges so the output keeps roughly the quad's resolution
+const getPerspectiveSize = (corners: Point[]): { width: number; height: number } => {
+  const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  const [tl, tr, br, bl] = corners;
+  return {
+    width: Math.max(1, Math.round((distance(tl, tr) + distance(bl, br)) / 2)),
+    height: Math.max(1, Math.round((distance(tl, bl) + distance(tr, br)) / 2))
+  };
+};
+
+const perspectiveCrop = (image: HTMLImageElement, request: PerspectiveCrop): CropOutput => {
+  const { width, height } = getImageSize(image);
+  const output = getPerspectiveSize(request.corners);
+  const map = getSquareToQuad(request.corners);
+
+  const source = document.createElement('canvas');
+  const sourceCtx = source.getContext('2d');
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!sourceCtx || !ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  source.width = width;
+  source.height = height;
+  sourceCtx.drawImage(image, 0, 0, width, height);
+  const src = sourceCtx.getImageData(0, 0, width, height).data;
+
+  canvas.width = output.width;
+  canvas.height = output.height;
+  const result = ctx.createImageData(output.width, output.height);
+  const dst = result.data;
+
+  // Bilinear sampling; pixels mapped outside the image stay transparent
+  for (let y = 0; y < output.height; y++) {
+    for (let x = 0; x < output.width; x++) {
+      const point = map((x + 0.5) / output.width, (y + 0.5) / output.height);
+      const sx = point.x - 0.5;
+      const sy = point.y - 0.5;
+      if (sx < -0.5 || sy < -0.5 || sx > width - 0.5 || sy > height - 0.5) continue;
+
+      const x0 = Math.max(0, Math.floor(sx));
+      const y0 = Math.max(0, Math.floor(sy));
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fx = Math.min(1, Math.max(0, sx - x0));
+      const fy = Math.min(1, Math.max(0, sy - y0));
+      const out = (y * output.width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = src[(y0 * width + x0) * 4 + c] * (1 - fx) + src[(y0 * width + x1) * 4 + c] * fx;
+        const bottom = src[(y1 * width + x0) * 4 + c] * (1 - fx) + src[(y1 * width + x1) * 4 + c] * fx;
+        dst[out + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  ctx.putImageData(result, 0, 0);
+
+  const cropMask = (mask: SelectionMask): SelectionMask => {
+    const sourceMask = resizeMask(mask, width, height);
+    const warped = createMask(output.width, output.height);
+    for (let y = 0; y < output.height; y++) {
+      for (let x = 0; x < output.width; x++) {
+        const point = map((x + 0.5) / output.width, (y + 0.5) / output.height);
+        const mx = Math.floor(point.x);
+        const my = Math.floor(point.y);
+        if (mx >= 0 && my >= 0 && mx < width && my < height) {
+          warped.data[y * output.width + x] = sourceMask.data[my * width + mx];
+        }
+      }
+    }
+    return warped;
+  };
+
+  const sourceCenter = map(0.5, 0.5);
+  return {
+    canvas,
+    cropMask,
+    sourceCenter,
+    toOutput: new DOMMatrix().translateSelf(output.width / 2 - sourceCenter.x, output.height / 2 - sourceCenter.y)
+  };
+};
+
+// Crop an image's pixels. Masks and regions belonging to it can be carried over with `cropMask`.
+export const cropImage = (image: HTMLImageElement, request: CropRequest): CropOutput => {
+  return request.mode === 'perspective'
+    ? perspectiveCrop(image, request)
+    : straightenCrop(image, request);
+};
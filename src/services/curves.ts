@@ -0,0 +1,109 @@
+import { CurvePoint, CurvesState } from '../types/editor';
+
+export interface CurveLUTs {
+  red: Uint8ClampedArray;
+  green: Uint8ClampedArray;
+  blue: Uint8ClampedArray;
+}
+
+const identityPoints = (): CurvePoint[] => [
+  { x: 0, y: 0 },
+  { x: 128, y: 128 },
+  { x: 255, y: 255 }
+];
+
+export const createDefaultCurves = (): CurvesState => ({
+  rgb: identityPoints(),
+  red: identityPoints(),
+  green: identityPoints(),
+  blue: identityPoints()
+});
+
+const isCurvePoints = (value: unknown): value is CurvePoint[] => {
+  return Array.isArray(value) && value.every(point =>
+    typeof point === 'object' && point !== null && Number.isFinite(point.x) && Number.isFinite(point.y)
+  );
+};
+
+// Curves read from a file or shared recipe, checked before lookup tables are built from them
+export const isCurvesState = (value: unknown): value is CurvesState => {
+  if (typeof value !== 'object' || value === null) return false;
+  const curves = value as Partial<Record<keyof CurvesState, unknown>>;
+  return [curves.rgb, curves.red, curves.green, curves.blue].every(isCurvePoints);
+};
+
+// Smooth curve interpolation using Catmull-Rom splines
+export const interpolateCurve = (points: CurvePoint[], x: number): number => {
+  if (points.length < 2) return x;
+
+  // Find the segment
+  let i = 0;
+  for (i = 0; i < points.length - 1; i++) {
+    if (x >= points[i].x && x <= points[i + 1].x) {
+      break;
+    }
+  }
+
+  if (i >= points.length - 1) {
+    return points[points.length - 1].y;
+  }
+
+  // Past either end, continue the end segment's line, so straight curves stay straight
+  const p1 = points[i];
+  const p2 = points[i + 1];
+  const p0 = i > 0 ? points[i - 1] : { x: 2 * p1.x - p2.x, y: 2 * p1.y - p2.y };
+  const p3 = i + 2 < points.length ? points[i + 2] : { x: 2 * p2.x - p1.x, y: 2 * p2.y - p1.y };
+
+  // Normalize t to [0, 1] within the segment
+  const t = p2.x === p1.x ? 0 : (x - p1.x) / (p2.x - p1.x);
+
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  const y = 0.5 * (
+    (2 * p1.y) +
+    (-p0.y + p2.y) * t +
+    (2 * p0.y - 5 * p1.y + 4 * p2.y - p3.y) * t2 +
+    (-p0.y + 3 * p1.y - 3 * p2.y + p3.y) * t3
+  );
+
+  return Math.max(0, Math.min(255, y));
+};
+
+// Sample a curve into a 256-entry lookup table
+export const buildCurveLUT = (points: CurvePoint[]): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    lut[i] = Math.round(interpolateCurve(points, i));
+  }
+  return lut;
+};
+
+// Combine the master RGB curve with each channel curve (master is applied first)
+export const buildCurveLUTs = (curves: CurvesState): CurveLUTs => {
+  const master = buildCurveLUT(curves.rgb);
+  const red = buildCurveLUT(curves.red);
+  const green = buildCurveLUT(curves.green);
+  const blue = buildCurveLUT(curves.blue);
+
+  const combined: CurveLUTs = {
+    red: new Uint8ClampedArray(256),
+    green: new Uint8ClampedArray(256),
+    blue: new Uint8ClampedArray(256)
+  };
+
+  for (let i = 0; i < 256; i++) {
+    combined.red[i] = red[master[i]];
+    combined.green[i] = green[master[i]];
+    combined.blue[i] = blue[master[i]];
+  }
+
+  return combined;
+};
+
+export const isIdentityCurves = (curves: CurvesState | null | undefined): boolean => {
+  if (!curves) return true;
+  return (['rgb', 'red', 'green', 'blue'] as const).every(channel =>
+    curves[channel].every(point => Math.abs(point.x - point.y) < 0.5)
+  );
+};
@@ -0,0 +1,55 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { ImageState, Layer } from '../types/editor';
+import { getCropChange, placeOverlay } from './documentSize';
+
+const imageState: ImageState = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  blur: 0,
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  filter: 'none',
+  curves: null,
+  region: null
+};
+
+const layer = (id: string, position: Layer['position'], width: number, height: number): Layer => ({
+  id,
+  name: id,
+  image: { width, height } as HTMLImageElement,
+  visible: true,
+  opacity: 1,
+  blendMode: 'normal',
+  position,
+  scale: { x: 2, y: 2 },
+  rotation: 10,
+  imageState,
+  locked: false
+});
+
+describe('getCropChange', () => {
+  const base = layer('base', { x: 10, y: 20 }, 100, 80);
+  const overlay = layer('overlay', { x: 40, y: 50 }, 10, 10);
+  const documentLayout = { layers: [base, overlay], width: 120, height: 100 };
+
+  it('keeps the other layers on the same document pixels when the base layer is cropped', () => {
+    // Crop the base layer's pixels from (5, 5): its pixel (30, 30), where the overlay sits, ends up at (25, 25)
+    const change = getCropChange(documentLayout, 50, 40, new DOMMatrix().translateSelf(-5, -5));
+
+    expect(change).toMatchObject({ width: 50, height: 40, resample: null });
+    expect(placeOverlay(overlay, change)).toEqual({ position: { x: 25, y: 25 }, scale: { x: 2, y: 2 }, rotation: 10 });
+  });
+
+  it('turns the other layers with a straightened crop', () => {
+    const toOutput = new DOMMatrix().rotateSelf(90);
+    const placed = placeOverlay(overlay, getCropChange(documentLayout, 80, 100, toOutput));
+
+    expect(placed.position.x).toBeCloseTo(-30);
+    expect(placed.position.y).toBeCloseTo(30);
+    expect(placed.scale.x).toBeCloseTo(2);
+    expect(placed.rotation).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,259 @@
+import { Layer, SelectionMask } from '../types/editor';
+import { resampleCanvas } from './canvasResample';
+import { getLayerSource } from './layerRender';
+import { ResampleOptions } from './resample';
+import { resizeMask, SelectionRect, transformMask } from './selection';
+import { DocumentLayout, getDocumentSize, getLayerToDocumentMatrix } from './viewTransform';
+
+// Canvas Size, Image Size, Trim and cropping the base layer. Each is described as a
+// DocumentChange: the new document size and how old document pixels map onto it. The hook
+// applies it to every layer. Only Image Size touches pixels here; the others move the base
+// layer within the document, and a crop brings its own pixels.
+
+// Where the existing pixels stay when the canvas grows or shrinks (0 = left/top, 1 = right/bottom)
+export interface CanvasAnchor {
+  x: 0 | 0.5 | 1;
+  y: 0 | 0.5 | 1;
+}
+
+export const CANVAS_ANCHORS: CanvasAnchor[] = [0, 0.5, 1].flatMap(y =>
+  [0, 0.5, 1].map(x => ({ x, y } as CanvasAnchor))
+);
+
+export interface DocumentChange {
+  width: number;
+  height: number;
+  toNew: DOMMatrix; // Old document pixels -> new document pixels
+  resample: ResampleOptions | null; // Set when every layer scales with the document; null when only the canvas changes
+  fill?: string; // Colour for new canvas area the bottom layer doesn't cover
+}
+
+export const MAX_DOCUMENT_SIZE = 16384;
+
+const getImageSize = (image: HTMLImageElement) => ({
+  width: image.naturalWidth || image.width,
+  height: image.naturalHeight || image.height
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx };
+};
+
+const validateSize = (width: number, height: number) => {
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width < 1 || height < 1) {
+    throw new Error('Width and height must be at least 1 pixel');
+  }
+  if (width > MAX_DOCUMENT_SIZE || height > MAX_DOCUMENT_SIZE) {
+    throw new Error(`Width and height can be at most ${MAX_DOCUMENT_SIZE} pixels`);
+  }
+};
+
+export const getCanvasSizeChange = (
+  documentLayout: DocumentLayout,
+  width: number,
+  height: number,
+  anchor: CanvasAnchor,
+  fill?: string
+): DocumentChange => {
+  const size = getDocumentSize(documentLayout);
+  if (!size) {
+    throw new Error('Open an image first');
+  }
+  validateSize(width, height);
+
+  const offsetX = Math.round((width - size.width) * anchor.x);
+  const offsetY = Math.round((height - size.height) * anchor.y);
+  return { width, height, toNew: new DOMMatrix().translateSelf(offsetX, offsetY), resample: null, fill };
+};
+
+export const getImageSizeChange = (
+  documentLayout: DocumentLayout,
+  width: number,
+  height: number,
+  resample: ResampleOptions
+): DocumentChange => {
+  const size = getDocumentSize(documentLayout);
+  if (!size) {
+    throw new Error('Open an image first');
+  }
+  validateSize(width, height);
+
+  return {
+    width,
+    height,
+    toNew: new DOMMatrix().scaleSelf(width / size.width, height / size.height),
+    resample
+  };
+};
+
+// Cropping the base layer: the document becomes the crop's output, and the old document maps
+// onto it as the base layer's pixels do (`toOutput` takes them to the output's pixels)
+export const getCropChange = (
+  documentLayout: DocumentLayout,
+  width: number,
+  height: number,
+  toOutput: DOMMatrix
+): DocumentChange => {
+  const base = documentLayout.layers[0];
+  if (!base) {
+    throw new Error('Open an image first');
+  }
+
+  return {
+    width,
+    height,
+    toNew: toOutput.multiply(new DOMMatrix().translateSelf(-base.position.x, -base.position.y)),
+    resample: null
+  };
+};
+
+// Bounds of every pixel any visible layer covers, in document pixels. Null when the whole
+// document is transparent.
+export const getOpaqueBounds = (documentLayout: DocumentLayout): SelectionRect | null => {
+  const size = getDocumentSize(documentLayout);
+  if (!size) return null;
+
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+  documentLayout.layers.forEach((layer, index) => {
+    if (index > 0 && (!layer.visible || layer.opacity === 0)) return;
+    const { width, height } = getImageSize(layer.image);
+    ctx.setTransform(getLayerToDocumentMatrix(documentLayout, layer));
+    ctx.drawImage(getLayerSource(layer), 0, 0, width, height);
+  });
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let minX = canvas.width, minY = canvas.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      if (data[(y * canvas.width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Null when there is nothing to trim
+export const getTrimChange = (documentLayout: DocumentLayout): DocumentChange | null => {
+  const size = getDocumentSize(documentLayout);
+  const bounds = getOpaqueBounds(documentLayout);
+  if (!size) {
+    throw new Error('Open an image first');
+  }
+  if (!bounds) {
+    throw new Error('The document is fully transparent');
+  }
+  if (bounds.width === size.width && bounds.height === size.height) return null;
+
+  return {
+    width: bounds.width,
+    height: bounds.height,
+    toNew: new DOMMatrix().translateSelf(-bounds.x, -bounds.y),
+    resample: null
+  };
+};
+
+// Where the base layer's pixels land in the new document
+const getBaseBounds = (layer: Layer, change: DocumentChange): SelectionRect => {
+  const { width, height } = getImageSize(layer.image);
+  const topLeft = change.toNew.transformPoint(new DOMPoint(layer.position.x, layer.position.y));
+  return { x: topLeft.x, y: topLeft.y, width: width * change.toNew.a, height: height * change.toNew.d };
+};
+
+// With a fill, a base layer that no longer covers the document grows to cover it, keeping
+// any pixels that now fall outside. Null when it needs no new pixels.
+const getFilledBounds = (layer: Layer, isBase: boolean, change: DocumentChange): SelectionRect | null => {
+  if (!isBase || !change.fill || change.resample) return null;
+
+  const bounds = getBaseBounds(layer, change);
+  const left = Math.min(0, bounds.x);
+  const top = Math.min(0, bounds.y);
+  const right = Math.max(change.width, bounds.x + bounds.width);
+  const bottom = Math.max(change.height, bounds.y + bounds.height);
+  if (right - left === bounds.width && bottom - top === bounds.height) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// New pixels for a layer, or null when it keeps its own. Resampling scales every layer;
+// otherwise only a base layer grown for the fill changes.
+export const renderLayerForChange = async (
+  layer: Layer,
+  isBase: boolean,
+  change: DocumentChange
+): Promise<HTMLCanvasElement | null> => {
+  const { width, height } = getImageSize(layer.image);
+
+  if (change.resample) {
+    const targetWidth = Math.max(1, Math.round(width * change.toNew.a));
+    const targetHeight = Math.max(1, Math.round(height * change.toNew.d));
+    return resampleCanvas(layer.image, width, height, targetWidth, targetHeight, change.resample);
+  }
+
+  const filled = getFilledBounds(layer, isBase, change);
+  if (!filled || !change.fill) return null;
+
+  const bounds = getBaseBounds(layer, change);
+  const { canvas, ctx } = createCanvas(filled.width, filled.height);
+  ctx.fillStyle = change.fill;
+  ctx.fillRect(0, 0, filled.width, filled.height);
+  ctx.drawImage(layer.image, bounds.x - filled.x, bounds.y - filled.y, width, height);
+  return canvas;
+};
+
+// Where the base layer's top-left corner goes in the new document
+export const placeBaseLayer = (layer: Layer, change: DocumentChange): Layer['position'] => {
+  const bounds = getFilledBounds(layer, true, change) ?? getBaseBounds(layer, change);
+  return { x: bounds.x, y: bounds.y };
+};
+
+// Carry a mask in a layer's pixels over to its new pixels. Area added around a grown base
+// layer gets `outside` (layer masks show it; regions leave it out).
+export const mapLayerMask = (
+  mask: SelectionMask,
+  layer: Layer,
+  isBase: boolean,
+  change: DocumentChange,
+  newWidth: number,
+  newHeight: number,
+  outside: number = 0
+): SelectionMask => {
+  if (change.resample) return resizeMask(mask, newWidth, newHeight);
+
+  const filled = getFilledBounds(layer, isBase, change);
+  if (!filled) return mask;
+  const bounds = getBaseBounds(layer, change);
+  return transformMask(mask, newWidth, newHeight, new DOMMatrix().translateSelf(filled.x - bounds.x, filled.y - bounds.y), outside);
+};
+
+// Selections live in document pixels, so they move with the document
+export const mapSelection = (selection: SelectionMask, change: DocumentChange): SelectionMask => {
+  return transformMask(selection, change.width, change.height, change.toNew.inverse());
+};
+
+// Move an overlay so it covers the same document pixels in the new document
+export const placeOverlay = (layer: Layer, change: DocumentChange): Pick<Layer, 'position' | 'scale' | 'rotation'> => {
+  const { toNew } = change;
+  const position = toNew.transformPoint(new DOMPoint(layer.position.x, layer.position.y));
+
+  // Resampled overlays already grew or shrank with the document
+  const pixelScale = change.resample ? { x: toNew.a, y: toNew.d } : { x: 1, y: 1 };
+  return {
+    position: { x: position.x, y: position.y },
+    scale: {
+      x: (layer.scale.x * Math.hypot(toNew.a, toNew.b)) / pixelScale.x,
+      y: (layer.scale.y * Math.hypot(toNew.c, toNew.d)) / pixelScale.y
+    },
+    rotation: layer.rotation + (Math.atan2(toNew.b, toNew.a) * 180) / Math.PI
+  };
+};
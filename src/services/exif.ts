@@ -0,0 +1,281 @@
+// Reading and rewriting EXIF. EXIF is a TIFF structure: a byte-order header, then directories
+// of tagged values (IFDs) that point at each other by offset. Rewriting lays every directory
+// out again, so tags can be added, changed or dropped without patching offsets by hand.
+
+export interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array; // Raw value bytes, in the structure's byte order
+}
+
+export interface ExifData {
+  littleEndian: boolean;
+  ifd0: ExifEntry[]; // The main image
+  exif: ExifEntry[]; // Camera settings
+  gps: ExifEntry[];
+  interop: ExifEntry[];
+}
+
+export const EXIF_TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  makerNote: 0x927c,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  interopIfd: 0xa005,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004
+} as const;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+const POINTER_TAGS: number[] = [EXIF_TAGS.exifIfd, EXIF_TAGS.gpsIfd, EXIF_TAGS.interopIfd];
+
+// Values holding offsets only their writer knows how to move: maker notes and raw strip data
+const DROPPED_TAGS: number[] = [EXIF_TAGS.makerNote, 0x0111, 0x0117, 0x0144, 0x0145, 0x0201, 0x0202];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+interface ParsedIfd {
+  entries: ExifEntry[];
+  pointers: Map<number, number>;
+}
+
+const readIfd = (bytes: Uint8Array, view: DataView, offset: number, littleEndian: boolean): ParsedIfd => {
+  const entries: ExifEntry[] = [];
+  const pointers = new Map<number, number>();
+  if (offset < 8 || offset + 2 > bytes.length) return { entries, pointers };
+
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const position = offset + 2 + i * 12;
+    if (position + 12 > bytes.length) break;
+
+    const tag = view.getUint16(position, littleEndian);
+    const type = view.getUint16(position + 2, littleEndian);
+    const valueCount = view.getUint32(position + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (!size || DROPPED_TAGS.includes(tag)) continue;
+
+    const valueOffset = size <= 4 ? position + 8 : view.getUint32(position + 8, littleEndian);
+    if (valueOffset + size > bytes.length) continue;
+
+    if (POINTER_TAGS.includes(tag)) {
+      pointers.set(tag, view.getUint32(position + 8, littleEndian));
+    } else {
+      entries.push({ tag, type, count: valueCount, value: bytes.slice(valueOffset, valueOffset + size) });
+    }
+  }
+
+  return { entries, pointers };
+};
+
+// Null when the bytes aren't a TIFF structure. The thumbnail directory (IFD1) is left out,
+// since it shows the image before any edits.
+export const parseExif = (tiff: Uint8Array): ExifData | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const ifd0 = readIfd(tiff, view, view.getUint32(4, littleEndian), littleEndian);
+  const exif = readIfd(tiff, view, ifd0.pointers.get(EXIF_TAGS.exifIfd) ?? 0, littleEndian);
+  const gps = readIfd(tiff, view, ifd0.pointers.get(EXIF_TAGS.gpsIfd) ?? 0, littleEndian);
+  const interop = readIfd(tiff, view, exif.pointers.get(EXIF_TAGS.interopIfd) ?? 0, littleEndian);
+
+  return {
+    littleEndian,
+    ifd0: ifd0.entries,
+    exif: exif.entries,
+    gps: gps.entries,
+    interop: interop.entries
+  };
+};
+
+const getIfdSize = (entries: ExifEntry[]) => {
+  const data = entries.reduce((sum, entry) => sum + (entry.value.length > 4 ? entry.value.length + (entry.value.length & 1) : 0), 0);
+  return 2 + entries.length * 12 + 4 + data;
+};
+
+const writeIfd = (bytes: Uint8Array, view: DataView, offset: number, entries: ExifEntry[], littleEndian: boolean) => {
+  view.setUint16(offset, entries.length, littleEndian);
+  let dataOffset = offset + 2 + entries.length * 12 + 4;
+
+  entries.forEach((entry, i) => {
+    const position = offset + 2 + i * 12;
+    view.setUint16(position, entry.tag, littleEndian);
+    view.setUint16(position + 2, entry.type, littleEndian);
+    view.setUint32(position + 4, entry.count, littleEndian);
+    if (entry.value.length <= 4) {
+      bytes.set(entry.value, position + 8);
+    } else {
+      view.setUint32(position + 8, dataOffset, littleEndian);
+      bytes.set(entry.value, dataOffset);
+      dataOffset += entry.value.length + (entry.value.length & 1);
+    }
+  });
+
+  // No next directory: IFD1 is never written
+  view.setUint32(offset + 2 + entries.length * 12, 0, littleEndian);
+};
+
+const sortEntries = (entries: ExifEntry[]) => [...entries].sort((a, b) => a.tag - b.tag);
+
+// Lay the directories out one after another: IFD0, Exif, Interop, GPS
+export const buildExif = (data: ExifData): Uint8Array => {
+  const { littleEndian } = data;
+  const pointer = (tag: number) => createLongEntry(tag, 0, littleEndian);
+
+  const interop = sortEntries(data.interop);
+  const exif = sortEntries(interop.length ? [...data.exif, pointer(EXIF_TAGS.interopIfd)] : data.exif);
+  const gps = sortEntries(data.gps);
+  const ifd0 = sortEntries([
+    ...data.ifd0,
+    ...(exif.length ? [pointer(EXIF_TAGS.exifIfd)] : []),
+    ...(gps.length ? [pointer(EXIF_TAGS.gpsIfd)] : [])
+  ]);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + getIfdSize(ifd0);
+  const interopOffset = exifOffset + (exif.length ? getIfdSize(exif) : 0);
+  const gpsOffset = interopOffset + (interop.length ? getIfdSize(interop) : 0);
+  const size = gpsOffset + (gps.length ? getIfdSize(gps) : 0);
+
+  const setPointer = (entries: ExifEntry[], tag: number, offset: number) => {
+    const entry = entries.find(e => e.tag === tag);
+    if (entry) entry.value = createLongEntry(tag, offset, littleEndian).value;
+  };
+  setPointer(ifd0, EXIF_TAGS.exifIfd, exifOffset);
+  setPointer(ifd0, EXIF_TAGS.gpsIfd, gpsOffset);
+  setPointer(exif, EXIF_TAGS.interopIfd, interopOffset);
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d, false);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, ifd0Offset, littleEndian);
+
+  writeIfd(bytes, view, ifd0Offset, ifd0, littleEndian);
+  if (exif.length) writeIfd(bytes, view, exifOffset, exif, littleEndian);
+  if (interop.length) writeIfd(bytes, view, interopOffset, interop, littleEndian);
+  if (gps.length) writeIfd(bytes, view, gpsOffset, gps, littleEndian);
+  return bytes;
+};
+
+// Offset of IFD0's orientation value within the TIFF bytes, for patching it in place
+export const findOrientationOffset = (tiff: Uint8Array): number | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = view.getUint16(0, false) === 0x4949;
+  const offset = view.getUint32(4, littleEndian);
+  if (offset + 2 > tiff.length) return null;
+
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const position = offset + 2 + i * 12;
+    if (position + 12 > tiff.length) break;
+    if (view.getUint16(position, littleEndian) === EXIF_TAGS.orientation &&
+        view.getUint16(position + 2, littleEndian) === TYPE_SHORT) {
+      return position + 8;
+    }
+  }
+  return null;
+};
+
+export const getExifEntry = (entries: ExifEntry[], tag: number): ExifEntry | undefined => {
+  return entries.find(entry => entry.tag === tag);
+};
+
+export const readExifString = (entry: ExifEntry | undefined): string | null => {
+  if (!entry || entry.type !== TYPE_ASCII) return null;
+  const end = entry.value.indexOf(0);
+  const text = textDecoder.decode(end >= 0 ? entry.value.subarray(0, end) : entry.value).trim();
+  return text || null;
+};
+
+// The index-th value of a numeric entry; rationals come back as a fraction
+export const readExifNumber = (entry: ExifEntry | undefined, littleEndian: boolean, index: number = 0): number | null => {
+  if (!entry || index >= entry.count) return null;
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  const size = TYPE_SIZES[entry.type];
+  const offset = index * size;
+
+  switch (entry.type) {
+    case 1:
+    case 7:
+      return view.getUint8(offset);
+    case 6:
+      return view.getInt8(offset);
+    case TYPE_SHORT:
+      return view.getUint16(offset, littleEndian);
+    case 8:
+      return view.getInt16(offset, littleEndian);
+    case TYPE_LONG:
+      return view.getUint32(offset, littleEndian);
+    case 9:
+      return view.getInt32(offset, littleEndian);
+    case 5:
+    case 10: {
+      const read = entry.type === 5
+        ? (o: number) => view.getUint32(o, littleEndian)
+        : (o: number) => view.getInt32(o, littleEndian);
+      const denominator = read(offset + 4);
+      return denominator ? read(offset) / denominator : null;
+    }
+    case 11:
+      return view.getFloat32(offset, littleEndian);
+    case 12:
+      return view.getFloat64(offset, littleEndian);
+    default:
+      return null;
+  }
+};
+
+export const createAsciiEntry = (tag: number, text: string): ExifEntry => {
+  const encoded = textEncoder.encode(text);
+  const value = new Uint8Array(encoded.length + 1);
+  value.set(encoded);
+  return { tag, type: TYPE_ASCII, count: value.length, value };
+};
+
+export const createShortEntry = (tag: number, number: number, littleEndian: boolean): ExifEntry => {
+  const value = new Uint8Array(2);
+  new DataView(value.buffer).setUint16(0, number, littleEndian);
+  return { tag, type: TYPE_SHORT, count: 1, value };
+};
+
+export const createLongEntry = (tag: number, number: number, littleEndian: boolean): ExifEntry => {
+  const value = new Uint8Array(4);
+  new DataView(value.buffer).setUint32(0, number, littleEndian);
+  return { tag, type: TYPE_LONG, count: 1, value };
+};
+
+// Replace an entry with the same tag, or add it; null removes the tag
+export const setExifEntry = (entries: ExifEntry[], tag: number, entry: ExifEntry | null): ExifEntry[] => {
+  const rest = entries.filter(e => e.tag !== tag);
+  return entry ? [...rest, entry] : rest;
+};
@@ -0,0 +1,244 @@
+import { ImageMetadata } from '../types/editor';
+import { CropBounds, detectSubjectBounds } from './autoCrop';
+import { downloadBatchArchive } from './batchArchive';
+import { resampleCanvas } from './canvasResample';
+import { embedMetadata, MetadataExportOptions } from './imageMetadata';
+import { ResampleOptions } from './resample';
+import { AttentionMap, computeAttentionMap, findAttentionWindow } from './saliency';
+import { createZip, ZipEntry } from './zipWriter';
+
+// Export sets: one composition rendered at several preset sizes, each with its own fit and
+// format, and bundled into a single ZIP.
+
+export type ExportFit = 'contain' | 'cover' | 'letterbox';
+export type ExportSetFormat = 'png' | 'jpeg' | 'webp';
+export type CoverFocus = 'saliency' | 'subject' | 'center'; // What a cover crop keeps in frame
+
+export interface ExportSetItem {
+  name: string; // Preset name, used for the file name
+  width: number;
+  height: number;
+  fit: ExportFit;
+  focus: CoverFocus;
+  format: ExportSetFormat;
+  fill: string; // Letterbox bars, and the background for JPEG
+}
+
+export interface ExportSetOptions {
+  quality: number; // 0-1
+  resample: ResampleOptions;
+  metadata?: MetadataExportOptions;
+  sourceMetadata?: ImageMetadata | null;
+}
+
+export const EXPORT_FITS: { value: ExportFit; label: string; description: string }[] = [
+  { value: 'contain', label: 'Contain', description: 'Whole image, at most the preset size' },
+  { value: 'cover', label: 'Cover', description: 'Fills the preset, cropped to keep the focus' },
+  { value: 'letterbox', label: 'Letterbox', description: 'Whole image, padded to the preset size' }
+];
+
+export const COVER_FOCUSES: { value: CoverFocus; label: string; description: string }[] = [
+  { value: 'saliency', label: 'Smart', description: 'Whatever stands out; works offline' },
+  { value: 'subject', label: 'People', description: 'The segmented subject, using the chosen model' },
+  { value: 'center', label: 'Centre', description: 'The middle of the image' }
+];
+
+// Longest side of the copy the attention map is computed from
+const SALIENCY_SAMPLE_SIZE = 512;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How a source lands in one output: the part of it that's used, where that goes, and the
+// size of the output
+export interface FitPlacement {
+  width: number;
+  height: number;
+  crop: Rect;
+  dest: Rect;
+}
+
+// The largest window of the target's aspect ratio, centred on the focus where the image allows
+const getCoverCrop = (sourceWidth: number, sourceHeight: number, aspect: number, focus: CropBounds | null): Rect => {
+  const width = Math.min(sourceWidth, sourceHeight * aspect);
+  const height = width / aspect;
+  const centerX = focus ? focus.x + focus.width / 2 : sourceWidth / 2;
+  const centerY = focus ? focus.y + focus.height / 2 : sourceHeight / 2;
+
+  return {
+    x: Math.min(sourceWidth - width, Math.max(0, centerX - width / 2)),
+    y: Math.min(sourceHeight - height, Math.max(0, centerY - height / 2)),
+    width,
+    height
+  };
+};
+
+// `coverCrop` picks the part a cover fit keeps; left out, it's the centre
+export const getFitPlacement = (
+  sourceWidth: number,
+  sourceHeight: number,
+  item: Pick<ExportSetItem, 'width' | 'height' | 'fit'>,
+  coverCrop: Rect | null = null
+): FitPlacement => {
+  const full = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+
+  if (item.fit === 'cover') {
+    return {
+      width: item.width,
+      height: item.height,
+      crop: coverCrop ?? getCoverCrop(sourceWidth, sourceHeight, item.width / item.height, null),
+      dest: { x: 0, y: 0, width: item.width, height: item.height }
+    };
+  }
+
+  const scale = Math.min(item.width / sourceWidth, item.height / sourceHeight);
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+  if (item.fit === 'contain') {
+    return { width, height, crop: full, dest: { x: 0, y: 0, width, height } };
+  }
+
+  return {
+    width: item.width,
+    height: item.height,
+    crop: full,
+    dest: { x: Math.round((item.width - width) / 2), y: Math.round((item.height - height) / 2), width, height }
+  };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx };
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode an export set image'));
+      }
+    }, type, quality);
+  });
+};
+
+const toFileName = (item: ExportSetItem, extension: string) => {
+  const slug = item.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'image';
+  return `${slug}_${item.width}x${item.height}.${extension}`;
+};
+
+// What the cover crops can centre on, found once for the whole set
+interface SetFocus {
+  subject: CropBounds | null;
+  attention: { map: AttentionMap; scale: number } | null; // Map of a copy `scale` times the source size
+}
+
+const getCoverWindow = (source: HTMLCanvasElement, item: ExportSetItem, focus: SetFocus): Rect | null => {
+  if (item.fit !== 'cover') return null;
+  const aspect = item.width / item.height;
+
+  if (item.focus === 'saliency' && focus.attention) {
+    const { map, scale } = focus.attention;
+    const best = findAttentionWindow(map, aspect);
+    const width = Math.min(source.width, best.width / scale);
+    const height = Math.min(source.height, best.height / scale);
+    return {
+      x: Math.min(source.width - width, Math.max(0, best.x / scale)),
+      y: Math.min(source.height - height, Math.max(0, best.y / scale)),
+      width,
+      height
+    };
+  }
+  return getCoverCrop(source.width, source.height, aspect, item.focus === 'subject' ? focus.subject : null);
+};
+
+const getAttention = (source: HTMLCanvasElement): SetFocus['attention'] => {
+  const scale = Math.min(1, SALIENCY_SAMPLE_SIZE / Math.max(source.width, source.height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { map: computeAttentionMap(ctx.getImageData(0, 0, canvas.width, canvas.height)), scale: canvas.width / source.width };
+};
+
+const renderSetItem = async (
+  source: HTMLCanvasElement,
+  item: ExportSetItem,
+  focus: SetFocus,
+  options: ExportSetOptions
+): Promise<ZipEntry> => {
+  const placement = getFitPlacement(source.width, source.height, item, getCoverWindow(source, item, focus));
+  const { crop, dest } = placement;
+
+  // Crop before resampling, so the filter only sees pixels that end up in the output
+  let cropped = source;
+  if (crop.width !== source.width || crop.height !== source.height) {
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(crop.width)), Math.max(1, Math.round(crop.height)));
+    ctx.drawImage(source, -Math.round(crop.x), -Math.round(crop.y));
+    cropped = canvas;
+  }
+  const resized = await resampleCanvas(cropped, cropped.width, cropped.height, dest.width, dest.height, options.resample);
+
+  const { canvas, ctx } = createCanvas(placement.width, placement.height);
+  if (item.fit === 'letterbox' || item.format === 'jpeg') {
+    ctx.fillStyle = item.fill;
+    ctx.fillRect(0, 0, placement.width, placement.height);
+  }
+  ctx.drawImage(resized, dest.x, dest.y);
+
+  const blob = await encodeCanvas(canvas, `image/${item.format}`, options.quality);
+  // Browsers without a WebP encoder hand back PNG
+  const format = blob.type === 'image/jpeg' ? 'jpeg' : blob.type === 'image/webp' ? 'webp' : 'png';
+  let data = new Uint8Array(await blob.arrayBuffer());
+  if (options.metadata && format !== 'webp') {
+    data = embedMetadata(data, format, options.sourceMetadata ?? null, options.metadata, placement);
+  }
+
+  return { name: toFileName(item, format === 'jpeg' ? 'jpg' : format), data, modified: new Date() };
+};
+
+// Render every item from a full-resolution composition and bundle them into one ZIP
+export const createExportSet = async (
+  source: HTMLCanvasElement,
+  items: ExportSetItem[],
+  options: ExportSetOptions
+): Promise<Blob> => {
+  if (items.length === 0) {
+    throw new Error('Choose at least one preset to export');
+  }
+
+  // Without a subject or attention map, cover crops keep the centre
+  const covers = items.filter(item => item.fit === 'cover');
+  const focus: SetFocus = { subject: null, attention: null };
+  if (covers.some(item => item.focus === 'subject')) {
+    try {
+      focus.subject = await detectSubjectBounds(source);
+    } catch (error) {
+      console.warn('Subject detection failed, cropping around the centre:', error);
+    }
+  }
+  if (covers.some(item => item.focus === 'saliency')) {
+    focus.attention = getAttention(source);
+  }
+
+  const entries: ZipEntry[] = [];
+  for (const item of items) {
+    entries.push(await renderSetItem(source, item, focus, options));
+  }
+
+  console.log(`📦 Rendered an export set of ${entries.length} size(s)`);
+  return createZip(entries, 'store');
+};
+
+export const downloadExportSet = (archive: Blob): void => {
+  downloadBatchArchive(archive, `export-set-${Date.now()}`);
+};
@@ -0,0 +1,317 @@
+import { buildQuantizationPalette, ColorRGB } from './colorAnalysis';
+
+export interface GifOptions {
+  maxColors: number; // 2-256, including the transparent slot
+  dithering: boolean;
+  transparent: boolean;
+  animated: boolean; // Each visible layer becomes one frame
+  frameDelay: number; // Milliseconds per frame
+  loop: boolean;
+}
+
+export interface GifFrame {
+  imageData: ImageData;
+  delay?: number; // Milliseconds, overrides the default frame delay
+}
+
+interface ByteWriter {
+  writeByte: (value: number) => void;
+  writeBytes: (values: ArrayLike<number>) => void;
+  writeUint16: (value: number) => void;
+  writeString: (value: string) => void;
+  toUint8Array: () => Uint8Array;
+}
+
+export const defaultGifOptions: GifOptions = {
+  maxColors: 256,
+  dithering: true,
+  transparent: false,
+  animated: false,
+  frameDelay: 500,
+  loop: true
+};
+
+// Alpha below this is written as the transparent index
+const ALPHA_THRESHOLD = 128;
+const MAX_LZW_CODE = 4096;
+
+// Growable little-endian byte buffer
+const createByteWriter = (initialSize: number = 1024 * 64): ByteWriter => {
+  let buffer = new Uint8Array(initialSize);
+  let length = 0;
+
+  const ensureCapacity = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let size = buffer.length * 2;
+    while (size < length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+
+  return {
+    writeByte: (value: number) => {
+      ensureCapacity(1);
+      buffer[length++] = value & 0xff;
+    },
+    writeBytes: (values: ArrayLike<number>) => {
+      ensureCapacity(values.length);
+      for (let i = 0; i < values.length; i++) {
+        buffer[length++] = values[i] & 0xff;
+      }
+    },
+    writeUint16: (value: number) => {
+      ensureCapacity(2);
+      buffer[length++] = value & 0xff;
+      buffer[length++] = (value >> 8) & 0xff;
+    },
+    writeString: (value: string) => {
+      ensureCapacity(value.length);
+      for (let i = 0; i < value.length; i++) {
+        buffer[length++] = value.charCodeAt(i) & 0xff;
+      }
+    },
+    toUint8Array: () => buffer.slice(0, length)
+  };
+};
+
+// Nearest palette entry lookup, cached on 15-bit RGB
+const createPaletteLookup = (palette: ColorRGB[], firstIndex: number) => {
+  const cache = new Int16Array(32768).fill(-1);
+
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let bestIndex = firstIndex;
+    let bestDistance = Infinity;
+    for (let i = firstIndex; i < palette.length; i++) {
+      const dr = r - palette[i].r;
+      const dg = g - palette[i].g;
+      const db = b - palette[i].b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = i;
+      }
+    }
+
+    cache[key] = bestIndex;
+    return bestIndex;
+  };
+};
+
+// Map RGBA pixels to palette indices, optionally with Floyd-Steinberg error diffusion
+const indexFrame = (
+  imageData: ImageData,
+  palette: ColorRGB[],
+  lookup: (r: number, g: number, b: number) => number,
+  dithering: boolean,
+  transparentIndex: number | null
+): Uint8Array => {
+  const { data, width, height } = imageData;
+  const indices = new Uint8Array(width * height);
+
+  // Error buffers for the current and next row (RGB per pixel, padded by one on each side)
+  let currentErrors = new Float32Array((width + 2) * 3);
+  let nextErrors = new Float32Array((width + 2) * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const i = pixel * 4;
+
+      if (transparentIndex !== null && data[i + 3] < ALPHA_THRESHOLD) {
+        indices[pixel] = transparentIndex;
+        continue;
+      }
+
+      const e = (x + 1) * 3;
+      const r = Math.max(0, Math.min(255, Math.round(data[i] + currentErrors[e])));
+      const g = Math.max(0, Math.min(255, Math.round(data[i + 1] + currentErrors[e + 1])));
+      const b = Math.max(0, Math.min(255, Math.round(data[i + 2] + currentErrors[e + 2])));
+
+      const index = lookup(r, g, b);
+      indices[pixel] = index;
+
+      if (dithering) {
+        const errors = [r - palette[index].r, g - palette[index].g, b - palette[index].b];
+        for (let c = 0; c < 3; c++) {
+          currentErrors[e + 3 + c] += errors[c] * 7 / 16;
+          nextErrors[e - 3 + c] += errors[c] * 3 / 16;
+          nextErrors[e + c] += errors[c] * 5 / 16;
+          nextErrors[e + 3 + c] += errors[c] * 1 / 16;
+        }
+      }
+    }
+
+    const finished = currentErrors;
+    currentErrors = nextErrors;
+    nextErrors = finished;
+    nextErrors.fill(0);
+  }
+
+  return indices;
+};
+
+// GIF-flavoured LZW: variable code size up to 12 bits, clear code when the table fills
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const output = createByteWriter(Math.max(1024, indices.length >> 1));
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const dictionary = new Map<number, number>();
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.writeByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dictionary.get(key);
+
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+
+    if (nextCode < MAX_LZW_CODE) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) {
+        codeSize++;
+      }
+    } else {
+      emit(clearCode);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(endCode);
+
+  if (bitCount > 0) {
+    output.writeByte(bitBuffer & 0xff);
+  }
+
+  return output.toUint8Array();
+};
+
+// Split data into length-prefixed sub-blocks of at most 255 bytes
+const writeSubBlocks = (writer: ByteWriter, data: Uint8Array) => {
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const chunk = data.subarray(offset, Math.min(offset + 255, data.length));
+    writer.writeByte(chunk.length);
+    writer.writeBytes(chunk);
+  }
+  writer.writeByte(0); // Block terminator
+};
+
+// Encode one or more RGBA frames as a GIF89a file with a shared global palette
+export const encodeGIF = (
+  frames: GifFrame[],
+  width: number,
+  height: number,
+  options: Partial<GifOptions> = {}
+): Uint8Array => {
+  if (frames.length === 0) {
+    throw new Error('GIF export needs at least one frame');
+  }
+  if (width < 1 || height < 1 || width > 65535 || height > 65535) {
+    throw new Error(`GIF dimensions ${width}×${height} are out of range`);
+  }
+
+  const { maxColors, dithering, transparent, frameDelay, loop } = { ...defaultGifOptions, ...options };
+  const colorLimit = Math.max(2, Math.min(256, Math.round(maxColors)));
+
+  // Quantize across all frames so every frame shares the global color table.
+  // When transparency is on, index 0 is reserved for transparent pixels.
+  const quantized = buildQuantizationPalette(
+    frames.map(frame => frame.imageData),
+    transparent ? colorLimit - 1 : colorLimit
+  );
+  const palette: ColorRGB[] = transparent ? [{ r: 0, g: 0, b: 0 }, ...quantized] : quantized;
+  const transparentIndex = transparent ? 0 : null;
+
+  const paletteBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const tableSize = 1 << paletteBits;
+  const minCodeSize = Math.max(2, paletteBits);
+  const lookup = createPaletteLookup(palette, transparent ? 1 : 0);
+
+  const writer = createByteWriter();
+
+  // Header and logical screen descriptor
+  writer.writeString('GIF89a');
+  writer.writeUint16(width);
+  writer.writeUint16(height);
+  writer.writeByte(0x80 | ((paletteBits - 1) << 4) | (paletteBits - 1)); // Global color table present
+  writer.writeByte(0); // Background color index
+  writer.writeByte(0); // Pixel aspect ratio
+
+  // Global color table, padded to a power of two
+  for (let i = 0; i < tableSize; i++) {
+    const color = palette[i] ?? { r: 0, g: 0, b: 0 };
+    writer.writeBytes([color.r, color.g, color.b]);
+  }
+
+  // NETSCAPE2.0 application extension makes browsers loop the animation
+  if (frames.length > 1) {
+    writer.writeBytes([0x21, 0xff, 0x0b]);
+    writer.writeString('NETSCAPE2.0');
+    writer.writeBytes([0x03, 0x01]);
+    writer.writeUint16(loop ? 0 : 1); // 0 = loop forever
+    writer.writeByte(0);
+  }
+
+  frames.forEach(frame => {
+    if (frame.imageData.width !== width || frame.imageData.height !== height) {
+      throw new Error('All GIF frames must share the same dimensions');
+    }
+
+    // Graphic control extension: delay, disposal and transparency
+    const delay = Math.round((frame.delay ?? frameDelay) / 10); // GIF delays are in 1/100 s
+    const disposal = frames.length > 1 ? (transparent ? 2 : 1) : 0;
+    writer.writeBytes([0x21, 0xf9, 0x04]);
+    writer.writeByte((disposal << 2) | (transparent ? 1 : 0));
+    writer.writeUint16(frames.length > 1 ? Math.max(2, delay) : 0);
+    writer.writeByte(transparentIndex ?? 0);
+    writer.writeByte(0);
+
+    // Image descriptor covering the full canvas, using the global color table
+    writer.writeByte(0x2c);
+    writer.writeUint16(0);
+    writer.writeUint16(0);
+    writer.writeUint16(width);
+    writer.writeUint16(height);
+    writer.writeByte(0);
+
+    const indices = indexFrame(frame.imageData, palette, lookup, dithering, transparentIndex);
+    writer.writeByte(minCodeSize);
+    writeSubBlocks(writer, lzwEncode(indices, minCodeSize));
+  });
+
+  writer.writeByte(0x3b); // Trailer
+
+  console.log(`🎞️ Encoded GIF: ${frames.length} frame(s), ${palette.length} colors`);
+  return writer.toUint8Array();
+};
@@ -0,0 +1,95 @@
+import { DocumentSnapshot, HistoryState, HistoryStep, Layer } from '../types/editor';
+
+// Pixel snapshots kept for undo are evicted oldest-first beyond this many bytes
+export const HISTORY_MEMORY_LIMIT = 512 * 1024 * 1024;
+export const HISTORY_STEP_LIMIT = 200;
+
+// Steps with the same coalesce key this close together merge into one (slider drags etc.)
+const COALESCE_WINDOW = 1000;
+
+const generateStepId = (): string => {
+  return `step-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const createStep = (name: string, document: DocumentSnapshot, coalesceKey?: string): HistoryStep => ({
+  id: generateStepId(),
+  name,
+  timestamp: Date.now(),
+  document,
+  coalesceKey
+});
+
+export const emptyHistory: HistoryState = { steps: [], index: -1 };
+
+// Start a fresh history whose first step is the given document
+export const createHistory = (name: string, document: DocumentSnapshot): HistoryState => ({
+  steps: [createStep(name, document)],
+  index: 0
+});
+
+const getImageBytes = (image: HTMLImageElement): number => {
+  return (image.naturalWidth || image.width) * (image.naturalHeight || image.height) * 4;
+};
+
+// Bytes held by a layer's pixels, mask and adjustment region
+const collectLayerMemory = (layer: Layer, seen: Set<object>): number => {
+  let bytes = 0;
+  if (!seen.has(layer.image)) {
+    seen.add(layer.image);
+    bytes += getImageBytes(layer.image);
+  }
+  [layer.mask, layer.imageState.region].forEach(mask => {
+    if (mask && !seen.has(mask)) {
+      seen.add(mask);
+      bytes += mask.data.length;
+    }
+  });
+  return bytes;
+};
+
+// Estimated memory used by the history. Layers are immutable, so pixels shared between
+// steps are only counted once.
+export const getHistoryMemory = (history: HistoryState): number => {
+  const seen = new Set<object>();
+  return history.steps.reduce((total, step) => {
+    return total + step.document.layers.reduce((sum, layer) => sum + collectLayerMemory(layer, seen), 0);
+  }, 0);
+};
+
+// Drop the oldest steps until the history fits its limits. The current step is always kept.
+const evictSteps = (history: HistoryState, memoryLimit: number): HistoryState => {
+  let { steps, index } = history;
+
+  while (index > 0 && (steps.length > HISTORY_STEP_LIMIT || getHistoryMemory({ steps, index }) > memoryLimit)) {
+    steps = steps.slice(1);
+    index--;
+  }
+
+  return steps === history.steps ? history : { steps, index };
+};
+
+// Record a new document state after the current step, discarding any redo steps
+export const pushHistoryStep = (
+  history: HistoryState,
+  name: string,
+  document: DocumentSnapshot,
+  coalesceKey?: string,
+  memoryLimit = HISTORY_MEMORY_LIMIT
+): HistoryState => {
+  const steps = history.steps.slice(0, history.index + 1);
+  const current = steps[steps.length - 1];
+
+  if (
+    coalesceKey &&
+    current &&
+    steps.length > 1 &&
+    current.coalesceKey === coalesceKey &&
+    Date.now() - current.timestamp < COALESCE_WINDOW
+  ) {
+    steps[steps.length - 1] = { ...current, document, timestamp: Date.now() };
+    return evictSteps({ steps, index: steps.length - 1 }, memoryLimit);
+  }
+
+  steps.push(createStep(name, document, coalesceKey));
+  return evictSteps({ steps, index: steps.length - 1 }, memoryLimit);
+};
@@ -0,0 +1,160 @@
+export const ICO_SIZES = [16, 32, 48, 64, 128, 256];
+export const ICNS_SIZES = [16, 32, 64, 128, 256, 512, 1024];
+
+// PNG-based ICNS element types by pixel size
+const ICNS_TYPES: Record<number, string> = {
+  16: 'icp4',
+  32: 'icp5',
+  64: 'icp6',
+  128: 'ic07',
+  256: 'ic08',
+  512: 'ic09',
+  1024: 'ic10'
+};
+
+interface IconImage {
+  size: number;
+  png: Uint8Array;
+}
+
+// Resample to a square icon, halving in steps so large sources stay sharp.
+// Non-square sources are centred on a transparent square.
+export const resampleIcon = (source: HTMLCanvasElement, size: number): HTMLCanvasElement => {
+  let current = source;
+  let currentWidth = source.width;
+  let currentHeight = source.height;
+  const fitScale = Math.min(size / source.width, size / source.height);
+  const targetWidth = Math.max(1, Math.round(source.width * fitScale));
+  const targetHeight = Math.max(1, Math.round(source.height * fitScale));
+
+  while (currentWidth / 2 >= targetWidth && currentHeight / 2 >= targetHeight) {
+    const step = document.createElement('canvas');
+    step.width = Math.round(currentWidth / 2);
+    step.height = Math.round(currentHeight / 2);
+    const stepCtx = step.getContext('2d')!;
+    stepCtx.imageSmoothingEnabled = true;
+    stepCtx.imageSmoothingQuality = 'high';
+    stepCtx.drawImage(current, 0, 0, step.width, step.height);
+    current = step;
+    currentWidth = step.width;
+    currentHeight = step.height;
+  }
+
+  const icon = document.createElement('canvas');
+  icon.width = size;
+  icon.height = size;
+  const ctx = icon.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    current,
+    Math.round((size - targetWidth) / 2),
+    Math.round((size - targetHeight) / 2),
+    targetWidth,
+    targetHeight
+  );
+  return icon;
+};
+
+const canvasToPNG = (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error('Unable to encode icon image as PNG'));
+        return;
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/png');
+  });
+};
+
+const renderIconImages = async (source: HTMLCanvasElement, sizes: number[]): Promise<IconImage[]> => {
+  const uniqueSizes = Array.from(new Set(sizes)).sort((a, b) => a - b);
+  if (uniqueSizes.length === 0) {
+    throw new Error('Select at least one icon size');
+  }
+
+  return Promise.all(uniqueSizes.map(async size => ({
+    size,
+    png: await canvasToPNG(resampleIcon(source, size))
+  })));
+};
+
+// Build a Windows ICO container with one PNG-compressed entry per size
+export const encodeICO = async (source: HTMLCanvasElement, sizes: number[] = ICO_SIZES): Promise<Uint8Array> => {
+  const invalid = sizes.filter(size => size < 1 || size > 256);
+  if (invalid.length > 0) {
+    throw new Error(`ICO sizes must be between 1 and 256 pixels (got ${invalid.join(', ')})`);
+  }
+
+  const images = await renderIconImages(source, sizes);
+  const headerSize = 6 + images.length * 16;
+  const totalSize = headerSize + images.reduce((sum, image) => sum + image.png.length, 0);
+
+  const bytes = new Uint8Array(totalSize);
+  const view = new DataView(bytes.buffer);
+
+  // ICONDIR
+  view.setUint16(0, 0, true); // Reserved
+  view.setUint16(2, 1, true); // Type: icon
+  view.setUint16(4, images.length, true);
+
+  // ICONDIRENTRY per image, followed by the PNG data
+  let offset = headerSize;
+  images.forEach((image, index) => {
+    const entry = 6 + index * 16;
+    view.setUint8(entry, image.size >= 256 ? 0 : image.size); // 0 means 256
+    view.setUint8(entry + 1, image.size >= 256 ? 0 : image.size);
+    view.setUint8(entry + 2, 0); // No palette
+    view.setUint8(entry + 3, 0); // Reserved
+    view.setUint16(entry + 4, 1, true); // Color planes
+    view.setUint16(entry + 6, 32, true); // Bits per pixel
+    view.setUint32(entry + 8, image.png.length, true);
+    view.setUint32(entry + 12, offset, true);
+
+    bytes.set(image.png, offset);
+    offset += image.png.length;
+  });
+
+  console.log(`🖼️ Built ICO with sizes: ${images.map(image => image.size).join(', ')}`);
+  return bytes;
+};
+
+// Build a macOS ICNS container from PNG elements (sizes without a PNG type are skipped)
+export const encodeICNS = async (source: HTMLCanvasElement, sizes: number[] = ICNS_SIZES): Promise<Uint8Array> => {
+  const supportedSizes = sizes.filter(size => ICNS_TYPES[size]);
+  if (supportedSizes.length < sizes.length) {
+    console.warn('ICNS has no PNG element for sizes:', sizes.filter(size => !ICNS_TYPES[size]).join(', '));
+  }
+
+  const images = await renderIconImages(source, supportedSizes);
+  const totalSize = 8 + images.reduce((sum, image) => sum + 8 + image.png.length, 0);
+
+  const bytes = new Uint8Array(totalSize);
+  const view = new DataView(bytes.buffer);
+
+  const writeType = (offset: number, type: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, type.charCodeAt(i));
+    }
+  };
+
+  // ICNS is big-endian: magic, total length, then (type, length, data) elements
+  writeType(0, 'icns');
+  view.setUint32(4, totalSize, false);
+
+  let offset = 8;
+  images.forEach(image => {
+    writeType(offset, ICNS_TYPES[image.size]);
+    view.setUint32(offset + 4, 8 + image.png.length, false);
+    bytes.set(image.png, offset + 8);
+    offset += 8 + image.png.length;
+  });
+
+  console.log(`🍎 Built ICNS with sizes: ${images.map(image => image.size).join(', ')}`);
+  return bytes;
+};
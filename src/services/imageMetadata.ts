@@ -0,0 +1,525 @@
+import { ImageMetadata } from '../types/editor';
+import {
+  buildExif,
+  createAsciiEntry,
+  createLongEntry,
+  createShortEntry,
+  EXIF_TAGS,
+  ExifData,
+  findOrientationOffset,
+  getExifEntry,
+  parseExif,
+  readExifNumber,
+  readExifString,
+  setExifEntry
+} from './exif';
+import { crc32 } from './zipWriter';
+
+// Metadata in JPEG, PNG and WebP files. It is read on import, so layers load upright and
+// keep their camera data, and written back into JPEG (APP1) and PNG (eXIf, iTXt) exports.
+
+export type MetadataPolicy = 'keep' | 'strip-gps' | 'strip';
+
+export interface MetadataExportOptions {
+  policy: MetadataPolicy;
+  author: string; // Written as EXIF Artist and PNG Author; empty leaves it out
+  copyright: string;
+}
+
+export const METADATA_POLICIES: { value: MetadataPolicy; label: string; description: string }[] = [
+  { value: 'keep', label: 'Keep', description: 'Camera data, date and location' },
+  { value: 'strip-gps', label: 'Strip Location', description: 'Everything except GPS coordinates' },
+  { value: 'strip', label: 'Strip All', description: 'Only the author and copyright below' }
+];
+
+// What the UI shows about a file's metadata
+export interface MetadataSummary {
+  camera: string | null;
+  lens: string | null;
+  takenAt: string | null;
+  exposure: string | null;
+  author: string | null;
+  copyright: string | null;
+  location: { latitude: number; longitude: number } | null;
+  hasColorProfile: boolean;
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+const latin1Decoder = new TextDecoder('latin1');
+
+// Where a file's EXIF sits, so its orientation can be patched before decoding
+interface ExifLocation {
+  offset: number; // Start of the TIFF structure in the file
+  pngChunk?: { start: number; end: number }; // Chunk type and data, which the CRC after them covers
+}
+
+interface ParsedFile {
+  metadata: ImageMetadata;
+  exifLocation: ExifLocation | null;
+}
+
+const readAscii = (bytes: Uint8Array, start: number, end: number) => {
+  return String.fromCharCode(...bytes.subarray(start, end));
+};
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  return readAscii(bytes, offset, offset + text.length) === text;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const createMetadata = (): ImageMetadata => ({ orientation: 1, exif: null, xmp: null, icc: null, text: {} });
+
+const parseJpeg = (bytes: Uint8Array): ParsedFile => {
+  const metadata = createMetadata();
+  let exifLocation: ExifLocation | null = null;
+  const iccChunks: Uint8Array[] = [];
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Metadata always comes before the scan data
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+
+    if (marker === 0xe1 && !metadata.exif && startsWith(bytes, start, EXIF_HEADER)) {
+      metadata.exif = bytes.slice(start + EXIF_HEADER.length, end);
+      exifLocation = { offset: start + EXIF_HEADER.length };
+    } else if (marker === 0xe1 && startsWith(bytes, start, XMP_HEADER)) {
+      metadata.xmp = textDecoder.decode(bytes.subarray(start + XMP_HEADER.length, end));
+    } else if (marker === 0xe2 && startsWith(bytes, start, ICC_HEADER)) {
+      // Profiles over 64 KB are split across numbered segments
+      iccChunks[bytes[start + ICC_HEADER.length] - 1] = bytes.slice(start + ICC_HEADER.length + 2, end);
+    }
+    offset = end;
+  }
+
+  if (iccChunks.length) {
+    metadata.icc = concatBytes(iccChunks.filter(Boolean));
+  }
+  return { metadata, exifLocation };
+};
+
+const parsePng = async (bytes: Uint8Array): Promise<ParsedFile> => {
+  const metadata = createMetadata();
+  let exifLocation: ExifLocation | null = null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset, false);
+    const type = readAscii(bytes, offset + 4, offset + 8);
+    const start = offset + 8;
+    const end = start + length;
+    if (type === 'IEND' || end + 4 > bytes.length) break;
+
+    const data = bytes.subarray(start, end);
+    const keywordEnd = data.indexOf(0);
+    const keyword = keywordEnd > 0 ? latin1Decoder.decode(data.subarray(0, keywordEnd)) : '';
+
+    switch (type) {
+      case 'eXIf':
+        metadata.exif = data.slice();
+        exifLocation = { offset: start, pngChunk: { start: offset + 4, end } };
+        break;
+      case 'iCCP':
+        if (keywordEnd > 0) metadata.icc = await inflate(data.subarray(keywordEnd + 2));
+        break;
+      case 'tEXt':
+        if (keywordEnd > 0) metadata.text[keyword] = latin1Decoder.decode(data.subarray(keywordEnd + 1));
+        break;
+      case 'zTXt':
+        if (keywordEnd > 0) metadata.text[keyword] = latin1Decoder.decode(await inflate(data.subarray(keywordEnd + 2)));
+        break;
+      case 'iTXt': {
+        if (keywordEnd <= 0) break;
+        // Keyword, compression flag and method, language tag, translated keyword, then UTF-8 text
+        const compressed = data[keywordEnd + 1] === 1;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+        if (translatedEnd < 0) break;
+        const body = data.subarray(translatedEnd + 1);
+        const text = textDecoder.decode(compressed ? await inflate(body) : body);
+        if (keyword === XMP_KEYWORD) {
+          metadata.xmp = text;
+        } else {
+          metadata.text[keyword] = text;
+        }
+        break;
+      }
+    }
+    offset = end + 4;
+  }
+
+  return { metadata, exifLocation };
+};
+
+const parseWebp = (bytes: Uint8Array): ParsedFile => {
+  const metadata = createMetadata();
+  let exifLocation: ExifLocation | null = null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, offset + 4);
+    const size = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    const end = start + size;
+    if (end > bytes.length) break;
+
+    if (type === 'EXIF') {
+      // Some writers keep the JPEG-style header in front of the TIFF structure
+      const tiffStart = startsWith(bytes, start, EXIF_HEADER) ? start + EXIF_HEADER.length : start;
+      metadata.exif = bytes.slice(tiffStart, end);
+      exifLocation = { offset: tiffStart };
+    } else if (type === 'XMP ') {
+      metadata.xmp = textDecoder.decode(bytes.subarray(start, end));
+    } else if (type === 'ICCP') {
+      metadata.icc = bytes.slice(start, end);
+    }
+    offset = end + (size & 1);
+  }
+
+  return { metadata, exifLocation };
+};
+
+const parseFile = async (bytes: Uint8Array): Promise<ParsedFile | null> => {
+  let parsed: ParsedFile;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    parsed = parseJpeg(bytes);
+  } else if (PNG_SIGNATURE.every((value, i) => bytes[i] === value)) {
+    parsed = await parsePng(bytes);
+  } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+    parsed = parseWebp(bytes);
+  } else {
+    return null;
+  }
+
+  const exif = parsed.metadata.exif ? parseExif(parsed.metadata.exif) : null;
+  const orientation = exif ? readExifNumber(getExifEntry(exif.ifd0, EXIF_TAGS.orientation), exif.littleEndian) : null;
+  if (orientation && orientation >= 1 && orientation <= 8) {
+    parsed.metadata.orientation = orientation;
+  }
+  return parsed;
+};
+
+// Null for formats without metadata support
+export const parseImageMetadata = async (bytes: Uint8Array): Promise<ImageMetadata | null> => {
+  return (await parseFile(bytes))?.metadata ?? null;
+};
+
+const decodeImage = (blob: Blob, name: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Unable to decode ${name}`));
+    img.src = URL.createObjectURL(blob);
+  });
+};
+
+// Draw a decoded image turned by an EXIF orientation (2-8)
+const orientImage = (image: HTMLImageElement, orientation: number): HTMLCanvasElement => {
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  const swapsSides = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  canvas.width = swapsSides ? height : width;
+  canvas.height = swapsSides ? width : height;
+
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, height, 0],
+    7: [0, -1, -1, 0, height, width],
+    8: [0, -1, 1, 0, 0, width]
+  };
+  ctx.setTransform(...transforms[orientation]);
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+};
+
+const canvasToImage = (canvas: HTMLCanvasElement, name: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error(`Unable to encode ${name}`));
+        return;
+      }
+      decodeImage(blob, name).then(resolve, reject);
+    }, 'image/png');
+  });
+};
+
+// Decode an image file with its metadata, turned upright by its EXIF orientation. Browsers
+// disagree on whether they apply the orientation themselves, so the tag is reset to 1 in a
+// copy of the file before decoding and the turn is applied here instead.
+export const readImageFile = async (file: File): Promise<{ image: HTMLImageElement; metadata: ImageMetadata | null }> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let parsed: ParsedFile | null = null;
+  try {
+    parsed = await parseFile(bytes);
+  } catch (error) {
+    console.warn(`Unable to read metadata from ${file.name}:`, error);
+  }
+
+  const metadata = parsed?.metadata ?? null;
+  const location = parsed?.exifLocation;
+  const orientationOffset = metadata?.exif ? findOrientationOffset(metadata.exif) : null;
+  if (!metadata || metadata.orientation === 1 || !location || orientationOffset === null) {
+    return { image: await decodeImage(file, file.name), metadata };
+  }
+
+  const patched = bytes.slice();
+  const view = new DataView(patched.buffer);
+  const littleEndian = patched[location.offset] === 0x49;
+  view.setUint16(location.offset + orientationOffset, 1, littleEndian);
+  if (location.pngChunk) {
+    const { start, end } = location.pngChunk;
+    view.setUint32(end, crc32(patched.subarray(start, end)), false);
+  }
+
+  const decoded = await decodeImage(new Blob([patched], { type: file.type }), file.name);
+  const image = await canvasToImage(orientImage(decoded, metadata.orientation), file.name);
+  URL.revokeObjectURL(decoded.src);
+  console.log(`🧭 Applied EXIF orientation ${metadata.orientation} to ${file.name}`);
+  return { image, metadata };
+};
+
+const formatExposureTime = (seconds: number) => {
+  return seconds < 1 ? `1/${Math.round(1 / seconds)}s` : `${Math.round(seconds * 10) / 10}s`;
+};
+
+// Degrees, minutes and seconds, negative south of the equator and west of Greenwich
+const readCoordinate = (exif: ExifData, valueTag: number, refTag: number): number | null => {
+  const entry = getExifEntry(exif.gps, valueTag);
+  const parts = [0, 1, 2].map(i => readExifNumber(entry, exif.littleEndian, i));
+  if (parts[0] === null) return null;
+  const value = parts[0] + (parts[1] ?? 0) / 60 + (parts[2] ?? 0) / 3600;
+  const ref = readExifString(getExifEntry(exif.gps, refTag));
+  return ref === 'S' || ref === 'W' ? -value : value;
+};
+
+export const summarizeMetadata = (metadata: ImageMetadata | null | undefined): MetadataSummary => {
+  const exif = metadata?.exif ? parseExif(metadata.exif) : null;
+  const ifd0 = (tag: number) => (exif ? readExifString(getExifEntry(exif.ifd0, tag)) : null);
+  const exifString = (tag: number) => (exif ? readExifString(getExifEntry(exif.exif, tag)) : null);
+  const exifNumber = (tag: number) => (exif ? readExifNumber(getExifEntry(exif.exif, tag), exif.littleEndian) : null);
+
+  const make = ifd0(EXIF_TAGS.make);
+  const model = ifd0(EXIF_TAGS.model);
+  const camera = make && model && !model.startsWith(make) ? `${make} ${model}` : model ?? make;
+
+  // EXIF dates are "YYYY:MM:DD HH:MM:SS"
+  const date = exifString(EXIF_TAGS.dateTimeOriginal) ?? ifd0(EXIF_TAGS.dateTime);
+  const takenAt = date ? date.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3') : null;
+
+  const exposureTime = exifNumber(EXIF_TAGS.exposureTime);
+  const fNumber = exifNumber(EXIF_TAGS.fNumber);
+  const iso = exifNumber(EXIF_TAGS.iso);
+  const focalLength = exifNumber(EXIF_TAGS.focalLength);
+  const exposure = [
+    exposureTime ? formatExposureTime(exposureTime) : null,
+    fNumber ? `f/${Math.round(fNumber * 10) / 10}` : null,
+    iso ? `ISO ${iso}` : null,
+    focalLength ? `${Math.round(focalLength)}mm` : null
+  ].filter(Boolean).join(' · ');
+
+  const latitude = exif ? readCoordinate(exif, EXIF_TAGS.gpsLatitude, EXIF_TAGS.gpsLatitudeRef) : null;
+  const longitude = exif ? readCoordinate(exif, EXIF_TAGS.gpsLongitude, EXIF_TAGS.gpsLongitudeRef) : null;
+
+  return {
+    camera,
+    lens: exifString(EXIF_TAGS.lensModel),
+    takenAt,
+    exposure: exposure || null,
+    author: ifd0(EXIF_TAGS.artist) ?? metadata?.text.Author ?? null,
+    copyright: ifd0(EXIF_TAGS.copyright) ?? metadata?.text.Copyright ?? null,
+    location: latitude !== null && longitude !== null ? { latitude, longitude } : null,
+    hasColorProfile: !!metadata?.icc
+  };
+};
+
+const removeXmpProperty = (xmp: string, property: string) => {
+  return xmp
+    .replace(new RegExp(`\\s+${property}="[^"]*"`, 'g'), '')
+    .replace(new RegExp(`<${property}(\\s[^>]*)?>[\\s\\S]*?</${property}>`, 'g'), '')
+    .replace(new RegExp(`<${property}(\\s[^>]*)?/>`, 'g'), '');
+};
+
+interface PreparedMetadata {
+  exif: Uint8Array | null;
+  xmp: string | null;
+  text: Record<string, string>;
+}
+
+// The metadata an export should carry under a policy. The pixels are upright and re-encoded at
+// the export size, so orientation and pixel dimensions are rewritten to match. The colour
+// profile is never carried over: browsers convert images to sRGB when they decode them, so
+// exported pixels are sRGB whatever the source profile was.
+const prepareMetadata = (
+  source: ImageMetadata | null,
+  options: MetadataExportOptions,
+  size: { width: number; height: number }
+): PreparedMetadata => {
+  const kept = options.policy === 'strip' ? null : source;
+  const stripGps = options.policy === 'strip-gps';
+  const author = options.author.trim();
+  const copyright = options.copyright.trim();
+
+  let exif = kept?.exif ? parseExif(kept.exif) : null;
+  if (!exif && (author || copyright)) {
+    exif = { littleEndian: false, ifd0: [], exif: [], gps: [], interop: [] };
+  }
+  if (exif) {
+    const { littleEndian } = exif;
+    let ifd0 = setExifEntry(exif.ifd0, EXIF_TAGS.orientation, createShortEntry(EXIF_TAGS.orientation, 1, littleEndian));
+    ifd0 = setExifEntry(ifd0, EXIF_TAGS.artist, author ? createAsciiEntry(EXIF_TAGS.artist, author) : null);
+    ifd0 = setExifEntry(ifd0, EXIF_TAGS.copyright, copyright ? createAsciiEntry(EXIF_TAGS.copyright, copyright) : null);
+
+    let exifIfd = exif.exif;
+    if (exifIfd.length) {
+      exifIfd = setExifEntry(exifIfd, EXIF_TAGS.pixelXDimension, createLongEntry(EXIF_TAGS.pixelXDimension, size.width, littleEndian));
+      exifIfd = setExifEntry(exifIfd, EXIF_TAGS.pixelYDimension, createLongEntry(EXIF_TAGS.pixelYDimension, size.height, littleEndian));
+    }
+    exif = { ...exif, ifd0, exif: exifIfd, gps: stripGps ? [] : exif.gps };
+  }
+
+  let xmp = kept?.xmp ?? null;
+  if (xmp) {
+    xmp = xmp
+      .replace(/tiff:Orientation="\d"/g, 'tiff:Orientation="1"')
+      .replace(/<tiff:Orientation>\d<\/tiff:Orientation>/g, '<tiff:Orientation>1</tiff:Orientation>');
+    if (stripGps) {
+      xmp = xmp
+        .replace(/\s+exif:GPS\w+="[^"]*"/g, '')
+        .replace(/<exif:(GPS\w+)(\s[^>]*)?>[\s\S]*?<\/exif:\1>/g, '')
+        .replace(/<exif:GPS\w+(\s[^>]*)?\/>/g, '');
+    }
+    // Readers prefer XMP over EXIF, so edited names must not be left behind in it
+    const original = summarizeMetadata(source);
+    if (author !== (original.author ?? '')) xmp = removeXmpProperty(xmp, 'dc:creator');
+    if (copyright !== (original.copyright ?? '')) xmp = removeXmpProperty(xmp, 'dc:rights');
+  }
+
+  const text = { ...kept?.text };
+  delete text.Author;
+  delete text.Copyright;
+  if (author) text.Author = author;
+  if (copyright) text.Copyright = copyright;
+
+  return { exif: exif ? buildExif(exif) : null, xmp, text };
+};
+
+const createJpegSegment = (marker: number, header: string, data: Uint8Array): Uint8Array | null => {
+  const payload = concatBytes([textEncoder.encode(header), data]);
+  if (payload.length + 2 > 0xffff) {
+    console.warn(`Metadata segment of ${payload.length} bytes is too large for JPEG, leaving it out`);
+    return null;
+  }
+  return concatBytes([new Uint8Array([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload]);
+};
+
+const writeJpegMetadata = (bytes: Uint8Array, metadata: PreparedMetadata): Uint8Array => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error('Not a JPEG file');
+  }
+
+  // Decoders expect the JFIF header straight after the start marker
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+
+  const segments = [
+    metadata.exif ? createJpegSegment(0xe1, EXIF_HEADER, metadata.exif) : null,
+    metadata.xmp ? createJpegSegment(0xe1, XMP_HEADER, textEncoder.encode(metadata.xmp)) : null
+  ].filter((segment): segment is Uint8Array => segment !== null);
+
+  return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length, false);
+  chunk.set(textEncoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)), false);
+  return chunk;
+};
+
+// Uncompressed international text: keyword, no compression, empty language tags, UTF-8 text
+const createPngTextChunk = (keyword: string, text: string): Uint8Array => {
+  return createPngChunk('iTXt', concatBytes([
+    textEncoder.encode(keyword),
+    new Uint8Array([0, 0, 0, 0, 0]),
+    textEncoder.encode(text)
+  ]));
+};
+
+const writePngMetadata = (bytes: Uint8Array, metadata: PreparedMetadata): Uint8Array => {
+  if (!PNG_SIGNATURE.every((value, i) => bytes[i] === value)) {
+    throw new Error('Not a PNG file');
+  }
+
+  // Straight after IHDR, which is always first
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const insertAt = PNG_SIGNATURE.length + 12 + view.getUint32(PNG_SIGNATURE.length, false);
+
+  const chunks = [
+    ...(metadata.exif ? [createPngChunk('eXIf', metadata.exif)] : []),
+    ...(metadata.xmp ? [createPngTextChunk(XMP_KEYWORD, metadata.xmp)] : []),
+    ...Object.entries(metadata.text).map(([keyword, text]) => createPngTextChunk(keyword, text))
+  ];
+
+  return concatBytes([bytes.subarray(0, insertAt), ...chunks, bytes.subarray(insertAt)]);
+};
+
+// Add metadata to an encoded JPEG or PNG, following the export's policy and fields
+export const embedMetadata = (
+  bytes: Uint8Array,
+  format: 'jpeg' | 'png',
+  source: ImageMetadata | null,
+  options: MetadataExportOptions,
+  size: { width: number; height: number }
+): Uint8Array => {
+  const metadata = prepareMetadata(source, options, size);
+  const result = format === 'jpeg' ? writeJpegMetadata(bytes, metadata) : writePngMetadata(bytes, metadata);
+  console.log(`🏷️ Wrote ${result.length - bytes.length} bytes of metadata (${options.policy})`);
+  return result;
+};
@@ -0,0 +1,91 @@
+import { Layer, SelectionMask } from '../types/editor';
+import { createMask, maskToCanvas, resizeMask } from './selection';
+import { paintDab } from './brush';
+
+export interface MaskBrushOptions {
+  size: number; // Diameter in layer pixels
+  hardness: number; // 0-100, how much of the radius is fully opaque
+  mode: 'hide' | 'reveal';
+}
+
+export const defaultMaskBrushOptions: MaskBrushOptions = {
+  size: 40,
+  hardness: 50,
+  mode: 'hide'
+};
+
+const maskCanvasCache = new WeakMap<SelectionMask, HTMLCanvasElement>();
+
+// Layers without a mask (or with it switched off) draw unmasked
+export const hasActiveMask = (layer: Layer): boolean => {
+  return !!layer.mask && layer.maskEnabled !== false;
+};
+
+// Alpha canvas for a layer mask at the layer's pixel size, cached per mask
+export const getMaskCanvas = (mask: SelectionMask, width: number, height: number): HTMLCanvasElement => {
+  const cached = maskCanvasCache.get(mask);
+  if (cached && cached.width === width && cached.height === height) return cached;
+
+  const canvas = maskToCanvas(resizeMask(mask, width, height));
+  maskCanvasCache.set(mask, canvas);
+  return canvas;
+};
+
+// Read a mask back from a canvas painted with getMaskCanvas-style alpha
+export const canvasToMask = (canvas: HTMLCanvasElement): SelectionMask => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const mask = createMask(canvas.width, canvas.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    mask.data[i] = data[i * 4 + 3];
+  }
+  return mask;
+};
+
+// Draw a source, then keep only what the mask shows
+export const applyMaskCanvas = (
+  source: HTMLImageElement | HTMLCanvasElement,
+  maskCanvas: HTMLCanvasElement
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = maskCanvas.width;
+  canvas.height = maskCanvas.height;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(maskCanvas, 0, 0);
+  return canvas;
+};
+
+// Paint a stroke segment onto a mask canvas, spacing dabs a quarter of the brush apart.
+// Hiding erases mask alpha; revealing paints it back in.
+export const paintMaskStroke = (
+  maskCanvas: HTMLCanvasElement,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  options: MaskBrushOptions
+): void => {
+  const ctx = maskCanvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = options.mode === 'hide' ? 'destination-out' : 'source-over';
+
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const spacing = Math.max(1, options.size / 4);
+  const steps = Math.max(1, Math.ceil(distance / spacing));
+  for (let i = distance === 0 ? steps : 1; i <= steps; i++) {
+    const t = i / steps;
+    paintDab(ctx, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, options.size, options.hardness, '#ffffff', 1);
+  }
+
+  ctx.restore();
+};
@@ -0,0 +1,127 @@
+import { ImageState, Layer, SelectionMask } from '../types/editor';
+import { maskToCanvas, resizeMask } from './selection';
+import { applyMaskCanvas, getMaskCanvas, hasActiveMask } from './layerMask';
+import { buildAdjustmentGraph } from './renderGraph';
+import { runRenderGraph } from './renderPipeline';
+
+export type LayerSource = HTMLImageElement | HTMLCanvasElement;
+
+const adjustmentCache = new WeakMap<HTMLImageElement, { key: string; region: SelectionMask | null; canvas: HTMLCanvasElement }>();
+
+const getAdjustmentKey = (state: ImageState): string => {
+  const { brightness, contrast, saturation, blur, filter, curves } = state;
+  return JSON.stringify({ brightness, contrast, saturation, blur, filter, curves });
+};
+
+// Bake adjustments (curves, colour, blur and the filter preset) into a canvas through the
+// render graph. Returns the source itself when there is nothing to apply.
+export const renderAdjustments = (
+  source: LayerSource,
+  state: ImageState,
+  target?: HTMLCanvasElement
+): LayerSource => {
+  const graph = buildAdjustmentGraph(state);
+  return graph.length > 0 ? runRenderGraph(source, graph, target) : source;
+};
+
+// Get what to draw for an image with its adjustments baked in, limited to the selection
+// region when there is one. Cached per image until the adjustments change.
+export const getAdjustedSource = (image: HTMLImageElement, state: ImageState): LayerSource => {
+  const key = getAdjustmentKey(state);
+  const cached = adjustmentCache.get(image);
+  if (cached && cached.key === key && cached.region === state.region) {
+    return cached.canvas;
+  }
+
+  const canvas = cached?.canvas ?? document.createElement('canvas');
+  const adjusted = renderAdjustments(image, state, state.region ? undefined : canvas);
+  if (adjusted === image) {
+    return image;
+  }
+
+  if (state.region) {
+    const ctx = canvas.getContext('2d');
+    const adjustedCtx = (adjusted as HTMLCanvasElement).getContext('2d');
+    if (!ctx || !adjustedCtx) return image;
+
+    const width = image.naturalWidth || image.width;
+    const height = image.naturalHeight || image.height;
+
+    // Regions are captured in layer pixels; rescale if the layer has since been resized
+    const region = resizeMask(state.region, width, height);
+    adjustedCtx.globalCompositeOperation = 'destination-in';
+    adjustedCtx.drawImage(maskToCanvas(region), 0, 0);
+    adjustedCtx.globalCompositeOperation = 'source-over';
+
+    canvas.width = width;
+    canvas.height = height;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    ctx.drawImage(adjusted, 0, 0);
+  }
+
+  adjustmentCache.set(image, { key, region: state.region, canvas });
+  return canvas;
+};
+
+// Get what to draw for a layer, including its mask. `maskOverride` lets the editor show a
+// mask that is still being painted.
+export const getLayerSource = (layer: Layer, maskOverride?: HTMLCanvasElement): LayerSource => {
+  const adjusted = getAdjustedSource(layer.image, layer.imageState);
+  if (!maskOverride && !hasActiveMask(layer)) {
+    return adjusted;
+  }
+
+  const width = layer.image.naturalWidth || layer.image.width;
+  const height = layer.image.naturalHeight || layer.image.height;
+  const maskCanvas = maskOverride ?? getMaskCanvas(layer.mask!, width, height);
+  return applyMaskCanvas(adjusted, maskCanvas);
+};
+
+// Render a single layer, fitted and centered, onto its own canvas (used for per-layer
+// export such as animation frames). Transparent unless a background color is given.
+export const renderLayerFrame = (
+  layer: Layer,
+  width: number,
+  height: number,
+  backgroundColor?: string
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+
+  if (backgroundColor) {
+    ctx.fillStyle = backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const imageWidth = layer.image.naturalWidth || layer.image.width;
+  const imageHeight = layer.image.naturalHeight || layer.image.height;
+  const fitScale = Math.min(width / imageWidth, height / imageHeight);
+  const drawWidth = imageWidth * fitScale;
+  const drawHeight = imageHeight * fitScale;
+
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((layer.imageState.rotation * Math.PI) / 180);
+  ctx.scale(layer.imageState.flipX ? -1 : 1, layer.imageState.flipY ? -1 : 1);
+  ctx.globalAlpha = layer.opacity;
+  const source = getLayerSource(layer);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    source,
+    -drawWidth / 2,
+    -drawHeight / 2,
+    drawWidth,
+    drawHeight
+  );
+  ctx.restore();
+
+  return canvas;
+};
@@ -0,0 +1,315 @@
+import { Layer } from '../types/editor';
+import { getLayerFrameMatrix, ViewState } from './viewTransform';
+
+export interface LayerTransform {
+  position: { x: number; y: number };
+  scale: { x: number; y: number };
+  rotation: number;
+  skew: { x: number; y: number };
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// -1/0/1 per axis: corners are (±1, ±1), edge midpoints have one zero
+export interface TransformHandle {
+  x: -1 | 0 | 1;
+  y: -1 | 0 | 1;
+}
+
+export interface SnapGuide {
+  axis: 'x' | 'y';
+  position: number; // Canvas pixels
+}
+
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const TRANSFORM_HANDLES: TransformHandle[] = [
+  { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 },
+  { x: -1, y: 0 }, { x: 1, y: 0 },
+  { x: -1, y: 1 }, { x: 0, y: 1 }, { x: 1, y: 1 }
+];
+
+const MAX_SKEW = 80;
+
+export const getLayerTransform = (layer: Layer): LayerTransform => ({
+  position: { ...layer.position },
+  scale: { ...layer.scale },
+  rotation: layer.rotation,
+  skew: { ...(layer.skew ?? { x: 0, y: 0 }) }
+});
+
+const withTransform = (layer: Layer, transform: LayerTransform): Layer => ({ ...layer, ...transform });
+
+const toPoint = (point: DOMPoint): Point => ({ x: point.x, y: point.y });
+
+// Size of the layer's box in its transform frame (the image after its own rotation)
+export const getFrameSize = (layer: Layer): { width: number; height: number } => {
+  const width = layer.image.naturalWidth || layer.image.width;
+  const height = layer.image.naturalHeight || layer.image.height;
+  const angle = (layer.imageState.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+// A point in the layer's frame (unscaled layer pixels from its centre) on the view canvas.
+// `toCanvas` maps document pixels, where layers are placed, onto the view canvas.
+export const frameToCanvas = (layer: Layer, toCanvas: DOMMatrix, point: Point): Point => {
+  return toPoint(getLayerFrameMatrix(toCanvas, layer).transformPoint(new DOMPoint(point.x, point.y)));
+};
+
+export const canvasToFrame = (layer: Layer, toCanvas: DOMMatrix, point: Point): Point => {
+  return toPoint(getLayerFrameMatrix(toCanvas, layer).inverse().transformPoint(new DOMPoint(point.x, point.y)));
+};
+
+// A distance on the view canvas in document pixels
+const canvasToDocumentDelta = (toCanvas: DOMMatrix, delta: Point): Point => {
+  const { a, b, c, d } = toCanvas.inverse();
+  return { x: a * delta.x + c * delta.y, y: b * delta.x + d * delta.y };
+};
+
+export const getHandleFramePoint = (layer: Layer, handle: TransformHandle): Point => {
+  const { width, height } = getFrameSize(layer);
+  return { x: (handle.x * width) / 2, y: (handle.y * height) / 2 };
+};
+
+// Box corners on the view canvas, clockwise from top-left
+export const getLayerCorners = (layer: Layer, toCanvas: DOMMatrix): Point[] => {
+  return [
+    { x: -1, y: -1 },
+    { x: 1, y: -1 },
+    { x: 1, y: 1 },
+    { x: -1, y: 1 }
+  ].map(corner => frameToCanvas(layer, toCanvas, getHandleFramePoint(layer, corner as TransformHandle)));
+};
+
+export const getLayerBounds = (layer: Layer, toCanvas: DOMMatrix): Bounds => {
+  const corners = getLayerCorners(layer, toCanvas);
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+};
+
+export const isInsideLayer = (layer: Layer, toCanvas: DOMMatrix, point: Point): boolean => {
+  const local = canvasToFrame(layer, toCanvas, point);
+  const { width, height } = getFrameSize(layer);
+  return Math.abs(local.x) <= width / 2 && Math.abs(local.y) <= height / 2;
+};
+
+// Shift the position so a frame point stays where it was on the canvas before the change
+const keepFramePointFixed = (
+  start: Layer,
+  transform: LayerTransform,
+  toCanvas: DOMMatrix,
+  framePoint: Point
+): LayerTransform => {
+  const before = frameToCanvas(start, toCanvas, framePoint);
+  const after = frameToCanvas(withTransform(start, transform), toCanvas, framePoint);
+  return moveLayer(withTransform(start, transform), toCanvas, { x: before.x - after.x, y: before.y - after.y });
+};
+
+// Move by a distance dragged on the view canvas
+export const moveLayer = (start: Layer, toCanvas: DOMMatrix, delta: Point): LayerTransform => {
+  const transform = getLayerTransform(start);
+  const offset = canvasToDocumentDelta(toCanvas, delta);
+  return {
+    ...transform,
+    position: {
+      x: transform.position.x + offset.x,
+      y: transform.position.y + offset.y
+    }
+  };
+};
+
+// Drag a handle to scale, keeping the opposite side fixed. `proportional` keeps the aspect ratio.
+export const scaleLayer = (
+  start: Layer,
+  toCanvas: DOMMatrix,
+  handle: TransformHandle,
+  point: Point,
+  proportional: boolean
+): LayerTransform => {
+  const transform = getLayerTransform(start);
+  const { width, height } = getFrameSize(start);
+  const local = canvasToFrame(start, toCanvas, point);
+  const anchor = { x: (-handle.x * width) / 2, y: (-handle.y * height) / 2 };
+
+  // How far the handle is now from the anchor, relative to where it started
+  let factorX = handle.x !== 0 ? (local.x - anchor.x) / (handle.x * width) : 1;
+  let factorY = handle.y !== 0 ? (local.y - anchor.y) / (handle.y * height) : 1;
+
+  if (proportional) {
+    const factor = handle.x === 0 ? factorY : handle.y === 0 ? factorX : Math.max(factorX, factorY);
+    factorX = factor;
+    factorY = factor;
+  }
+
+  // Don't let the layer collapse to nothing (flipping through zero is allowed)
+  const minFactor = 0.01;
+  if (Math.abs(factorX) < minFactor) factorX = factorX < 0 ? -minFactor : minFactor;
+  if (Math.abs(factorY) < minFactor) factorY = factorY < 0 ? -minFactor : minFactor;
+
+  return keepFramePointFixed(start, {
+    ...transform,
+    scale: { x: transform.scale.x * factorX, y: transform.scale.y * factorY }
+  }, toCanvas, anchor);
+};
+
+// Rotate about a pivot given in frame coordinates. `snapDegrees` rounds the result.
+export const rotateLayer = (
+  start: Layer,
+  toCanvas: DOMMatrix,
+  pivot: Point,
+  from: Point,
+  to: Point,
+  snapDegrees?: number
+): LayerTransform => {
+  const transform = getLayerTransform(start);
+  const center = frameToCanvas(start, toCanvas, pivot);
+  const delta = (Math.atan2(to.y - center.y, to.x - center.x) - Math.atan2(from.y - center.y, from.x - center.x)) * 180 / Math.PI;
+
+  // A flipped document turns the other way on screen
+  const isFlipped = toCanvas.a * toCanvas.d - toCanvas.b * toCanvas.c < 0;
+  let rotation = transform.rotation + (isFlipped ? -delta : delta);
+  if (snapDegrees) {
+    rotation = Math.round(rotation / snapDegrees) * snapDegrees;
+  }
+  rotation = ((rotation % 360) + 540) % 360 - 180;
+
+  return keepFramePointFixed(start, { ...transform, rotation }, toCanvas, pivot);
+};
+
+// Drag an edge handle along its edge to skew, keeping the opposite edge fixed
+export const skewLayer = (
+  start: Layer,
+  toCanvas: DOMMatrix,
+  handle: TransformHandle,
+  from: Point,
+  to: Point
+): LayerTransform => {
+  const transform = getLayerTransform(start);
+  const { width, height } = getFrameSize(start);
+
+  // Measure the drag in the rotated (but unskewed, unscaled) frame
+  const rotated = withTransform(start, { ...transform, skew: { x: 0, y: 0 }, scale: { x: 1, y: 1 } });
+  const fromLocal = canvasToFrame(rotated, toCanvas, from);
+  const toLocal = canvasToFrame(rotated, toCanvas, to);
+  const clamp = (angle: number) => Math.max(-MAX_SKEW, Math.min(MAX_SKEW, angle));
+  const skew = { ...transform.skew };
+
+  if (handle.y !== 0 && handle.x === 0) {
+    // Top/bottom edge: horizontal drag skews along X
+    const distance = (handle.y * height * transform.scale.y) / 2;
+    const tan = Math.tan((skew.x * Math.PI) / 180) + (toLocal.x - fromLocal.x) / (2 * distance);
+    skew.x = clamp((Math.atan(tan) * 180) / Math.PI);
+  } else if (handle.x !== 0 && handle.y === 0) {
+    // Left/right edge: vertical drag skews along Y
+    const distance = (handle.x * width * transform.scale.x) / 2;
+    const tan = Math.tan((skew.y * Math.PI) / 180) + (toLocal.y - fromLocal.y) / (2 * distance);
+    skew.y = clamp((Math.atan(tan) * 180) / Math.PI);
+  }
+
+  const anchor = { x: (-handle.x * width) / 2, y: (-handle.y * height) / 2 };
+  return keepFramePointFixed(start, { ...transform, skew }, toCanvas, anchor);
+};
+
+// Snap targets: the canvas edges and centre plus the edges and centres of other layers
+export const getSnapTargets = (
+  layers: Layer[],
+  excludeId: string,
+  view: ViewState,
+  toCanvas: DOMMatrix
+): { x: number[]; y: number[] } => {
+  const targets = {
+    x: [0, view.canvasWidth / 2, view.canvasWidth],
+    y: [0, view.canvasHeight / 2, view.canvasHeight]
+  };
+
+  layers.slice(1).forEach(layer => {
+    if (layer.id === excludeId || !layer.visible) return;
+    const bounds = getLayerBounds(layer, toCanvas);
+    targets.x.push(bounds.left, (bounds.left + bounds.right) / 2, bounds.right);
+    targets.y.push(bounds.top, (bounds.top + bounds.bottom) / 2, bounds.bottom);
+  });
+
+  return targets;
+};
+
+// Find the smallest adjustment that lines any of `values` up with a target
+const findSnap = (values: number[], targets: number[], threshold: number): { offset: number; position: number } | null => {
+  let best: { offset: number; position: number } | null = null;
+  values.forEach(value => {
+    targets.forEach(target => {
+      const offset = target - value;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, position: target };
+      }
+    });
+  });
+  return best;
+};
+
+// Snap a move so the layer's bounding box edges or centre line up with a target
+export const snapMoveDelta = (
+  bounds: Bounds,
+  delta: Point,
+  targets: { x: number[]; y: number[] },
+  threshold: number
+): { delta: Point; guides: SnapGuide[] } => {
+  const guides: SnapGuide[] = [];
+  const snapped = { ...delta };
+
+  const snapX = findSnap(
+    [bounds.left + delta.x, (bounds.left + bounds.right) / 2 + delta.x, bounds.right + delta.x],
+    targets.x,
+    threshold
+  );
+  if (snapX) {
+    snapped.x += snapX.offset;
+    guides.push({ axis: 'x', position: snapX.position });
+  }
+
+  const snapY = findSnap(
+    [bounds.top + delta.y, (bounds.top + bounds.bottom) / 2 + delta.y, bounds.bottom + delta.y],
+    targets.y,
+    threshold
+  );
+  if (snapY) {
+    snapped.y += snapY.offset;
+    guides.push({ axis: 'y', position: snapY.position });
+  }
+
+  return { delta: snapped, guides };
+};
+
+// Snap a dragged handle position to the nearest targets
+export const snapPoint = (
+  point: Point,
+  targets: { x: number[]; y: number[] },
+  threshold: number
+): { point: Point; guides: SnapGuide[] } => {
+  const guides: SnapGuide[] = [];
+  const snapped = { ...point };
+
+  const snapX = findSnap([point.x], targets.x, threshold);
+  if (snapX) {
+    snapped.x += snapX.offset;
+    guides.push({ axis: 'x', position: snapX.position });
+  }
+
+  const snapY = findSnap([point.y], targets.y, threshold);
+  if (snapY) {
+    snapped.y += snapY.offset;
+    guides.push({ axis: 'y', position: snapY.position });
+  }
+
+  return { point: snapped, guides };
+};
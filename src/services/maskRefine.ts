@@ -0,0 +1,375 @@
+import { SelectionMask } from '../types/editor';
+import { PixelBuffer } from './renderGraph';
+import { createMask } from './selection';
+
+// Refinement for segmentation masks. BodyPix gives a hard person/background mask at a coarse
+// resolution, so its edges are jagged and miss hair. Refining grows or shrinks the edge, fits
+// it to the image with a guided filter (matting), feathers it, and takes the background's
+// colour back out of the semi-transparent edge pixels. Nothing in this file touches the DOM.
+
+export interface MaskRefineOptions {
+  shift: number; // Pixels to grow (positive) or shrink (negative) the edge by
+  matting: boolean; // Fit the edge to the image's own edges, for hair and fur
+  mattingRadius: number; // Width of the band around the edge that matting may change, in pixels
+  feather: number; // Width of the final soft edge, in pixels
+  decontaminate: boolean; // Remove background colour bleeding into the edge pixels
+}
+
+export const defaultMaskRefineOptions: MaskRefineOptions = {
+  shift: 0,
+  matting: true,
+  mattingRadius: 8,
+  feather: 1,
+  decontaminate: true
+};
+
+// Areas painted by hand, which override the segmentation (255 = painted)
+export interface MaskHints {
+  keep: SelectionMask | null;
+  remove: SelectionMask | null;
+}
+
+export const MAX_MASK_SHIFT = 20;
+export const MAX_MATTING_RADIUS = 32;
+export const MAX_FEATHER = 20;
+
+// Guided filter regularisation, in 0-1 colour units. Small values follow image edges closely.
+const MATTING_EPSILON = 1e-4;
+
+// The guided filter runs on a copy of at most this many pixels; its output is smooth, so
+// upsampling the coefficients loses nothing visible
+const MATTING_MAX_PIXELS = 1_000_000;
+
+// Pixels with alpha at or beyond these count as pure background / foreground colour samples
+const BACKGROUND_ALPHA = 8;
+const FOREGROUND_ALPHA = 247;
+
+// Radii are in pixels of whatever is being refined; previews at a smaller size scale them down
+export const scaleMaskRefineOptions = (options: MaskRefineOptions, factor: number): MaskRefineOptions => ({
+  ...options,
+  shift: options.shift * factor,
+  mattingRadius: options.mattingRadius * factor,
+  feather: options.feather * factor
+});
+
+const INF = 1e20;
+
+// One row or column of the squared Euclidean distance transform (Felzenszwalb & Huttenlocher)
+const distance1d = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+};
+
+// Squared distance from every pixel to the nearest pixel where `target` holds
+const squaredDistance = (width: number, height: number, target: (pixel: number) => boolean): Float32Array => {
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  const result = new Float32Array(width * height);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = target(y * width + x) ? 0 : INF;
+    distance1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) result[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = result[y * width + x];
+    distance1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) result[y * width + x] = d[x];
+  }
+  return result;
+};
+
+// Separable box mean with a running sum; edges average over the pixels that exist
+export const boxMean = (input: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const r = Math.max(0, Math.round(radius));
+  if (r === 0) return input.slice();
+
+  const temp = new Float32Array(input.length);
+  const output = new Float32Array(input.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x < Math.min(width, r); x++) sum += input[row + x];
+    for (let x = 0; x < width; x++) {
+      if (x + r < width) sum += input[row + x + r];
+      if (x - r - 1 >= 0) sum -= input[row + x - r - 1];
+      temp[row + x] = sum / (Math.min(width - 1, x + r) - Math.max(0, x - r) + 1);
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y < Math.min(height, r); y++) sum += temp[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + r < height) sum += temp[(y + r) * width + x];
+      if (y - r - 1 >= 0) sum -= temp[(y - r - 1) * width + x];
+      output[y * width + x] = sum / (Math.min(height - 1, y + r) - Math.max(0, y - r) + 1);
+    }
+  }
+  return output;
+};
+
+// Grow (positive) or shrink (negative) a mask's edge by a distance in pixels. The result is
+// hard-edged; matting and feathering soften it afterwards.
+export const shiftMask = (mask: SelectionMask, amount: number): SelectionMask => {
+  const { width, height, data } = mask;
+  const result = createMask(width, height);
+  if (Math.abs(amount) < 0.5) {
+    for (let i = 0; i < data.length; i++) result.data[i] = data[i] >= 128 ? 255 : 0;
+    return result;
+  }
+
+  const limit = amount * amount;
+  if (amount > 0) {
+    const distance = squaredDistance(width, height, i => data[i] >= 128);
+    for (let i = 0; i < data.length; i++) result.data[i] = distance[i] <= limit ? 255 : 0;
+  } else {
+    const distance = squaredDistance(width, height, i => data[i] < 128);
+    for (let i = 0; i < data.length; i++) result.data[i] = distance[i] > limit ? 255 : 0;
+  }
+  return result;
+};
+
+// Soften a mask's edge into a gradient about `radius` pixels wide (three box passes
+// approximate a Gaussian)
+export const featherMask = (mask: SelectionMask, radius: number): SelectionMask => {
+  const passRadius = Math.round(radius / 3);
+  if (passRadius < 1) return mask;
+
+  let values = Float32Array.from(mask.data);
+  for (let pass = 0; pass < 3; pass++) {
+    values = boxMean(values, mask.width, mask.height, passRadius);
+  }
+  const result = createMask(mask.width, mask.height);
+  result.data.set(values);
+  return result;
+};
+
+// Area-average the image and mask into a smaller grid for the guided filter
+const downsampleForMatting = (pixels: PixelBuffer, mask: SelectionMask, step: number) => {
+  const width = Math.max(1, Math.ceil(pixels.width / step));
+  const height = Math.max(1, Math.ceil(pixels.height / step));
+  const size = width * height;
+  const channels = [new Float32Array(size), new Float32Array(size), new Float32Array(size)];
+  const alpha = new Float32Array(size);
+  const counts = new Float32Array(size);
+
+  for (let y = 0; y < pixels.height; y++) {
+    const row = Math.floor(y / step) * width;
+    for (let x = 0; x < pixels.width; x++) {
+      const cell = row + Math.floor(x / step);
+      const pixel = y * pixels.width + x;
+      channels[0][cell] += pixels.data[pixel * 4] / 255;
+      channels[1][cell] += pixels.data[pixel * 4 + 1] / 255;
+      channels[2][cell] += pixels.data[pixel * 4 + 2] / 255;
+      alpha[cell] += mask.data[pixel] / 255;
+      counts[cell]++;
+    }
+  }
+  for (let cell = 0; cell < size; cell++) {
+    channels[0][cell] /= counts[cell];
+    channels[1][cell] /= counts[cell];
+    channels[2][cell] /= counts[cell];
+    alpha[cell] /= counts[cell];
+  }
+  return { width, height, channels, alpha };
+};
+
+// Colour guided filter (He, Sun & Tang), run on a reduced copy with the linear coefficients
+// upsampled (the "fast guided filter"). Returns alpha 0-1 at the full size.
+const guidedFilter = (pixels: PixelBuffer, mask: SelectionMask, radius: number): Float32Array => {
+  const step = Math.max(1, Math.ceil(Math.sqrt((pixels.width * pixels.height) / MATTING_MAX_PIXELS)));
+  const { width, height, channels, alpha } = downsampleForMatting(pixels, mask, step);
+  const r = Math.max(1, Math.round(radius / step));
+  const size = width * height;
+  const mean = (values: Float32Array) => boxMean(values, width, height, r);
+  const product = (a: Float32Array, b: Float32Array) => {
+    const result = new Float32Array(size);
+    for (let i = 0; i < size; i++) result[i] = a[i] * b[i];
+    return result;
+  };
+
+  const [red, green, blue] = channels;
+  const meanR = mean(red), meanG = mean(green), meanB = mean(blue);
+  const meanP = mean(alpha);
+  const meanRP = mean(product(red, alpha)), meanGP = mean(product(green, alpha)), meanBP = mean(product(blue, alpha));
+  const meanRR = mean(product(red, red)), meanRG = mean(product(red, green)), meanRB = mean(product(red, blue));
+  const meanGG = mean(product(green, green)), meanGB = mean(product(green, blue)), meanBB = mean(product(blue, blue));
+
+  // Per window: a = (Σ + εI)⁻¹ cov(I, p), b = mean(p) - a · mean(I)
+  const aR = new Float32Array(size), aG = new Float32Array(size), aB = new Float32Array(size), b = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const covR = meanRP[i] - meanR[i] * meanP[i];
+    const covG = meanGP[i] - meanG[i] * meanP[i];
+    const covB = meanBP[i] - meanB[i] * meanP[i];
+    const rr = meanRR[i] - meanR[i] * meanR[i] + MATTING_EPSILON;
+    const rg = meanRG[i] - meanR[i] * meanG[i];
+    const rb = meanRB[i] - meanR[i] * meanB[i];
+    const gg = meanGG[i] - meanG[i] * meanG[i] + MATTING_EPSILON;
+    const gb = meanGB[i] - meanG[i] * meanB[i];
+    const bb = meanBB[i] - meanB[i] * meanB[i] + MATTING_EPSILON;
+
+    // Inverse of the symmetric 3x3 covariance by cofactors
+    const c00 = gg * bb - gb * gb;
+    const c01 = rb * gb - rg * bb;
+    const c02 = rg * gb - rb * gg;
+    const c11 = rr * bb - rb * rb;
+    const c12 = rb * rg - rr * gb;
+    const c22 = rr * gg - rg * rg;
+    const det = rr * c00 + rg * c01 + rb * c02;
+    if (Math.abs(det) < 1e-12) {
+      b[i] = meanP[i];
+      continue;
+    }
+    aR[i] = (c00 * covR + c01 * covG + c02 * covB) / det;
+    aG[i] = (c01 * covR + c11 * covG + c12 * covB) / det;
+    aB[i] = (c02 * covR + c12 * covG + c22 * covB) / det;
+    b[i] = meanP[i] - aR[i] * meanR[i] - aG[i] * meanG[i] - aB[i] * meanB[i];
+  }
+
+  const meanAR = mean(aR), meanAG = mean(aG), meanAB = mean(aB), meanBias = mean(b);
+
+  // Bilinearly upsample the coefficients and apply them to the full-size image
+  const result = new Float32Array(pixels.width * pixels.height);
+  for (let y = 0; y < pixels.height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, (y + 0.5) / step - 0.5));
+    const y0 = Math.floor(sy), y1 = Math.min(height - 1, y0 + 1), fy = sy - y0;
+    for (let x = 0; x < pixels.width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, (x + 0.5) / step - 0.5));
+      const x0 = Math.floor(sx), x1 = Math.min(width - 1, x0 + 1), fx = sx - x0;
+      const sample = (values: Float32Array) => {
+        const top = values[y0 * width + x0] + (values[y0 * width + x1] - values[y0 * width + x0]) * fx;
+        const bottom = values[y1 * width + x0] + (values[y1 * width + x1] - values[y1 * width + x0]) * fx;
+        return top + (bottom - top) * fy;
+      };
+      const pixel = y * pixels.width + x;
+      result[pixel] = sample(meanAR) * pixels.data[pixel * 4] / 255 +
+        sample(meanAG) * pixels.data[pixel * 4 + 1] / 255 +
+        sample(meanAB) * pixels.data[pixel * 4 + 2] / 255 +
+        sample(meanBias);
+    }
+  }
+  return result;
+};
+
+// Apply the refinement steps in order: hints, shift, matting, feathering, then the hints
+// again so painted areas stay exactly as painted
+export const refineMask = (
+  mask: SelectionMask,
+  pixels: PixelBuffer,
+  options: MaskRefineOptions,
+  hints: MaskHints = { keep: null, remove: null }
+): SelectionMask => {
+  if (mask.width !== pixels.width || mask.height !== pixels.height) {
+    throw new Error('Mask does not match the image size');
+  }
+  const { width, height } = mask;
+  const { keep, remove } = hints;
+
+  const hinted = createMask(width, height);
+  for (let i = 0; i < hinted.data.length; i++) {
+    hinted.data[i] = remove && remove.data[i] >= 128 ? 0 : keep && keep.data[i] >= 128 ? 255 : mask.data[i];
+  }
+  let result = shiftMask(hinted, options.shift);
+
+  if (options.matting && options.mattingRadius >= 1) {
+    // Only the band around the edge is matted; solid areas stay solid
+    const radius = options.mattingRadius;
+    const limit = radius * radius;
+    const toInside = squaredDistance(width, height, i => result.data[i] >= 128);
+    const toOutside = squaredDistance(width, height, i => result.data[i] < 128);
+    // Windows twice the band's width, so a window on a misplaced edge still sees both sides
+    const alpha = guidedFilter(pixels, result, radius * 2);
+    const matted = createMask(width, height);
+    for (let i = 0; i < matted.data.length; i++) {
+      const inBand = result.data[i] >= 128 ? toOutside[i] <= limit : toInside[i] <= limit;
+      matted.data[i] = inBand ? Math.round(Math.min(1, Math.max(0, alpha[i])) * 255) : result.data[i];
+    }
+    result = matted;
+  }
+
+  result = featherMask(result, options.feather);
+
+  if (keep || remove) {
+    for (let i = 0; i < result.data.length; i++) {
+      let value = result.data[i] / 255;
+      if (keep) value += (1 - value) * (keep.data[i] / 255);
+      if (remove) value *= 1 - remove.data[i] / 255;
+      result.data[i] = Math.round(value * 255);
+    }
+  }
+  return result;
+};
+
+// Re-estimate the colour of semi-transparent edge pixels. Each is modelled as foreground mixed
+// with the nearby background by its alpha, so the background share is taken back out. Returns
+// RGBA pixels with the original alpha; solid pixels are unchanged.
+export const decontaminateColours = (
+  pixels: PixelBuffer,
+  mask: SelectionMask,
+  options: Pick<MaskRefineOptions, 'mattingRadius' | 'feather'>
+): Uint8ClampedArray => {
+  const { width, height } = pixels;
+  const size = width * height;
+  const output = new Uint8ClampedArray(pixels.data);
+  // Wide enough to reach past the soft edge into pure colour on both sides
+  const radius = Math.max(4, options.mattingRadius + options.feather) * 2;
+
+  const backgroundWeight = new Float32Array(size);
+  const foregroundWeight = new Float32Array(size);
+  let hasEdge = false;
+  for (let i = 0; i < size; i++) {
+    backgroundWeight[i] = mask.data[i] <= BACKGROUND_ALPHA ? 1 : 0;
+    foregroundWeight[i] = mask.data[i] >= FOREGROUND_ALPHA ? 1 : 0;
+    if (!backgroundWeight[i] && !foregroundWeight[i]) hasEdge = true;
+  }
+  if (!hasEdge) return output;
+
+  const backgroundCover = boxMean(backgroundWeight, width, height, radius);
+  const foregroundCover = boxMean(foregroundWeight, width, height, radius);
+  const channel = new Float32Array(size);
+
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < size; i++) channel[i] = pixels.data[i * 4 + c] * backgroundWeight[i];
+    const background = boxMean(channel, width, height, radius);
+    for (let i = 0; i < size; i++) channel[i] = pixels.data[i * 4 + c] * foregroundWeight[i];
+    const foreground = boxMean(channel, width, height, radius);
+
+    for (let i = 0; i < size; i++) {
+      const a = mask.data[i] / 255;
+      if (mask.data[i] <= BACKGROUND_ALPHA || mask.data[i] >= FOREGROUND_ALPHA) continue;
+
+      const observed = pixels.data[i * 4 + c];
+      const localForeground = foregroundCover[i] > 0 ? foreground[i] / foregroundCover[i] : null;
+      if (backgroundCover[i] > 0) {
+        // Solve observed = a·F + (1 - a)·B for F. Low alpha makes that unstable, so lean on the
+        // nearby foreground colour there.
+        const solved = Math.min(255, Math.max(0, (observed - (1 - a) * (background[i] / backgroundCover[i])) / a));
+        output[i * 4 + c] = localForeground === null ? solved : localForeground + (solved - localForeground) * a;
+      } else if (localForeground !== null) {
+        output[i * 4 + c] = observed + (localForeground - observed) * (1 - a);
+      }
+    }
+  }
+  return output;
+};
@@ -0,0 +1,268 @@
+export interface PdfOptions {
+  pageSize: 'a4' | 'letter' | 'custom';
+  customWidth: number; // Millimetres, used when pageSize is 'custom'
+  customHeight: number;
+  orientation: 'auto' | 'portrait' | 'landscape';
+  margin: number; // Millimetres on every side
+  dpi: number; // Resolution of the embedded image at its placed size
+  imageEncoding: 'jpeg' | 'flate';
+  pagePerLayer: boolean;
+}
+
+interface PdfImage {
+  width: number;
+  height: number;
+  filter: 'DCTDecode' | 'FlateDecode';
+  data: Uint8Array;
+  alpha?: Uint8Array; // Flate-compressed soft mask
+}
+
+export const defaultPdfOptions: PdfOptions = {
+  pageSize: 'a4',
+  customWidth: 210,
+  customHeight: 297,
+  orientation: 'auto',
+  margin: 10,
+  dpi: 300,
+  imageEncoding: 'jpeg',
+  pagePerLayer: false
+};
+
+// Page sizes in millimetres (portrait)
+const PAGE_SIZES = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 }
+};
+
+const POINTS_PER_INCH = 72;
+const MM_PER_INCH = 25.4;
+
+const mmToPoints = (mm: number): number => (mm / MM_PER_INCH) * POINTS_PER_INCH;
+
+const textEncoder = new TextEncoder();
+
+// Compress bytes with zlib framing, as PDF's FlateDecode expects
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const canvasToJPEG = (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error('Unable to encode page image as JPEG'));
+        return;
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/jpeg', quality);
+  });
+};
+
+// Resample a canvas to the given pixel size (never upscales) and optionally flatten it
+const preparePageCanvas = (
+  source: HTMLCanvasElement,
+  width: number,
+  height: number,
+  backgroundColor?: string
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = Math.max(1, Math.min(source.width, Math.round(width)));
+  canvas.height = Math.max(1, Math.min(source.height, Math.round(height)));
+
+  if (backgroundColor) {
+    ctx.fillStyle = backgroundColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const encodePageImage = async (
+  canvas: HTMLCanvasElement,
+  encoding: PdfOptions['imageEncoding'],
+  quality: number
+): Promise<PdfImage> => {
+  if (encoding === 'jpeg') {
+    return {
+      width: canvas.width,
+      height: canvas.height,
+      filter: 'DCTDecode',
+      data: await canvasToJPEG(canvas, quality)
+    };
+  }
+
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  const pixelCount = canvas.width * canvas.height;
+  const rgb = new Uint8Array(pixelCount * 3);
+  const alpha = new Uint8Array(pixelCount);
+  let hasTransparency = false;
+
+  for (let i = 0; i < pixelCount; i++) {
+    rgb[i * 3] = data[i * 4];
+    rgb[i * 3 + 1] = data[i * 4 + 1];
+    rgb[i * 3 + 2] = data[i * 4 + 2];
+    alpha[i] = data[i * 4 + 3];
+    if (alpha[i] < 255) hasTransparency = true;
+  }
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    filter: 'FlateDecode',
+    data: await deflate(rgb),
+    alpha: hasTransparency ? await deflate(alpha) : undefined
+  };
+};
+
+// Resolve the page size in points, honouring orientation
+const getPageSize = (options: PdfOptions, imageWidth: number, imageHeight: number) => {
+  const size = options.pageSize === 'custom'
+    ? { width: options.customWidth, height: options.customHeight }
+    : PAGE_SIZES[options.pageSize];
+
+  let width = mmToPoints(size.width);
+  let height = mmToPoints(size.height);
+
+  const landscape = options.orientation === 'auto'
+    ? imageWidth > imageHeight
+    : options.orientation === 'landscape';
+  if (landscape !== width > height) {
+    [width, height] = [height, width];
+  }
+
+  return { width, height };
+};
+
+// Build a PDF with one image per page, each fitted and centred inside the page margins
+export const createPDF = async (
+  pages: HTMLCanvasElement[],
+  options: Partial<PdfOptions> = {},
+  quality: number = 0.92,
+  backgroundColor: string = '#ffffff'
+): Promise<Blob> => {
+  if (pages.length === 0) {
+    throw new Error('PDF export needs at least one page');
+  }
+
+  const settings = { ...defaultPdfOptions, ...options };
+  let encoding = settings.imageEncoding;
+  if (encoding === 'flate' && typeof CompressionStream === 'undefined') {
+    console.warn('CompressionStream not supported, embedding PDF images as JPEG');
+    encoding = 'jpeg';
+  }
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? textEncoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (id: number, dictionary: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${dictionary}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Object layout: 1 catalog, 2 page tree, then per page: page, content, image, soft mask
+  const OBJECTS_PER_PAGE = 4;
+  const pageObjectId = (index: number) => 3 + index * OBJECTS_PER_PAGE;
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Binary marker comment
+
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  const kids = pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ');
+  writeObject(2, `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+
+  for (let index = 0; index < pages.length; index++) {
+    const source = pages[index];
+    const page = getPageSize(settings, source.width, source.height);
+    const margin = mmToPoints(settings.margin);
+    const boxWidth = Math.max(1, page.width - margin * 2);
+    const boxHeight = Math.max(1, page.height - margin * 2);
+
+    // Fit the image inside the margins, then resample it to the requested DPI
+    const fitScale = Math.min(boxWidth / source.width, boxHeight / source.height);
+    const placedWidth = source.width * fitScale;
+    const placedHeight = source.height * fitScale;
+    const x = (page.width - placedWidth) / 2;
+    const y = (page.height - placedHeight) / 2;
+
+    const pixelWidth = (placedWidth / POINTS_PER_INCH) * settings.dpi;
+    const pixelHeight = (placedHeight / POINTS_PER_INCH) * settings.dpi;
+    const pageCanvas = preparePageCanvas(
+      source,
+      pixelWidth,
+      pixelHeight,
+      encoding === 'jpeg' ? backgroundColor : undefined
+    );
+    const image = await encodePageImage(pageCanvas, encoding, quality);
+
+    const pageId = pageObjectId(index);
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const maskId = pageId + 3;
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width.toFixed(2)} ${page.height.toFixed(2)}] ` +
+      `/Resources << /XObject << /Im${index + 1} ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+
+    const content = textEncoder.encode(
+      `q\n${placedWidth.toFixed(2)} 0 0 ${placedHeight.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm\n/Im${index + 1} Do\nQ`
+    );
+    writeObject(contentId, `<< /Length ${content.length} >>`, content);
+
+    const softMask = image.alpha ? ` /SMask ${maskId} 0 R` : '';
+    writeObject(
+      imageId,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /${image.filter}${softMask} /Length ${image.data.length} >>`,
+      image.data
+    );
+
+    // Unused mask slots still get an (empty) object so the xref stays contiguous
+    if (image.alpha) {
+      writeObject(
+        maskId,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.alpha.length} >>`,
+        image.alpha
+      );
+    } else {
+      writeObject(maskId, 'null');
+    }
+  }
+
+  // Cross-reference table and trailer
+  const objectCount = 3 + pages.length * OBJECTS_PER_PAGE;
+  const xrefOffset = length;
+  let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  write(xref);
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  console.log(`📄 Built PDF: ${pages.length} page(s), ${encoding.toUpperCase()} images at ${settings.dpi} DPI`);
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,80 @@
+import { extractColorPalette } from './colorAnalysis';
+import { analyzeImageHistogram } from './imageAnalysis';
+import { sharpenImage, SharpeningOptions } from './imageSharpening';
+import { BatchRenderOptions, renderBatchImage } from './batchRender';
+import { resamplePixels, ResampleOptions } from './resample';
+
+// The heavy pixel jobs the worker pool can run. Everything here must stay free of the DOM
+// so it can run inside a worker as well as on the main thread.
+export interface PixelTaskMap {
+  sharpen: {
+    payload: { imageData: ImageData; options: SharpeningOptions };
+    result: Awaited<ReturnType<typeof sharpenImage>>;
+  };
+  histogram: {
+    payload: { imageData: ImageData };
+    result: ReturnType<typeof analyzeImageHistogram>;
+  };
+  palette: {
+    payload: { imageData: ImageData; colors: number };
+    result: Awaited<ReturnType<typeof extractColorPalette>>;
+  };
+  batch: {
+    payload: { source: ImageBitmap | Blob; options: BatchRenderOptions };
+    result: Awaited<ReturnType<typeof renderBatchImage>>;
+  };
+  resample: {
+    payload: { imageData: ImageData; width: number; height: number; options: ResampleOptions };
+    result: { imageData: ImageData };
+  };
+}
+
+export type PixelTaskName = keyof PixelTaskMap;
+export type PixelTaskResult = PixelTaskMap[PixelTaskName]['result'];
+
+// Messages between the pool and its workers
+export interface PixelTaskRequest<T extends PixelTaskName = PixelTaskName> {
+  id: number;
+  task: T;
+  payload: PixelTaskMap[T]['payload'];
+}
+
+export type PixelTaskResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: PixelTaskResult }
+  | { id: number; type: 'error'; message: string };
+
+type PixelTaskHandlers = {
+  [T in PixelTaskName]: (
+    payload: PixelTaskMap[T]['payload'],
+    onProgress?: (progress: number) => void
+  ) => PixelTaskMap[T]['result'] | Promise<PixelTaskMap[T]['result']>;
+};
+
+const handlers: PixelTaskHandlers = {
+  sharpen: ({ imageData, options }) => sharpenImage(imageData, options),
+  histogram: ({ imageData }) => analyzeImageHistogram(imageData),
+  palette: ({ imageData, colors }) => extractColorPalette(imageData, colors),
+  batch: ({ source, options }, onProgress) => renderBatchImage(source, options, onProgress),
+  resample: ({ imageData, width, height, options }) => {
+    const result = resamplePixels(imageData, width, height, options);
+    return { imageData: new ImageData(result.data, result.width, result.height) };
+  }
+};
+
+export const runPixelTask = async <T extends PixelTaskName>(
+  task: T,
+  payload: PixelTaskMap[T]['payload'],
+  onProgress?: (progress: number) => void
+): Promise<PixelTaskMap[T]['result']> => {
+  const handler: PixelTaskHandlers[T] | undefined = handlers[task];
+  if (!handler) {
+    throw new Error(`Unknown pixel task: ${task}`);
+  }
+  return handler(payload, onProgress);
+};
+
+// Buffers worth handing over instead of copying when a result goes back to the main thread
+export const getResultTransfer = (result: PixelTaskResult): Transferable[] => {
+  return 'imageData' in result && result.imageData instanceof ImageData ? [result.imageData.data.buffer] : [];
+};
@@ -0,0 +1,369 @@
+import { BlendMode, DocumentBackground, ImageMetadata, ImageState, Layer, SelectionMask } from '../types/editor';
+import { TextData } from '../components/TextTool';
+import { isCurvesState } from './curves';
+import { decodeMask, encodeMask } from './selection';
+import { getDocumentMatrix, getEditorCanvasSize, getOverlayFrameMatrix, getOverlayPlacement } from './viewTransform';
+
+export const PROJECT_FILE_EXTENSION = '.pstudio';
+export const PROJECT_MIME_TYPE = 'application/x-photostudio-project+json';
+
+const PROJECT_FORMAT = 'photostudio-project';
+// 2 added the document's own size and background; 3 placed overlays in document pixels
+const PROJECT_FORMAT_VERSION = 3;
+
+// Masks are stored run-length encoded rather than as raw JSON arrays
+interface ProjectMaskData {
+  width: number;
+  height: number;
+  data: string;
+}
+
+// Binary metadata is stored base64 encoded
+interface ProjectMetadataData {
+  orientation: number;
+  exif: string | null;
+  xmp: string | null;
+  icc: string | null;
+  text: Record<string, string>;
+}
+
+type ProjectImageState = Omit<ImageState, 'region'> & {
+  region?: ProjectMaskData | null;
+  crop?: unknown; // Written by older versions, which kept an unused crop rectangle here
+};
+
+interface ProjectLayerData {
+  id: string;
+  name: string;
+  image: string; // PNG data URL with the layer's full-resolution pixels
+  width: number;
+  height: number;
+  visible: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+  position: { x: number; y: number };
+  scale: { x: number; y: number };
+  rotation: number;
+  skew?: { x: number; y: number };
+  imageState: ProjectImageState;
+  locked: boolean;
+  thumbnail?: string;
+  textData?: TextData;
+  mask?: ProjectMaskData | null;
+  maskEnabled?: boolean;
+  metadata?: ProjectMetadataData | null;
+}
+
+interface ProjectFileData {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  createdAt: string;
+  activeLayerId: string | null;
+  width?: number; // Older files were the size of the bottom layer
+  height?: number;
+  background?: DocumentBackground; // Older files always used the bottom layer
+  vignette: {
+    intensity: number;
+    radius: number;
+  };
+  layers: ProjectLayerData[];
+}
+
+export interface ProjectDocument {
+  width: number;
+  height: number;
+  layers: Layer[];
+  activeLayerId: string | null;
+  textElements: Map<string, TextData>;
+  background: DocumentBackground;
+  vignetteIntensity: number;
+  vignetteRadius: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const isPoint = (value: unknown): value is { x: number; y: number } => {
+  return isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+};
+
+const isMaskData = (value: unknown): value is ProjectMaskData | null | undefined => {
+  return value === undefined || value === null || (
+    isObject(value) && Number.isInteger(value.width) && Number.isInteger(value.height) && typeof value.data === 'string'
+  );
+};
+
+const isImageStateData = (value: unknown): value is ProjectImageState => {
+  return isObject(value) &&
+    ['brightness', 'contrast', 'saturation', 'blur', 'rotation'].every(key => Number.isFinite(value[key])) &&
+    typeof value.flipX === 'boolean' &&
+    typeof value.flipY === 'boolean' &&
+    typeof value.filter === 'string' &&
+    (value.curves === undefined || value.curves === null || isCurvesState(value.curves)) &&
+    isMaskData(value.region);
+};
+
+const isLayerData = (value: unknown): value is ProjectLayerData => {
+  return isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.image === 'string' &&
+    typeof value.visible === 'boolean' &&
+    Number.isFinite(value.opacity) &&
+    typeof value.blendMode === 'string' &&
+    isPoint(value.position) &&
+    isPoint(value.scale) &&
+    Number.isFinite(value.rotation) &&
+    (value.skew === undefined || isPoint(value.skew)) &&
+    isImageStateData(value.imageState) &&
+    typeof value.locked === 'boolean' &&
+    (value.textData === undefined || isObject(value.textData)) &&
+    isMaskData(value.mask) &&
+    (value.metadata === undefined || value.metadata === null || isObject(value.metadata));
+};
+
+const isBackground = (value: unknown): value is DocumentBackground => {
+  if (!isObject(value)) return false;
+  return value.type === 'transparent' || value.type === 'layer' || (value.type === 'color' && typeof value.color === 'string');
+};
+
+// Everything deserializeProject reads, so a damaged file fails here instead of part way through
+const isProjectFileData = (value: unknown): value is ProjectFileData => {
+  const isSize = (size: unknown) => size === undefined || (typeof size === 'number' && Number.isInteger(size) && size > 0);
+  return isObject(value) &&
+    value.format === PROJECT_FORMAT &&
+    typeof value.version === 'number' &&
+    (value.activeLayerId === null || typeof value.activeLayerId === 'string') &&
+    isSize(value.width) &&
+    isSize(value.height) &&
+    (value.background === undefined || isBackground(value.background)) &&
+    isObject(value.vignette) &&
+    Number.isFinite(value.vignette.intensity) &&
+    Number.isFinite(value.vignette.radius) &&
+    Array.isArray(value.layers) &&
+    value.layers.every(isLayerData);
+};
+
+export const isProjectFile = (file: File): boolean => {
+  return file.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION) || file.type === PROJECT_MIME_TYPE;
+};
+
+// Encode a layer's pixels losslessly at their natural size
+const encodeLayerImage = (image: HTMLImageElement): string => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = image.naturalWidth || image.width;
+  canvas.height = image.naturalHeight || image.height;
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const decodeLayerImage = (dataUrl: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Unable to decode layer image'));
+    img.src = dataUrl;
+  });
+};
+
+const serializeMask = (mask: SelectionMask | null | undefined): ProjectMaskData | null => {
+  return mask ? { width: mask.width, height: mask.height, data: encodeMask(mask) } : null;
+};
+
+const deserializeMask = (mask: ProjectMaskData | null | undefined): SelectionMask | null => {
+  return mask ? decodeMask(mask.data, mask.width, mask.height) : null;
+};
+
+const encodeBytes = (bytes: Uint8Array | null): string | null => {
+  if (!bytes) return null;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const decodeBytes = (encoded: string | null): Uint8Array | null => {
+  return encoded ? Uint8Array.from(atob(encoded), char => char.charCodeAt(0)) : null;
+};
+
+const serializeMetadata = (metadata: ImageMetadata | null | undefined): ProjectMetadataData | null => {
+  return metadata
+    ? { ...metadata, exif: encodeBytes(metadata.exif), icc: encodeBytes(metadata.icc) }
+    : null;
+};
+
+const deserializeMetadata = (metadata: ProjectMetadataData | null | undefined): ImageMetadata | null => {
+  return metadata
+    ? { ...metadata, exif: decodeBytes(metadata.exif), icc: decodeBytes(metadata.icc) }
+    : null;
+};
+
+const serializeImageState = (state: ImageState): ProjectImageState => ({
+  ...state,
+  region: serializeMask(state.region)
+});
+
+// Older files may predate newer ImageState fields, or still carry the crop rectangle
+const deserializeImageState = (state: ProjectImageState): ImageState => {
+  const imageState = { ...state, curves: state.curves ?? null, region: deserializeMask(state.region) };
+  delete imageState.crop;
+  return imageState;
+};
+
+export const serializeProject = (project: ProjectDocument): ProjectFileData => {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    activeLayerId: project.activeLayerId,
+    width: project.width,
+    height: project.height,
+    background: project.background,
+    vignette: {
+      intensity: project.vignetteIntensity,
+      radius: project.vignetteRadius
+    },
+    layers: project.layers.map(layer => ({
+      id: layer.id,
+      name: layer.name,
+      image: encodeLayerImage(layer.image),
+      width: layer.image.naturalWidth || layer.image.width,
+      height: layer.image.naturalHeight || layer.image.height,
+      visible: layer.visible,
+      opacity: layer.opacity,
+      blendMode: layer.blendMode,
+      position: { ...layer.position },
+      scale: { ...layer.scale },
+      rotation: layer.rotation,
+      skew: layer.skew ? { ...layer.skew } : undefined,
+      imageState: serializeImageState(layer.imageState),
+      locked: layer.locked,
+      thumbnail: layer.thumbnail,
+      textData: project.textElements.get(layer.id),
+      mask: serializeMask(layer.mask),
+      maskEnabled: layer.maskEnabled,
+      metadata: serializeMetadata(layer.metadata)
+    }))
+  };
+};
+
+export const deserializeProject = async (data: ProjectFileData): Promise<ProjectDocument> => {
+  if (data.format !== PROJECT_FORMAT) {
+    throw new Error('Not a PhotoStudio project file');
+  }
+  if (data.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Project file version ${data.version} is newer than this editor supports`);
+  }
+
+  const textElements = new Map<string, TextData>();
+  const layers = await Promise.all(data.layers.map(async (layerData): Promise<Layer> => {
+    const image = await decodeLayerImage(layerData.image);
+    if (layerData.textData) {
+      textElements.set(layerData.id, layerData.textData);
+    }
+
+    return {
+      id: layerData.id,
+      name: layerData.name,
+      image,
+      visible: layerData.visible,
+      opacity: layerData.opacity,
+      blendMode: layerData.blendMode,
+      position: { ...layerData.position },
+      scale: { ...layerData.scale },
+      rotation: layerData.rotation,
+      skew: layerData.skew ? { ...layerData.skew } : undefined,
+      imageState: deserializeImageState(layerData.imageState),
+      locked: layerData.locked,
+      thumbnail: layerData.thumbnail,
+      mask: deserializeMask(layerData.mask),
+      maskEnabled: layerData.maskEnabled,
+      metadata: deserializeMetadata(layerData.metadata)
+    };
+  }));
+
+  const activeLayerId = layers.some(layer => layer.id === data.activeLayerId)
+    ? data.activeLayerId
+    : layers[0]?.id ?? null;
+
+  // Older files were the bottom layer's size, stretched it over the document and ignored its position
+  const base = layers[0];
+  if (base && (data.width === undefined || data.height === undefined)) {
+    layers[0] = { ...base, position: { x: 0, y: 0 } };
+  }
+  const width = data.width ?? (base ? base.image.naturalWidth || base.image.width : 0);
+  const height = data.height ?? (base ? base.image.naturalHeight || base.image.height : 0);
+
+  // Before version 3, overlays were placed in unzoomed editor canvas pixels and the canvas
+  // size wasn't saved. Assume it fit the document in this window, as it would have.
+  if (base && data.version < 3) {
+    const canvas = getEditorCanvasSize(width, height, { width: window.innerWidth, height: window.innerHeight });
+    const view = { canvasWidth: canvas.width, canvasHeight: canvas.height, zoom: 1, pan: { x: 0, y: 0 } };
+    const toDocument = getDocumentMatrix({ width, height }, base.imageState, view).inverse();
+    layers.forEach((layer, index) => {
+      if (index === 0) return;
+      const placement = getOverlayPlacement(toDocument.multiply(getOverlayFrameMatrix(layer)));
+      layers[index] = { ...layer, ...placement };
+
+      const textData = textElements.get(layer.id);
+      if (textData) {
+        textElements.set(layer.id, { ...textData, x: placement.position.x, y: placement.position.y });
+      }
+    });
+  }
+
+  return {
+    width,
+    height,
+    layers,
+    activeLayerId,
+    textElements,
+    background: data.background ?? { type: 'layer' },
+    vignetteIntensity: data.vignette?.intensity ?? 0,
+    vignetteRadius: data.vignette?.radius ?? 50
+  };
+};
+
+// Download the full layered document as a single JSON file with embedded PNG layers
+export const saveProjectFile = (project: ProjectDocument, fileName: string = 'untitled'): void => {
+  const data = serializeProject(project);
+  const blob = new Blob([JSON.stringify(data)], { type: PROJECT_MIME_TYPE });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.download = `${fileName}${PROJECT_FILE_EXTENSION}`;
+  link.href = url;
+  link.click();
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const readProjectFile = async (file: File): Promise<ProjectDocument> => {
+  const text = await file.text();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is corrupted or not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+    throw new Error('Not a PhotoStudio project file');
+  }
+  if (typeof data.version === 'number' && data.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Project file version ${data.version} is newer than this editor supports`);
+  }
+  if (!isProjectFileData(data)) {
+    throw new Error('Project file is damaged: its layers are missing or incomplete');
+  }
+
+  return deserializeProject(data);
+};
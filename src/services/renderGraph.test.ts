@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultCurves } from './curves';
+import { buildAdjustmentGraph, buildVignetteGraph, getBlurPasses, PixelBuffer, runGraphOnCPU } from './renderGraph';
+
+const neutral = { brightness: 0, contrast: 0, saturation: 0, blur: 0, filter: 'none' as const, curves: null };
+
+const solid = (width: number, height: number, rgba: [number, number, number, number]): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { data, width, height };
+};
+
+const pixel = (buffer: PixelBuffer, x: number, y: number) => {
+  const i = (y * buffer.width + x) * 4;
+  return Array.from(buffer.data.subarray(i, i + 4));
+};
+
+describe('runGraphOnCPU', () => {
+  it('copies the input through an empty graph and leaves it untouched', () => {
+    const input = solid(2, 2, [10, 20, 30, 255]);
+    const output = runGraphOnCPU(input, buildAdjustmentGraph(neutral));
+
+    expect(output.data).toEqual(input.data);
+    expect(output.data).not.toBe(input.data);
+  });
+
+  it('scales colour with brightness, as the CSS brightness() filter does', () => {
+    const output = runGraphOnCPU(solid(1, 1, [100, 100, 100, 255]), buildAdjustmentGraph({ ...neutral, brightness: 50 }));
+    expect(pixel(output, 0, 0)).toEqual([150, 150, 150, 255]);
+  });
+
+  it('flattens everything to mid grey at -100 contrast', () => {
+    const output = runGraphOnCPU(solid(1, 1, [0, 200, 255, 255]), buildAdjustmentGraph({ ...neutral, contrast: -100 }));
+    expect(pixel(output, 0, 0)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('makes the channels equal with the grayscale preset', () => {
+    const [r, g, b] = pixel(runGraphOnCPU(solid(1, 1, [200, 50, 10, 255]), buildAdjustmentGraph({ ...neutral, filter: 'grayscale' })), 0, 0);
+    expect(g).toBe(r);
+    expect(b).toBe(r);
+  });
+
+  it('maps each channel through its curve', () => {
+    const curves = createDefaultCurves();
+    curves.red = [{ x: 0, y: 255 }, { x: 255, y: 0 }];
+    const output = runGraphOnCPU(solid(1, 1, [0, 64, 255, 255]), buildAdjustmentGraph({ ...neutral, curves }));
+    expect(pixel(output, 0, 0)).toEqual([255, 64, 255, 255]);
+  });
+
+  it('blurs alpha without bleeding black into the colour', () => {
+    const input = solid(9, 1, [0, 0, 0, 0]);
+    input.data.set([255, 0, 0, 255], 4 * 4);
+    const output = runGraphOnCPU(input, getBlurPasses(1).filter(pass => pass.type === 'blur' && pass.direction === 'horizontal'));
+
+    const [r, g, b, a] = pixel(output, 3, 0);
+    expect(a).toBeGreaterThan(0);
+    expect(a).toBeLessThan(255);
+    expect([r, g, b]).toEqual([255, 0, 0]);
+  });
+
+  it('darkens the corners with a vignette but not the centre', () => {
+    const input = solid(21, 21, [200, 200, 200, 255]);
+    const output = runGraphOnCPU(input, buildVignetteGraph(100, 50));
+
+    expect(pixel(output, 10, 10)).toEqual([200, 200, 200, 255]);
+    expect(pixel(output, 0, 0)[0]).toBeLessThan(50);
+    expect(buildVignetteGraph(0, 50)).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+import { FilterType, ImageState } from '../types/editor';
+import { buildCurveLUTs, CurveLUTs, isIdentityCurves } from './curves';
+
+// The adjustment stack as a chain of pixel passes. The same graph runs as WebGL shaders
+// (renderPipeline) or on the CPU here; both store 8-bit unpremultiplied RGBA between passes
+// so they produce the same pixels. Nothing in this file touches the DOM.
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray; // RGBA, unpremultiplied, row 0 at the top
+  width: number;
+  height: number;
+}
+
+// A 3x4 matrix on unpremultiplied sRGB: each row is three weights then an offset (0-1 scale)
+export type ColorMatrix = number[];
+
+export type RenderPass =
+  | { type: 'curves'; luts: CurveLUTs }
+  | { type: 'color'; matrices: ColorMatrix[] } // Applied in order, clamped after each
+  | { type: 'blur'; boxSize: number; direction: 'horizontal' | 'vertical' }
+  | { type: 'vignette'; intensity: number; radius: number };
+
+export type RenderGraph = RenderPass[];
+
+export const MAX_COLOR_MATRICES = 8;
+export const MAX_BOX_SIZE = 129;
+
+// Colour matrices from the Filter Effects spec, so results match the CSS filters they replace
+const linearMatrix = (slope: number, intercept: number = 0): ColorMatrix => [
+  slope, 0, 0, intercept,
+  0, slope, 0, intercept,
+  0, 0, slope, intercept
+];
+
+export const brightnessMatrix = (amount: number): ColorMatrix => linearMatrix(amount);
+
+export const contrastMatrix = (amount: number): ColorMatrix => linearMatrix(amount, 0.5 - 0.5 * amount);
+
+export const saturateMatrix = (amount: number): ColorMatrix => [
+  0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount, 0,
+  0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount, 0,
+  0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount, 0
+];
+
+export const grayscaleMatrix = (amount: number): ColorMatrix => {
+  const keep = 1 - amount;
+  return [
+    0.2126 + 0.7874 * keep, 0.7152 - 0.7152 * keep, 0.0722 - 0.0722 * keep, 0,
+    0.2126 - 0.2126 * keep, 0.7152 + 0.2848 * keep, 0.0722 - 0.0722 * keep, 0,
+    0.2126 - 0.2126 * keep, 0.7152 - 0.7152 * keep, 0.0722 + 0.9278 * keep, 0
+  ];
+};
+
+export const sepiaMatrix = (amount: number): ColorMatrix => {
+  const keep = 1 - amount;
+  return [
+    0.393 + 0.607 * keep, 0.769 - 0.769 * keep, 0.189 - 0.189 * keep, 0,
+    0.349 - 0.349 * keep, 0.686 + 0.314 * keep, 0.168 - 0.168 * keep, 0,
+    0.272 - 0.272 * keep, 0.534 - 0.534 * keep, 0.131 + 0.869 * keep, 0
+  ];
+};
+
+export const hueRotateMatrix = (degrees: number): ColorMatrix => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928, 0,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283, 0,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072, 0
+  ];
+};
+
+const getPresetMatrices = (filter: FilterType): ColorMatrix[] => {
+  switch (filter) {
+    case 'grayscale':
+      return [grayscaleMatrix(1)];
+    case 'sepia':
+      return [sepiaMatrix(1)];
+    case 'vintage':
+      return [sepiaMatrix(0.6), contrastMatrix(1.2), brightnessMatrix(0.9)];
+    case 'vibrant':
+      return [saturateMatrix(1.5), contrastMatrix(1.1)];
+    case 'cool':
+      return [hueRotateMatrix(180), saturateMatrix(1.2)];
+    case 'warm':
+      return [hueRotateMatrix(30), saturateMatrix(1.1), brightnessMatrix(1.1)];
+    default:
+      return [];
+  }
+};
+
+const pushColorPasses = (graph: RenderGraph, matrices: ColorMatrix[]) => {
+  for (let i = 0; i < matrices.length; i += MAX_COLOR_MATRICES) {
+    graph.push({ type: 'color', matrices: matrices.slice(i, i + MAX_COLOR_MATRICES) });
+  }
+};
+
+// Gaussian blur as three box blurs each way, the approximation the SVG spec allows for
+// feGaussianBlur. `radius` is the standard deviation in image pixels.
+export const getBlurPasses = (radius: number): RenderPass[] => {
+  if (radius <= 0) return [];
+  const size = Math.floor((radius * 3 * Math.sqrt(2 * Math.PI)) / 4 + 0.5);
+  const boxSize = Math.min(MAX_BOX_SIZE, size % 2 === 0 ? size + 1 : Math.max(1, size));
+  const passes: RenderPass[] = [];
+  (['horizontal', 'vertical'] as const).forEach(direction => {
+    for (let i = 0; i < 3; i++) passes.push({ type: 'blur', boxSize, direction });
+  });
+  return passes;
+};
+
+// Curves, then brightness, contrast, saturation and blur, then the filter preset
+export const buildAdjustmentGraph = (
+  state: Pick<ImageState, 'brightness' | 'contrast' | 'saturation' | 'blur' | 'filter' | 'curves'>
+): RenderGraph => {
+  const graph: RenderGraph = [];
+
+  if (state.curves && !isIdentityCurves(state.curves)) {
+    graph.push({ type: 'curves', luts: buildCurveLUTs(state.curves) });
+  }
+
+  const adjustments: ColorMatrix[] = [];
+  if (state.brightness !== 0) adjustments.push(brightnessMatrix(1 + state.brightness / 100));
+  if (state.contrast !== 0) adjustments.push(contrastMatrix(1 + state.contrast / 100));
+  if (state.saturation !== 0) adjustments.push(saturateMatrix(1 + state.saturation / 100));
+  pushColorPasses(graph, adjustments);
+
+  graph.push(...getBlurPasses(state.blur));
+  pushColorPasses(graph, getPresetMatrices(state.filter));
+  return graph;
+};
+
+export const buildColorGraph = (matrices: ColorMatrix[]): RenderGraph => {
+  const graph: RenderGraph = [];
+  pushColorPasses(graph, matrices);
+  return graph;
+};
+
+// Intensity is 0-100; radius is where the falloff starts as a percentage of the
+// centre-to-corner distance
+export const buildVignetteGraph = (intensity: number, radius: number): RenderGraph => {
+  return intensity > 0 ? [{ type: 'vignette', intensity, radius }] : [];
+};
+
+// Strength of the vignette at a pixel centre: a linear ramp from the inner radius to the corners
+export const getVignetteAlpha = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  intensity: number,
+  radius: number
+): number => {
+  const maxRadius = Math.hypot(width / 2, height / 2);
+  const innerRadius = (radius / 100) * maxRadius;
+  const distance = Math.hypot(x - width / 2, y - height / 2);
+  const t = maxRadius > innerRadius
+    ? Math.min(1, Math.max(0, (distance - innerRadius) / (maxRadius - innerRadius)))
+    : distance >= innerRadius ? 1 : 0;
+  return (intensity / 100) * t;
+};
+
+const clamp01 = (value: number) => (value < 0 ? 0 : value > 1 ? 1 : value);
+const toByte = (value: number) => Math.round(clamp01(value) * 255);
+
+const runColorPass = (data: Uint8ClampedArray, matrices: ColorMatrix[]) => {
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] / 255;
+    let g = data[i + 1] / 255;
+    let b = data[i + 2] / 255;
+    for (const m of matrices) {
+      const nr = clamp01(m[0] * r + m[1] * g + m[2] * b + m[3]);
+      const ng = clamp01(m[4] * r + m[5] * g + m[6] * b + m[7]);
+      const nb = clamp01(m[8] * r + m[9] * g + m[10] * b + m[11]);
+      r = nr;
+      g = ng;
+      b = nb;
+    }
+    data[i] = toByte(r);
+    data[i + 1] = toByte(g);
+    data[i + 2] = toByte(b);
+  }
+};
+
+// Box blur on premultiplied colour; pixels beyond the edge count as transparent
+const runBlurPass = (input: PixelBuffer, boxSize: number, horizontal: boolean): Uint8ClampedArray => {
+  const { data, width, height } = input;
+  const output = new Uint8ClampedArray(data.length);
+  const half = (boxSize - 1) / 2;
+  const length = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  const sums = new Float64Array(4);
+
+  for (let line = 0; line < lines; line++) {
+    const index = (position: number) => (horizontal ? line * width + position : position * width + line) * 4;
+    const add = (position: number, sign: number) => {
+      if (position < 0 || position >= length) return;
+      const i = index(position);
+      const alpha = data[i + 3] / 255;
+      sums[0] += sign * (data[i] / 255) * alpha;
+      sums[1] += sign * (data[i + 1] / 255) * alpha;
+      sums[2] += sign * (data[i + 2] / 255) * alpha;
+      sums[3] += sign * alpha;
+    };
+
+    sums.fill(0);
+    for (let position = -half; position < half; position++) add(position, 1);
+
+    for (let position = 0; position < length; position++) {
+      add(position + half, 1);
+      const alpha = sums[3] / boxSize;
+      const o = index(position);
+      if (alpha > 1e-6) {
+        output[o] = toByte(sums[0] / boxSize / alpha);
+        output[o + 1] = toByte(sums[1] / boxSize / alpha);
+        output[o + 2] = toByte(sums[2] / boxSize / alpha);
+      }
+      output[o + 3] = toByte(alpha);
+      add(position - half, -1);
+    }
+  }
+  return output;
+};
+
+// Multiply towards black with source-over alpha, as a black radial gradient drawn in
+// 'multiply' mode would
+const runVignettePass = (input: PixelBuffer, intensity: number, radius: number) => {
+  const { data, width, height } = input;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const amount = getVignetteAlpha(x + 0.5, y + 0.5, width, height, intensity, radius);
+      if (amount === 0) continue;
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3] / 255;
+      const outAlpha = amount + alpha - amount * alpha;
+      const scale = outAlpha > 0 ? (alpha * (1 - amount)) / outAlpha : 0;
+      data[i] = toByte((data[i] / 255) * scale);
+      data[i + 1] = toByte((data[i + 1] / 255) * scale);
+      data[i + 2] = toByte((data[i + 2] / 255) * scale);
+      data[i + 3] = toByte(outAlpha);
+    }
+  }
+};
+
+// Run a graph on the CPU. The input is left untouched.
+export const runGraphOnCPU = (input: PixelBuffer, graph: RenderGraph): PixelBuffer => {
+  const buffer: PixelBuffer = { data: new Uint8ClampedArray(input.data), width: input.width, height: input.height };
+
+  for (const pass of graph) {
+    switch (pass.type) {
+      case 'curves': {
+        const { red, green, blue } = pass.luts;
+        for (let i = 0; i < buffer.data.length; i += 4) {
+          buffer.data[i] = red[buffer.data[i]];
+          buffer.data[i + 1] = green[buffer.data[i + 1]];
+          buffer.data[i + 2] = blue[buffer.data[i + 2]];
+        }
+        break;
+      }
+      case 'color':
+        runColorPass(buffer.data, pass.matrices);
+        break;
+      case 'blur':
+        buffer.data = runBlurPass(buffer, pass.boxSize, pass.direction === 'horizontal');
+        break;
+      case 'vignette':
+        runVignettePass(buffer, pass.intensity, pass.radius);
+        break;
+    }
+  }
+
+  return buffer;
+};
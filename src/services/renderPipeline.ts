@@ -0,0 +1,333 @@
+import { MAX_BOX_SIZE, MAX_COLOR_MATRICES, PixelBuffer, RenderGraph, RenderPass, runGraphOnCPU } from './renderGraph';
+
+export type RenderSource = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+void main() {
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Every pass samples texel centres directly. Row 0 is the top of the image; only the final
+// pass into the drawing buffer flips, so positions below are always in image pixels.
+const FRAGMENT_HEADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+uniform sampler2D u_image;
+uniform vec2 u_size;
+uniform float u_flipY;
+
+vec2 imagePixel() {
+  return vec2(gl_FragCoord.x, u_flipY > 0.5 ? u_size.y - gl_FragCoord.y : gl_FragCoord.y);
+}
+
+vec4 sampleAt(vec2 pixel) {
+  return texture2D(u_image, pixel / u_size);
+}
+`;
+
+const FRAGMENT_SHADERS: Record<RenderPass['type'], string> = {
+  curves: `${FRAGMENT_HEADER}
+uniform sampler2D u_lut;
+
+float lookup(float value, int channel) {
+  vec4 entry = texture2D(u_lut, vec2((floor(value * 255.0 + 0.5) + 0.5) / 256.0, 0.5));
+  return channel == 0 ? entry.r : channel == 1 ? entry.g : entry.b;
+}
+
+void main() {
+  vec4 color = sampleAt(imagePixel());
+  gl_FragColor = vec4(lookup(color.r, 0), lookup(color.g, 1), lookup(color.b, 2), color.a);
+}`,
+
+  color: `${FRAGMENT_HEADER}
+uniform vec4 u_rows[${MAX_COLOR_MATRICES * 3}];
+uniform int u_count;
+
+void main() {
+  vec4 color = sampleAt(imagePixel());
+  vec3 rgb = color.rgb;
+  for (int i = 0; i < ${MAX_COLOR_MATRICES}; i++) {
+    if (i >= u_count) break;
+    vec4 r = u_rows[i * 3];
+    vec4 g = u_rows[i * 3 + 1];
+    vec4 b = u_rows[i * 3 + 2];
+    rgb = clamp(vec3(
+      dot(r.xyz, rgb) + r.w,
+      dot(g.xyz, rgb) + g.w,
+      dot(b.xyz, rgb) + b.w
+    ), 0.0, 1.0);
+  }
+  gl_FragColor = vec4(rgb, color.a);
+}`,
+
+  blur: `${FRAGMENT_HEADER}
+uniform vec2 u_direction;
+uniform int u_boxSize;
+
+void main() {
+  vec2 pixel = imagePixel();
+  float reach = float(u_boxSize - 1) / 2.0;
+  vec4 sum = vec4(0.0);
+  for (int i = 0; i < ${MAX_BOX_SIZE}; i++) {
+    if (i >= u_boxSize) break;
+    vec2 tap = pixel + u_direction * (float(i) - reach);
+    if (tap.x > 0.0 && tap.y > 0.0 && tap.x < u_size.x && tap.y < u_size.y) {
+      vec4 color = sampleAt(tap);
+      sum += vec4(color.rgb * color.a, color.a);
+    }
+  }
+  vec4 mean = sum / float(u_boxSize);
+  gl_FragColor = mean.a > 0.000001 ? vec4(clamp(mean.rgb / mean.a, 0.0, 1.0), mean.a) : vec4(0.0);
+}`,
+
+  vignette: `${FRAGMENT_HEADER}
+uniform float u_intensity;
+uniform float u_radius;
+
+void main() {
+  vec2 pixel = imagePixel();
+  vec4 color = sampleAt(pixel);
+  float maxRadius = length(u_size / 2.0);
+  float innerRadius = u_radius / 100.0 * maxRadius;
+  float dist = length(pixel - u_size / 2.0);
+  float t = maxRadius > innerRadius
+    ? clamp((dist - innerRadius) / (maxRadius - innerRadius), 0.0, 1.0)
+    : step(innerRadius, dist);
+  float amount = u_intensity / 100.0 * t;
+  float alpha = amount + color.a - amount * color.a;
+  float scale = alpha > 0.0 ? color.a * (1.0 - amount) / alpha : 0.0;
+  gl_FragColor = vec4(color.rgb * scale, alpha);
+}`
+};
+
+interface GLState {
+  gl: WebGLRenderingContext;
+  canvas: HTMLCanvasElement;
+  programs: Map<RenderPass['type'], WebGLProgram>;
+  lut: WebGLTexture;
+  targets: { texture: WebGLTexture; framebuffer: WebGLFramebuffer }[];
+  targetSize: { width: number; height: number };
+}
+
+let glState: GLState | null = null;
+let glUnavailable = false;
+
+const compileProgram = (gl: WebGLRenderingContext, fragmentSource: string): WebGLProgram => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+  gl.bindAttribLocation(program, 0, 'a_position');
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+};
+
+const createTexture = (gl: WebGLRenderingContext): WebGLTexture => {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const initGL = (): GLState | null => {
+  if (glState) return glState;
+  if (glUnavailable || typeof document === 'undefined') return null;
+
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl', { premultipliedAlpha: false, preserveDrawingBuffer: true, antialias: false });
+    if (!gl) throw new Error('WebGL is not available');
+
+    const programs = new Map<RenderPass['type'], WebGLProgram>();
+    (Object.keys(FRAGMENT_SHADERS) as RenderPass['type'][]).forEach(type => {
+      programs.set(type, compileProgram(gl, FRAGMENT_SHADERS[type]));
+    });
+
+    // One triangle strip covering the viewport
+    gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    canvas.addEventListener('webglcontextlost', () => {
+      console.warn('⚠️ WebGL context lost, rendering adjustments on the CPU');
+      glState = null;
+      glUnavailable = true;
+    });
+
+    glState = { gl, canvas, programs, lut: createTexture(gl), targets: [], targetSize: { width: 0, height: 0 } };
+    console.log('🎨 WebGL render pipeline ready');
+    return glState;
+  } catch (error) {
+    console.warn('⚠️ WebGL unavailable, rendering adjustments on the CPU:', error);
+    glUnavailable = true;
+    return null;
+  }
+};
+
+// Two ping-pong render targets at the image size
+const prepareTargets = (state: GLState, width: number, height: number) => {
+  const { gl } = state;
+  if (state.targets.length === 2 && state.targetSize.width === width && state.targetSize.height === height) return;
+
+  state.targets.forEach(target => {
+    gl.deleteTexture(target.texture);
+    gl.deleteFramebuffer(target.framebuffer);
+  });
+  state.targets = [0, 1].map(() => {
+    const texture = createTexture(gl);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    const framebuffer = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    return { texture, framebuffer };
+  });
+  state.targetSize = { width, height };
+};
+
+const setPassUniforms = (gl: WebGLRenderingContext, program: WebGLProgram, pass: RenderPass, lut: WebGLTexture) => {
+  const location = (name: string) => gl.getUniformLocation(program, name);
+  switch (pass.type) {
+    case 'curves': {
+      const table = new Uint8Array(256 * 4);
+      for (let i = 0; i < 256; i++) {
+        table[i * 4] = pass.luts.red[i];
+        table[i * 4 + 1] = pass.luts.green[i];
+        table[i * 4 + 2] = pass.luts.blue[i];
+        table[i * 4 + 3] = 255;
+      }
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, lut);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 256, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, table);
+      gl.uniform1i(location('u_lut'), 1);
+      gl.activeTexture(gl.TEXTURE0);
+      break;
+    }
+    case 'color': {
+      const rows = new Float32Array(MAX_COLOR_MATRICES * 12);
+      pass.matrices.forEach((matrix, i) => rows.set(matrix, i * 12));
+      gl.uniform4fv(location('u_rows'), rows);
+      gl.uniform1i(location('u_count'), pass.matrices.length);
+      break;
+    }
+    case 'blur':
+      gl.uniform2f(location('u_direction'), pass.direction === 'horizontal' ? 1 : 0, pass.direction === 'vertical' ? 1 : 0);
+      gl.uniform1i(location('u_boxSize'), pass.boxSize);
+      break;
+    case 'vignette':
+      gl.uniform1f(location('u_intensity'), pass.intensity);
+      gl.uniform1f(location('u_radius'), pass.radius);
+      break;
+  }
+};
+
+const getSourceSize = (source: RenderSource) => ({
+  width: source instanceof HTMLImageElement ? source.naturalWidth || source.width : source.width,
+  height: source instanceof HTMLImageElement ? source.naturalHeight || source.height : source.height
+});
+
+// Run a graph as shader passes. Returns false when the GPU can't take it (no WebGL, image
+// larger than a texture allows, lost context) so the caller falls back to the CPU.
+const runGraphOnGPU = (source: RenderSource, graph: RenderGraph, target: HTMLCanvasElement): boolean => {
+  const state = initGL();
+  if (!state) return false;
+
+  const { gl, canvas } = state;
+  const { width, height } = getSourceSize(source);
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+  if (width > maxSize || height > maxSize) return false;
+
+  canvas.width = width;
+  canvas.height = height;
+  gl.viewport(0, 0, width, height);
+  prepareTargets(state, width, height);
+
+  const input = createTexture(gl);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+  let current = input;
+  graph.forEach((pass, index) => {
+    const isLast = index === graph.length - 1;
+    const output = state.targets[index % 2];
+    const program = state.programs.get(pass.type)!;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, isLast ? null : output.framebuffer);
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, current);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_image'), 0);
+    gl.uniform2f(gl.getUniformLocation(program, 'u_size'), width, height);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_flipY'), isLast ? 1 : 0);
+    setPassUniforms(gl, program, pass, state.lut);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    current = output.texture;
+  });
+
+  gl.deleteTexture(input);
+  if (gl.isContextLost()) return false;
+
+  const ctx = target.getContext('2d');
+  if (!ctx) return false;
+  target.width = width;
+  target.height = height;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(canvas, 0, 0);
+  return true;
+};
+
+const readPixels = (source: RenderSource): PixelBuffer => {
+  const { width, height } = getSourceSize(source);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return { data, width, height };
+};
+
+// Render a source through a graph into `target` (a new canvas if none is given), on the GPU
+// where possible and on the CPU otherwise. Both paths produce the same pixels.
+export const runRenderGraph = (
+  source: RenderSource,
+  graph: RenderGraph,
+  target: HTMLCanvasElement = document.createElement('canvas')
+): HTMLCanvasElement => {
+  if (graph.length > 0 && runGraphOnGPU(source, graph, target)) {
+    return target;
+  }
+
+  const result = runGraphOnCPU(readPixels(source), graph);
+  const ctx = target.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  target.width = result.width;
+  target.height = result.height;
+  ctx.putImageData(new ImageData(result.data, result.width, result.height), 0, 0);
+  return target;
+};
@@ -0,0 +1,274 @@
+import { PixelBuffer } from './renderGraph';
+
+// Content-aware cropping that needs no model or network. An attention map scores a small copy
+// of the image for edge density (detail), colour that stands out from the image's average, and
+// skin tones (a stand-in for faces). The crop window holding the most attention wins. Nothing
+// in this file touches the DOM, so batch workers can use it too.
+
+export interface AttentionWeights {
+  edges: number;
+  colour: number;
+  skin: number;
+}
+
+export const defaultAttentionWeights: AttentionWeights = { edges: 1, colour: 1, skin: 1.5 };
+
+export interface AttentionMap {
+  width: number;
+  height: number;
+  data: Float32Array; // Non-negative attention per map cell
+  sourceWidth: number; // Size of the pixels the map was made from
+  sourceHeight: number;
+}
+
+export interface CropWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AttentionWindowOptions {
+  // Window sizes to try, as fractions of the largest window of the aspect ratio. Smaller
+  // windows only win when the attention is concentrated enough to justify the tighter crop.
+  scales?: number[];
+}
+
+// Longest side of the attention map. Plenty for choosing a crop, and fast to score.
+const MAP_SIZE = 160;
+
+// Attention near a window's edges counts for less, so subjects aren't cut off at the border
+const BORDER = 0.1;
+
+// Area-average the pixels into map cells. Colour is premultiplied so transparent areas
+// contribute nothing.
+const downsample = (pixels: PixelBuffer) => {
+  const scale = Math.min(1, MAP_SIZE / Math.max(pixels.width, pixels.height));
+  const width = Math.max(1, Math.round(pixels.width * scale));
+  const height = Math.max(1, Math.round(pixels.height * scale));
+  const rgb = new Float32Array(width * height * 3);
+  const alpha = new Float32Array(width * height);
+  const counts = new Float32Array(width * height);
+
+  for (let y = 0; y < pixels.height; y++) {
+    const my = Math.min(height - 1, Math.floor((y * height) / pixels.height));
+    for (let x = 0; x < pixels.width; x++) {
+      const mx = Math.min(width - 1, Math.floor((x * width) / pixels.width));
+      const i = (y * pixels.width + x) * 4;
+      const m = my * width + mx;
+      const a = pixels.data[i + 3] / 255;
+      rgb[m * 3] += pixels.data[i] * a;
+      rgb[m * 3 + 1] += pixels.data[i + 1] * a;
+      rgb[m * 3 + 2] += pixels.data[i + 2] * a;
+      alpha[m] += a;
+      counts[m]++;
+    }
+  }
+
+  for (let m = 0; m < width * height; m++) {
+    if (alpha[m] > 0) {
+      rgb[m * 3] /= alpha[m];
+      rgb[m * 3 + 1] /= alpha[m];
+      rgb[m * 3 + 2] /= alpha[m];
+    }
+    alpha[m] = counts[m] ? alpha[m] / counts[m] : 0;
+  }
+
+  return { width, height, rgb, alpha };
+};
+
+const normalize = (values: Float32Array) => {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) max = Math.max(max, values[i]);
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) values[i] /= max;
+  }
+  return values;
+};
+
+// Separable box blur, so attention forms regions rather than speckle
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  const pass = (input: Float32Array, horizontal: boolean) => {
+    const output = new Float32Array(input.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        let count = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? x + k : x;
+          const sy = horizontal ? y : y + k;
+          if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+          sum += input[sy * width + sx];
+          count++;
+        }
+        output[y * width + x] = sum / count;
+      }
+    }
+    return output;
+  };
+  return pass(pass(values, true), false);
+};
+
+// Classic YCbCr skin range, softened so borderline tones count partly
+const skinLikelihood = (r: number, g: number, b: number) => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  if (y < 40 || y > 240) return 0;
+
+  const inRange = (value: number, low: number, high: number) => {
+    const softness = 8;
+    if (value >= low && value <= high) return 1;
+    const distance = value < low ? low - value : value - high;
+    return Math.max(0, 1 - distance / softness);
+  };
+  return inRange(cb, 77, 127) * inRange(cr, 133, 173);
+};
+
+export const computeAttentionMap = (
+  pixels: PixelBuffer,
+  weights: AttentionWeights = defaultAttentionWeights
+): AttentionMap => {
+  const { width, height, rgb, alpha } = downsample(pixels);
+  const size = width * height;
+
+  const luminance = new Float32Array(size);
+  let meanR = 0, meanG = 0, meanB = 0, coverage = 0;
+  for (let m = 0; m < size; m++) {
+    const r = rgb[m * 3], g = rgb[m * 3 + 1], b = rgb[m * 3 + 2];
+    luminance[m] = 0.299 * r + 0.587 * g + 0.114 * b;
+    meanR += r * alpha[m];
+    meanG += g * alpha[m];
+    meanB += b * alpha[m];
+    coverage += alpha[m];
+  }
+  if (coverage > 0) {
+    meanR /= coverage;
+    meanG /= coverage;
+    meanB /= coverage;
+  }
+
+  // Sobel gradient magnitude on luminance
+  const edges = new Float32Array(size);
+  const at = (x: number, y: number) => luminance[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      edges[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+
+  // Distance from the average colour, with chroma weighted above brightness
+  const colour = new Float32Array(size);
+  const skin = new Float32Array(size);
+  for (let m = 0; m < size; m++) {
+    const dr = rgb[m * 3] - meanR, dg = rgb[m * 3 + 1] - meanG, db = rgb[m * 3 + 2] - meanB;
+    const brightness = (dr + dg + db) / 3;
+    colour[m] = Math.hypot(dr - brightness, dg - brightness, db - brightness) * 1.5 + Math.abs(brightness) * 0.5;
+    skin[m] = skinLikelihood(rgb[m * 3], rgb[m * 3 + 1], rgb[m * 3 + 2]);
+  }
+
+  normalize(edges);
+  normalize(colour);
+  const combined = new Float32Array(size);
+  for (let m = 0; m < size; m++) {
+    combined[m] = (weights.edges * edges[m] + weights.colour * colour[m] + weights.skin * skin[m]) * alpha[m];
+  }
+
+  const radius = Math.max(1, Math.round(Math.max(width, height) / 40));
+  return {
+    width,
+    height,
+    data: boxBlur(combined, width, height, radius),
+    sourceWidth: pixels.width,
+    sourceHeight: pixels.height
+  };
+};
+
+// Summed-area table, so any window's attention is four lookups
+const createIntegral = (map: AttentionMap) => {
+  const stride = map.width + 1;
+  const table = new Float64Array(stride * (map.height + 1));
+  for (let y = 0; y < map.height; y++) {
+    let row = 0;
+    for (let x = 0; x < map.width; x++) {
+      row += map.data[y * map.width + x];
+      table[(y + 1) * stride + x + 1] = table[y * stride + x + 1] + row;
+    }
+  }
+  return (x: number, y: number, width: number, height: number) =>
+    table[(y + height) * stride + x + width] - table[y * stride + x + width] - table[(y + height) * stride + x] + table[y * stride + x];
+};
+
+// The window of an aspect ratio (width / height) that holds the most attention, in the
+// source's pixels
+export const findAttentionWindow = (
+  map: AttentionMap,
+  aspect: number,
+  options: AttentionWindowOptions = {}
+): CropWindow => {
+  const { scales = [1] } = options;
+  const { sourceWidth, sourceHeight } = map;
+  const cellWidth = sourceWidth / map.width;
+  const cellHeight = sourceHeight / map.height;
+  const sum = createIntegral(map);
+  const total = sum(0, 0, map.width, map.height);
+
+  const maxWidth = Math.min(sourceWidth, sourceHeight * aspect);
+  let best: CropWindow | null = null;
+  let bestScore = -Infinity;
+
+  for (const scale of scales) {
+    const width = maxWidth * scale;
+    const height = width / aspect;
+    const mapWidth = Math.max(1, Math.min(map.width, Math.round(width / cellWidth)));
+    const mapHeight = Math.max(1, Math.min(map.height, Math.round(height / cellHeight)));
+    const borderX = Math.round(mapWidth * BORDER);
+    const borderY = Math.round(mapHeight * BORDER);
+
+    for (let y = 0; y <= map.height - mapHeight; y++) {
+      for (let x = 0; x <= map.width - mapWidth; x++) {
+        const inside = sum(x, y, mapWidth, mapHeight);
+        const inner = sum(x + borderX, y + borderY, mapWidth - 2 * borderX, mapHeight - 2 * borderY);
+        const captured = total > 0 ? (inner + (inside - inner) * 0.5) / total : 0;
+
+        // Captured attention grows with area, so dividing by the scale keeps larger windows
+        // ahead unless a smaller one is denser. A slight pull to the centre breaks ties.
+        const offCentre = Math.hypot(
+          (x + mapWidth / 2) / map.width - 0.5,
+          (y + mapHeight / 2) / map.height - 0.5
+        );
+        const score = captured / scale - offCentre * 1e-3;
+        if (score > bestScore) {
+          bestScore = score;
+          best = {
+            x: Math.min(sourceWidth - width, Math.max(0, (x + mapWidth / 2) * cellWidth - width / 2)),
+            y: Math.min(sourceHeight - height, Math.max(0, (y + mapHeight / 2) * cellHeight - height / 2)),
+            width,
+            height
+          };
+        }
+      }
+    }
+  }
+
+  return best ?? { x: (sourceWidth - maxWidth) / 2, y: (sourceHeight - maxWidth / aspect) / 2, width: maxWidth, height: maxWidth / aspect };
+};
+
+// Share of the map's attention inside a window, 0-1
+export const getWindowAttention = (map: AttentionMap, window: CropWindow): number => {
+  const sum = createIntegral(map);
+  const total = sum(0, 0, map.width, map.height);
+  if (total <= 0) return 0;
+  const x = Math.max(0, Math.floor((window.x / map.sourceWidth) * map.width));
+  const y = Math.max(0, Math.floor((window.y / map.sourceHeight) * map.height));
+  const right = Math.min(map.width, Math.ceil(((window.x + window.width) / map.sourceWidth) * map.width));
+  const bottom = Math.min(map.height, Math.ceil(((window.y + window.height) / map.sourceHeight) * map.height));
+  return sum(x, y, right - x, bottom - y) / total;
+};
+
+// Best window of an aspect ratio straight from pixels
+export const getSaliencyCrop = (pixels: PixelBuffer, aspect: number, options: AttentionWindowOptions = {}): CropWindow => {
+  return findAttentionWindow(computeAttentionMap(pixels), aspect, options);
+};
@@ -0,0 +1,401 @@
+import * as tf from '@tensorflow/tfjs';
+import * as bodyPix from '@tensorflow-models/body-pix';
+
+// Segmentation providers: the models background removal and auto crop use to find the
+// subject. Each provider loads once on the chosen backend and, with caching on, keeps its
+// weights in IndexedDB so later sessions work offline.
+
+export type SegmentationBackend = 'webgl' | 'wasm' | 'cpu';
+export type SegmentationSubject = 'person' | 'salient'; // What a model picks out
+
+// Which pixels are the subject (1) and which aren't (0), at the size of the source
+export interface SubjectSegmentation {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface SegmentOptions {
+  threshold?: number; // 0-1; how sure the model must be that a pixel is the subject
+  flipHorizontal?: boolean;
+}
+
+export interface SegmentationProvider {
+  id: string;
+  label: string;
+  subject: SegmentationSubject;
+  segment: (source: HTMLCanvasElement, options?: SegmentOptions) => Promise<SubjectSegmentation>;
+  dispose: () => void;
+}
+
+// BodyPix doesn't export its config type from the package root
+type BodyPixLoadConfig = NonNullable<Parameters<typeof bodyPix.load>[0]>;
+
+interface BodyPixModelConfig {
+  kind: 'bodypix';
+  model: BodyPixLoadConfig; // A modelUrl here loads the weights from local files
+}
+
+// Any TF.js graph model that takes an RGB image and gives back one foreground map, such as
+// a salient-object model converted with tensorflowjs_converter
+interface GraphModelConfig {
+  kind: 'graph';
+  inputSize: number; // Square input the model expects
+  layout: 'nhwc' | 'nchw'; // Models converted from PyTorch are usually channels-first
+  mean: [number, number, number]; // Per-channel normalisation of 0-1 pixel values
+  std: [number, number, number];
+  outputIndex: number; // Which output to use, for models with several
+  sigmoid: boolean; // The output is logits rather than probabilities
+  stretch: boolean; // Rescale the output to span 0-1, as U2-Net style models expect
+}
+
+export interface SegmentationModel {
+  id: string;
+  label: string;
+  description: string;
+  subject: SegmentationSubject;
+  config: BodyPixModelConfig | GraphModelConfig;
+}
+
+export interface SegmentationSettings {
+  modelId: string;
+  backend: SegmentationBackend;
+  cacheModels: boolean; // Keep downloaded weights in IndexedDB
+  localModelUrl: string; // Where the local model's model.json is: a URL, or indexeddb:// once imported
+}
+
+export const SEGMENTATION_MODELS: SegmentationModel[] = [
+  {
+    id: 'bodypix-mobilenet',
+    label: 'BodyPix MobileNet',
+    description: 'People; fast and small',
+    subject: 'person',
+    config: { kind: 'bodypix', model: { architecture: 'MobileNetV1', outputStride: 16, multiplier: 0.75, quantBytes: 2 } }
+  },
+  {
+    id: 'bodypix-mobilenet-full',
+    label: 'BodyPix MobileNet (full)',
+    description: 'People; finer edges, a little slower',
+    subject: 'person',
+    config: { kind: 'bodypix', model: { architecture: 'MobileNetV1', outputStride: 8, multiplier: 1.0, quantBytes: 4 } }
+  },
+  {
+    id: 'bodypix-resnet50',
+    label: 'BodyPix ResNet50',
+    description: 'People; most accurate, large download',
+    subject: 'person',
+    config: { kind: 'bodypix', model: { architecture: 'ResNet50', outputStride: 16, quantBytes: 2 } }
+  },
+  {
+    id: 'salient-local',
+    label: 'Salient object (local)',
+    description: 'Any subject, from a TF.js model you provide',
+    subject: 'salient',
+    config: {
+      kind: 'graph',
+      inputSize: 320,
+      layout: 'nhwc',
+      mean: [0.485, 0.456, 0.406],
+      std: [0.229, 0.224, 0.225],
+      outputIndex: 0,
+      sigmoid: false,
+      stretch: true
+    }
+  }
+];
+
+export const SEGMENTATION_BACKENDS: { value: SegmentationBackend; label: string; description: string }[] = [
+  { value: 'webgl', label: 'WebGL', description: 'GPU; fastest where available' },
+  { value: 'wasm', label: 'WebAssembly', description: 'CPU with SIMD; needs @tensorflow/tfjs-backend-wasm' },
+  { value: 'cpu', label: 'CPU', description: 'Plain JavaScript; slowest, works everywhere' }
+];
+
+export const defaultSegmentationSettings: SegmentationSettings = {
+  modelId: 'bodypix-mobilenet',
+  backend: 'webgl',
+  cacheModels: true,
+  localModelUrl: '/models/salient/model.json'
+};
+
+const STORAGE_KEY = 'adifi-segmentation-settings';
+const CACHE_PREFIX = 'indexeddb://adifi-segmentation-';
+// Outside the cache prefix, so clearing the cache keeps it
+const IMPORTED_MODEL_URL = 'indexeddb://adifi-imported-segmentation';
+
+export const getSegmentationModel = (id: string): SegmentationModel => {
+  return SEGMENTATION_MODELS.find(model => model.id === id) ?? SEGMENTATION_MODELS[0];
+};
+
+export const loadSegmentationSettings = (): SegmentationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...defaultSegmentationSettings, ...stored };
+  } catch {
+    return { ...defaultSegmentationSettings };
+  }
+};
+
+// Takes effect on the next segmentation; the current model is swapped out then
+export const saveSegmentationSettings = (settings: SegmentationSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    throw new Error('Not enough browser storage to save the segmentation settings');
+  }
+};
+
+// A backend is only there when its package has registered it; the WASM one registers when
+// @tensorflow/tfjs-backend-wasm is imported
+export const isBackendAvailable = (backend: SegmentationBackend): boolean => {
+  return !!tf.findBackendFactory(backend);
+};
+
+// Switch to the chosen backend, falling back through the others in order of speed
+const switchBackend = async (backend: SegmentationBackend): Promise<string> => {
+  await tf.ready();
+  const candidates = [backend, ...SEGMENTATION_BACKENDS.map(option => option.value).filter(value => value !== backend)];
+
+  for (const candidate of candidates) {
+    if (tf.getBackend() === candidate) return candidate;
+    if (!isBackendAvailable(candidate)) continue;
+    try {
+      if (await tf.setBackend(candidate)) {
+        await tf.ready();
+        return candidate;
+      }
+    } catch (error) {
+      console.warn(`The ${candidate} backend failed to start:`, error);
+    }
+  }
+  throw new Error('No TensorFlow.js backend is available');
+};
+
+const isCached = async (url: string): Promise<boolean> => {
+  try {
+    return url in (await tf.io.listModels());
+  } catch {
+    return false; // IndexedDB is unavailable, e.g. in some private windows
+  }
+};
+
+// Cache entries are keyed by model and source, so a new local model URL doesn't reuse old weights
+const getCacheUrl = (model: SegmentationModel, sourceUrl: string | undefined): string => {
+  const source = (sourceUrl ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${CACHE_PREFIX}${model.id}${source ? `-${source}` : ''}`;
+};
+
+const saveToCache = async (graph: tf.GraphModel, url: string): Promise<void> => {
+  try {
+    await graph.save(url);
+    console.log(`💾 Cached segmentation model at ${url}`);
+  } catch (error) {
+    console.warn('Could not cache the segmentation model; it will download again next time:', error);
+  }
+};
+
+const toBinary = (probabilities: Float32Array | Int32Array | Uint8Array, threshold: number): Uint8Array => {
+  const data = new Uint8Array(probabilities.length);
+  for (let i = 0; i < probabilities.length; i++) {
+    data[i] = probabilities[i] > threshold ? 1 : 0;
+  }
+  return data;
+};
+
+const loadBodyPixProvider = async (
+  model: SegmentationModel,
+  config: BodyPixModelConfig,
+  settings: SegmentationSettings
+): Promise<SegmentationProvider> => {
+  const cacheUrl = getCacheUrl(model, config.model.modelUrl);
+  let net: bodyPix.BodyPix | null = null;
+
+  if (settings.cacheModels && await isCached(cacheUrl)) {
+    try {
+      net = await bodyPix.load({ ...config.model, modelUrl: cacheUrl });
+    } catch (error) {
+      console.warn('Cached BodyPix model failed to load, downloading it again:', error);
+    }
+  }
+  if (!net) {
+    net = await bodyPix.load({ ...config.model });
+    if (settings.cacheModels) {
+      // BodyPix keeps its graph model protected; index access is the way in
+      await saveToCache(net.baseModel['model'], cacheUrl);
+    }
+  }
+
+  const loaded = net;
+  return {
+    id: model.id,
+    label: model.label,
+    subject: model.subject,
+    segment: async (source, options = {}) => {
+      const segmentation = await loaded.segmentPerson(source, {
+        flipHorizontal: options.flipHorizontal ?? false,
+        internalResolution: 'medium',
+        segmentationThreshold: options.threshold ?? 0.5
+      });
+      return { width: segmentation.width, height: segmentation.height, data: Uint8Array.from(segmentation.data) };
+    },
+    dispose: () => loaded.dispose()
+  };
+};
+
+const loadGraphProvider = async (
+  model: SegmentationModel,
+  config: GraphModelConfig,
+  settings: SegmentationSettings
+): Promise<SegmentationProvider> => {
+  const sourceUrl = settings.localModelUrl.trim();
+  if (!sourceUrl) {
+    throw new Error(`${model.label} needs the location of its model.json`);
+  }
+
+  // Imported models already live in IndexedDB
+  const cacheUrl = sourceUrl.startsWith('indexeddb://') ? sourceUrl : getCacheUrl(model, sourceUrl);
+  let graph: tf.GraphModel | null = null;
+
+  if ((settings.cacheModels || cacheUrl === sourceUrl) && await isCached(cacheUrl)) {
+    try {
+      graph = await tf.loadGraphModel(cacheUrl);
+    } catch (error) {
+      console.warn('Cached segmentation model failed to load, fetching it again:', error);
+    }
+  }
+  if (!graph) {
+    if (cacheUrl === sourceUrl) {
+      throw new Error(`${model.label} is not in this browser any more; import its files again`);
+    }
+    graph = await tf.loadGraphModel(sourceUrl);
+    if (settings.cacheModels) {
+      await saveToCache(graph, cacheUrl);
+    }
+  }
+
+  const loaded = graph;
+  return {
+    id: model.id,
+    label: model.label,
+    subject: model.subject,
+    segment: async (source, options = {}) => {
+      const { width, height } = source;
+      const mask = tf.tidy(() => {
+        const pixels = tf.browser.fromPixels(source).toFloat().div(255);
+        const resized = tf.image.resizeBilinear(pixels as tf.Tensor3D, [config.inputSize, config.inputSize]);
+        const normalized = resized.sub(config.mean).div(config.std).expandDims(0);
+        const input = config.layout === 'nchw' ? normalized.transpose([0, 3, 1, 2]) : normalized;
+
+        const outputs = loaded.predict(input);
+        const output = Array.isArray(outputs) ? outputs[config.outputIndex] : outputs as tf.Tensor;
+        let map = output.squeeze();
+        if (map.rank !== 2) {
+          throw new Error(`${model.label} must output a single-channel map, got shape [${output.shape.join(', ')}]`);
+        }
+        if (config.sigmoid) {
+          map = tf.sigmoid(map);
+        }
+        if (config.stretch) {
+          const min = map.min();
+          map = map.sub(min).div(map.max().sub(min).maximum(1e-6));
+        }
+
+        const full = tf.image.resizeBilinear(map.expandDims(-1) as tf.Tensor3D, [height, width]);
+        return options.flipHorizontal ? tf.reverse(full, 1) : full;
+      });
+
+      const probabilities = await mask.data();
+      mask.dispose();
+      return { width, height, data: toBinary(probabilities, options.threshold ?? 0.5) };
+    },
+    dispose: () => loaded.dispose()
+  };
+};
+
+let active: { key: string; provider: Promise<SegmentationProvider> } | null = null;
+
+// Dispose the shared provider so the next call loads the model afresh
+const releaseProvider = () => {
+  if (!active) return;
+  active.provider.then(previous => previous.dispose()).catch(() => {});
+  active = null;
+};
+
+// The provider for the current settings, loaded once and shared. Changing the settings swaps
+// it out on the next call.
+export const getSegmentationProvider = async (): Promise<SegmentationProvider> => {
+  const settings = loadSegmentationSettings();
+  const model = getSegmentationModel(settings.modelId);
+  const key = JSON.stringify([model.id, settings.backend, settings.cacheModels, model.config.kind === 'graph' ? settings.localModelUrl : '']);
+  if (active?.key === key) return active.provider;
+  releaseProvider();
+
+  const provider = (async () => {
+    const backend = await switchBackend(settings.backend);
+    if (backend !== settings.backend) {
+      console.warn(`The ${settings.backend} backend is unavailable; segmenting on ${backend}`);
+    }
+    console.log(`Loading ${model.label} segmentation on ${backend}...`);
+
+    try {
+      const loaded = model.config.kind === 'bodypix'
+        ? await loadBodyPixProvider(model, model.config, settings)
+        : await loadGraphProvider(model, model.config, settings);
+      console.log(`🧠 ${model.label} segmentation loaded`);
+      return loaded;
+    } catch (error) {
+      console.error(`Failed to load ${model.label}:`, error);
+      throw new Error(`Failed to load ${model.label}. Check the model settings and try again.`);
+    }
+  })();
+
+  active = { key, provider };
+  // A failed load shouldn't stick; the next call tries again
+  provider.catch(() => {
+    if (active?.provider === provider) active = null;
+  });
+  return provider;
+};
+
+export const segmentSubject = async (
+  source: HTMLCanvasElement,
+  options: SegmentOptions = {}
+): Promise<SubjectSegmentation> => {
+  const provider = await getSegmentationProvider();
+  return provider.segment(source, options);
+};
+
+// Bring in a local model from its files: model.json plus its weight shards. It's stored in
+// IndexedDB, since picked files don't outlive the page, and returns the URL to load it from.
+export const importSegmentationModel = async (files: File[]): Promise<string> => {
+  const json = files.find(file => file.name.toLowerCase().endsWith('.json'));
+  if (!json) {
+    throw new Error('Choose the model.json file along with its weight files');
+  }
+  const weights = files.filter(file => file !== json);
+
+  const graph = await tf.loadGraphModel(tf.io.browserFiles([json, ...weights]));
+  try {
+    await graph.save(IMPORTED_MODEL_URL);
+  } catch {
+    throw new Error('Not enough browser storage to keep the model');
+  } finally {
+    graph.dispose();
+  }
+  // The new model is saved under the same URL, so a provider already holding the old one
+  // would otherwise keep using it
+  releaseProvider();
+  console.log(`💾 Imported segmentation model ${json.name} with ${weights.length} weight file(s)`);
+  return IMPORTED_MODEL_URL;
+};
+
+// Remove every cached model; they download again when next used. An imported model is kept,
+// since its files can't be fetched again.
+export const clearSegmentationCache = async (): Promise<number> => {
+  const models = await tf.io.listModels();
+  const urls = Object.keys(models).filter(url => url.startsWith(CACHE_PREFIX));
+  for (const url of urls) {
+    await tf.io.removeModel(url);
+  }
+  releaseProvider();
+  return urls.length;
+};
@@ -0,0 +1,392 @@
+import { SelectionMask, SelectionMode } from '../types/editor';
+
+export interface SelectionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MagicWandOptions {
+  tolerance: number; // 0-255, max per-channel difference from the seed colour
+  contiguous: boolean;
+}
+
+// Coverage at or above this counts as "inside" for outlines and bounds
+const INSIDE_THRESHOLD = 128;
+
+export const createMask = (width: number, height: number, fill: number = 0): SelectionMask => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height).fill(fill)
+});
+
+export const createFullMask = (width: number, height: number): SelectionMask => {
+  return createMask(width, height, 255);
+};
+
+export const isMaskEmpty = (mask: SelectionMask | null | undefined): boolean => {
+  if (!mask) return true;
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Rasterize a filled path into a mask (anti-aliased by the canvas)
+const rasterizeMask = (
+  width: number,
+  height: number,
+  buildPath: (ctx: CanvasRenderingContext2D) => void
+): SelectionMask => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  buildPath(ctx);
+  ctx.fill();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const mask = createMask(width, height);
+  for (let i = 0; i < mask.data.length; i++) {
+    mask.data[i] = data[i * 4 + 3];
+  }
+  return mask;
+};
+
+// Normalize a drag rectangle so width/height are positive
+export const normalizeRect = (rect: SelectionRect): SelectionRect => ({
+  x: Math.min(rect.x, rect.x + rect.width),
+  y: Math.min(rect.y, rect.y + rect.height),
+  width: Math.abs(rect.width),
+  height: Math.abs(rect.height)
+});
+
+export const createRectMask = (width: number, height: number, rect: SelectionRect): SelectionMask => {
+  const { x, y, width: w, height: h } = normalizeRect(rect);
+  return rasterizeMask(width, height, ctx => ctx.rect(x, y, w, h));
+};
+
+export const createEllipseMask = (width: number, height: number, rect: SelectionRect): SelectionMask => {
+  const { x, y, width: w, height: h } = normalizeRect(rect);
+  return rasterizeMask(width, height, ctx => {
+    ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+  });
+};
+
+// Freehand lasso: the polygon is closed automatically
+export const createPolygonMask = (
+  width: number,
+  height: number,
+  points: { x: number; y: number }[]
+): SelectionMask => {
+  return rasterizeMask(width, height, ctx => {
+    points.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.closePath();
+  });
+};
+
+// Select pixels whose colour is within tolerance of the clicked pixel
+export const createMagicWandMask = (
+  imageData: ImageData,
+  seedX: number,
+  seedY: number,
+  options: MagicWandOptions
+): SelectionMask => {
+  const { width, height, data } = imageData;
+  const mask = createMask(width, height);
+  const x0 = Math.floor(seedX);
+  const y0 = Math.floor(seedY);
+  if (x0 < 0 || y0 < 0 || x0 >= width || y0 >= height) return mask;
+
+  const seed = (y0 * width + x0) * 4;
+  const seedR = data[seed];
+  const seedG = data[seed + 1];
+  const seedB = data[seed + 2];
+  const seedA = data[seed + 3];
+  const tolerance = Math.max(0, Math.min(255, options.tolerance));
+
+  const matches = (pixel: number): boolean => {
+    const i = pixel * 4;
+    return Math.abs(data[i] - seedR) <= tolerance &&
+      Math.abs(data[i + 1] - seedG) <= tolerance &&
+      Math.abs(data[i + 2] - seedB) <= tolerance &&
+      Math.abs(data[i + 3] - seedA) <= tolerance;
+  };
+
+  if (!options.contiguous) {
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      if (matches(pixel)) mask.data[pixel] = 255;
+    }
+    return mask;
+  }
+
+  // 4-way flood fill with an explicit stack (each pixel is pushed at most once)
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  stack[top++] = y0 * width + x0;
+  mask.data[y0 * width + x0] = 255;
+
+  while (top > 0) {
+    const pixel = stack[--top];
+    const x = pixel % width;
+    const neighbours = [
+      x > 0 ? pixel - 1 : -1,
+      x < width - 1 ? pixel + 1 : -1,
+      pixel - width,
+      pixel + width
+    ];
+
+    for (const next of neighbours) {
+      if (next < 0 || next >= width * height || mask.data[next] !== 0) continue;
+      if (matches(next)) {
+        mask.data[next] = 255;
+        stack[top++] = next;
+      }
+    }
+  }
+
+  return mask;
+};
+
+// Combine a new shape with the existing selection. Returns null when nothing is left selected.
+export const combineMasks = (
+  base: SelectionMask | null,
+  mask: SelectionMask,
+  mode: SelectionMode
+): SelectionMask | null => {
+  if (mode === 'replace' || (!base && mode === 'add')) {
+    return isMaskEmpty(mask) ? null : mask;
+  }
+  if (!base) {
+    return null; // Subtracting from or intersecting with nothing leaves nothing
+  }
+  if (base.width !== mask.width || base.height !== mask.height) {
+    throw new Error('Selection masks must share the same dimensions');
+  }
+
+  const result = createMask(base.width, base.height);
+  for (let i = 0; i < result.data.length; i++) {
+    const a = base.data[i];
+    const b = mask.data[i];
+    switch (mode) {
+      case 'add':
+        result.data[i] = Math.max(a, b);
+        break;
+      case 'subtract':
+        result.data[i] = (a * (255 - b)) / 255;
+        break;
+      case 'intersect':
+        result.data[i] = Math.min(a, b);
+        break;
+    }
+  }
+
+  return isMaskEmpty(result) ? null : result;
+};
+
+export const invertMask = (mask: SelectionMask): SelectionMask => {
+  const result = createMask(mask.width, mask.height);
+  for (let i = 0; i < result.data.length; i++) {
+    result.data[i] = 255 - mask.data[i];
+  }
+  return result;
+};
+
+export const getMaskBounds = (mask: SelectionMask): SelectionRect | null => {
+  const { width, height, data } = mask;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] >= INSIDE_THRESHOLD) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Resample a mask into another pixel grid. `targetToMask` maps target pixel centres into
+// mask pixel coordinates (e.g. from a layer's pixels into document pixels); target pixels
+// that land outside the mask get `outside`.
+export const transformMask = (
+  mask: SelectionMask,
+  targetWidth: number,
+  targetHeight: number,
+  targetToMask: DOMMatrix,
+  outside: number = 0
+): SelectionMask => {
+  const result = createMask(targetWidth, targetHeight, outside);
+  const { a, b, c, d, e, f } = targetToMask;
+
+  for (let y = 0; y < targetHeight; y++) {
+    for (let x = 0; x < targetWidth; x++) {
+      const mx = Math.floor(a * (x + 0.5) + c * (y + 0.5) + e);
+      const my = Math.floor(b * (x + 0.5) + d * (y + 0.5) + f);
+      if (mx >= 0 && my >= 0 && mx < mask.width && my < mask.height) {
+        result.data[y * targetWidth + x] = mask.data[my * mask.width + mx];
+      }
+    }
+  }
+
+  return result;
+};
+
+// Stretch a mask to a new pixel size (e.g. after the layer it belongs to was resized)
+export const resizeMask = (mask: SelectionMask, width: number, height: number): SelectionMask => {
+  if (mask.width === width && mask.height === height) return mask;
+  return transformMask(mask, width, height, new DOMMatrix().scaleSelf(mask.width / width, mask.height / height));
+};
+
+// Blend processed pixels over the originals by mask coverage (same dimensions required)
+export const blendWithMask = (
+  original: ImageData,
+  processed: ImageData,
+  mask: SelectionMask
+): ImageData => {
+  if (original.width !== mask.width || original.height !== mask.height) {
+    throw new Error('Selection mask does not match the image size');
+  }
+
+  const result = new ImageData(new Uint8ClampedArray(original.data), original.width, original.height);
+  for (let pixel = 0; pixel < mask.data.length; pixel++) {
+    const coverage = mask.data[pixel] / 255;
+    if (coverage === 0) continue;
+    const i = pixel * 4;
+    for (let c = 0; c < 4; c++) {
+      result.data[i + c] = original.data[i + c] + (processed.data[i + c] - original.data[i + c]) * coverage;
+    }
+  }
+  return result;
+};
+
+// White canvas whose alpha is the mask, for 'destination-in' compositing
+export const maskToCanvas = (mask: SelectionMask): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const imageData = ctx.createImageData(mask.width, mask.height);
+  for (let pixel = 0; pixel < mask.data.length; pixel++) {
+    const i = pixel * 4;
+    imageData.data[i] = 255;
+    imageData.data[i + 1] = 255;
+    imageData.data[i + 2] = 255;
+    imageData.data[i + 3] = mask.data[pixel];
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Boundary of the selection as line segments [x1, y1, x2, y2, ...] in mask pixel units,
+// with runs along each row and column merged so large selections stay cheap to stroke.
+export const getMaskOutline = (mask: SelectionMask): number[] => {
+  const { width, height, data } = mask;
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && data[y * width + x] >= INSIDE_THRESHOLD;
+  const segments: number[] = [];
+
+  // Horizontal edges between rows y - 1 and y
+  for (let y = 0; y <= height; y++) {
+    let start = -1;
+    for (let x = 0; x <= width; x++) {
+      const edge = x < width && inside(x, y - 1) !== inside(x, y);
+      if (edge && start < 0) {
+        start = x;
+      } else if (!edge && start >= 0) {
+        segments.push(start, y, x, y);
+        start = -1;
+      }
+    }
+  }
+
+  // Vertical edges between columns x - 1 and x
+  for (let x = 0; x <= width; x++) {
+    let start = -1;
+    for (let y = 0; y <= height; y++) {
+      const edge = y < height && inside(x - 1, y) !== inside(x, y);
+      if (edge && start < 0) {
+        start = y;
+      } else if (!edge && start >= 0) {
+        segments.push(x, start, x, y);
+        start = -1;
+      }
+    }
+  }
+
+  return segments;
+};
+
+// Run-length encode a mask as base64 (value byte + varint run length per run)
+export const encodeMask = (mask: SelectionMask): string => {
+  const bytes: number[] = [];
+  let i = 0;
+  while (i < mask.data.length) {
+    const value = mask.data[i];
+    let run = 1;
+    while (i + run < mask.data.length && mask.data[i + run] === value) run++;
+    bytes.push(value);
+    let remaining = run;
+    while (remaining >= 0x80) {
+      bytes.push((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    bytes.push(remaining);
+    i += run;
+  }
+
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.slice(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const decodeMask = (encoded: string, width: number, height: number): SelectionMask => {
+  const binary = atob(encoded);
+  const mask = createMask(width, height);
+  let offset = 0;
+  let position = 0;
+
+  while (position < binary.length && offset < mask.data.length) {
+    const value = binary.charCodeAt(position++);
+    let run = 0;
+    let shift = 1;
+    let byte: number;
+    do {
+      byte = binary.charCodeAt(position++);
+      run += (byte & 0x7f) * shift;
+      shift *= 0x80;
+    } while (byte & 0x80);
+
+    mask.data.fill(value, offset, Math.min(mask.data.length, offset + run));
+    offset += run;
+  }
+
+  return mask;
+};
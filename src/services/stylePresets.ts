@@ -0,0 +1,125 @@
+// Filter-based looks shared by the style transfer dialog and batch recipes
+export interface StylePreset {
+  id: string;
+  name: string;
+  description: string;
+  thumbnail: string;
+  filters: string[];
+  intensity: number;
+  disclaimer: string;
+}
+
+export const stylePresets: StylePreset[] = [
+  {
+    id: 'impressionist',
+    name: 'Impressionist',
+    description: 'Soft, painterly effect with enhanced colors',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><linearGradient id="impressionist" x1="0%" y1="0%" x2="100%" y2="100%"><stop offset="0%" style="stop-color:%2306B6D4"/><stop offset="50%" style="stop-color:%2310B981"/><stop offset="100%" style="stop-color:%23F59E0B"/></linearGradient></defs><rect width="100" height="100" fill="url(%23impressionist)"/></svg>',
+    filters: ['blur(0.8px)', 'contrast(1.15)', 'saturate(1.3)', 'brightness(1.05)'],
+    intensity: 0.7,
+    disclaimer: 'Simulated impressionist effect using image processing'
+  },
+  {
+    id: 'dramatic',
+    name: 'Dramatic',
+    description: 'High contrast with bold shadows and highlights',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><radialGradient id="dramatic"><stop offset="0%" style="stop-color:%23FFF"/><stop offset="70%" style="stop-color:%23666"/><stop offset="100%" style="stop-color:%23000"/></radialGradient></defs><rect width="100" height="100" fill="url(%23dramatic)"/></svg>',
+    filters: ['contrast(1.8)', 'brightness(0.9)', 'saturate(1.2)'],
+    intensity: 0.9,
+    disclaimer: 'Enhanced contrast and lighting effects'
+  },
+  {
+    id: 'vintage',
+    name: 'Vintage Film',
+    description: 'Classic film photography look',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><linearGradient id="vintage" x1="0%" y1="0%" x2="100%" y2="100%"><stop offset="0%" style="stop-color:%23FED7AA"/><stop offset="100%" style="stop-color:%23A78BFA"/></linearGradient></defs><rect width="100" height="100" fill="url(%23vintage)"/></svg>',
+    filters: ['sepia(40%)', 'contrast(1.1)', 'brightness(1.1)', 'saturate(0.8)'],
+    intensity: 0.8,
+    disclaimer: 'Vintage color grading simulation'
+  },
+  {
+    id: 'cyberpunk',
+    name: 'Cyberpunk',
+    description: 'Neon-enhanced digital aesthetic',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect width="100" height="100" fill="%23000"/><rect x="10" y="20" width="80" height="5" fill="%23FF007F"/><rect x="10" y="40" width="60" height="3" fill="%2300FFFF"/><rect x="10" y="60" width="70" height="4" fill="%23FFFF00"/></svg>',
+    filters: ['contrast(1.6)', 'saturate(1.8)', 'hue-rotate(180deg)', 'brightness(0.8)'],
+    intensity: 0.9,
+    disclaimer: 'Digital color enhancement and contrast adjustment'
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    description: 'Soft, flowing watercolor painting effect',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><radialGradient id="watercolor"><stop offset="0%" style="stop-color:%23FF6B9D;stop-opacity:0.6"/><stop offset="50%" style="stop-color:%234ECDC4;stop-opacity:0.4"/><stop offset="100%" style="stop-color:%23FFE66D;stop-opacity:0.3"/></radialGradient></defs><rect width="100" height="100" fill="url(%23watercolor)"/></svg>',
+    filters: ['blur(1px)', 'contrast(0.9)', 'saturate(1.4)', 'brightness(1.1)'],
+    intensity: 0.6,
+    disclaimer: 'Watercolor-inspired softening and color blending'
+  },
+  {
+    id: 'monochrome',
+    name: 'Monochrome',
+    description: 'High-contrast black and white',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><linearGradient id="mono" x1="0%" y1="0%" x2="100%" y2="100%"><stop offset="0%" style="stop-color:%23FFF"/><stop offset="100%" style="stop-color:%23000"/></linearGradient></defs><rect width="100" height="100" fill="url(%23mono)"/></svg>',
+    filters: ['grayscale(100%)', 'contrast(1.5)', 'brightness(1.1)'],
+    intensity: 1.0,
+    disclaimer: 'Monochrome conversion with enhanced contrast'
+  },
+  {
+    id: 'technicolor',
+    name: 'Technicolor',
+    description: 'Vibrant, saturated color like classic films',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect width="33" height="100" fill="%23FF0000"/><rect x="33" width="34" height="100" fill="%2300FF00"/><rect x="67" width="33" height="100" fill="%230000FF"/></svg>',
+    filters: ['saturate(2)', 'contrast(1.3)', 'brightness(1.1)'],
+    intensity: 0.8,
+    disclaimer: 'Enhanced color saturation and vibrancy'
+  },
+  {
+    id: 'dreamy',
+    name: 'Dreamy',
+    description: 'Soft, ethereal glow effect',
+    thumbnail: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><radialGradient id="dreamy"><stop offset="0%" style="stop-color:%23FFE5F1"/><stop offset="100%" style="stop-color:%23E0BBE4"/></radialGradient></defs><rect width="100" height="100" fill="url(%23dreamy)"/></svg>',
+    filters: ['blur(0.5px)', 'contrast(0.9)', 'saturate(1.2)', 'brightness(1.15)'],
+    intensity: 0.7,
+    disclaimer: 'Soft focus and color enhancement'
+  }
+];
+
+export interface AppliedStyle {
+  id: string;
+  intensity: number; // 0-1
+}
+
+export const getStylePreset = (id: string): StylePreset | undefined => {
+  return stylePresets.find(preset => preset.id === id);
+};
+
+// Draw a source with a style over white, blended back towards the original by intensity
+export const drawStyledImage = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  style: StylePreset,
+  intensity: number
+): void => {
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+
+  // High quality rendering
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  // Apply style filters
+  ctx.save();
+  ctx.filter = style.filters.join(' ');
+  ctx.globalAlpha = 0.3 + (intensity * 0.7);
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.restore();
+
+  // Blend with original
+  ctx.save();
+  ctx.globalAlpha = 1 - intensity;
+  ctx.filter = 'none';
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.restore();
+};
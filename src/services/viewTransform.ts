@@ -0,0 +1,182 @@
+import { DocumentSnapshot, ImageState, Layer } from '../types/editor';
+
+export interface ViewState {
+  canvasWidth: number;
+  canvasHeight: number;
+  zoom: number;
+  pan: { x: number; y: number };
+}
+
+// The parts of a document that place its layers
+export type DocumentLayout = Pick<DocumentSnapshot, 'layers' | 'width' | 'height'>;
+
+const getImageSize = (image: HTMLImageElement) => ({
+  width: image.naturalWidth || image.width,
+  height: image.naturalHeight || image.height
+});
+
+// Map document pixels onto the view canvas. The document covers the canvas, is centred,
+// then zoomed/panned and rotated/flipped about its centre by the base layer's `state`.
+export const getDocumentMatrix = (
+  size: { width: number; height: number },
+  state: ImageState,
+  view: ViewState
+): DOMMatrix => {
+  const { width, height } = size;
+  const documentAspect = width / height;
+  const canvasAspect = view.canvasWidth / view.canvasHeight;
+
+  let drawWidth, drawHeight;
+  if (documentAspect > canvasAspect) {
+    drawHeight = view.canvasHeight;
+    drawWidth = view.canvasHeight * documentAspect;
+  } else {
+    drawWidth = view.canvasWidth;
+    drawHeight = view.canvasWidth / documentAspect;
+  }
+
+  return new DOMMatrix()
+    .translateSelf(view.canvasWidth / 2 + view.pan.x, view.canvasHeight / 2 + view.pan.y)
+    .scaleSelf(view.zoom, view.zoom)
+    .rotateSelf(state.rotation)
+    .scaleSelf(state.flipX ? -1 : 1, state.flipY ? -1 : 1)
+    .translateSelf(-drawWidth / 2, -drawHeight / 2)
+    .scaleSelf(drawWidth / width, drawHeight / height);
+};
+
+// An overlay's transform frame in document pixels: centred on its position, then rotated,
+// skewed and scaled about that centre
+export const getOverlayFrameMatrix = (layer: Layer): DOMMatrix => {
+  const skew = layer.skew ?? { x: 0, y: 0 };
+
+  return new DOMMatrix()
+    .translateSelf(layer.position.x, layer.position.y)
+    .rotateSelf(layer.rotation)
+    .skewXSelf(skew.x)
+    .skewYSelf(skew.y)
+    .scaleSelf(layer.scale.x, layer.scale.y);
+};
+
+// Map an overlay layer's transform frame onto the view canvas. `toCanvas` maps document
+// pixels onto the canvas (see getDocumentMatrix).
+export const getLayerFrameMatrix = (toCanvas: DOMMatrix, layer: Layer): DOMMatrix => {
+  return toCanvas.multiply(getOverlayFrameMatrix(layer));
+};
+
+// An overlay's pixels in document pixels (natural size, centred on its position)
+const getOverlayMatrix = (layer: Layer): DOMMatrix => {
+  const { width, height } = getImageSize(layer.image);
+
+  return getOverlayFrameMatrix(layer)
+    .rotateSelf(layer.imageState.rotation)
+    .scaleSelf(layer.imageState.flipX ? -1 : 1, layer.imageState.flipY ? -1 : 1)
+    .translateSelf(-width / 2, -height / 2);
+};
+
+// Map a layer's pixels into document pixels. The first layer is the base image, placed by
+// its top-left corner; the rest are overlays.
+export const getLayerToDocumentMatrix = (document: Pick<DocumentLayout, 'layers'>, layer: Layer): DOMMatrix => {
+  return document.layers[0]?.id === layer.id
+    ? new DOMMatrix().translateSelf(layer.position.x, layer.position.y)
+    : getOverlayMatrix(layer);
+};
+
+// Map a layer's pixels onto the view canvas
+export const getLayerMatrix = (document: DocumentLayout, layer: Layer, view: ViewState): DOMMatrix => {
+  const orientation = document.layers[0]?.imageState ?? layer.imageState;
+  return getDocumentMatrix(document, orientation, view).multiply(getLayerToDocumentMatrix(document, layer));
+};
+
+// Split an overlay's transform frame in document pixels back into its placement. Any
+// vertical skew is folded into the rotation, horizontal skew and scale.
+export const getOverlayPlacement = (frame: DOMMatrix): Pick<Layer, 'position' | 'scale' | 'rotation' | 'skew'> => {
+  const { a, b, c, d, e, f } = frame;
+  const scaleX = Math.hypot(a, b);
+  const scaleY = (a * d - b * c) / scaleX;
+  return {
+    position: { x: e, y: f },
+    scale: { x: scaleX, y: scaleY },
+    rotation: (Math.atan2(b, a) * 180) / Math.PI,
+    skew: { x: (Math.atan((a * c + b * d) / (scaleX * scaleY)) * 180) / Math.PI, y: 0 }
+  };
+};
+
+// Place the base layer as an overlay over the same document pixels, for when another layer
+// takes its place at the bottom
+export const getBaseAsOverlay = (
+  documentLayout: Pick<DocumentLayout, 'layers'>
+): Pick<Layer, 'position' | 'scale' | 'rotation' | 'skew'> => {
+  const base = documentLayout.layers[0];
+  const { width, height } = getImageSize(base.image);
+  return {
+    position: { x: base.position.x + width / 2, y: base.position.y + height / 2 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    skew: { x: 0, y: 0 }
+  };
+};
+
+// Place an overlay as the base layer with its centre on the same document pixel. The base
+// layer has no scale, rotation or skew of its own, so those don't carry over.
+export const getOverlayAsBase = (layer: Layer): Pick<Layer, 'position'> => {
+  const { width, height } = getImageSize(layer.image);
+  return { position: { x: Math.round(layer.position.x - width / 2), y: Math.round(layer.position.y - height / 2) } };
+};
+
+// Size the editor canvas to the document's aspect inside its container, with a floor so small
+// images stay workable. Keeps `current` when the change would be under 10px, to avoid redraws.
+export const getEditorCanvasSize = (
+  documentWidth: number,
+  documentHeight: number,
+  container: { width: number; height: number },
+  current?: { width: number; height: number }
+): { width: number; height: number } => {
+  const maxWidth = Math.min(1400, container.width - 40);
+  const maxHeight = Math.min(900, container.height - 40);
+  const aspectRatio = documentWidth / documentHeight;
+
+  let canvasWidth, canvasHeight;
+  if (aspectRatio > maxWidth / maxHeight) {
+    canvasWidth = maxWidth;
+    canvasHeight = maxWidth / aspectRatio;
+  } else {
+    canvasHeight = maxHeight;
+    canvasWidth = maxHeight * aspectRatio;
+  }
+
+  const minSize = 400;
+  if (canvasWidth < minSize && canvasHeight < minSize) {
+    if (aspectRatio > 1) {
+      canvasWidth = minSize;
+      canvasHeight = minSize / aspectRatio;
+    } else {
+      canvasHeight = minSize;
+      canvasWidth = minSize * aspectRatio;
+    }
+  }
+
+  const size = { width: Math.round(canvasWidth), height: Math.round(canvasHeight) };
+  if (current && Math.abs(current.width - size.width) <= 10 && Math.abs(current.height - size.height) <= 10) {
+    return { width: current.width, height: current.height };
+  }
+  return size;
+};
+
+// Document space is the document's own pixel grid; selections are stored in it. Null for
+// an empty document.
+export const getDocumentSize = (document: DocumentLayout) => {
+  return document.layers.length > 0 ? { width: document.width, height: document.height } : null;
+};
+
+// Convert a mouse event position into view canvas pixels (the canvas may be CSS-scaled)
+export const clientToCanvasPoint = (
+  canvas: HTMLCanvasElement,
+  clientX: number,
+  clientY: number
+): { x: number; y: number } => {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: ((clientX - rect.left) / rect.width) * canvas.width,
+    y: ((clientY - rect.top) / rect.height) * canvas.height
+  };
+};
@@ -0,0 +1,10 @@
+import { buildVignetteGraph } from './renderGraph';
+import { runRenderGraph } from './renderPipeline';
+
+// Darken a canvas towards its corners, in place. Intensity is 0-100; radius is where the
+// falloff starts as a percentage of the centre-to-corner distance.
+export const drawVignette = (canvas: HTMLCanvasElement, intensity: number, radius: number): void => {
+  const graph = buildVignetteGraph(intensity, radius);
+  if (graph.length === 0) return;
+  runRenderGraph(canvas, graph, canvas);
+};
@@ -0,0 +1,157 @@
+import { PixelTaskMap, PixelTaskName, PixelTaskRequest, PixelTaskResponse, PixelTaskResult, runPixelTask } from './pixelTasks';
+
+export interface PixelTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  transfer?: Transferable[]; // Buffers the caller hands over and won't use again
+}
+
+interface PoolJob {
+  id: number;
+  request: PixelTaskRequest;
+  options: PixelTaskOptions;
+  resolve: (result: PixelTaskResult) => void;
+  reject: (error: Error) => void;
+  onAbort: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PoolJob | null;
+}
+
+// Leave a core for the UI, and don't hold more decoded images in flight than is useful
+export const PIXEL_POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const createCancelledError = (): Error => {
+  const error = new Error('Task cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isCancelledError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+const isWorkerSupported = (): boolean => {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+};
+
+const workers: PoolWorker[] = [];
+const queue: PoolJob[] = [];
+let nextJobId = 1;
+
+const finishJob = (job: PoolJob) => {
+  job.options.signal?.removeEventListener('abort', job.onAbort);
+};
+
+const spawnWorker = (): PoolWorker => {
+  const poolWorker: PoolWorker = {
+    worker: new Worker(new URL('../workers/pixelWorker.ts', import.meta.url), { type: 'module' }),
+    job: null
+  };
+
+  poolWorker.worker.onmessage = (event: MessageEvent<PixelTaskResponse>) => {
+    const job = poolWorker.job;
+    const response = event.data;
+    if (!job || job.id !== response.id) return;
+
+    if (response.type === 'progress') {
+      job.options.onProgress?.(response.progress);
+      return;
+    }
+
+    poolWorker.job = null;
+    finishJob(job);
+    if (response.type === 'result') {
+      job.resolve(response.result);
+    } else {
+      job.reject(new Error(response.message));
+    }
+    dispatch();
+  };
+
+  poolWorker.worker.onerror = (event: ErrorEvent) => {
+    console.error('❌ Pixel worker crashed:', event.message);
+    replaceWorker(poolWorker, new Error(event.message || 'Pixel worker crashed'));
+  };
+
+  return poolWorker;
+};
+
+// The only way to stop a running loop is to terminate its worker, so a fresh one takes its place
+const replaceWorker = (poolWorker: PoolWorker, reason: Error) => {
+  const job = poolWorker.job;
+  poolWorker.worker.terminate();
+  workers[workers.indexOf(poolWorker)] = spawnWorker();
+
+  if (job) {
+    finishJob(job);
+    job.reject(reason);
+  }
+  dispatch();
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    let idle = workers.find(poolWorker => !poolWorker.job);
+    if (!idle && workers.length < PIXEL_POOL_SIZE) {
+      idle = spawnWorker();
+      workers.push(idle);
+    }
+    if (!idle) return;
+
+    const job = queue.shift()!;
+    idle.job = job;
+    idle.worker.postMessage(job.request, { transfer: job.options.transfer ?? [] });
+  }
+};
+
+const cancelJob = (job: PoolJob) => {
+  const queued = queue.indexOf(job);
+  if (queued !== -1) {
+    queue.splice(queued, 1);
+    finishJob(job);
+    job.reject(createCancelledError());
+    return;
+  }
+
+  const running = workers.find(poolWorker => poolWorker.job === job);
+  if (running) {
+    replaceWorker(running, createCancelledError());
+  }
+};
+
+// Run a pixel task on the shared worker pool. Tasks queue once every worker is busy and can be
+// cancelled with `signal` whether queued or running. Without worker support they run inline.
+export const runPixelTaskInPool = <T extends PixelTaskName>(
+  task: T,
+  payload: PixelTaskMap[T]['payload'],
+  options: PixelTaskOptions = {}
+): Promise<PixelTaskMap[T]['result']> => {
+  if (options.signal?.aborted) {
+    return Promise.reject(createCancelledError());
+  }
+
+  if (!isWorkerSupported()) {
+    return runPixelTask(task, payload, options.onProgress);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request: PixelTaskRequest<T> = { id: 0, task, payload };
+    const job: PoolJob = {
+      id: nextJobId++,
+      request,
+      options,
+      // The worker answers the request it was sent, so the result matches the task
+      resolve: result => resolve(result as PixelTaskMap[T]['result']),
+      reject,
+      onAbort: () => cancelJob(job)
+    };
+    job.request.id = job.id;
+
+    options.signal?.addEventListener('abort', job.onAbort);
+    queue.push(job);
+    dispatch();
+  });
+};
@@ -0,0 +1,125 @@
+export type ZipCompression = 'store' | 'deflate';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, using forward slashes
+  data: Uint8Array;
+  modified?: Date;
+}
+
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+const TOO_LARGE = 'The archive is too large for a ZIP file';
+
+const textEncoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Also the checksum PNG chunks use
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields (two-second resolution, years from 1980)
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Raw deflate (no zlib header), as ZIP expects. Returns null where the browser can't compress.
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+};
+
+// Build a ZIP archive. Entries that don't shrink when deflated (PNG, JPEG...) are stored as-is.
+export const createZip = async (entries: ZipEntry[], compression: ZipCompression = 'deflate'): Promise<Blob> => {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`A ZIP archive can hold at most ${MAX_ENTRIES} files`);
+  }
+
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = textEncoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const compressed = compression === 'deflate' ? await deflateRaw(entry.data) : null;
+    const useDeflate = !!compressed && compressed.length < entry.data.length;
+    const stored = useDeflate ? compressed! : entry.data;
+    const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+    // Every offset and size field is 32 bits, so the entry has to end within 4 GB
+    const entrySize = 30 + name.length + stored.length;
+    if (entry.data.length > MAX_SIZE || offset + entrySize > MAX_SIZE) {
+      throw new Error(TOO_LARGE);
+    }
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, useDeflate ? 8 : 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, stored.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    // Central directory record pointing back at it
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, useDeflate ? 8 : 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, stored.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, stored);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += entrySize;
+  }
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  if (offset + centralSize > MAX_SIZE) {
+    throw new Error(TOO_LARGE);
+  }
+
+  // End of central directory record
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
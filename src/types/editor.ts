@@ -1,3 +1,5 @@
+import { TextData } from '../components/TextTool';
+
 export interface ImageState {
   brightness: number;
   contrast: number;
@@ -9,14 +11,32 @@ export interface ImageState {
   filter: FilterType;
   vignetteIntensity?: number;
   vignetteRadius?: number;
-  crop: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  } | null;
+  curves: CurvesState | null;
+  region: SelectionMask | null; // When set, adjustments only apply inside this mask (layer pixels)
 }
 
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export interface CurvesState {
+  rgb: CurvePoint[];
+  red: CurvePoint[];
+  green: CurvePoint[];
+  blue: CurvePoint[];
+}
+
+export interface SelectionMask {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // One coverage value per pixel: 0 = unselected, 255 = selected
+}
+
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect';
+
+export type EditorTool = 'move' | 'marquee-rect' | 'marquee-ellipse' | 'lasso' | 'magic-wand' | 'mask-brush' | 'brush' | 'eraser';
+
 export interface Layer {
   id: string;
   name: string;
@@ -24,28 +44,71 @@ export interface Layer {
   visible: boolean;
   opacity: number;
   blendMode: BlendMode;
-  position: {
+  position: { // Document pixels: an overlay's centre, or the base layer's top-left corner
     x: number;
     y: number;
   };
-  scale: {
+  scale: { // Document pixels per layer pixel (overlays only)
     x: number;
     y: number;
   };
   rotation: number;
+  skew?: {
+    x: number; // Degrees
+    y: number;
+  };
   imageState: ImageState;
   locked: boolean;
   thumbnail?: string;
+  mask?: SelectionMask | null; // Grayscale in layer pixels: 255 shows the layer, 0 hides it
+  maskEnabled?: boolean;
+  metadata?: ImageMetadata | null; // From the file the layer was imported from
+}
+
+// Metadata read from an imported JPEG, PNG or WebP. The layer's pixels are already turned
+// upright, so `orientation` only records what the file said.
+export interface ImageMetadata {
+  orientation: number;
+  exif: Uint8Array | null; // The EXIF TIFF structure
+  xmp: string | null;
+  icc: Uint8Array | null; // Embedded colour profile
+  text: Record<string, string>; // PNG text chunks by keyword
 }
 
 export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'hard-light' | 'color-dodge' | 'color-burn' | 'darken' | 'lighten' | 'difference' | 'exclusion';
 
 export type FilterType = 'none' | 'grayscale' | 'sepia' | 'vintage' | 'vibrant' | 'cool' | 'warm';
 
+// What shows behind the layers. 'layer' makes the bottom layer the background, so growing the
+// canvas fills it with a colour; otherwise new canvas area is transparent on every layer.
+export type DocumentBackground =
+  | { type: 'transparent' }
+  | { type: 'color'; color: string }
+  | { type: 'layer' };
+
+// Everything undo can restore. Layers are replaced rather than mutated, so unchanged
+// layers (and their pixels) are shared between snapshots.
+export interface DocumentSnapshot {
+  width: number; // Document pixels, set by the first layer added; layers are clipped to them
+  height: number;
+  layers: Layer[];
+  activeLayerId: string | null;
+  textElements: Map<string, TextData>;
+  background: DocumentBackground;
+  vignette: { intensity: number; radius: number }; // Drawn over the whole composition
+}
+
+export interface HistoryStep {
+  id: string;
+  name: string;
+  timestamp: number;
+  document: DocumentSnapshot;
+  coalesceKey?: string; // Consecutive steps with the same key merge into one
+}
+
 export interface HistoryState {
-  past: ImageState[];
-  present: ImageState;
-  future: ImageState[];
+  steps: HistoryStep[];
+  index: number; // The step the document currently shows; -1 when empty
 }
 
 export interface Tool {
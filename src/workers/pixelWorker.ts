@@ -0,0 +1,16 @@
+import { getResultTransfer, PixelTaskRequest, PixelTaskResponse, runPixelTask } from '../services/pixelTasks';
+
+// One pixel worker in the pool. Runs a task per message and reports progress while it works.
+const respond = (response: PixelTaskResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+self.onmessage = async (event: MessageEvent<PixelTaskRequest>) => {
+  const { id, task, payload } = event.data;
+  try {
+    const result = await runPixelTask(task, payload, progress => respond({ id, type: 'progress', progress }));
+    respond({ id, type: 'result', result }, getResultTransfer(result));
+  } catch (error) {
+    respond({ id, type: 'error', message: error instanceof Error ? error.message : 'Worker task failed' });
+  }
+};